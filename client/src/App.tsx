@@ -12,8 +12,10 @@ import MEPs from "@/pages/meps";
 import MEPProfile from "@/pages/mep-profile";
 import Committees from "@/pages/committees";
 import CommitteeDetail from "@/pages/committee-detail";
+import ProcedureDetail from "@/pages/procedure-detail";
 import Admin from "@/pages/admin";
 import Changes from "@/pages/changes";
+import MyChanges from "@/pages/my-changes";
 import Monitoring from "@/pages/monitoring";
 import AdminUsers from "@/pages/admin-users";
 import NotFound from "@/pages/not-found";
@@ -32,8 +34,10 @@ function Router() {
           <Route path="/meps/:id" component={MEPProfile} />
           <Route path="/committees" component={Committees} />
           <Route path="/committees/:id" component={CommitteeDetail} />
+          <Route path="/procedures/:ref" component={ProcedureDetail} />
           <Route path="/admin" component={Admin} />
           <Route path="/changes" component={Changes} />
+          <Route path="/my-changes" component={MyChanges} />
           <Route path="/monitoring" component={Monitoring} />
           <Route path="/admin/users" component={AdminUsers} />
         </>
@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ListChecks, Play, X } from "lucide-react";
+import { format } from "date-fns";
+
+type JobType = 'syncAll' | 'syncMEPs' | 'syncCommittees' | 'syncEvents' | 'syncMemberships' | 'syncOpenSanctions' | 'applySyncPlan' | 'cleanup' | 'qualityReport' | 'sendDigests';
+
+interface Job {
+  id: string;
+  type: JobType;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  progress: number;
+  progressMessage: string | null;
+  error: string | null;
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  cancelRequested: boolean;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+const JOB_LABELS: Record<JobType, string> = {
+  syncAll: 'Full EU Parliament sync',
+  syncMEPs: 'Sync MEPs',
+  syncCommittees: 'Sync committees',
+  syncEvents: 'Sync events',
+  syncMemberships: 'Sync committee memberships',
+  syncOpenSanctions: 'OpenSanctions sync',
+  applySyncPlan: 'Apply sync plan',
+  cleanup: 'Data cleanup',
+  qualityReport: 'Quality report',
+  sendDigests: 'Send email digests',
+};
+
+/** Poll quickly while work is in flight, slowly otherwise */
+const ACTIVE_REFRESH_MS = 2000;
+const IDLE_REFRESH_MS = 30000;
+
+function JobStatusBadge({ job }: { job: Job }) {
+  switch (job.status) {
+    case 'queued':
+      return (
+        <Badge variant="secondary">
+          {job.attempts > 0 ? `Retry ${job.attempts + 1}/${job.maxAttempts}` : 'Queued'}
+        </Badge>
+      );
+    case 'running':
+      return (
+        <Badge variant="default" className="bg-blue-100 text-blue-800">
+          {job.cancelRequested ? 'Cancelling' : 'Running'}
+        </Badge>
+      );
+    case 'completed':
+      return <Badge variant="default" className="bg-green-100 text-green-800">Completed</Badge>;
+    case 'failed':
+      return <Badge variant="destructive">Failed</Badge>;
+    default:
+      return <Badge variant="outline" className="capitalize">{job.status}</Badge>;
+  }
+}
+
+/**
+ * Background jobs: start sync, cleanup and quality jobs, follow their
+ * progress and cancel them
+ */
+export function JobQueue() {
+  const [type, setType] = useState<JobType>('syncAll');
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: jobs } = useQuery<Job[]>({
+    queryKey: ['/api/jobs'],
+    refetchInterval: (query) =>
+      query.state.data?.some((job) => job.status === 'queued' || job.status === 'running')
+        ? ACTIVE_REFRESH_MS
+        : IDLE_REFRESH_MS,
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message.replace(/^\d+: /, ''),
+      variant: "destructive",
+    });
+  };
+
+  const enqueueMutation = useMutation({
+    mutationFn: (jobType: JobType) => apiRequest('POST', '/api/jobs', { type: jobType }),
+    onSuccess: (_, jobType) => {
+      toast({ title: "Job Queued", description: `${JOB_LABELS[jobType]} will start shortly.` });
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
+    },
+    onError: onError("Job Not Queued"),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('POST', `/api/jobs/${id}/cancel`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/jobs'] }),
+    onError: onError("Cancel Failed"),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ListChecks className="h-5 w-5" />
+              Background Jobs
+            </CardTitle>
+            <CardDescription>
+              Sync, cleanup and quality jobs run in the background and are retried on failure
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={type} onValueChange={(value) => setType(value as JobType)}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {/* Sync plans are applied by approving them under Sync Plans */}
+                {(Object.keys(JOB_LABELS) as JobType[]).filter((key) => key !== 'applySyncPlan').map((key) => (
+                  <SelectItem key={key} value={key}>{JOB_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={() => enqueueMutation.mutate(type)} disabled={enqueueMutation.isPending}>
+              <Play className="h-4 w-4 mr-2" />
+              Run
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {jobs && jobs.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Job</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-1/3">Progress</TableHead>
+                <TableHead>Queued</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {jobs.map((job) => (
+                <TableRow key={job.id}>
+                  <TableCell className="text-sm font-medium">{JOB_LABELS[job.type] || job.type}</TableCell>
+                  <TableCell><JobStatusBadge job={job} /></TableCell>
+                  <TableCell>
+                    {job.status === 'running' || job.status === 'completed' ? (
+                      <div className="space-y-1">
+                        <Progress value={job.progress} className="h-2" />
+                        <div className="text-xs text-muted-foreground">
+                          {job.progress}%{job.progressMessage && ` · ${job.progressMessage}`}
+                        </div>
+                      </div>
+                    ) : job.status === 'queued' && job.attempts > 0 ? (
+                      <div className="text-xs text-muted-foreground">
+                        Next attempt {format(new Date(job.runAt), 'p')}
+                      </div>
+                    ) : null}
+                    {job.error && job.status !== 'completed' && (
+                      <div className="text-xs text-red-600 truncate" title={job.error}>{job.error}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm whitespace-nowrap">{format(new Date(job.createdAt), 'PPp')}</TableCell>
+                  <TableCell className="text-right">
+                    {(job.status === 'queued' || job.status === 'running') && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => cancelMutation.mutate(job.id)}
+                        disabled={cancelMutation.isPending || job.cancelRequested}
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        Cancel
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-4">No jobs have run yet</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
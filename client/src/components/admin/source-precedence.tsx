@@ -0,0 +1,358 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { SOURCE_LABELS } from "@/components/meps/field-source";
+import { ArrowUp, GitMerge, RotateCcw, X, Check } from "lucide-react";
+import { format } from "date-fns";
+
+interface PrecedenceRule {
+  field: string;
+  sources: string[];
+  reviewConflicts: boolean;
+  isBuiltIn: boolean;
+}
+
+interface FieldConflict {
+  id: string;
+  mepId: string;
+  field: string;
+  currentValue: unknown;
+  currentSource: string | null;
+  incomingValue: unknown;
+  incomingSource: string;
+  fetchedAt: string;
+  status: 'open' | 'accepted' | 'dismissed';
+  resolvedAt: string | null;
+  mep: { id: string; fullName: string; country: string };
+}
+
+interface ConflictPage {
+  data: FieldConflict[];
+  pagination: { page: number; limit: number; total: number; totalPages: number };
+}
+
+const CONFLICTS_PER_PAGE = 20;
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function sourceLabel(source: string | null) {
+  return source ? SOURCE_LABELS[source] || source : 'Unknown';
+}
+
+/**
+ * Per-field source priority: which sync source may overwrite which,
+ * and whether disagreements are queued for review
+ */
+function PrecedenceRules() {
+  const [newField, setNewField] = useState('');
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery<{ rules: PrecedenceRule[]; sources: string[] }>({
+    queryKey: ['/api/sync/precedence'],
+  });
+
+  const onSaved = () => queryClient.invalidateQueries({ queryKey: ['/api/sync/precedence'] });
+  const onError = () => {
+    toast({
+      title: "Save Failed",
+      description: "The precedence rule could not be saved.",
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (rule: Omit<PrecedenceRule, 'isBuiltIn'>) =>
+      apiRequest('PUT', `/api/sync/precedence/${encodeURIComponent(rule.field)}`, {
+        sources: rule.sources,
+        reviewConflicts: rule.reviewConflicts,
+      }),
+    onSuccess: onSaved,
+    onError,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: (field: string) => apiRequest('DELETE', `/api/sync/precedence/${encodeURIComponent(field)}`),
+    onSuccess: onSaved,
+    onError,
+  });
+
+  if (!data) {
+    return <div className="h-24 bg-gray-200 rounded animate-pulse"></div>;
+  }
+
+  const defaultRule = data.rules.find((rule) => rule.field === '*');
+
+  const promote = (rule: PrecedenceRule, index: number) => {
+    const sources = [...rule.sources];
+    [sources[index - 1], sources[index]] = [sources[index], sources[index - 1]];
+    saveMutation.mutate({ ...rule, sources });
+  };
+
+  const toggleSource = (rule: PrecedenceRule, source: string) => {
+    const sources = rule.sources.includes(source)
+      ? rule.sources.filter((name) => name !== source)
+      : [...rule.sources, source];
+    if (sources.length > 0) saveMutation.mutate({ ...rule, sources });
+  };
+
+  const addRule = () => {
+    const field = newField.trim();
+    if (!field || !defaultRule) return;
+    saveMutation.mutate({ field, sources: defaultRule.sources, reviewConflicts: true });
+    setNewField('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Field</TableHead>
+            <TableHead>Priority (highest first)</TableHead>
+            <TableHead>Review conflicts</TableHead>
+            <TableHead></TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {data.rules.map((rule) => (
+            <TableRow key={rule.field}>
+              <TableCell className="text-sm font-medium whitespace-nowrap">
+                {rule.field === '*' ? 'All other fields' : rule.field}
+                {rule.isBuiltIn && <Badge variant="secondary" className="ml-2">Built-in</Badge>}
+              </TableCell>
+              <TableCell>
+                <div className="flex flex-wrap items-center gap-1">
+                  {rule.sources.map((source, index) => (
+                    <Badge key={source} variant="outline" className="gap-1">
+                      {index + 1}. {sourceLabel(source)}
+                      {index > 0 && (
+                        <button onClick={() => promote(rule, index)} disabled={saveMutation.isPending} title="Raise priority">
+                          <ArrowUp className="h-3 w-3" />
+                        </button>
+                      )}
+                      {rule.sources.length > 1 && (
+                        <button onClick={() => toggleSource(rule, source)} disabled={saveMutation.isPending} title="Remove source">
+                          <X className="h-3 w-3" />
+                        </button>
+                      )}
+                    </Badge>
+                  ))}
+                  {data.sources.filter((source) => !rule.sources.includes(source)).map((source) => (
+                    <Button
+                      key={source}
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 text-xs text-muted-foreground"
+                      onClick={() => toggleSource(rule, source)}
+                      disabled={saveMutation.isPending}
+                    >
+                      + {sourceLabel(source)}
+                    </Button>
+                  ))}
+                </div>
+              </TableCell>
+              <TableCell>
+                <Switch
+                  checked={rule.reviewConflicts}
+                  onCheckedChange={(reviewConflicts) => saveMutation.mutate({ ...rule, reviewConflicts })}
+                  disabled={saveMutation.isPending}
+                />
+              </TableCell>
+              <TableCell className="text-right">
+                {!rule.isBuiltIn && (
+                  <Button variant="ghost" size="sm" onClick={() => resetMutation.mutate(rule.field)} disabled={resetMutation.isPending}>
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Reset
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <div className="flex gap-2 max-w-md">
+        <Input
+          placeholder="Field name, e.g. email"
+          value={newField}
+          onChange={(event) => setNewField(event.target.value)}
+          onKeyDown={(event) => event.key === 'Enter' && addRule()}
+        />
+        <Button variant="outline" onClick={addRule} disabled={!newField.trim() || saveMutation.isPending}>
+          Add Rule
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        A source may overwrite a value written by any source ranked below it. Lower-ranked values are
+        ignored unless conflicts are reviewed; values from equally ranked sources are always queued.
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Values a sync source could not write on its own, awaiting an admin decision
+ */
+function ConflictQueue() {
+  const [status, setStatus] = useState<FieldConflict['status']>('open');
+  const [page, setPage] = useState(1);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery<ConflictPage>({
+    queryKey: [`/api/sync/conflicts?status=${status}&page=${page}&limit=${CONFLICTS_PER_PAGE}`],
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: ({ id, resolution }: { id: string; resolution: 'accept' | 'dismiss' }) =>
+      apiRequest('POST', `/api/sync/conflicts/${id}/resolve`, { resolution }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith('/api/sync/conflicts'),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Resolution Failed",
+        description: error.message.replace(/^\d+: /, ''),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <Select value={status} onValueChange={(value) => { setStatus(value as FieldConflict['status']); setPage(1); }}>
+        <SelectTrigger className="w-48">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="open">Open</SelectItem>
+          <SelectItem value="accepted">Accepted</SelectItem>
+          <SelectItem value="dismissed">Dismissed</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {!data ? (
+        <div className="h-24 bg-gray-200 rounded animate-pulse"></div>
+      ) : data.data.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">No {status} conflicts</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>MEP</TableHead>
+              <TableHead>Field</TableHead>
+              <TableHead>Current</TableHead>
+              <TableHead>Incoming</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.data.map((conflict) => (
+              <TableRow key={conflict.id}>
+                <TableCell className="text-sm">
+                  <Link href={`/meps/${conflict.mep.id}`} className="font-medium text-primary hover:underline">
+                    {conflict.mep.fullName}
+                  </Link>
+                  <div className="text-xs text-muted-foreground">{conflict.mep.country}</div>
+                </TableCell>
+                <TableCell className="text-sm font-medium">{conflict.field}</TableCell>
+                <TableCell className="text-xs">
+                  <div>{formatValue(conflict.currentValue)}</div>
+                  <div className="text-muted-foreground">{sourceLabel(conflict.currentSource)}</div>
+                </TableCell>
+                <TableCell className="text-xs">
+                  <div>{formatValue(conflict.incomingValue)}</div>
+                  <div className="text-muted-foreground">
+                    {sourceLabel(conflict.incomingSource)}, {format(new Date(conflict.fetchedAt), 'PP')}
+                  </div>
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {conflict.status === 'open' ? (
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => resolveMutation.mutate({ id: conflict.id, resolution: 'dismiss' })}
+                        disabled={resolveMutation.isPending}
+                      >
+                        Keep Current
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => resolveMutation.mutate({ id: conflict.id, resolution: 'accept' })}
+                        disabled={resolveMutation.isPending}
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Accept
+                      </Button>
+                    </div>
+                  ) : conflict.resolvedAt && (
+                    <span className="text-xs text-muted-foreground">{format(new Date(conflict.resolvedAt), 'PP')}</span>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {data && data.pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>{data.pagination.total.toLocaleString()} conflicts</span>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+              Previous
+            </Button>
+            <span>Page {page} of {data.pagination.totalPages}</span>
+            <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= data.pagination.totalPages}>
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Source merge settings: per-field precedence rules and the review queue
+ * for values the rules could not settle
+ */
+export function SourcePrecedence() {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitMerge className="h-5 w-5" />
+          Source Precedence
+        </CardTitle>
+        <CardDescription>
+          Decide which data source wins per MEP field, and review values the rules could not settle
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        <PrecedenceRules />
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold">Conflict Review Queue</h3>
+          <ConflictQueue />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
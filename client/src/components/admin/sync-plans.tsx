@@ -0,0 +1,376 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Check, ClipboardList, X } from "lucide-react";
+import { format } from "date-fns";
+
+type SyncPlanAction = 'create_mep' | 'update_mep' | 'deactivate_mep' | 'create_committee' | 'open_membership' | 'change_role';
+
+interface SyncPlan {
+  id: string;
+  status: string;
+  fullSync: boolean;
+  summary: Record<SyncPlanAction | 'unchanged', number>;
+  errors: string[] | null;
+  createdAt: string;
+  reviewedAt: string | null;
+  appliedAt: string | null;
+}
+
+/** The background job that generates a plan */
+interface PlanningJob {
+  id: string;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  error: string | null;
+  result: SyncPlan | null;
+}
+
+/** Poll while a plan is being generated or applied */
+const JOB_REFRESH_MS = 2000;
+
+interface SyncPlanChange {
+  id: string;
+  action: SyncPlanAction;
+  entityId: string;
+  label: string;
+  fieldChanges: { field: string; before: unknown; after: unknown }[];
+}
+
+const ACTION_LABELS: Record<SyncPlanAction, string> = {
+  create_mep: 'New MEPs',
+  update_mep: 'MEP updates',
+  deactivate_mep: 'Deactivations',
+  create_committee: 'New committees',
+  open_membership: 'New memberships',
+  change_role: 'Role changes',
+};
+
+/** Changes listed at once; the rest are summarized by count */
+const VISIBLE_CHANGES = 100;
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function PlanStatusBadge({ status }: { status: string }) {
+  switch (status) {
+    case 'pending':
+      return <Badge variant="default" className="bg-amber-100 text-amber-800">Pending review</Badge>;
+    case 'applied':
+      return <Badge variant="default" className="bg-green-100 text-green-800">Applied</Badge>;
+    case 'approved':
+      return <Badge variant="default" className="bg-blue-100 text-blue-800">Applying</Badge>;
+    case 'failed':
+      return <Badge variant="destructive">Failed</Badge>;
+    default:
+      return <Badge variant="secondary" className="capitalize">{status}</Badge>;
+  }
+}
+
+function PlanReview({ planId }: { planId: string }) {
+  const [action, setAction] = useState<SyncPlanAction | 'all'>('all');
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: plan, isLoading } = useQuery<SyncPlan & { changes: SyncPlanChange[] }>({
+    queryKey: ['/api/sync/plans', planId],
+    refetchInterval: (query) => (query.state.data?.status === 'approved' ? JOB_REFRESH_MS : false),
+  });
+
+  const onReviewed = (title: string, description: string) => {
+    toast({ title, description });
+    queryClient.invalidateQueries({ queryKey: ['/api/sync/plans'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/sync/status'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
+  };
+
+  const onReviewError = (error: Error) => {
+    toast({
+      title: "Review Failed",
+      description: error.message.replace(/^\d+: /, ''),
+      variant: "destructive",
+    });
+    queryClient.invalidateQueries({ queryKey: ['/api/sync/plans'] });
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/sync/plans/${planId}/approve`),
+    onSuccess: () => onReviewed("Plan Approved", "The planned changes are being written in the background."),
+    onError: onReviewError,
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/sync/plans/${planId}/reject`),
+    onSuccess: () => onReviewed("Plan Rejected", "No changes were written."),
+    onError: onReviewError,
+  });
+
+  if (isLoading || !plan) {
+    return <div className="h-24 bg-gray-200 rounded animate-pulse"></div>;
+  }
+
+  const changes = action === 'all' ? plan.changes : plan.changes.filter((change) => change.action === action);
+  const isPending = plan.status === 'pending';
+  const isReviewing = approveMutation.isPending || rejectMutation.isPending;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(ACTION_LABELS) as SyncPlanAction[]).map((key) => (
+          <Badge
+            key={key}
+            variant="outline"
+            className={key === 'deactivate_mep' && plan.summary[key] > 0 ? 'border-red-300 text-red-700' : undefined}
+          >
+            {ACTION_LABELS[key]}: {plan.summary[key] ?? 0}
+          </Badge>
+        ))}
+        <Badge variant="secondary">Unchanged: {plan.summary.unchanged ?? 0}</Badge>
+      </div>
+
+      {plan.errors && plan.errors.length > 0 && (
+        <div className="text-sm text-red-600 space-y-1">
+          {plan.errors.slice(0, 3).map((error, index) => (
+            <div key={index} className="text-xs bg-red-50 p-2 rounded">
+              {error}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <Select value={action} onValueChange={(value) => setAction(value as SyncPlanAction | 'all')}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All changes ({plan.changes.length})</SelectItem>
+            {(Object.keys(ACTION_LABELS) as SyncPlanAction[]).map((key) => (
+              <SelectItem key={key} value={key}>{ACTION_LABELS[key]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {isPending && (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => rejectMutation.mutate()} disabled={isReviewing}>
+              <X className="h-4 w-4 mr-2" />
+              Reject
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button disabled={isReviewing || plan.changes.length === 0}>
+                  <Check className="h-4 w-4 mr-2" />
+                  {approveMutation.isPending ? 'Approving...' : 'Approve & Apply'}
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Apply this sync plan?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    {plan.changes.length.toLocaleString()} changes will be written to the database,
+                    including {plan.summary.deactivate_mep ?? 0} MEP deactivations.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => approveMutation.mutate()}>Apply</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        )}
+      </div>
+
+      {changes.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">No changes planned</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Change</TableHead>
+              <TableHead>Record</TableHead>
+              <TableHead>Fields</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {changes.slice(0, VISIBLE_CHANGES).map((change) => (
+              <TableRow key={change.id}>
+                <TableCell className="whitespace-nowrap">
+                  <Badge variant={change.action === 'deactivate_mep' ? 'destructive' : 'outline'}>
+                    {ACTION_LABELS[change.action]}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-sm font-medium">{change.label}</TableCell>
+                <TableCell className="text-xs text-muted-foreground">
+                  {change.fieldChanges.slice(0, 3).map((fieldChange) => (
+                    <div key={fieldChange.field}>
+                      <span className="font-medium text-gray-900">{fieldChange.field}</span>:{' '}
+                      {formatValue(fieldChange.before)} → {formatValue(fieldChange.after)}
+                    </div>
+                  ))}
+                  {change.fieldChanges.length > 3 && (
+                    <div>+{change.fieldChanges.length - 3} more fields</div>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+      {changes.length > VISIBLE_CHANGES && (
+        <p className="text-xs text-muted-foreground">
+          Showing {VISIBLE_CHANGES} of {changes.length.toLocaleString()} changes
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Dry-run sync plans: generate a plan of the writes a sync would make,
+ * review it, then approve or reject it before anything is written
+ */
+export function SyncPlans() {
+  const [selectedId, setSelectedId] = useState<string>();
+  const [planningJobId, setPlanningJobId] = useState<string>();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: plans } = useQuery<SyncPlan[]>({
+    queryKey: ['/api/sync/plans'],
+    refetchInterval: (query) => (query.state.data?.some((plan) => plan.status === 'approved') ? JOB_REFRESH_MS : false),
+  });
+
+  const { data: planningJob } = useQuery<PlanningJob>({
+    queryKey: ['/api/jobs', planningJobId],
+    enabled: !!planningJobId,
+    refetchInterval: JOB_REFRESH_MS,
+  });
+
+  // Show the plan once its job has finished; a failed attempt is retried by the queue
+  useEffect(() => {
+    if (!planningJob || planningJob.id !== planningJobId) return;
+    if (planningJob.status === 'completed') {
+      toast({
+        title: "Dry Run Complete",
+        description: "A sync plan is ready for review. Nothing has been written yet.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/sync/plans'] });
+      setSelectedId(planningJob.result?.id);
+      setPlanningJobId(undefined);
+    } else if (planningJob.status === 'failed' || planningJob.status === 'cancelled') {
+      toast({
+        title: "Dry Run Failed",
+        description: planningJob.error || "The sync plan could not be generated.",
+        variant: "destructive",
+      });
+      setPlanningJobId(undefined);
+    }
+  }, [planningJob, planningJobId, queryClient, toast]);
+
+  const createMutation = useMutation({
+    mutationFn: async (full: boolean) => {
+      const response = await apiRequest('POST', '/api/sync/plans', { full });
+      return response.json() as Promise<{ message: string; job: PlanningJob }>;
+    },
+    onSuccess: ({ job }) => {
+      setPlanningJobId(job.id);
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
+    },
+    onError: () => {
+      toast({
+        title: "Dry Run Failed",
+        description: "The sync plan could not be generated.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isPlanning = createMutation.isPending || !!planningJobId;
+
+  const selected = plans?.find((plan) => plan.id === selectedId) || plans?.find((plan) => plan.status === 'pending');
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardList className="h-5 w-5" />
+              Sync Plans
+            </CardTitle>
+            <CardDescription>
+              Preview creates, updates, deactivations and membership changes before they are written
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => createMutation.mutate(true)} disabled={isPlanning}>
+              Full Dry Run
+            </Button>
+            <Button onClick={() => createMutation.mutate(false)} disabled={isPlanning}>
+              {isPlanning ? 'Planning...' : 'Generate Dry Run'}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {plans && plans.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Generated</TableHead>
+                <TableHead>Mode</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Changes</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {plans.map((plan) => {
+                const total = (Object.keys(ACTION_LABELS) as SyncPlanAction[])
+                  .reduce((sum, key) => sum + (plan.summary[key] ?? 0), 0);
+                return (
+                  <TableRow key={plan.id} className={plan.id === selected?.id ? 'bg-muted/50' : undefined}>
+                    <TableCell className="text-sm">{format(new Date(plan.createdAt), 'PPp')}</TableCell>
+                    <TableCell className="text-sm">{plan.fullSync ? 'Full' : 'Incremental'}</TableCell>
+                    <TableCell><PlanStatusBadge status={plan.status} /></TableCell>
+                    <TableCell className="text-right text-sm">{total.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => setSelectedId(plan.id)}>
+                        Review
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-4">No sync plans generated yet</p>
+        )}
+
+        {selected && <PlanReview key={selected.id} planId={selected.id} />}
+      </CardContent>
+    </Card>
+  );
+}
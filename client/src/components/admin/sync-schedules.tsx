@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Clock } from "lucide-react";
+import { format } from "date-fns";
+
+export interface SyncSchedule {
+  stage: string;
+  label: string;
+  cronExpression: string;
+  timezone: string;
+  enabled: boolean;
+  nextRun: string | null;
+  updatedAt: string | null;
+}
+
+interface ScheduleChanges {
+  cronExpression?: string;
+  timezone?: string;
+  enabled?: boolean;
+}
+
+function ScheduleRow({ schedule, onSave, isSaving }: {
+  schedule: SyncSchedule;
+  onSave: (changes: ScheduleChanges) => void;
+  isSaving: boolean;
+}) {
+  const [cronExpression, setCronExpression] = useState(schedule.cronExpression);
+  const [timezone, setTimezone] = useState(schedule.timezone);
+  const isDirty = cronExpression !== schedule.cronExpression || timezone !== schedule.timezone;
+
+  return (
+    <TableRow>
+      <TableCell className="text-sm font-medium whitespace-nowrap">{schedule.label}</TableCell>
+      <TableCell>
+        <Switch
+          checked={schedule.enabled}
+          onCheckedChange={(enabled) => onSave({ enabled })}
+          disabled={isSaving}
+        />
+      </TableCell>
+      <TableCell>
+        <Input
+          value={cronExpression}
+          onChange={(event) => setCronExpression(event.target.value)}
+          className="font-mono text-sm w-40"
+        />
+      </TableCell>
+      <TableCell>
+        <Input
+          value={timezone}
+          onChange={(event) => setTimezone(event.target.value)}
+          className="text-sm w-40"
+        />
+      </TableCell>
+      <TableCell className="text-sm whitespace-nowrap">
+        {schedule.enabled && schedule.nextRun
+          ? format(new Date(schedule.nextRun), 'PPp')
+          : <span className="text-muted-foreground">—</span>}
+      </TableCell>
+      <TableCell className="text-right">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onSave({ cronExpression, timezone })}
+          disabled={!isDirty || isSaving}
+        >
+          Save
+        </Button>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+/**
+ * Per-stage sync schedules: enable, disable or edit the cron expression of
+ * each stage and see when it runs next
+ */
+export function SyncSchedules() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: status } = useQuery<{ schedules: SyncSchedule[] }>({
+    queryKey: ['/api/scheduler/status'],
+    refetchInterval: 60000,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: ({ stage, changes }: { stage: string; changes: ScheduleChanges }) =>
+      apiRequest('PUT', `/api/scheduler/schedules/${stage}`, changes),
+    onSuccess: () => {
+      toast({ title: "Schedule Saved", description: "The new schedule is active." });
+      queryClient.invalidateQueries({ queryKey: ['/api/scheduler/status'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/sync/status'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Schedule Not Saved",
+        description: error.message.replace(/^\d+: /, ''),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5" />
+          Sync Schedules
+        </CardTitle>
+        <CardDescription>
+          Cron schedule per sync stage (minute hour day month weekday). Each run is queued as a background job.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!status ? (
+          <div className="h-24 bg-gray-200 rounded animate-pulse"></div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Stage</TableHead>
+                <TableHead>Enabled</TableHead>
+                <TableHead>Cron expression</TableHead>
+                <TableHead>Timezone</TableHead>
+                <TableHead>Next run</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {status.schedules.map((schedule) => (
+                <ScheduleRow
+                  key={`${schedule.stage}:${schedule.updatedAt}`}
+                  schedule={schedule}
+                  onSave={(changes) => saveMutation.mutate({ stage: schedule.stage, changes })}
+                  isSaving={saveMutation.isPending}
+                />
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
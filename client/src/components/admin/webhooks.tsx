@@ -0,0 +1,439 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { ChevronLeft, ChevronRight, KeyRound, RotateCcw, Trash2, Webhook } from "lucide-react";
+import { format } from "date-fns";
+
+type WebhookEventType = 'mep.created' | 'mep.updated' | 'membership.added' | 'committee_event.created' | 'sync.failed';
+type DeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+interface WebhookSubscription {
+  id: string;
+  url: string;
+  description: string | null;
+  eventTypes: WebhookEventType[];
+  isActive: boolean;
+  createdAt: string;
+  pendingDeliveries: number;
+  failedDeliveries: number;
+  lastDeliveredAt: string | null;
+}
+
+interface WebhookDelivery {
+  id: string;
+  eventType: WebhookEventType;
+  status: DeliveryStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number | null;
+  deliveredAt: string | null;
+  createdAt: string;
+}
+
+interface DeliveryPage {
+  data: WebhookDelivery[];
+  pagination: { page: number; limit: number; total: number; totalPages: number };
+}
+
+const EVENT_LABELS: Record<WebhookEventType, string> = {
+  'mep.created': 'MEP created',
+  'mep.updated': 'MEP updated',
+  'membership.added': 'Membership added',
+  'committee_event.created': 'Committee event created',
+  'sync.failed': 'Sync failed',
+};
+
+const DELIVERIES_PER_PAGE = 20;
+
+function DeliveryStatusBadge({ delivery }: { delivery: WebhookDelivery }) {
+  switch (delivery.status) {
+    case 'delivered':
+      return <Badge variant="default" className="bg-green-100 text-green-800">Delivered</Badge>;
+    case 'failed':
+      return <Badge variant="destructive">Failed</Badge>;
+    default:
+      return (
+        <Badge variant="secondary">
+          {delivery.attempts > 0 ? `Retry ${delivery.attempts + 1}/${delivery.maxAttempts}` : 'Pending'}
+        </Badge>
+      );
+  }
+}
+
+/**
+ * Delivery log of one subscription, with redelivery of finished attempts
+ */
+function DeliveryLog({ subscription }: { subscription: WebhookSubscription }) {
+  const [status, setStatus] = useState<DeliveryStatus | 'all'>('all');
+  const [page, setPage] = useState(1);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery<DeliveryPage>({
+    queryKey: [`/api/webhooks/${subscription.id}/deliveries`, status, page],
+    queryFn: async () => {
+      const params = new URLSearchParams({ page: page.toString(), limit: DELIVERIES_PER_PAGE.toString() });
+      if (status !== 'all') params.set('status', status);
+      const response = await apiRequest('GET', `/api/webhooks/${subscription.id}/deliveries?${params.toString()}`);
+      return response.json();
+    },
+    refetchInterval: 10000,
+  });
+
+  const redeliverMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('POST', `/api/webhooks/deliveries/${id}/redeliver`),
+    onSuccess: () => {
+      toast({ title: "Redelivery Queued", description: "The event will be sent again shortly." });
+      queryClient.invalidateQueries({ queryKey: [`/api/webhooks/${subscription.id}/deliveries`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/webhooks'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Redelivery Failed",
+        description: error.message.replace(/^\d+: /, ''),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const totalPages = data?.pagination.totalPages || 1;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <h4 className="text-sm font-medium truncate">Deliveries to {subscription.url}</h4>
+        <Select
+          value={status}
+          onValueChange={(value) => {
+            setStatus(value as DeliveryStatus | 'all');
+            setPage(1);
+          }}
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All deliveries</SelectItem>
+            <SelectItem value="pending">Pending</SelectItem>
+            <SelectItem value="delivered">Delivered</SelectItem>
+            <SelectItem value="failed">Failed</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {!data ? (
+        <div className="h-24 bg-gray-200 rounded animate-pulse"></div>
+      ) : data.data.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">No deliveries yet</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Event</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Response</TableHead>
+              <TableHead>Created</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.data.map((delivery) => (
+              <TableRow key={delivery.id}>
+                <TableCell className="text-sm font-medium">{EVENT_LABELS[delivery.eventType] || delivery.eventType}</TableCell>
+                <TableCell><DeliveryStatusBadge delivery={delivery} /></TableCell>
+                <TableCell className="max-w-xs">
+                  <div className="text-xs text-muted-foreground">
+                    {delivery.responseStatus !== null && `HTTP ${delivery.responseStatus}`}
+                    {delivery.durationMs !== null && ` · ${delivery.durationMs} ms`}
+                    {delivery.status === 'pending' && delivery.attempts > 0 && ` · next attempt ${format(new Date(delivery.nextAttemptAt), 'p')}`}
+                  </div>
+                  {delivery.error && (
+                    <div className="text-xs text-red-600 truncate" title={delivery.responseBody || delivery.error}>{delivery.error}</div>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm whitespace-nowrap">{format(new Date(delivery.createdAt), 'PPp')}</TableCell>
+                <TableCell className="text-right">
+                  {delivery.status !== 'pending' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => redeliverMutation.mutate(delivery.id)}
+                      disabled={redeliverMutation.isPending}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Redeliver
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+            <ChevronLeft className="w-4 h-4 mr-1" />
+            Previous
+          </Button>
+          <span className="text-sm text-muted-foreground">Page {page} of {totalPages}</span>
+          <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+            Next
+            <ChevronRight className="w-4 h-4 ml-1" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Webhook subscriptions: endpoints notified of change events, their signing
+ * secrets and delivery logs
+ */
+export function Webhooks() {
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [eventTypes, setEventTypes] = useState<WebhookEventType[]>(['mep.created', 'mep.updated']);
+  const [selectedId, setSelectedId] = useState<string>();
+  const [revealed, setRevealed] = useState<{ url: string; secret: string }>();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: subscriptions } = useQuery<WebhookSubscription[]>({
+    queryKey: ['/api/webhooks'],
+    refetchInterval: 30000,
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message.replace(/^\d+: /, ''),
+      variant: "destructive",
+    });
+  };
+  const onChanged = () => queryClient.invalidateQueries({ queryKey: ['/api/webhooks'] });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/webhooks', {
+        url: url.trim(),
+        description: description.trim() || null,
+        eventTypes,
+      });
+      return response.json() as Promise<WebhookSubscription & { secret: string }>;
+    },
+    onSuccess: (created) => {
+      setRevealed({ url: created.url, secret: created.secret });
+      setUrl('');
+      setDescription('');
+      onChanged();
+    },
+    onError: onError("Webhook Not Added"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, isActive }: { id: string; isActive: boolean }) =>
+      apiRequest('PUT', `/api/webhooks/${id}`, { isActive }),
+    onSuccess: onChanged,
+    onError: onError("Update Failed"),
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('POST', `/api/webhooks/${id}/rotate-secret`);
+      return response.json() as Promise<WebhookSubscription & { secret: string }>;
+    },
+    onSuccess: (rotated) => setRevealed({ url: rotated.url, secret: rotated.secret }),
+    onError: onError("Rotation Failed"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/webhooks/${id}`),
+    onSuccess: (_, id) => {
+      if (id === selectedId) setSelectedId(undefined);
+      onChanged();
+    },
+    onError: onError("Delete Failed"),
+  });
+
+  const toggleEvent = (eventType: WebhookEventType, checked: boolean) => {
+    setEventTypes(checked ? [...eventTypes, eventType] : eventTypes.filter((type) => type !== eventType));
+  };
+
+  const selected = subscriptions?.find((subscription) => subscription.id === selectedId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Webhook className="h-5 w-5" />
+          Webhooks
+        </CardTitle>
+        <CardDescription>
+          Notify other services of MEP, membership and committee event changes and failed syncs.
+          Payloads are signed with HMAC-SHA256 and retried with backoff until delivered.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input
+              placeholder="https://example.org/hooks/mepwatch"
+              value={url}
+              onChange={(event) => setUrl(event.target.value)}
+            />
+            <Input
+              placeholder="Description (optional)"
+              value={description}
+              onChange={(event) => setDescription(event.target.value)}
+              className="sm:max-w-xs"
+            />
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!url.trim() || eventTypes.length === 0 || createMutation.isPending}
+            >
+              Add Webhook
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-4">
+            {(Object.keys(EVENT_LABELS) as WebhookEventType[]).map((key) => (
+              <label key={key} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={eventTypes.includes(key)}
+                  onCheckedChange={(checked) => toggleEvent(key, checked === true)}
+                />
+                {EVENT_LABELS[key]}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {revealed && (
+          <div className="rounded border border-amber-300 bg-amber-50 p-3 space-y-1">
+            <div className="text-sm font-medium">Signing secret for {revealed.url}</div>
+            <code className="block text-xs break-all">{revealed.secret}</code>
+            <div className="text-xs text-muted-foreground">
+              Copy it now; it will not be shown again. Verify the <code>X-MEPWatch-Signature</code> header
+              as the HMAC-SHA256 of <code>{'<timestamp>.<body>'}</code>.
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => setRevealed(undefined)}>Dismiss</Button>
+          </div>
+        )}
+
+        {subscriptions && subscriptions.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Endpoint</TableHead>
+                <TableHead>Events</TableHead>
+                <TableHead>Deliveries</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {subscriptions.map((subscription) => (
+                <TableRow key={subscription.id} className={subscription.id === selected?.id ? 'bg-muted/50' : undefined}>
+                  <TableCell className="max-w-xs">
+                    <div className="text-sm font-medium truncate" title={subscription.url}>{subscription.url}</div>
+                    {subscription.description && (
+                      <div className="text-xs text-muted-foreground truncate">{subscription.description}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {subscription.eventTypes.map((eventType) => (
+                        <Badge key={eventType} variant="outline" className="text-xs">{eventType}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                    <div>
+                      {subscription.lastDeliveredAt
+                        ? `Last ${format(new Date(subscription.lastDeliveredAt), 'PPp')}`
+                        : 'None delivered'}
+                    </div>
+                    {subscription.pendingDeliveries > 0 && <div>{subscription.pendingDeliveries} pending</div>}
+                    {subscription.failedDeliveries > 0 && (
+                      <div className="text-red-600">{subscription.failedDeliveries} failed</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={subscription.isActive}
+                      onCheckedChange={(isActive) => updateMutation.mutate({ id: subscription.id, isActive })}
+                      disabled={updateMutation.isPending}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button variant="ghost" size="sm" onClick={() => setSelectedId(subscription.id)}>
+                      Deliveries
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => rotateMutation.mutate(subscription.id)}
+                      disabled={rotateMutation.isPending}
+                      title="Rotate signing secret"
+                    >
+                      <KeyRound className="h-4 w-4" />
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="sm" disabled={deleteMutation.isPending} title="Delete webhook">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete this webhook?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            {subscription.url} will receive no further events, and its delivery log is removed.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => deleteMutation.mutate(subscription.id)}>Delete</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-4">No webhooks configured</p>
+        )}
+
+        {selected && <DeliveryLog key={selected.id} subscription={selected} />}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,7 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Users, Bus, ExternalLink } from "lucide-react";
+import { Users, Bus, ExternalLink, GitBranch } from "lucide-react";
 import { Link } from "wouter";
 import type { Committee, PaginatedResponse } from "@/lib/types";
 
@@ -9,14 +9,17 @@ interface CommitteeGridProps {
   data: PaginatedResponse<Committee>;
   isLoading?: boolean;
   compact?: boolean;
+  title?: string;
+  /** All listed committees, used to link subcommittees and their parents */
+  catalogue?: Committee[];
 }
 
-export function CommitteeGrid({ data, isLoading, compact = false }: CommitteeGridProps) {
+export function CommitteeGrid({ data, isLoading, compact = false, title = "Parliamentary Committees", catalogue = data.data }: CommitteeGridProps) {
   if (isLoading) {
     return (
       <Card>
         <CardHeader>
-          <CardTitle>Parliamentary Committees</CardTitle>
+          <CardTitle>{title}</CardTitle>
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -35,64 +38,99 @@ export function CommitteeGrid({ data, isLoading, compact = false }: CommitteeGri
   }
 
   const displayCommittees = compact ? data.data.slice(0, 3) : data.data;
+  const parentOf = (committee: Committee) =>
+    catalogue.find((candidate) => candidate.id === committee.parentCommitteeId);
+  const subcommitteesOf = (committee: Committee) =>
+    catalogue.filter((candidate) => candidate.parentCommitteeId === committee.id);
 
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Parliamentary Committees</CardTitle>
+        <CardTitle>{title}</CardTitle>
       </CardHeader>
       <CardContent>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {displayCommittees.map((committee) => (
-            <div
-              key={committee.id}
-              className="border border-gray-200 rounded-lg p-4 hover:border-primary transition-colors"
-            >
-              <div className="flex items-start justify-between mb-3">
-                <h4 className="font-semibold text-gray-900 text-sm line-clamp-2">
-                  {committee.name}
-                </h4>
-                <Badge variant="secondary">{committee.code}</Badge>
-              </div>
+          {displayCommittees.map((committee) => {
+            const parent = parentOf(committee);
+            const subcommittees = subcommitteesOf(committee);
+            return (
+              <div
+                key={committee.id}
+                className="border border-gray-200 rounded-lg p-4 hover:border-primary transition-colors"
+              >
+                <div className="flex items-start justify-between mb-3">
+                  <h4 className="font-semibold text-gray-900 text-sm line-clamp-2">
+                    {committee.name}
+                  </h4>
+                  <Badge variant="secondary">{committee.code}</Badge>
+                </div>
 
-              <div className="space-y-2 mb-4">
-                {committee.coordinatorName && (
+                <div className="space-y-2 mb-4">
+                  {parent && (
+                    <div className="flex items-center text-sm">
+                      <GitBranch className="text-slate-gray mr-2 h-4 w-4" />
+                      <span className="text-gray-700">
+                        Subcommittee of{" "}
+                        <Link href={`/committees/${parent.id}`} className="font-medium text-primary hover:underline">
+                          {parent.code}
+                        </Link>
+                      </span>
+                    </div>
+                  )}
+                  {subcommittees.length > 0 && (
+                    <div className="flex items-center text-sm">
+                      <GitBranch className="text-slate-gray mr-2 h-4 w-4" />
+                      <span className="text-gray-700">
+                        Subcommittees:{" "}
+                        {subcommittees.map((subcommittee, index) => (
+                          <span key={subcommittee.id}>
+                            {index > 0 && ", "}
+                            <Link href={`/committees/${subcommittee.id}`} className="font-medium text-primary hover:underline">
+                              {subcommittee.code}
+                            </Link>
+                          </span>
+                        ))}
+                      </span>
+                    </div>
+                  )}
+                  {committee.coordinatorName && (
+                    <div className="flex items-center text-sm">
+                      <Bus className="text-slate-gray mr-2 h-4 w-4" />
+                      <span className="text-gray-700">
+                        Chair: <span className="font-medium">{committee.coordinatorName}</span>
+                      </span>
+                    </div>
+                  )}
                   <div className="flex items-center text-sm">
-                    <Bus className="text-slate-gray mr-2 h-4 w-4" />
+                    <Users className="text-slate-gray mr-2 h-4 w-4" />
                     <span className="text-gray-700">
-                      Chair: <span className="font-medium">{committee.coordinatorName}</span>
+                      {committee.members?.length || 0} members
                     </span>
                   </div>
-                )}
-                <div className="flex items-center text-sm">
-                  <Users className="text-slate-gray mr-2 h-4 w-4" />
-                  <span className="text-gray-700">
-                    {committee.members?.length || 0} members
-                  </span>
                 </div>
-              </div>
 
-              <div className="flex gap-2">
-                <Link href={`/committees/${committee.id}`}>
-                  <Button variant="outline" size="sm" className="flex-1">
-                    View Details
-                  </Button>
-                </Link>
-                {committee.officialUrl && (
-                  <a
-                    href={committee.officialUrl}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    title="View on EU Parliament official website"
-                  >
-                    <Button variant="ghost" size="sm">
-                      <ExternalLink className="h-4 w-4" />
+                <div className="flex gap-2">
+                  <Link href={`/committees/${committee.id}`}>
+                    <Button variant="outline" size="sm" className="flex-1">
+                      View Details
                     </Button>
-                  </a>
-                )}
+                  </Link>
+                  {committee.officialUrl && (
+                    <a
+                      href={committee.officialUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      title="View on EU Parliament official website"
+                    >
+                      <Button variant="ghost" size="sm">
+                        <ExternalLink className="h-4 w-4" />
+                      </Button>
+                    </a>
+                  )}
+                </div>
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
 
         {compact && data.data.length > 3 && (
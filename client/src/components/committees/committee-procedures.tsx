@@ -0,0 +1,78 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { api } from "@/lib/api";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FileText } from "lucide-react";
+import { format } from "date-fns";
+
+interface CommitteeProceduresProps {
+  committeeId: string;
+}
+
+export function CommitteeProcedures({ committeeId }: CommitteeProceduresProps) {
+  const { data: procedures, isLoading } = useQuery({
+    queryKey: ['/api/committees', committeeId, 'procedures'],
+    queryFn: () => api.getCommitteeProcedures(committeeId),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <FileText className="w-5 h-5 mr-2" />
+          Legislative Procedures
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4 animate-pulse">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-10 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : !procedures || procedures.length === 0 ? (
+          <p className="text-slate-gray text-center py-8">No procedures found</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Reference</TableHead>
+                  <TableHead>Title</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Stage</TableHead>
+                  <TableHead>Last Event</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {procedures.map((procedure) => (
+                  <TableRow key={procedure.reference} className="hover:bg-gray-50">
+                    <TableCell className="whitespace-nowrap">
+                      <Link href={`/procedures/${encodeURIComponent(procedure.reference)}`}>
+                        <span className="text-blue-600 hover:text-blue-800 font-medium cursor-pointer">
+                          {procedure.reference}
+                        </span>
+                      </Link>
+                    </TableCell>
+                    <TableCell className="max-w-md">{procedure.title}</TableCell>
+                    <TableCell>
+                      <Badge variant={procedure.role === 'lead' ? 'default' : 'outline'}>
+                        {procedure.role === 'lead' ? 'Lead' : 'Opinion'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-slate-gray">{procedure.stage || '—'}</TableCell>
+                    <TableCell className="text-sm text-slate-gray whitespace-nowrap">
+                      {procedure.lastEventDate ? format(new Date(procedure.lastEventDate), 'PP') : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
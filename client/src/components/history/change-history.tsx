@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { ChevronLeft, ChevronRight, History } from "lucide-react";
+import { format } from "date-fns";
+import type { ChangeLog } from "@/lib/types";
+
+interface ChangeHistoryProps {
+  entityType: 'meps' | 'committees';
+  entityId: string;
+}
+
+const PAGE_SIZE = 20;
+
+export function ChangeHistory({ entityType, entityId }: ChangeHistoryProps) {
+  const [page, setPage] = useState(1);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const { data, isLoading } = useQuery({
+    queryKey: [`/api/${entityType}`, entityId, 'history', { page, from, to }],
+    queryFn: () => api.getEntityHistory(entityType, entityId, { page, limit: PAGE_SIZE, from, to }),
+    placeholderData: (previous) => previous,
+  });
+
+  const changes = data?.data || [];
+  const totalPages = data?.pagination.totalPages || 1;
+
+  const formatFieldName = (field: string) => {
+    return field
+      .replace(/([A-Z])/g, ' $1')
+      .replace(/^./, (char) => char.toUpperCase());
+  };
+
+  const formatValue = (value: unknown) => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  };
+
+  const getBadgeVariant = (changeType: string) => {
+    switch (changeType) {
+      case 'created':
+        return 'default';
+      case 'transferred':
+        return 'outline';
+      default:
+        return 'secondary';
+    }
+  };
+
+  const renderFieldChanges = (change: ChangeLog) => {
+    const fieldChanges = change.fieldChanges || [];
+    if (fieldChanges.length === 0) {
+      return <p className="text-sm text-slate-gray">No field-level details recorded</p>;
+    }
+
+    return (
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-slate-gray">
+            <th className="font-medium py-1 pr-4 w-1/4">Field</th>
+            <th className="font-medium py-1 pr-4">Before</th>
+            <th className="font-medium py-1">After</th>
+          </tr>
+        </thead>
+        <tbody>
+          {fieldChanges.map((fieldChange) => (
+            <tr key={fieldChange.field} className="align-top border-t border-gray-100">
+              <td className="py-1 pr-4 font-medium">{formatFieldName(fieldChange.field)}</td>
+              <td className="py-1 pr-4 text-red-700 line-through break-all">{formatValue(fieldChange.before)}</td>
+              <td className="py-1 text-green-700 break-all">{formatValue(fieldChange.after)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <CardTitle className="flex items-center">
+            <History className="w-5 h-5 mr-2" />
+            Change History
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <label htmlFor="history-from" className="text-sm text-slate-gray">From</label>
+            <Input
+              id="history-from"
+              type="date"
+              value={from}
+              onChange={(e) => { setFrom(e.target.value); setPage(1); }}
+              className="w-40"
+            />
+            <label htmlFor="history-to" className="text-sm text-slate-gray">To</label>
+            <Input
+              id="history-to"
+              type="date"
+              value={to}
+              onChange={(e) => { setTo(e.target.value); setPage(1); }}
+              className="w-40"
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4 animate-pulse">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-16 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : changes.length === 0 ? (
+          <p className="text-slate-gray text-center py-4">No recorded changes</p>
+        ) : (
+          <div className="space-y-4">
+            {changes.map((change) => (
+              <div key={change.id} className="border rounded-lg p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <Badge variant={getBadgeVariant(change.changeType)}>
+                    {change.changeType.charAt(0).toUpperCase() + change.changeType.slice(1)}
+                  </Badge>
+                  <span className="text-sm text-slate-gray">
+                    {format(new Date(change.createdAt), 'PPP p')}
+                  </span>
+                </div>
+                {renderFieldChanges(change)}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between mt-6">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1}
+            >
+              <ChevronLeft className="w-4 h-4 mr-1" />
+              Previous
+            </Button>
+            <span className="text-sm text-slate-gray">
+              Page {page} of {totalPages}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(page + 1)}
+              disabled={page >= totalPages}
+            >
+              Next
+              <ChevronRight className="w-4 h-4 ml-1" />
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
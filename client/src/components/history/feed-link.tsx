@@ -0,0 +1,24 @@
+import { Button } from "@/components/ui/button";
+import { Rss } from "lucide-react";
+
+interface FeedLinkProps {
+  /** Feed path without the format extension, e.g. `/feeds/changes` */
+  path: string;
+  size?: "default" | "sm";
+}
+
+/**
+ * Link to the public Atom feed of a page
+ *
+ * The RSS variant is served at the same path with `.rss`.
+ */
+export function FeedLink({ path, size = "default" }: FeedLinkProps) {
+  return (
+    <Button variant="outline" size={size} asChild>
+      <a href={`${path}.atom`} target="_blank" rel="noopener noreferrer" title="Subscribe in a feed reader">
+        <Rss className="h-4 w-4 mr-2" />
+        Feed
+      </a>
+    </Button>
+  );
+}
@@ -27,6 +27,7 @@ export function Header() {
     { name: "Dashboard", href: "/", current: location === "/" },
     { name: "MEPs", href: "/meps", current: location.startsWith("/meps") },
     { name: "Committees", href: "/committees", current: location.startsWith("/committees") },
+    { name: "My Changes", href: "/my-changes", current: location.startsWith("/my-changes") },
     ...(isAdmin ? [
       { name: "Monitoring", href: "/monitoring", current: location.startsWith("/monitoring") },
       { name: "Admin", href: "/admin/users", current: location.startsWith("/admin") },
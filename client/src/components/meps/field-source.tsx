@@ -0,0 +1,41 @@
+import type { ReactNode } from "react";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { format } from "date-fns";
+import type { FieldProvenance } from "@/lib/types";
+
+export const SOURCE_LABELS: Record<string, string> = {
+  eu_parliament_api: 'EU Parliament Open Data API',
+  opensanctions: 'OpenSanctions',
+  seat_count_adjustment: 'Seat count adjustment (sync)',
+  data_cleanup: 'Duplicate cleanup',
+  fix_script: 'Data fix script',
+};
+
+interface FieldSourceProps {
+  provenance?: Record<string, FieldProvenance>;
+  field: string;
+  children: ReactNode;
+}
+
+/**
+ * Show which source last wrote a profile field, and when it was fetched, on hover
+ */
+export function FieldSource({ provenance, field, children }: FieldSourceProps) {
+  const origin = provenance?.[field];
+  if (!origin) return <>{children}</>;
+
+  return (
+    <Tooltip delayDuration={300}>
+      <TooltipTrigger asChild>
+        <span className="cursor-help">{children}</span>
+      </TooltipTrigger>
+      <TooltipContent side="top" className="max-w-xs">
+        <div className="text-xs space-y-1">
+          <p className="font-medium">Source: {SOURCE_LABELS[origin.source] || origin.source}</p>
+          <p className="text-muted-foreground">Fetched {format(new Date(origin.fetchedAt), 'PPp')}</p>
+          {origin.sourceUrl && <p className="text-muted-foreground break-all">{origin.sourceUrl}</p>}
+        </div>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
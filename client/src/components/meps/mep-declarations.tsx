@@ -0,0 +1,280 @@
+import { useState, type FormEvent } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Download, FileText, Upload } from "lucide-react";
+import { format } from "date-fns";
+import type { DeclarationItem, DeclarationUpload } from "@/lib/types";
+
+interface MEPDeclarationsProps {
+  mepId: string;
+}
+
+const CATEGORY_LABELS: Record<DeclarationItem['category'], string> = {
+  outside_activity: 'Outside Activities',
+  holding: 'Holdings',
+  other: 'Other Interests',
+};
+
+/**
+ * Read a file as base64 without the data URL prefix
+ */
+function readAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Parse transcribed items, one per line: "section | income band | description".
+ * Section and band may be left empty; a line without separators is a description.
+ */
+function parseItemLines(text: string): DeclarationUpload['items'] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const parts = line.split('|').map((part) => part.trim());
+      if (parts.length < 3) return { description: line };
+      const [section, incomeBand, ...description] = parts;
+      return {
+        section: section || undefined,
+        incomeBand: incomeBand || undefined,
+        description: description.join(' | '),
+      };
+    });
+}
+
+function DeclarationUploadDialog({ mepId }: MEPDeclarationsProps) {
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [declarationDate, setDeclarationDate] = useState("");
+  const [itemLines, setItemLines] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const isXML = file?.name.toLowerCase().endsWith('.xml') ?? false;
+
+  const uploadMutation = useMutation({
+    mutationFn: async () => {
+      const content = await readAsBase64(file!);
+      return api.uploadDeclaration(mepId, {
+        declarationDate: declarationDate || undefined,
+        format: isXML ? 'xml' : 'pdf',
+        content,
+        items: !isXML && itemLines.trim() ? parseItemLines(itemLines) : undefined,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Declaration Uploaded",
+        description: "The declaration version has been stored.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/meps', mepId, 'declarations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/meps', mepId, 'history'] });
+      setOpen(false);
+      setFile(null);
+      setDeclarationDate("");
+      setItemLines("");
+    },
+    onError: () => {
+      toast({
+        title: "Upload Failed",
+        description: "The declaration could not be stored. Check the file and date.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (file) uploadMutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Upload className="w-4 h-4 mr-2" />
+          Upload
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Upload Declaration</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="declaration-file">PDF or structured XML file</Label>
+            <Input
+              id="declaration-file"
+              type="file"
+              accept=".pdf,.xml"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="declaration-date">Declaration date{isXML ? ' (optional, read from XML)' : ''}</Label>
+            <Input
+              id="declaration-date"
+              type="date"
+              value={declarationDate}
+              onChange={(e) => setDeclarationDate(e.target.value)}
+              required={!isXML}
+            />
+          </div>
+          {!isXML && (
+            <div>
+              <Label htmlFor="declaration-items">Line items (optional)</Label>
+              <Textarea
+                id="declaration-items"
+                rows={6}
+                placeholder={"C | 2 | Member of the board, Example Foundation\nF | | Shares in Example plc"}
+                value={itemLines}
+                onChange={(e) => setItemLines(e.target.value)}
+              />
+              <p className="text-xs text-slate-gray mt-1">
+                One item per line: DPI section | income band | description
+              </p>
+            </div>
+          )}
+          <div className="flex justify-end">
+            <Button type="submit" disabled={!file || uploadMutation.isPending}>
+              {uploadMutation.isPending ? 'Uploading...' : 'Upload'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function MEPDeclarations({ mepId }: MEPDeclarationsProps) {
+  const { user } = useAuth();
+  const isAdmin = (user as any)?.role === 'admin';
+  const [selectedId, setSelectedId] = useState<string>();
+
+  const { data: declarations, isLoading } = useQuery({
+    queryKey: ['/api/meps', mepId, 'declarations'],
+    queryFn: () => api.getMEPDeclarations(mepId),
+  });
+
+  const declaration = declarations?.find((version) => version.id === selectedId) || declarations?.[0];
+
+  const groupedItems = (Object.keys(CATEGORY_LABELS) as DeclarationItem['category'][])
+    .map((category) => ({
+      category,
+      items: declaration?.items.filter((item) => item.category === category) || [],
+    }))
+    .filter((group) => group.items.length > 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <CardTitle className="flex items-center">
+            <FileText className="w-5 h-5 mr-2" />
+            Declaration of Financial Interests
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            {declarations && declarations.length > 0 && (
+              <Select value={declaration?.id} onValueChange={setSelectedId}>
+                <SelectTrigger className="w-56">
+                  <SelectValue placeholder="Select version" />
+                </SelectTrigger>
+                <SelectContent>
+                  {declarations.map((version) => (
+                    <SelectItem key={version.id} value={version.id}>
+                      Version {version.version} · {format(new Date(version.declarationDate), 'PP')}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {isAdmin && <DeclarationUploadDialog mepId={mepId} />}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4 animate-pulse">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-10 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : !declaration ? (
+          <p className="text-slate-gray text-center py-4">No declarations recorded</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex flex-wrap items-center gap-3">
+              <Badge variant={declaration.isParsed ? 'default' : 'secondary'}>
+                {declaration.isParsed ? `${declaration.items.length} declared items` : 'Not yet transcribed'}
+              </Badge>
+              {declaration.documentUrl && (
+                <a
+                  href={declaration.documentUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-sm text-blue-600 hover:text-blue-800"
+                >
+                  Official document ↗
+                </a>
+              )}
+              {declaration.storedFile && (
+                <a
+                  href={`/api/meps/${mepId}/declarations/${declaration.id}/document`}
+                  className="text-sm text-blue-600 hover:text-blue-800 inline-flex items-center"
+                >
+                  <Download className="w-3 h-3 mr-1" />
+                  Uploaded {declaration.documentFormat?.toUpperCase() || 'file'}
+                </a>
+              )}
+            </div>
+
+            {declaration.isParsed && groupedItems.length === 0 && (
+              <p className="text-slate-gray">No interests declared in this version</p>
+            )}
+
+            {groupedItems.map((group) => (
+              <div key={group.category}>
+                <h4 className="font-semibold text-gray-900 mb-2">{CATEGORY_LABELS[group.category]}</h4>
+                <ul className="space-y-2">
+                  {group.items.map((item) => (
+                    <li key={item.id} className="flex items-start justify-between gap-4 border rounded-lg p-3">
+                      <div className="flex items-start gap-2">
+                        {item.section && <Badge variant="outline">{item.section}</Badge>}
+                        <span className="text-sm text-gray-900">{item.description}</span>
+                      </div>
+                      {item.incomeBand && (
+                        <span className="text-xs text-slate-gray whitespace-nowrap">Income band {item.incomeBand}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+
+            {declarations && declarations.length > 1 && (
+              <p className="text-xs text-slate-gray">
+                Differences between versions are listed in the History tab.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,172 @@
+import { useState, type FormEvent } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { ChevronLeft, ChevronRight, Mic, Search } from "lucide-react";
+import { format } from "date-fns";
+import type { Speech } from "@/lib/types";
+
+interface MEPSpeechesProps {
+  mepId: string;
+}
+
+const PAGE_SIZE = 10;
+
+/**
+ * Render a search snippet, turning <mark> delimiters into highlights
+ * without injecting the speech text as HTML
+ */
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+  const parts = snippet.split(/<mark>|<\/mark>/);
+  return (
+    <p className="text-sm text-gray-700">
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-200 rounded px-0.5">{part}</mark>
+        ) : (
+          <span key={index}>{part}</span>
+        )
+      )}
+      …
+    </p>
+  );
+}
+
+export function MEPSpeeches({ mepId }: MEPSpeechesProps) {
+  const [page, setPage] = useState(1);
+  const [input, setInput] = useState("");
+  const [query, setQuery] = useState("");
+
+  const { data: speeches, isLoading: speechesLoading } = useQuery({
+    queryKey: ['/api/meps', mepId, 'speeches', { page }],
+    queryFn: () => api.getMEPSpeeches(mepId, page, PAGE_SIZE),
+    enabled: !query,
+    placeholderData: (previous) => previous,
+  });
+
+  const { data: results, isLoading: resultsLoading } = useQuery({
+    queryKey: ['/api/speeches/search', { q: query, mepId, page }],
+    queryFn: () => api.searchSpeeches({ q: query, mepId, page, limit: PAGE_SIZE }),
+    enabled: !!query,
+    placeholderData: (previous) => previous,
+  });
+
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault();
+    setQuery(input.trim().length >= 2 ? input.trim() : "");
+    setPage(1);
+  };
+
+  const isLoading = query ? resultsLoading : speechesLoading;
+  const items = (query ? results?.data : speeches?.data) || [];
+  const totalPages = (query ? results?.pagination.totalPages : speeches?.pagination.totalPages) || 1;
+
+  const renderHeader = (speech: Speech) => (
+    <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-medium text-gray-900">
+          {format(new Date(speech.speechDate), 'PPP')}
+        </span>
+        {speech.language && <Badge variant="outline">{speech.language}</Badge>}
+      </div>
+      {speech.officialUrl && (
+        <a
+          href={speech.officialUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          Verbatim report ↗
+        </a>
+      )}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <CardTitle className="flex items-center">
+            <Mic className="w-5 h-5 mr-2" />
+            Plenary Speeches
+          </CardTitle>
+          <form onSubmit={handleSearch} className="flex items-center gap-2">
+            <Input
+              placeholder="Search speeches..."
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              className="w-64"
+            />
+            <Button type="submit" variant="outline" size="sm">
+              <Search className="w-4 h-4" />
+            </Button>
+          </form>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4 animate-pulse">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-20 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : items.length === 0 ? (
+          <p className="text-slate-gray text-center py-4">
+            {query ? `No speeches match "${query}"` : 'No plenary speeches recorded'}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {query
+              ? results?.data.map((result) => (
+                  <div key={result.id} className="border rounded-lg p-4">
+                    {renderHeader(result)}
+                    {result.debateTitle && (
+                      <p className="text-sm font-medium text-gray-900 mb-2">{result.debateTitle}</p>
+                    )}
+                    <HighlightedSnippet snippet={result.snippet} />
+                  </div>
+                ))
+              : speeches?.data.map((speech) => (
+                  <div key={speech.id} className="border rounded-lg p-4">
+                    {renderHeader(speech)}
+                    {speech.debateTitle && (
+                      <p className="text-sm font-medium text-gray-900 mb-2">{speech.debateTitle}</p>
+                    )}
+                    <p className="text-sm text-gray-700 line-clamp-4 whitespace-pre-line">{speech.text}</p>
+                  </div>
+                ))}
+          </div>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between mt-6">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1}
+            >
+              <ChevronLeft className="w-4 h-4 mr-1" />
+              Previous
+            </Button>
+            <span className="text-sm text-slate-gray">
+              Page {page} of {totalPages}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(page + 1)}
+              disabled={page >= totalPages}
+            >
+              Next
+              <ChevronRight className="w-4 h-4 ml-1" />
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,9 +4,9 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Eye, Download, ChevronLeft, ChevronRight, ExternalLink } from "lucide-react";
+import { Eye, Download, ChevronLeft, ChevronRight, ExternalLink, ArrowUp, ArrowDown, ArrowUpDown } from "lucide-react";
 import { Link } from "wouter";
-import type { MEP, PaginatedResponse } from "@/lib/types";
+import type { MEP, MEPSortField, PaginatedResponse } from "@/lib/types";
 
 /**
  * MEPTable Component Props
@@ -15,13 +15,23 @@ import type { MEP, PaginatedResponse } from "@/lib/types";
  * @property {PaginatedResponse<MEP>} data - Paginated MEP data with committee information
  * @property {boolean} [isLoading] - Loading state for skeleton display
  * @property {function} [onPageChange] - Callback for pagination navigation
+ * @property {object} [sort] - Active server-side sort; activity columns are only sortable when `onSortChange` is set
+ * @property {function} [onSortChange] - Callback when an activity column header is clicked
  */
 interface MEPTableProps {
   data: PaginatedResponse<MEP>;
   isLoading?: boolean;
   onPageChange?: (page: number) => void;
+  sort?: { sortBy?: MEPSortField; sortOrder?: 'asc' | 'desc' };
+  onSortChange?: (sortBy: MEPSortField, sortOrder: 'asc' | 'desc') => void;
 }
 
+const activityColumns: Array<{ field: MEPSortField; label: string; key: 'questionsCount' | 'reportsCount' | 'speechesCount' }> = [
+  { field: 'questions', label: 'Questions', key: 'questionsCount' },
+  { field: 'reports', label: 'Reports', key: 'reportsCount' },
+  { field: 'speeches', label: 'Speeches', key: 'speechesCount' },
+];
+
 /**
  * MEPTable - Comprehensive table component for displaying EU Parliament Members
  * 
@@ -43,7 +53,7 @@ interface MEPTableProps {
  * @param {MEPTableProps} props - Component properties
  * @returns {JSX.Element} Rendered MEP table component
  */
-export function MEPTable({ data, isLoading, onPageChange }: MEPTableProps) {
+export function MEPTable({ data, isLoading, onPageChange, sort, onSortChange }: MEPTableProps) {
   if (isLoading) {
     return (
       <Card>
@@ -86,6 +96,29 @@ export function MEPTable({ data, isLoading, onPageChange }: MEPTableProps) {
     return `${firstName.charAt(0)}${lastName.charAt(0)}`.toUpperCase();
   };
 
+  // Activity counts sort most active first; clicking the active column flips the order
+  const renderSortableHead = (field: MEPSortField, label: string) => {
+    if (!onSortChange) {
+      return <TableHead key={field} className="text-right">{label}</TableHead>;
+    }
+    const isActive = sort?.sortBy === field;
+    const nextOrder = isActive && sort?.sortOrder !== 'asc' ? 'asc' : 'desc';
+    const SortIcon = !isActive ? ArrowUpDown : sort?.sortOrder === 'asc' ? ArrowUp : ArrowDown;
+    return (
+      <TableHead key={field} className="text-right">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="-mr-3"
+          onClick={() => onSortChange(field, nextOrder)}
+        >
+          {label}
+          <SortIcon className="ml-1 h-3 w-3" />
+        </Button>
+      </TableHead>
+    );
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -106,6 +139,7 @@ export function MEPTable({ data, isLoading, onPageChange }: MEPTableProps) {
                 <TableHead>Country</TableHead>
                 <TableHead>Political Group</TableHead>
                 <TableHead>Committees</TableHead>
+                {activityColumns.map((column) => renderSortableHead(column.field, column.label))}
                 <TableHead>Actions</TableHead>
               </TableRow>
             </TableHeader>
@@ -156,6 +190,11 @@ export function MEPTable({ data, isLoading, onPageChange }: MEPTableProps) {
                       )}
                     </div>
                   </TableCell>
+                  {activityColumns.map((column) => (
+                    <TableCell key={column.field} className="text-right text-sm text-gray-900">
+                      {mep[column.key] ?? 0}
+                    </TableCell>
+                  ))}
                   <TableCell>
                     <div className="flex items-center space-x-2">
                       {mep.officialUrl && (
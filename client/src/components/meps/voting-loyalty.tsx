@@ -0,0 +1,121 @@
+import { useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { api } from "@/lib/api";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Vote } from "lucide-react";
+import { format } from "date-fns";
+import type { LoyaltyRate } from "@/lib/types";
+
+interface VotingLoyaltyProps {
+  mepId: string;
+}
+
+const chartConfig = {
+  groupRate: {
+    label: "With political group",
+    color: "var(--primary)",
+  },
+  nationalRate: {
+    label: "With national delegation",
+    color: "var(--slate-gray)",
+  },
+} satisfies ChartConfig;
+
+export function VotingLoyalty({ mepId }: VotingLoyaltyProps) {
+  const { data: loyalty, isLoading } = useQuery({
+    queryKey: ['/api/meps', mepId, 'loyalty'],
+    queryFn: () => api.getMEPLoyalty(mepId),
+  });
+
+  const formatRate = (rate: number | null) => {
+    return rate === null ? '—' : `${Math.round(rate * 100)}%`;
+  };
+
+  const renderRate = (label: string, tally: LoyaltyRate) => (
+    <div className="border rounded-lg p-4">
+      <p className="text-sm text-slate-gray">{label}</p>
+      <p className="text-2xl font-bold text-gray-900">{formatRate(tally.rate)}</p>
+      <p className="text-xs text-slate-gray">
+        {tally.withMajority} of {tally.votes} votes
+      </p>
+    </div>
+  );
+
+  // Rates are plotted as percentages
+  const timeline = (loyalty?.timeline || []).map((point) => ({
+    month: point.month,
+    groupRate: point.groupRate === null ? null : Math.round(point.groupRate * 100),
+    nationalRate: point.nationalRate === null ? null : Math.round(point.nationalRate * 100),
+  }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Vote className="w-5 h-5 mr-2" />
+          Voting Loyalty
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="h-64 bg-gray-200 rounded animate-pulse"></div>
+        ) : !loyalty || loyalty.votesCast === 0 ? (
+          <p className="text-slate-gray text-center py-4">No roll-call votes recorded</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="border rounded-lg p-4">
+                <p className="text-sm text-slate-gray">Votes Cast</p>
+                <p className="text-2xl font-bold text-gray-900">{loyalty.votesCast}</p>
+                <p className="text-xs text-slate-gray">Roll-call votes, absences excluded</p>
+              </div>
+              {renderRate("With Political Group", loyalty.group)}
+              {renderRate("With National Delegation", loyalty.national)}
+            </div>
+
+            {timeline.length > 1 && (
+              <ChartContainer config={chartConfig} className="h-64 w-full">
+                <LineChart data={timeline} margin={{ left: 0, right: 12 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="month"
+                    tickLine={false}
+                    axisLine={false}
+                    tickFormatter={(month: string) => format(new Date(`${month}-01`), 'MMM yy')}
+                  />
+                  <YAxis domain={[0, 100]} tickLine={false} axisLine={false} unit="%" width={40} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line
+                    dataKey="groupRate"
+                    type="monotone"
+                    stroke="var(--color-groupRate)"
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls
+                  />
+                  <Line
+                    dataKey="nationalRate"
+                    type="monotone"
+                    stroke="var(--color-nationalRate)"
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls
+                  />
+                </LineChart>
+              </ChartContainer>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
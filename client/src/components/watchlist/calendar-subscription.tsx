@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Calendar, Copy, RefreshCw } from "lucide-react";
+
+/**
+ * Private calendar feed of the committees the signed-in user follows
+ *
+ * The link is created on first request. Anyone with it can read the feed, so
+ * resetting issues a new link and disables the old one.
+ */
+export function CalendarSubscription() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [shown, setShown] = useState(false);
+
+  const { data: subscription, isLoading } = useQuery({
+    queryKey: ['/api/calendar/subscription'],
+    queryFn: api.getCalendarSubscription,
+    enabled: shown,
+  });
+
+  const reset = useMutation({
+    mutationFn: api.resetCalendarSubscription,
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['/api/calendar/subscription'], updated);
+      toast({
+        title: "Calendar Link Reset",
+        description: "The previous link no longer works. Subscribe again with the new one.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Reset Failed",
+        description: error.message.replace(/^\d+: /, ''),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Link Copied", description: "Paste it into your calendar app's subscribe dialog." });
+    } catch {
+      toast({ title: "Copy Failed", description: "Select the link and copy it manually.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Calendar className="h-5 w-5" />
+          Calendar Feed
+        </CardTitle>
+        <CardDescription>
+          Subscribe to meetings and hearings of the committees you follow in Outlook, Google Calendar or Apple Calendar
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!subscription ? (
+          <Button variant="outline" onClick={() => setShown(true)} disabled={shown && isLoading}>
+            <Calendar className="h-4 w-4 mr-2" />
+            Get Calendar Link
+          </Button>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <Input value={subscription.url} readOnly onFocus={(e) => e.target.select()} />
+              <Button variant="outline" size="icon" onClick={() => copy(subscription.url)} title="Copy link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button asChild>
+                <a href={subscription.webcalUrl}>
+                  <Calendar className="h-4 w-4 mr-2" />
+                  Subscribe
+                </a>
+              </Button>
+              <Button variant="outline" onClick={() => reset.mutate()} disabled={reset.isPending}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Reset Link
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Keep this link private: anyone who has it can see which committees you follow.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,85 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Mail } from "lucide-react";
+import { format } from "date-fns";
+import type { DigestFrequency } from "@/lib/types";
+
+const FREQUENCY_LABELS: Record<DigestFrequency, string> = {
+  off: "Off",
+  daily: "Daily",
+  weekly: "Weekly (Mondays)",
+};
+
+/**
+ * Email digest settings of the signed-in user
+ *
+ * Digests summarise changes to followed entities, new political group
+ * transfers and upcoming meetings of followed committees.
+ */
+export function DigestPreferences() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: preferences, isLoading } = useQuery({
+    queryKey: ['/api/notifications/preferences'],
+    queryFn: api.getNotificationPreferences,
+  });
+
+  const mutation = useMutation({
+    mutationFn: api.saveNotificationPreferences,
+    onSuccess: (saved) => {
+      queryClient.setQueryData(['/api/notifications/preferences'], saved);
+      toast({
+        title: "Digest Updated",
+        description: saved.digestFrequency === 'off'
+          ? "You will no longer receive email digests."
+          : `You will receive a ${saved.digestFrequency} email digest.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update Failed",
+        description: error.message.replace(/^\d+: /, ''),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="h-5 w-5" />
+          Email Digest
+        </CardTitle>
+        <CardDescription>
+          Receive followed changes, new transfers and upcoming committee meetings by email
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col sm:flex-row sm:items-center gap-4">
+        <Select
+          value={preferences?.digestFrequency ?? 'off'}
+          onValueChange={(value) => mutation.mutate(value as DigestFrequency)}
+          disabled={isLoading || mutation.isPending}
+        >
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(FREQUENCY_LABELS) as DigestFrequency[]).map((key) => (
+              <SelectItem key={key} value={key}>{FREQUENCY_LABELS[key]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {preferences?.lastDigestAt && (
+          <p className="text-sm text-muted-foreground">
+            Last digest covered changes until {format(new Date(preferences.lastDigestAt), 'PPp')}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
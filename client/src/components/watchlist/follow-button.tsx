@@ -0,0 +1,64 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Star } from "lucide-react";
+import type { WatchEntityType } from "@/lib/types";
+
+interface FollowButtonProps {
+  entityType: WatchEntityType;
+  entityId: string;
+  size?: "default" | "sm";
+}
+
+/**
+ * Follow/unfollow toggle for an MEP or committee
+ *
+ * Followed entities feed the "My changes" page.
+ */
+export function FollowButton({ entityType, entityId, size = "default" }: FollowButtonProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: watchlist, isLoading } = useQuery({
+    queryKey: ['/api/watchlist'],
+    queryFn: api.getWatchlist,
+  });
+
+  const isFollowing = !!watchlist?.some(
+    (item) => item.entityType === entityType && item.entityId === entityId
+  );
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      if (isFollowing) {
+        await api.unfollow(entityType, entityId);
+      } else {
+        await api.follow(entityType, entityId);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/watchlist'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/watchlist/changes'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: isFollowing ? "Unfollow Failed" : "Follow Failed",
+        description: error.message.replace(/^\d+: /, ''),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Button
+      variant={isFollowing ? "secondary" : "outline"}
+      size={size}
+      onClick={() => mutation.mutate()}
+      disabled={isLoading || mutation.isPending}
+    >
+      <Star className={`h-4 w-4 mr-2 ${isFollowing ? "fill-current text-amber-500" : ""}`} />
+      {isFollowing ? "Following" : "Follow"}
+    </Button>
+  );
+}
@@ -2,11 +2,33 @@ import { apiRequest } from "./queryClient";
 import type { 
   MEP, 
   Committee, 
+  CommitteeType,
   DashboardStats, 
   ChangeLog, 
   SearchFilters, 
   PaginatedResponse,
-  FilterOption 
+  FilterOption,
+  GroupTransfer,
+  TransferFilters,
+  HistoryFilters,
+  MEPLoyalty,
+  CohesionReport,
+  AnalyticsRange,
+  CommitteeProcedure,
+  ProcedureWithDetails,
+  ParliamentaryQuestion,
+  QuestionFilters,
+  Speech,
+  SpeechSearchResult,
+  MEPDeclaration,
+  DeclarationUpload,
+  SpeechSearchFilters,
+  WatchEntityType,
+  WatchlistItem,
+  WatchlistFeedItem,
+  DigestFrequency,
+  NotificationPreferences,
+  CalendarSubscription
 } from "./types";
 
 export const api = {
@@ -34,19 +56,127 @@ export const api = {
     return response.json();
   },
 
-  getMEP: async (id: string): Promise<MEP> => {
-    const response = await apiRequest("GET", `/api/meps/${id}`);
+  getMEP: async (id: string, include: 'provenance'[] = []): Promise<MEP> => {
+    const query = include.length > 0 ? `?include=${include.join(',')}` : '';
+    const response = await apiRequest("GET", `/api/meps/${id}${query}`);
+    return response.json();
+  },
+
+  getEntityHistory: async (
+    entityType: 'meps' | 'committees',
+    id: string,
+    filters: HistoryFilters = {}
+  ): Promise<PaginatedResponse<ChangeLog>> => {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== '') {
+        params.append(key, value.toString());
+      }
+    });
+    
+    const response = await apiRequest("GET", `/api/${entityType}/${id}/history?${params.toString()}`);
+    return response.json();
+  },
+
+  getMEPLoyalty: async (id: string, range: AnalyticsRange = {}): Promise<MEPLoyalty> => {
+    const params = new URLSearchParams();
+    if (range.from) params.append('from', range.from);
+    if (range.to) params.append('to', range.to);
+    
+    const response = await apiRequest("GET", `/api/meps/${id}/loyalty?${params.toString()}`);
+    return response.json();
+  },
+
+  getMEPDeclarations: async (id: string): Promise<MEPDeclaration[]> => {
+    const response = await apiRequest("GET", `/api/meps/${id}/declarations`);
+    return response.json();
+  },
+
+  uploadDeclaration: async (id: string, upload: DeclarationUpload): Promise<MEPDeclaration> => {
+    const response = await apiRequest("POST", `/api/meps/${id}/declarations`, upload);
+    return response.json();
+  },
+
+  getMEPSpeeches: async (id: string, page = 1, limit = 20): Promise<PaginatedResponse<Speech>> => {
+    const params = new URLSearchParams({ page: page.toString(), limit: limit.toString() });
+    const response = await apiRequest("GET", `/api/meps/${id}/speeches?${params.toString()}`);
+    return response.json();
+  },
+
+  // Speeches
+  searchSpeeches: async (filters: SpeechSearchFilters): Promise<PaginatedResponse<SpeechSearchResult>> => {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== '') {
+        params.append(key, value.toString());
+      }
+    });
+    
+    const response = await apiRequest("GET", `/api/speeches/search?${params.toString()}`);
+    return response.json();
+  },
+
+  // Analytics
+  getGroupCohesion: async (range: AnalyticsRange & { group?: string; limit?: number } = {}): Promise<CohesionReport> => {
+    const params = new URLSearchParams();
+    Object.entries(range).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== '') {
+        params.append(key, value.toString());
+      }
+    });
+    
+    const response = await apiRequest("GET", `/api/analytics/cohesion?${params.toString()}`);
     return response.json();
   },
 
   // Committees
-  getCommittees: async (page = 1, limit = 50): Promise<PaginatedResponse<Committee>> => {
-    const response = await apiRequest("GET", `/api/committees?page=${page}&limit=${limit}`);
+  getCommittees: async (page = 1, limit = 50, type?: CommitteeType): Promise<PaginatedResponse<Committee>> => {
+    const params = new URLSearchParams({ page: page.toString(), limit: limit.toString() });
+    if (type) params.append('type', type);
+    const response = await apiRequest("GET", `/api/committees?${params.toString()}`);
+    return response.json();
+  },
+
+  getCommittee: async (id: string, asOf?: string): Promise<Committee> => {
+    const query = asOf ? `?asOf=${encodeURIComponent(asOf)}` : '';
+    const response = await apiRequest("GET", `/api/committees/${id}${query}`);
     return response.json();
   },
 
-  getCommittee: async (id: string): Promise<Committee> => {
-    const response = await apiRequest("GET", `/api/committees/${id}`);
+  getCommitteeProcedures: async (id: string): Promise<CommitteeProcedure[]> => {
+    const response = await apiRequest("GET", `/api/committees/${id}/procedures`);
+    return response.json();
+  },
+
+  // Procedures
+  getProcedure: async (reference: string): Promise<ProcedureWithDetails> => {
+    const response = await apiRequest("GET", `/api/procedures/${encodeURIComponent(reference)}`);
+    return response.json();
+  },
+
+  // Parliamentary questions
+  getQuestions: async (filters: QuestionFilters = {}): Promise<PaginatedResponse<ParliamentaryQuestion>> => {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== '') {
+        params.append(key, value.toString());
+      }
+    });
+    
+    const response = await apiRequest("GET", `/api/questions?${params.toString()}`);
+    return response.json();
+  },
+
+  // Transfers
+  getTransfers: async (filters: TransferFilters = {}): Promise<PaginatedResponse<GroupTransfer>> => {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== '') {
+        params.append(key, value.toString());
+      }
+    });
+    
+    const response = await apiRequest("GET", `/api/transfers?${params.toString()}`);
     return response.json();
   },
 
@@ -104,6 +234,47 @@ export const api = {
     document.body.removeChild(a);
   },
 
+  // Watchlist
+  getWatchlist: async (): Promise<WatchlistItem[]> => {
+    const response = await apiRequest("GET", "/api/watchlist");
+    return response.json();
+  },
+
+  getWatchlistChanges: async (page = 1, limit = 50): Promise<PaginatedResponse<WatchlistFeedItem>> => {
+    const params = new URLSearchParams({ page: page.toString(), limit: limit.toString() });
+    const response = await apiRequest("GET", `/api/watchlist/changes?${params.toString()}`);
+    return response.json();
+  },
+
+  follow: async (entityType: WatchEntityType, id: string): Promise<WatchlistItem> => {
+    const response = await apiRequest("PUT", `/api/watchlist/${entityType}/${encodeURIComponent(id)}`);
+    return response.json();
+  },
+
+  unfollow: async (entityType: WatchEntityType, id: string): Promise<void> => {
+    await apiRequest("DELETE", `/api/watchlist/${entityType}/${encodeURIComponent(id)}`);
+  },
+
+  getNotificationPreferences: async (): Promise<NotificationPreferences> => {
+    const response = await apiRequest("GET", "/api/notifications/preferences");
+    return response.json();
+  },
+
+  saveNotificationPreferences: async (digestFrequency: DigestFrequency): Promise<NotificationPreferences> => {
+    const response = await apiRequest("PUT", "/api/notifications/preferences", { digestFrequency });
+    return response.json();
+  },
+
+  getCalendarSubscription: async (): Promise<CalendarSubscription> => {
+    const response = await apiRequest("GET", "/api/calendar/subscription");
+    return response.json();
+  },
+
+  resetCalendarSubscription: async (): Promise<CalendarSubscription> => {
+    const response = await apiRequest("POST", "/api/calendar/subscription/reset");
+    return response.json();
+  },
+
   // Data sync
   triggerDataSync: async (): Promise<{ message: string }> => {
     const response = await apiRequest("POST", "/api/sync/trigger");
@@ -35,16 +35,50 @@ export interface MEP {
   termStartDate?: string;
   officialUrl?: string;
   isActive: boolean;
+  questionsCount: number;
+  reportsCount: number;
+  speechesCount: number;
   createdAt: Date;
   updatedAt: Date;
-  committees: Array<{
-    mepId: string;
-    committeeId: string;
-    role?: string;
+  committees: Array<CommitteeMembership & {
     committee: Committee;
   }>;
+  mandates?: MEPMandate[];
+  provenance?: Record<string, FieldProvenance>; // Only with ?include=provenance
 }
 
+/**
+ * Origin of a single MEP field value: which source last wrote it and when
+ * the upstream data was fetched
+ * 
+ * @interface FieldProvenance
+ */
+export interface FieldProvenance {
+  source: string;
+  sourceUrl?: string | null;
+  fetchedAt: string;
+}
+
+/**
+ * Single parliamentary mandate held by an MEP
+ * 
+ * @interface MEPMandate
+ */
+export interface MEPMandate {
+  id: string;
+  mepId: string;
+  termNumber: number;
+  startDate: string;
+  endDate?: string | null;
+  country?: string | null;
+  politicalGroup?: string | null;
+  politicalGroupAbbr?: string | null;
+  nationalPoliticalGroup?: string | null;
+}
+
+/** Kind of parliamentary body; subcommittees link to their parent committee */
+export type CommitteeType = 'standing' | 'subcommittee' | 'special' | 'inquiry' | 'delegation' | 'joint';
+
 /**
  * Committee interface
  * 
@@ -57,6 +91,8 @@ export interface Committee {
   id: string;
   code: string;
   name: string;
+  committeeType: CommitteeType;
+  parentCommitteeId?: string | null;
   nameNational?: string;
   coordinatorName?: string;
   coordinatorGroup?: string;
@@ -64,11 +100,59 @@ export interface Committee {
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
-  members?: Array<{
-    mepId: string;
-    committeeId: string;
-    role?: string;
+  members?: Array<CommitteeMembership & {
+    mep: MEP;
+  }>;
+}
+
+/**
+ * Membership period of an MEP in a committee
+ * 
+ * `endDate` is null while the membership is ongoing.
+ * 
+ * @interface CommitteeMembership
+ */
+export interface CommitteeMembership {
+  id: string;
+  mepId: string;
+  committeeId: string;
+  role?: string;
+  startDate: string;
+  endDate?: string | null;
+}
+
+/**
+ * Legislative procedure (OEIL) interface
+ * 
+ * @interface Procedure
+ */
+export interface Procedure {
+  reference: string;
+  title: string;
+  procedureType?: string | null;
+  stage?: string | null;
+  startDate?: string | null;
+  lastEventDate?: string | null;
+  officialUrl?: string | null;
+}
+
+export interface CommitteeProcedure extends Procedure {
+  role: 'lead' | 'opinion';
+}
+
+export interface ProcedureWithDetails extends Procedure {
+  committees: Array<{
+    id: string;
+    role: 'lead' | 'opinion';
+    committee: Committee;
+  }>;
+  rapporteurs: Array<{
+    id: string;
+    role: 'rapporteur' | 'shadow_rapporteur';
+    politicalGroupAbbr?: string | null;
+    appointedDate?: string | null;
     mep: MEP;
+    committee: Committee | null;
   }>;
 }
 
@@ -79,6 +163,195 @@ export interface DashboardStats {
   lastUpdate: Date | null;
 }
 
+/**
+ * Written, oral or priority question tabled by one or more MEPs
+ * 
+ * @interface ParliamentaryQuestion
+ */
+export interface ParliamentaryQuestion {
+  id: string;
+  reference?: string | null;
+  questionType: 'written' | 'oral' | 'priority';
+  title: string;
+  content?: string | null;
+  addressee?: string | null;
+  submittedDate?: string | null;
+  answerDate?: string | null;
+  officialUrl?: string | null;
+  authors: MEP[];
+}
+
+export interface QuestionFilters {
+  search?: string;
+  addressee?: string;
+  type?: ParliamentaryQuestion['questionType'];
+  mepId?: string;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Declaration of private interests, one per filed version
+ * 
+ * @interface MEPDeclaration
+ */
+export interface MEPDeclaration {
+  id: string;
+  mepId: string;
+  declarationDate: string;
+  version: number;
+  source: 'eu_parliament_api' | 'admin_upload';
+  documentUrl?: string | null;
+  documentFormat?: 'pdf' | 'xml' | null;
+  storedFile?: string | null;
+  isParsed: boolean;
+  items: DeclarationItem[];
+}
+
+export interface DeclarationItem {
+  id: string;
+  category: 'outside_activity' | 'holding' | 'other';
+  section?: string | null;
+  description: string;
+  incomeBand?: string | null;
+  position: number;
+}
+
+export interface DeclarationUpload {
+  declarationDate?: string;
+  format: 'pdf' | 'xml';
+  content: string; // base64
+  documentUrl?: string;
+  items?: Array<{ section?: string; description: string; incomeBand?: string }>;
+}
+
+/**
+ * Verbatim plenary contribution from the Compte Rendu In Extenso (CRE)
+ * 
+ * @interface Speech
+ */
+export interface Speech {
+  id: string;
+  mepId: string;
+  sittingId?: string | null;
+  speechDate: string;
+  debateTitle?: string | null;
+  language?: string | null;
+  text: string;
+  officialUrl?: string | null;
+}
+
+/**
+ * Full-text search hit; `snippet` wraps matched terms in <mark> tags
+ */
+export interface SpeechSearchResult extends Speech {
+  mep: Pick<MEP, 'id' | 'fullName' | 'country' | 'politicalGroupAbbr' | 'photoUrl'>;
+  snippet: string;
+  rank: number;
+}
+
+export interface SpeechSearchFilters {
+  q: string;
+  mepId?: string;
+  language?: string;
+  from?: string;
+  to?: string;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Political group or national party transfer of an MEP
+ * 
+ * @interface GroupTransfer
+ */
+export interface GroupTransfer {
+  id: string;
+  mepId: string;
+  transferType: 'political_group' | 'national_party';
+  fromGroup?: string | null;
+  fromGroupAbbr?: string | null;
+  toGroup?: string | null;
+  toGroupAbbr?: string | null;
+  fromNationalParty?: string | null;
+  toNationalParty?: string | null;
+  transferDate: string;
+  source: string;
+  mep: MEP;
+}
+
+export interface TransferFilters {
+  group?: string;
+  from?: string;
+  to?: string;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Single field difference recorded in a change log entry
+ * 
+ * @interface FieldChange
+ */
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * MEP voting loyalty towards their political group and national delegation
+ * Rates are shares between 0 and 1, or null when there were no comparable votes
+ * 
+ * @interface MEPLoyalty
+ */
+export interface LoyaltyRate {
+  votes: number;
+  withMajority: number;
+  rate: number | null;
+}
+
+export interface MEPLoyalty {
+  mepId: string;
+  from: string | null;
+  to: string | null;
+  votesCast: number;
+  group: LoyaltyRate;
+  national: LoyaltyRate;
+  timeline: Array<{
+    month: string;
+    votes: number;
+    groupRate: number | null;
+    nationalRate: number | null;
+  }>;
+}
+
+/**
+ * Political group cohesion (Agreement Index) over a date range
+ * 
+ * @interface CohesionReport
+ */
+export interface CohesionReport {
+  from: string | null;
+  to: string | null;
+  groups: Array<{
+    group: string;
+    votes: number;
+    averageAgreementIndex: number;
+  }>;
+  votes: Array<{
+    voteId: string;
+    voteDate: string;
+    title: string;
+    groups: Record<string, number>;
+  }>;
+}
+
+export interface AnalyticsRange {
+  from?: string;
+  to?: string;
+}
+
 export interface ChangeLog {
   id: string;
   entityType: string;
@@ -86,18 +359,96 @@ export interface ChangeLog {
   changeType: string;
   oldValues: any;
   newValues: any;
+  fieldChanges?: FieldChange[];
   createdAt: Date;
 }
 
+/**
+ * Scheduled committee meeting, hearing or workshop
+ * 
+ * @interface CommitteeEvent
+ */
+export interface CommitteeEvent {
+  id: string;
+  committeeId: string;
+  title: string;
+  eventType: string;
+  description?: string | null;
+  startDate: string;
+  endDate?: string | null;
+  location?: string | null;
+  officialUrl?: string | null;
+  isPublic: boolean;
+  createdAt: string;
+}
+
+/** Kind of entity a user can follow; matches `ChangeLog.entityType` */
+export type WatchEntityType = 'mep' | 'committee';
+
+/**
+ * Followed MEP or committee
+ * 
+ * @interface WatchlistItem
+ */
+export interface WatchlistItem {
+  id: string;
+  entityType: WatchEntityType;
+  entityId: string;
+  name: string | null;
+  code: string | null;
+  createdAt: string;
+}
+
+/** Entry of the "My changes" feed: a change to a followed entity or a new committee event */
+export type WatchlistFeedItem =
+  | { kind: 'change'; occurredAt: string; change: ChangeLog }
+  | { kind: 'event'; occurredAt: string; event: CommitteeEvent; committee: Pick<Committee, 'id' | 'code' | 'name'> };
+
+/** How often the email digest of watchlist changes is sent */
+export type DigestFrequency = 'off' | 'daily' | 'weekly';
+
+/**
+ * Email notification settings of the signed-in user
+ * 
+ * @interface NotificationPreferences
+ */
+export interface NotificationPreferences {
+  userId: string;
+  digestFrequency: DigestFrequency;
+  lastDigestAt: string | null;
+}
+
+/**
+ * Private iCalendar feed of the committees a user follows
+ * 
+ * @interface CalendarSubscription
+ */
+export interface CalendarSubscription {
+  url: string;
+  /** Same feed with the webcal:// scheme, opens the subscribe dialog of calendar apps */
+  webcalUrl: string;
+}
+
+export interface HistoryFilters {
+  from?: string;
+  to?: string;
+  page?: number;
+  limit?: number;
+}
+
 export interface SearchFilters {
   search?: string;
   country?: string;
   politicalGroup?: string;
   committee?: string;
+  sortBy?: MEPSortField;
+  sortOrder?: 'asc' | 'desc';
   page?: number;
   limit?: number;
 }
 
+export type MEPSortField = 'name' | 'questions' | 'reports' | 'speeches';
+
 export interface PaginatedResponse<T> {
   data: T[];
   pagination: {
@@ -1,15 +1,20 @@
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { CalendarDays, Clock, Database, RefreshCw } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { JobQueue } from '@/components/admin/job-queue';
+import { SyncPlans } from '@/components/admin/sync-plans';
+import { SyncSchedules, type SyncSchedule } from '@/components/admin/sync-schedules';
+import { SourcePrecedence } from '@/components/admin/source-precedence';
+import { Webhooks } from '@/components/admin/webhooks';
 
 interface SchedulerStatus {
   isRunning: boolean;
   nextRun: string | null;
-  timezone: string;
+  schedules: SyncSchedule[];
 }
 
 interface SyncStatus {
@@ -19,6 +24,7 @@ interface SyncStatus {
     recordsProcessed?: number;
     recordsCreated?: number;
     recordsUpdated?: number;
+    recordsSkipped?: number;
     errors?: string[] | null;
   };
   scheduler: SchedulerStatus;
@@ -29,12 +35,16 @@ interface SyncStatus {
  * 
  * Provides administrative controls and monitoring for:
  * - Automated data synchronization status
+ * - Per-stage sync schedules
  * - Manual sync triggering
+ * - Background jobs with live progress, retries and cancellation
+ * - Dry-run sync plans with approve/reject review
  * - System health monitoring
  * - EU Parliament API connection status
  */
 export default function AdminPage() {
   const { toast } = useToast();
+  const queryClient = useQueryClient();
 
   const { data: syncStatus, refetch: refetchStatus } = useQuery<SyncStatus>({
     queryKey: ['/api/sync/status'],
@@ -46,24 +56,26 @@ export default function AdminPage() {
     refetchInterval: 60000, // Check connection every minute
   });
 
-  const handleManualSync = async () => {
+  const handleManualSync = async (full = false) => {
     try {
       const response = await fetch('/api/scheduler/trigger', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ full }),
       });
       
       const result = await response.json();
       
       if (result.success) {
         toast({
-          title: "Sync Started",
-          description: "Manual data synchronization has been triggered successfully.",
+          title: result.planOnly ? "Sync Plan Queued" : "Sync Queued",
+          description: result.planOnly
+            ? "Syncs require approval, so a sync plan is being generated. Review it under Sync Plans."
+            : full
+              ? "Full data resynchronization has been queued. Follow its progress under Background Jobs."
+              : "Manual data synchronization has been queued. Follow its progress under Background Jobs.",
         });
-        // Refresh status after starting sync
-        setTimeout(() => {
-          refetchStatus();
-        }, 2000);
+        queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
       } else {
         throw new Error(result.message || 'Sync failed');
       }
@@ -95,6 +107,8 @@ export default function AdminPage() {
         return <Badge variant="default" className="bg-blue-100 text-blue-800">Running</Badge>;
       case 'failed':
         return <Badge variant="destructive">Failed</Badge>;
+      case 'cancelled':
+        return <Badge variant="secondary">Cancelled</Badge>;
       case 'never_run':
         return <Badge variant="secondary">Never Run</Badge>;
       default:
@@ -120,7 +134,7 @@ export default function AdminPage() {
               Automated Synchronization
             </CardTitle>
             <CardDescription>
-              Daily data sync with EU Parliament APIs
+              Scheduled data sync with EU Parliament APIs
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -134,14 +148,14 @@ export default function AdminPage() {
             <div className="flex items-center justify-between">
               <span className="text-sm text-muted-foreground">Next Scheduled Run</span>
               <span className="text-sm font-medium">
-                {syncStatus?.scheduler.nextRun || "Not scheduled"}
+                {syncStatus?.scheduler.nextRun ? formatDate(syncStatus.scheduler.nextRun) : "Not scheduled"}
               </span>
             </div>
             
             <div className="flex items-center justify-between">
-              <span className="text-sm text-muted-foreground">Timezone</span>
+              <span className="text-sm text-muted-foreground">Enabled Stages</span>
               <span className="text-sm font-medium">
-                {syncStatus?.scheduler.timezone || "UTC"}
+                {syncStatus?.scheduler.schedules.filter((schedule) => schedule.enabled).length ?? 0} of {syncStatus?.scheduler.schedules.length ?? 0}
               </span>
             </div>
           </CardContent>
@@ -182,6 +196,15 @@ export default function AdminPage() {
               </div>
             )}
 
+            {!!syncStatus?.lastSync.recordsSkipped && (
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">Skipped (unchanged)</span>
+                <span className="text-sm font-medium">
+                  {syncStatus.lastSync.recordsSkipped.toLocaleString()}
+                </span>
+              </div>
+            )}
+
             {syncStatus?.lastSync.errors && syncStatus.lastSync.errors.length > 0 && (
               <div className="space-y-2">
                 <span className="text-sm text-muted-foreground">Errors</span>
@@ -245,14 +268,15 @@ export default function AdminPage() {
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="text-sm text-muted-foreground">
-              Manually trigger a full synchronization with EU Parliament APIs. 
-              This will update all MEP profiles, committee memberships, and parliamentary events.
+              Manually trigger a synchronization with EU Parliament data sources. 
+              Only MEP profiles changed upstream since the last sync are updated; 
+              a full resync re-applies every record.
             </div>
             
             <Separator />
             
             <Button 
-              onClick={handleManualSync}
+              onClick={() => handleManualSync()}
               className="w-full"
               disabled={syncStatus?.lastSync.status === 'running'}
             >
@@ -260,6 +284,16 @@ export default function AdminPage() {
               {syncStatus?.lastSync.status === 'running' ? 'Sync in Progress...' : 'Start Manual Sync'}
             </Button>
 
+            <Button 
+              variant="outline"
+              onClick={() => handleManualSync(true)}
+              className="w-full"
+              disabled={syncStatus?.lastSync.status === 'running'}
+            >
+              <Database className="h-4 w-4 mr-2" />
+              Force Full Resync
+            </Button>
+
             <Button 
               variant="outline"
               onClick={() => refetchStatus()}
@@ -272,6 +306,16 @@ export default function AdminPage() {
         </Card>
       </div>
 
+      <SyncSchedules />
+
+      <JobQueue />
+
+      <SyncPlans />
+
+      <SourcePrecedence />
+
+      <Webhooks />
+
       <Card>
         <CardHeader>
           <CardTitle>System Information</CardTitle>
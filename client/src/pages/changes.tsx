@@ -3,6 +3,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
+import { FeedLink } from '@/components/history/feed-link';
 import { Plus, Edit, ArrowRightLeft, RefreshCw, Calendar, Database } from 'lucide-react';
 import type { ChangeLog } from '@/lib/types';
 
@@ -75,6 +76,18 @@ export default function ChangesPage() {
         return `${entityName} was added to the system`;
       case 'updated':
         return `${entityName} profile was updated`;
+      case 'transferred': {
+        const from = change.oldValues?.politicalGroupAbbr;
+        const to = change.newValues?.politicalGroupAbbr;
+        if (from && to && from !== to) {
+          return `${entityName} moved from ${from} to ${to}`;
+        }
+        return `${entityName} changed national party from ${change.oldValues?.nationalPoliticalGroup || 'unknown'} to ${change.newValues?.nationalPoliticalGroup || 'unknown'}`;
+      }
+      case 'declaration':
+        return change.oldValues
+          ? `${entityName} updated their declaration of financial interests`
+          : `${entityName} filed a declaration of financial interests`;
       default:
         return `${entityName} was modified`;
     }
@@ -159,10 +172,13 @@ export default function ChangesPage() {
             Complete history of data updates and system modifications
           </p>
         </div>
-        <Button onClick={() => refetch()} variant="outline">
-          <RefreshCw className="h-4 w-4 mr-2" />
-          Refresh
-        </Button>
+        <div className="flex items-center gap-2">
+          <FeedLink path="/feeds/changes" />
+          <Button onClick={() => refetch()} variant="outline">
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
       </div>
 
       {/* Sync Status Summary */}
@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useRoute } from "wouter";
 import { api } from "@/lib/api";
@@ -5,19 +6,28 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Input } from "@/components/ui/input";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { ArrowLeft, Users, Bus, Calendar, MapPin, Clock, FileText, Video, ExternalLink } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ChangeHistory } from "@/components/history/change-history";
+import { CommitteeProcedures } from "@/components/committees/committee-procedures";
+import { FeedLink } from "@/components/history/feed-link";
+import { FollowButton } from "@/components/watchlist/follow-button";
+import { ArrowLeft, Users, Bus, Calendar, CalendarPlus, MapPin, Clock, FileText, Video, ExternalLink } from "lucide-react";
 import { Link } from "wouter";
 import { format } from "date-fns";
 
 export default function CommitteeDetail() {
   const [, params] = useRoute("/committees/:id");
   const committeeId = params?.id;
+  // Empty means the current composition; a YYYY-MM-DD value rebuilds a past one
+  const [asOf, setAsOf] = useState("");
 
   const { data: committee, isLoading } = useQuery({
-    queryKey: ['/api/committees', committeeId],
-    queryFn: () => api.getCommittee(committeeId!),
+    queryKey: ['/api/committees', committeeId, asOf],
+    queryFn: () => api.getCommittee(committeeId!, asOf || undefined),
     enabled: !!committeeId,
+    placeholderData: (previous) => previous,
   });
 
   const { data: events, isLoading: eventsLoading } = useQuery({
@@ -102,6 +112,10 @@ export default function CommitteeDetail() {
                   {committee.code}
                 </Badge>
               </div>
+              <div className="flex items-center gap-2">
+                <FeedLink path={`/feeds/committees/${encodeURIComponent(committee.code)}/events`} />
+                <FollowButton entityType="committee" entityId={committee.id} />
+              </div>
             </div>
           </CardHeader>
           <CardContent>
@@ -147,185 +161,242 @@ export default function CommitteeDetail() {
           </CardContent>
         </Card>
 
-        {/* Upcoming Events */}
-        <Card className="mb-8">
-          <CardHeader>
-            <CardTitle className="flex items-center">
-              <Calendar className="w-5 h-5 mr-2" />
-              Upcoming Events (Next 3 Months)
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            {eventsLoading ? (
-              <div className="space-y-4">
-                {Array.from({ length: 3 }).map((_, i) => (
-                  <div key={i} className="animate-pulse">
-                    <div className="h-4 bg-gray-200 rounded w-1/2 mb-2"></div>
-                    <div className="h-3 bg-gray-200 rounded w-3/4"></div>
+        <Tabs defaultValue="overview">
+          <TabsList className="mb-6">
+            <TabsTrigger value="overview">Overview</TabsTrigger>
+            <TabsTrigger value="procedures">Procedures</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="overview">
+            {/* Upcoming Events */}
+            <Card className="mb-8">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="flex items-center">
+                  <Calendar className="w-5 h-5 mr-2" />
+                  Upcoming Events (Next 3 Months)
+                </CardTitle>
+                <Button variant="outline" size="sm" asChild>
+                  <a
+                    href={`webcal://${window.location.host}/feeds/committees/${encodeURIComponent(committee.code)}/events.ics`}
+                    title="Subscribe in your calendar app"
+                  >
+                    <Calendar className="w-4 h-4 mr-1" />
+                    Subscribe
+                  </a>
+                </Button>
+              </CardHeader>
+              <CardContent>
+                {eventsLoading ? (
+                  <div className="space-y-4">
+                    {Array.from({ length: 3 }).map((_, i) => (
+                      <div key={i} className="animate-pulse">
+                        <div className="h-4 bg-gray-200 rounded w-1/2 mb-2"></div>
+                        <div className="h-3 bg-gray-200 rounded w-3/4"></div>
+                      </div>
+                    ))}
                   </div>
-                ))}
-              </div>
-            ) : !events || events.length === 0 ? (
-              <div className="text-center py-8 text-slate-gray">
-                <Calendar className="w-12 h-12 mx-auto mb-4 text-gray-300" />
-                <p>No upcoming events scheduled for the next 3 months</p>
-              </div>
-            ) : (
-              <div className="space-y-4">
-                {events.map((event: any) => (
-                  <div key={event.id} className="border rounded-lg p-4 hover:bg-gray-50 transition-colors">
-                    <div className="flex items-start justify-between mb-3">
-                      <div className="flex-1">
-                        <h3 className="font-semibold text-lg text-gray-900 mb-2">{event.title}</h3>
-                        <div className="flex flex-wrap gap-4 text-sm text-slate-gray mb-3">
-                          <div className="flex items-center">
-                            <Clock className="w-4 h-4 mr-1" />
-                            {format(new Date(event.startDate), 'PPP')} at {format(new Date(event.startDate), 'p')}
-                            {event.endDate && ` - ${format(new Date(event.endDate), 'p')}`}
-                          </div>
-                          {event.location && (
-                            <div className="flex items-center">
-                              <MapPin className="w-4 h-4 mr-1" />
-                              {event.location}
+                ) : !events || events.length === 0 ? (
+                  <div className="text-center py-8 text-slate-gray">
+                    <Calendar className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+                    <p>No upcoming events scheduled for the next 3 months</p>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    {events.map((event: any) => (
+                      <div key={event.id} className="border rounded-lg p-4 hover:bg-gray-50 transition-colors">
+                        <div className="flex items-start justify-between mb-3">
+                          <div className="flex-1">
+                            <h3 className="font-semibold text-lg text-gray-900 mb-2">{event.title}</h3>
+                            <div className="flex flex-wrap gap-4 text-sm text-slate-gray mb-3">
+                              <div className="flex items-center">
+                                <Clock className="w-4 h-4 mr-1" />
+                                {format(new Date(event.startDate), 'PPP')} at {format(new Date(event.startDate), 'p')}
+                                {event.endDate && ` - ${format(new Date(event.endDate), 'p')}`}
+                              </div>
+                              {event.location && (
+                                <div className="flex items-center">
+                                  <MapPin className="w-4 h-4 mr-1" />
+                                  {event.location}
+                                </div>
+                              )}
                             </div>
-                          )}
+                            {event.description && (
+                              <p className="text-gray-700 mb-3">{event.description}</p>
+                            )}
+                          </div>
+                          <div className="flex flex-col items-end space-y-2">
+                            <Badge 
+                              variant={event.eventType === 'hearing' ? 'default' : 'secondary'}
+                              className="capitalize"
+                            >
+                              {event.eventType}
+                            </Badge>
+                            {event.meetingType && (
+                              <Badge variant="outline" className="capitalize">
+                                {event.meetingType.replace('_', ' ')}
+                              </Badge>
+                            )}
+                          </div>
                         </div>
-                        {event.description && (
-                          <p className="text-gray-700 mb-3">{event.description}</p>
-                        )}
-                      </div>
-                      <div className="flex flex-col items-end space-y-2">
-                        <Badge 
-                          variant={event.eventType === 'hearing' ? 'default' : 'secondary'}
-                          className="capitalize"
-                        >
-                          {event.eventType}
-                        </Badge>
-                        {event.meetingType && (
-                          <Badge variant="outline" className="capitalize">
-                            {event.meetingType.replace('_', ' ')}
-                          </Badge>
+                    
+                        {event.agenda && (
+                          <div className="bg-gray-50 rounded p-3 mb-3">
+                            <div className="flex items-center mb-2">
+                              <FileText className="w-4 h-4 mr-1 text-slate-gray" />
+                              <span className="font-medium text-sm">Agenda</span>
+                            </div>
+                            <p className="text-sm text-gray-700">{event.agenda}</p>
+                          </div>
                         )}
-                      </div>
-                    </div>
                     
-                    {event.agenda && (
-                      <div className="bg-gray-50 rounded p-3 mb-3">
-                        <div className="flex items-center mb-2">
-                          <FileText className="w-4 h-4 mr-1 text-slate-gray" />
-                          <span className="font-medium text-sm">Agenda</span>
+                        <div className="flex items-center justify-between">
+                          <div className="flex space-x-2">
+                            {event.documentsUrl && (
+                              <Button variant="outline" size="sm" asChild>
+                                <a href={event.documentsUrl} target="_blank" rel="noopener noreferrer">
+                                  <FileText className="w-4 h-4 mr-1" />
+                                  Documents
+                                </a>
+                              </Button>
+                            )}
+                            {event.liveStreamUrl && (
+                              <Button variant="outline" size="sm" asChild>
+                                <a href={event.liveStreamUrl} target="_blank" rel="noopener noreferrer">
+                                  <Video className="w-4 h-4 mr-1" />
+                                  Live Stream
+                                </a>
+                              </Button>
+                            )}
+                            {event.officialUrl && (
+                              <Button variant="outline" size="sm" asChild>
+                                <a href={event.officialUrl} target="_blank" rel="noopener noreferrer">
+                                  <ExternalLink className="w-4 h-4 mr-1" />
+                                  Official Page
+                                </a>
+                              </Button>
+                            )}
+                            {event.isPublic && (
+                              <Button variant="outline" size="sm" asChild>
+                                <a href={`/feeds/events/${event.id}.ics`} download>
+                                  <CalendarPlus className="w-4 h-4 mr-1" />
+                                  Add to Calendar
+                                </a>
+                              </Button>
+                            )}
+                          </div>
+                          <div className="text-xs text-slate-gray">
+                            {event.isPublic ? 'Public Event' : 'Closed Meeting'}
+                          </div>
                         </div>
-                        <p className="text-sm text-gray-700">{event.agenda}</p>
-                      </div>
-                    )}
-                    
-                    <div className="flex items-center justify-between">
-                      <div className="flex space-x-2">
-                        {event.documentsUrl && (
-                          <Button variant="outline" size="sm" asChild>
-                            <a href={event.documentsUrl} target="_blank" rel="noopener noreferrer">
-                              <FileText className="w-4 h-4 mr-1" />
-                              Documents
-                            </a>
-                          </Button>
-                        )}
-                        {event.liveStreamUrl && (
-                          <Button variant="outline" size="sm" asChild>
-                            <a href={event.liveStreamUrl} target="_blank" rel="noopener noreferrer">
-                              <Video className="w-4 h-4 mr-1" />
-                              Live Stream
-                            </a>
-                          </Button>
-                        )}
-                        {event.officialUrl && (
-                          <Button variant="outline" size="sm" asChild>
-                            <a href={event.officialUrl} target="_blank" rel="noopener noreferrer">
-                              <ExternalLink className="w-4 h-4 mr-1" />
-                              Official Page
-                            </a>
-                          </Button>
-                        )}
                       </div>
-                      <div className="text-xs text-slate-gray">
-                        {event.isPublic ? 'Public Event' : 'Closed Meeting'}
-                      </div>
-                    </div>
+                    ))}
                   </div>
-                ))}
-              </div>
-            )}
-          </CardContent>
-        </Card>
+                )}
+              </CardContent>
+            </Card>
 
-        {/* Members Table */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Committee Members</CardTitle>
-          </CardHeader>
-          <CardContent>
-            {!committee.members || committee.members.length === 0 ? (
-              <p className="text-slate-gray text-center py-8">No members found</p>
-            ) : (
-              <div className="overflow-x-auto">
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead>Member</TableHead>
-                      <TableHead>Country</TableHead>
-                      <TableHead>Political Group</TableHead>
-                      <TableHead>Role</TableHead>
-                      <TableHead>Actions</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {committee.members.map((membership) => (
-                      <TableRow key={membership.mep.id} className="hover:bg-gray-50">
-                        <TableCell>
-                          <div className="flex items-center space-x-3">
-                            <Avatar className="h-10 w-10">
-                              <AvatarImage src={membership.mep.photoUrl} alt={membership.mep.fullName} />
-                              <AvatarFallback>
-                                {getInitials(membership.mep.firstName, membership.mep.lastName)}
-                              </AvatarFallback>
-                            </Avatar>
-                            <div>
-                              <div className="font-medium text-gray-900">{membership.mep.fullName}</div>
-                              <div className="text-sm text-slate-gray">
-                                MEP since {membership.mep.termStartDate ? new Date(membership.mep.termStartDate).getFullYear() : '2019'}
+            {/* Members Table */}
+            <Card>
+              <CardHeader>
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                  <CardTitle>
+                    {asOf ? `Committee Members on ${format(new Date(asOf), 'PPP')}` : 'Committee Members'}
+                  </CardTitle>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-slate-gray">Composition as of</span>
+                    <Input
+                      type="date"
+                      value={asOf}
+                      max={new Date().toISOString().split('T')[0]}
+                      onChange={(e) => setAsOf(e.target.value)}
+                      className="w-40"
+                    />
+                    {asOf && (
+                      <Button variant="ghost" size="sm" onClick={() => setAsOf("")}>
+                        Today
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {!committee.members || committee.members.length === 0 ? (
+                  <p className="text-slate-gray text-center py-8">No members found</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Member</TableHead>
+                          <TableHead>Country</TableHead>
+                          <TableHead>Political Group</TableHead>
+                          <TableHead>Role</TableHead>
+                          <TableHead>Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {committee.members.map((membership) => (
+                          <TableRow key={membership.mep.id} className="hover:bg-gray-50">
+                            <TableCell>
+                              <div className="flex items-center space-x-3">
+                                <Avatar className="h-10 w-10">
+                                  <AvatarImage src={membership.mep.photoUrl} alt={membership.mep.fullName} />
+                                  <AvatarFallback>
+                                    {getInitials(membership.mep.firstName, membership.mep.lastName)}
+                                  </AvatarFallback>
+                                </Avatar>
+                                <div>
+                                  <div className="font-medium text-gray-900">{membership.mep.fullName}</div>
+                                  <div className="text-sm text-slate-gray">
+                                    MEP since {membership.mep.termStartDate ? new Date(membership.mep.termStartDate).getFullYear() : '2019'}
+                                  </div>
+                                </div>
                               </div>
-                            </div>
-                          </div>
-                        </TableCell>
-                        <TableCell>
-                          <span className="text-sm text-gray-900">{membership.mep.country}</span>
-                        </TableCell>
-                        <TableCell>
-                          {membership.mep.politicalGroupAbbr && (
-                            <Badge className={getPoliticalGroupColor(membership.mep.politicalGroupAbbr)}>
-                              {membership.mep.politicalGroupAbbr}
-                            </Badge>
-                          )}
-                        </TableCell>
-                        <TableCell>
-                          {membership.role && (
-                            <Badge variant="outline">{membership.role}</Badge>
-                          )}
-                        </TableCell>
-                        <TableCell>
-                          <Link href={`/meps/${membership.mep.id}`}>
-                            <Button variant="outline" size="sm">
-                              View Profile
-                            </Button>
-                          </Link>
-                        </TableCell>
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
-              </div>
-            )}
-          </CardContent>
-        </Card>
+                            </TableCell>
+                            <TableCell>
+                              <span className="text-sm text-gray-900">{membership.mep.country}</span>
+                            </TableCell>
+                            <TableCell>
+                              {membership.mep.politicalGroupAbbr && (
+                                <Badge className={getPoliticalGroupColor(membership.mep.politicalGroupAbbr)}>
+                                  {membership.mep.politicalGroupAbbr}
+                                </Badge>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              {membership.role && (
+                                <Badge variant="outline">{membership.role}</Badge>
+                              )}
+                              <div className="text-xs text-slate-gray mt-1">
+                                Since {format(new Date(membership.startDate), 'PP')}
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <Link href={`/meps/${membership.mep.id}`}>
+                                <Button variant="outline" size="sm">
+                                  View Profile
+                                </Button>
+                              </Link>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="procedures">
+            <CommitteeProcedures committeeId={committee.id} />
+          </TabsContent>
+
+          <TabsContent value="history">
+            <ChangeHistory entityType="committees" entityId={committee.id} />
+          </TabsContent>
+        </Tabs>
       </div>
     </div>
   );
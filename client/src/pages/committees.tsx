@@ -1,30 +1,74 @@
 import { useQuery } from "@tanstack/react-query";
 import { api } from "@/lib/api";
 import { CommitteeGrid } from "@/components/committees/committee-grid";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { CommitteeType } from "@/lib/types";
 import { useState } from "react";
 
+/** Section headings, in the order the groups are listed */
+const TYPE_LABELS: Record<CommitteeType, string> = {
+  standing: "Standing Committees",
+  subcommittee: "Subcommittees",
+  special: "Special Committees",
+  inquiry: "Committees of Inquiry",
+  joint: "Joint Bodies",
+  delegation: "Delegations",
+};
+
 export default function Committees() {
-  const [page, setPage] = useState(1);
-  const limit = 24;
+  const [type, setType] = useState<CommitteeType | "all">("all");
+  // The whole catalogue fits in one page, so grouping happens client-side
+  const limit = 200;
 
   const { data: committeesData, isLoading } = useQuery({
-    queryKey: ['/api/committees', page, limit],
-    queryFn: () => api.getCommittees(page, limit),
+    queryKey: ['/api/committees', 1, limit],
+    queryFn: () => api.getCommittees(1, limit),
   });
 
+  const groups = (Object.keys(TYPE_LABELS) as CommitteeType[])
+    .filter((committeeType) => type === "all" || type === committeeType)
+    .map((committeeType) => ({
+      committeeType,
+      committees: committeesData?.data.filter((committee) => committee.committeeType === committeeType) ?? [],
+    }))
+    .filter((group) => group.committees.length > 0);
+
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <div className="mb-8">
-          <h2 className="text-2xl font-bold text-gray-900 mb-2">Parliamentary Committees</h2>
-          <p className="text-slate-gray">Explore all EU Parliament committees and their memberships</p>
+        <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">Parliamentary Committees</h2>
+            <p className="text-slate-gray">Explore all EU Parliament committees and their memberships</p>
+          </div>
+          <Select value={type} onValueChange={(value) => setType(value as CommitteeType | "all")}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All types</SelectItem>
+              {(Object.keys(TYPE_LABELS) as CommitteeType[]).map((key) => (
+                <SelectItem key={key} value={key}>{TYPE_LABELS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
 
         {committeesData && (
-          <CommitteeGrid
-            data={committeesData}
-            isLoading={isLoading}
-          />
+          <div className="space-y-6">
+            {groups.map((group) => (
+              <CommitteeGrid
+                key={group.committeeType}
+                title={TYPE_LABELS[group.committeeType]}
+                data={{ ...committeesData, data: group.committees }}
+                catalogue={committeesData.data}
+              />
+            ))}
+
+            {groups.length === 0 && (
+              <p className="text-center text-slate-gray py-12">No committees of this type are currently active.</p>
+            )}
+          </div>
         )}
 
         {isLoading && !committeesData && (
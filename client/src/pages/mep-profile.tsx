@@ -6,8 +6,17 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
-import { ArrowLeft, Mail, Globe, Twitter, Facebook, MapPin, Calendar } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ChangeHistory } from "@/components/history/change-history";
+import { VotingLoyalty } from "@/components/meps/voting-loyalty";
+import { MEPSpeeches } from "@/components/meps/mep-speeches";
+import { MEPDeclarations } from "@/components/meps/mep-declarations";
+import { FieldSource } from "@/components/meps/field-source";
+import { FeedLink } from "@/components/history/feed-link";
+import { FollowButton } from "@/components/watchlist/follow-button";
+import { ArrowLeft, Mail, Globe, Twitter, Facebook, MapPin, Calendar, History } from "lucide-react";
 import { Link } from "wouter";
+import { format } from "date-fns";
 
 export default function MEPProfile() {
   const [, params] = useRoute("/meps/:id");
@@ -15,7 +24,7 @@ export default function MEPProfile() {
 
   const { data: mep, isLoading } = useQuery({
     queryKey: ['/api/meps', mepId],
-    queryFn: () => api.getMEP(mepId!),
+    queryFn: () => api.getMEP(mepId!, ['provenance']),
     enabled: !!mepId,
   });
 
@@ -76,6 +85,11 @@ export default function MEPProfile() {
     return `${firstName.charAt(0)}${lastName.charAt(0)}`.toUpperCase();
   };
 
+  // Newest mandate first for the timeline; the oldest one tells us when the MEP first entered Parliament
+  const mandates = [...(mep.mandates || [])].sort((a, b) => b.startDate.localeCompare(a.startDate));
+  const firstMandate = mandates[mandates.length - 1];
+  const memberSince = firstMandate?.startDate || mep.termStartDate;
+
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -87,7 +101,13 @@ export default function MEPProfile() {
               Back to MEPs
             </Button>
           </Link>
-          <h1 className="text-2xl font-bold text-gray-900">MEP Profile</h1>
+          <div className="flex items-center justify-between">
+            <h1 className="text-2xl font-bold text-gray-900">MEP Profile</h1>
+            <div className="flex items-center gap-2">
+              <FeedLink path={`/feeds/meps/${encodeURIComponent(mep.id)}/changes`} />
+              <FollowButton entityType="mep" entityId={mep.id} />
+            </div>
+          </div>
         </div>
 
         {/* Profile Card */}
@@ -102,77 +122,98 @@ export default function MEPProfile() {
               </Avatar>
 
               <div className="flex-1">
-                <h2 className="text-3xl font-bold text-gray-900 mb-2">{mep.fullName}</h2>
+                <h2 className="text-3xl font-bold text-gray-900 mb-2">
+                  <FieldSource provenance={mep.provenance} field="fullName">{mep.fullName}</FieldSource>
+                </h2>
                 <div className="flex flex-wrap gap-2 mb-4">
-                  <Badge variant="outline">{mep.country}</Badge>
+                  <FieldSource provenance={mep.provenance} field="country">
+                    <Badge variant="outline">{mep.country}</Badge>
+                  </FieldSource>
                   {mep.politicalGroupAbbr && (
-                    <Badge className={getPoliticalGroupColor(mep.politicalGroupAbbr)}>
-                      {mep.politicalGroupAbbr}
-                    </Badge>
+                    <FieldSource provenance={mep.provenance} field="politicalGroupAbbr">
+                      <Badge className={getPoliticalGroupColor(mep.politicalGroupAbbr)}>
+                        {mep.politicalGroupAbbr}
+                      </Badge>
+                    </FieldSource>
                   )}
                 </div>
 
                 {mep.politicalGroup && (
-                  <p className="text-slate-gray mb-2">{mep.politicalGroup}</p>
+                  <p className="text-slate-gray mb-2">
+                    <FieldSource provenance={mep.provenance} field="politicalGroup">{mep.politicalGroup}</FieldSource>
+                  </p>
                 )}
                 {mep.nationalPoliticalGroup && (
-                  <p className="text-slate-gray mb-4">National Party: {mep.nationalPoliticalGroup}</p>
+                  <p className="text-slate-gray mb-4">
+                    National Party:{' '}
+                    <FieldSource provenance={mep.provenance} field="nationalPoliticalGroup">{mep.nationalPoliticalGroup}</FieldSource>
+                  </p>
                 )}
 
                 {/* Contact Information */}
                 <div className="flex flex-wrap gap-4">
                   {mep.email && (
-                    <a
-                      href={`mailto:${mep.email}`}
-                      className="flex items-center text-primary hover:text-primary/80"
-                    >
-                      <Mail className="w-4 h-4 mr-1" />
-                      Email
-                    </a>
+                    <FieldSource provenance={mep.provenance} field="email">
+                      <a
+                        href={`mailto:${mep.email}`}
+                        className="flex items-center text-primary hover:text-primary/80"
+                      >
+                        <Mail className="w-4 h-4 mr-1" />
+                        Email
+                      </a>
+                    </FieldSource>
                   )}
                   {mep.website && (
-                    <a
-                      href={mep.website}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="flex items-center text-primary hover:text-primary/80"
-                    >
-                      <Globe className="w-4 h-4 mr-1" />
-                      Website
-                    </a>
+                    <FieldSource provenance={mep.provenance} field="website">
+                      <a
+                        href={mep.website}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center text-primary hover:text-primary/80"
+                      >
+                        <Globe className="w-4 h-4 mr-1" />
+                        Website
+                      </a>
+                    </FieldSource>
                   )}
                   {mep.twitter && (
-                    <a
-                      href={mep.twitter}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="flex items-center text-primary hover:text-primary/80"
-                    >
-                      <Twitter className="w-4 h-4 mr-1" />
-                      Twitter
-                    </a>
+                    <FieldSource provenance={mep.provenance} field="twitter">
+                      <a
+                        href={mep.twitter}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center text-primary hover:text-primary/80"
+                      >
+                        <Twitter className="w-4 h-4 mr-1" />
+                        Twitter
+                      </a>
+                    </FieldSource>
                   )}
                   {mep.facebook && (
-                    <a
-                      href={mep.facebook}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="flex items-center text-primary hover:text-primary/80"
-                    >
-                      <Facebook className="w-4 h-4 mr-1" />
-                      Facebook
-                    </a>
+                    <FieldSource provenance={mep.provenance} field="facebook">
+                      <a
+                        href={mep.facebook}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center text-primary hover:text-primary/80"
+                      >
+                        <Facebook className="w-4 h-4 mr-1" />
+                        Facebook
+                      </a>
+                    </FieldSource>
                   )}
                   {mep.officialUrl && (
-                    <a
-                      href={mep.officialUrl}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="flex items-center text-blue-600 hover:text-blue-800 font-medium"
-                    >
-                      <Globe className="w-4 h-4 mr-1" />
-                      Official EU Parliament Profile ↗
-                    </a>
+                    <FieldSource provenance={mep.provenance} field="officialUrl">
+                      <a
+                        href={mep.officialUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center text-blue-600 hover:text-blue-800 font-medium"
+                      >
+                        <Globe className="w-4 h-4 mr-1" />
+                        Official EU Parliament Profile ↗
+                      </a>
+                    </FieldSource>
                   )}
                 </div>
               </div>
@@ -180,70 +221,148 @@ export default function MEPProfile() {
           </CardContent>
         </Card>
 
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-          {/* Personal Information */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Personal Information</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              {mep.birthDate && (
-                <div className="flex items-center space-x-3">
-                  <Calendar className="w-5 h-5 text-slate-gray" />
-                  <div>
-                    <p className="font-medium">Date of Birth</p>
-                    <p className="text-slate-gray">{mep.birthDate}</p>
-                  </div>
-                </div>
-              )}
-              {mep.birthPlace && (
-                <div className="flex items-center space-x-3">
-                  <MapPin className="w-5 h-5 text-slate-gray" />
+        <Tabs defaultValue="overview">
+          <TabsList className="mb-6">
+            <TabsTrigger value="overview">Overview</TabsTrigger>
+            <TabsTrigger value="voting">Voting</TabsTrigger>
+            <TabsTrigger value="speeches">Speeches</TabsTrigger>
+            <TabsTrigger value="declarations">Declarations</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="overview">
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              {/* Personal Information */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Personal Information</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {mep.birthDate && (
+                    <div className="flex items-center space-x-3">
+                      <Calendar className="w-5 h-5 text-slate-gray" />
+                      <div>
+                        <p className="font-medium">Date of Birth</p>
+                        <p className="text-slate-gray">
+                          <FieldSource provenance={mep.provenance} field="birthDate">{mep.birthDate}</FieldSource>
+                        </p>
+                      </div>
+                    </div>
+                  )}
+                  {mep.birthPlace && (
+                    <div className="flex items-center space-x-3">
+                      <MapPin className="w-5 h-5 text-slate-gray" />
+                      <div>
+                        <p className="font-medium">Place of Birth</p>
+                        <p className="text-slate-gray">
+                          <FieldSource provenance={mep.provenance} field="birthPlace">{mep.birthPlace}</FieldSource>
+                        </p>
+                      </div>
+                    </div>
+                  )}
+                  <Separator />
                   <div>
-                    <p className="font-medium">Place of Birth</p>
-                    <p className="text-slate-gray">{mep.birthPlace}</p>
+                    <p className="font-medium mb-2">MEP Since</p>
+                    <p className="text-slate-gray">{memberSince ? new Date(memberSince).getFullYear() : '2019'}</p>
                   </div>
-                </div>
-              )}
-              <Separator />
-              <div>
-                <p className="font-medium mb-2">MEP Since</p>
-                <p className="text-slate-gray">{mep.termStartDate ? new Date(mep.termStartDate).getFullYear() : '2019'}</p>
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Committee Memberships */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Committee Memberships</CardTitle>
-            </CardHeader>
-            <CardContent>
-              {mep.committees.length === 0 ? (
-                <p className="text-slate-gray">No committee memberships</p>
-              ) : (
-                <div className="space-y-4">
-                  {mep.committees.map((membership) => (
-                    <div key={membership.committee.id} className="border rounded-lg p-4">
-                      <div className="flex items-start justify-between mb-2">
-                        <h4 className="font-semibold">{membership.committee.name}</h4>
-                        <Badge variant="secondary">{membership.committee.code}</Badge>
-                      </div>
-                      {membership.role && (
-                        <p className="text-sm text-slate-gray">Role: {membership.role}</p>
-                      )}
-                      <Link href={`/committees/${membership.committee.id}`}>
-                        <Button variant="outline" size="sm" className="mt-2">
-                          View Committee
-                        </Button>
-                      </Link>
+                </CardContent>
+              </Card>
+
+              {/* Committee Memberships */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Committee Memberships</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {mep.committees.length === 0 ? (
+                    <p className="text-slate-gray">No committee memberships</p>
+                  ) : (
+                    <div className="space-y-4">
+                      {mep.committees.map((membership) => (
+                        <div key={membership.committee.id} className="border rounded-lg p-4">
+                          <div className="flex items-start justify-between mb-2">
+                            <h4 className="font-semibold">{membership.committee.name}</h4>
+                            <Badge variant="secondary">{membership.committee.code}</Badge>
+                          </div>
+                          {membership.role && (
+                            <p className="text-sm text-slate-gray">Role: {membership.role}</p>
+                          )}
+                          <Link href={`/committees/${membership.committee.id}`}>
+                            <Button variant="outline" size="sm" className="mt-2">
+                              View Committee
+                            </Button>
+                          </Link>
+                        </div>
+                      ))}
                     </div>
-                  ))}
-                </div>
-              )}
-            </CardContent>
-          </Card>
-        </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Mandate History */}
+            <Card className="mt-8">
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <History className="w-5 h-5 mr-2" />
+                  Mandate History
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {mandates.length === 0 ? (
+                  <p className="text-slate-gray">No mandate history available</p>
+                ) : (
+                  <ol className="relative border-l border-gray-200 ml-2">
+                    {mandates.map((mandate) => (
+                      <li key={mandate.id} className="mb-6 ml-6 last:mb-0">
+                        <span
+                          className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border border-white ${
+                            mandate.endDate ? 'bg-gray-300' : 'bg-primary'
+                          }`}
+                        ></span>
+                        <div className="flex flex-wrap items-center gap-2 mb-1">
+                          <h4 className="font-semibold">Term {mandate.termNumber}</h4>
+                          {mandate.politicalGroupAbbr && (
+                            <Badge className={getPoliticalGroupColor(mandate.politicalGroupAbbr)}>
+                              {mandate.politicalGroupAbbr}
+                            </Badge>
+                          )}
+                          {mandate.country && <Badge variant="outline">{mandate.country}</Badge>}
+                          {!mandate.endDate && <Badge variant="secondary">Current</Badge>}
+                        </div>
+                        <p className="text-sm text-slate-gray">
+                          {format(new Date(mandate.startDate), 'PPP')} – {mandate.endDate ? format(new Date(mandate.endDate), 'PPP') : 'present'}
+                        </p>
+                        {mandate.politicalGroup && (
+                          <p className="text-sm text-slate-gray">{mandate.politicalGroup}</p>
+                        )}
+                        {mandate.nationalPoliticalGroup && (
+                          <p className="text-sm text-slate-gray">National Party: {mandate.nationalPoliticalGroup}</p>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="voting">
+            <VotingLoyalty mepId={mep.id} />
+          </TabsContent>
+
+          <TabsContent value="speeches">
+            <MEPSpeeches mepId={mep.id} />
+          </TabsContent>
+
+          <TabsContent value="declarations">
+            <MEPDeclarations mepId={mep.id} />
+          </TabsContent>
+
+          <TabsContent value="history">
+            <ChangeHistory entityType="meps" entityId={mep.id} />
+          </TabsContent>
+        </Tabs>
       </div>
     </div>
   );
@@ -3,7 +3,7 @@ import { useQuery } from "@tanstack/react-query";
 import { api } from "@/lib/api";
 import { SearchFiltersComponent } from "@/components/search/search-filters";
 import { MEPTable } from "@/components/meps/mep-table";
-import type { SearchFilters } from "@/lib/types";
+import type { MEPSortField, SearchFilters } from "@/lib/types";
 import { useToast } from "@/hooks/use-toast";
 
 export default function MEPs() {
@@ -23,6 +23,10 @@ export default function MEPs() {
     setFilters({ ...filters, page });
   };
 
+  const handleSortChange = (sortBy: MEPSortField, sortOrder: 'asc' | 'desc') => {
+    setFilters({ ...filters, sortBy, sortOrder, page: 1 });
+  };
+
   const handleExport = async (type: 'csv' | 'json' | 'pdf') => {
     try {
       if (type === 'csv') {
@@ -70,6 +74,8 @@ export default function MEPs() {
             data={mepsData}
             isLoading={isLoading}
             onPageChange={handlePageChange}
+            sort={{ sortBy: filters.sortBy, sortOrder: filters.sortOrder }}
+            onSortChange={handleSortChange}
           />
         )}
 
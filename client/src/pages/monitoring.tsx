@@ -17,6 +17,18 @@ interface MonitoringData {
   timestamp: string;
 }
 
+interface UpstreamHost {
+  host: string;
+  circuit: 'closed' | 'open' | 'half_open';
+  consecutiveFailures: number;
+  retryAt: string | null;
+  lastError: string | null;
+  requests: number;
+  retries: number;
+  notModified: number;
+  budget: { maxRequests: number; used: number };
+}
+
 interface Alert {
   type: string;
   message: string;
@@ -86,6 +98,17 @@ export default function Monitoring() {
     }
   };
 
+  const getCircuitColor = (circuit: UpstreamHost['circuit']) => {
+    switch (circuit) {
+      case 'closed':
+        return getStatusColor('healthy');
+      case 'half_open':
+        return getStatusColor('warning');
+      default:
+        return getStatusColor('critical');
+    }
+  };
+
   const formatTimestamp = (timestamp: string) => {
     return new Date(timestamp).toLocaleString();
   };
@@ -272,6 +295,45 @@ export default function Monitoring() {
             </Card>
           </div>
 
+          {/* Upstream Sources */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Wifi className="h-5 w-5 mr-2" />
+                Upstream Sources
+              </CardTitle>
+              <CardDescription>
+                Circuit breaker, rate budget and revalidation state of external data sources
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {(status?.performance?.upstream as UpstreamHost[] | undefined)?.length ? (
+                <div className="space-y-4">
+                  {(status.performance.upstream as UpstreamHost[]).map((host) => (
+                    <div key={host.host} className="space-y-1">
+                      <div className="flex justify-between items-center">
+                        <span className="text-sm font-medium">{host.host}</span>
+                        <Badge className={getCircuitColor(host.circuit)}>
+                          {host.circuit === 'closed' ? 'Closed' : host.circuit === 'open' ? 'Open' : 'Half-open'}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {host.requests} requests · {host.retries} retries · {host.notModified} not modified ·
+                        budget {host.budget.used}/{host.budget.maxRequests}
+                        {host.circuit === 'open' && host.retryAt && ` · retrying at ${formatTimestamp(host.retryAt)}`}
+                      </p>
+                      {host.lastError && host.circuit !== 'closed' && (
+                        <p className="text-xs text-red-600">{host.lastError}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No upstream requests since the server started</p>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Recent Recommendations */}
           <Card>
             <CardHeader>
@@ -0,0 +1,234 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import { api } from '@/lib/api';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { FollowButton } from '@/components/watchlist/follow-button';
+import { DigestPreferences } from '@/components/watchlist/digest-preferences';
+import { CalendarSubscription } from '@/components/watchlist/calendar-subscription';
+import { Plus, Edit, ArrowRightLeft, CalendarPlus, ChevronLeft, ChevronRight, RefreshCw, Star } from 'lucide-react';
+import { format } from 'date-fns';
+import type { WatchlistFeedItem, WatchlistItem } from '@/lib/types';
+
+const PAGE_SIZE = 25;
+
+function entityHref(entityType: string, entityId: string) {
+  return entityType === 'committee' ? `/committees/${entityId}` : `/meps/${entityId}`;
+}
+
+function FeedIcon({ item }: { item: WatchlistFeedItem }) {
+  if (item.kind === 'event') {
+    return (
+      <div className="w-8 h-8 bg-purple-100 rounded-full flex items-center justify-center">
+        <CalendarPlus className="text-purple-600 h-4 w-4" />
+      </div>
+    );
+  }
+  switch (item.change.changeType) {
+    case 'created':
+      return (
+        <div className="w-8 h-8 bg-green-100 rounded-full flex items-center justify-center">
+          <Plus className="text-green-600 h-4 w-4" />
+        </div>
+      );
+    case 'transferred':
+      return (
+        <div className="w-8 h-8 bg-amber-100 rounded-full flex items-center justify-center">
+          <ArrowRightLeft className="text-amber-600 h-4 w-4" />
+        </div>
+      );
+    default:
+      return (
+        <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center">
+          <Edit className="text-blue-600 h-4 w-4" />
+        </div>
+      );
+  }
+}
+
+/**
+ * Describe a feed entry, naming the followed entity it belongs to
+ */
+function describe(item: WatchlistFeedItem, names: Map<string, string>) {
+  if (item.kind === 'event') {
+    return `${item.committee.code}: ${item.event.title} on ${format(new Date(item.event.startDate), 'PP')}`;
+  }
+  const { change } = item;
+  const name = names.get(`${change.entityType}:${change.entityId}`)
+    || change.newValues?.fullName || change.newValues?.name || `${change.entityType} ${change.entityId}`;
+  const fields = change.fieldChanges?.map((fieldChange) => fieldChange.field) ?? [];
+
+  switch (change.changeType) {
+    case 'created':
+      return `${name} was added`;
+    case 'transferred':
+      return `${name} moved from ${change.oldValues?.politicalGroupAbbr || 'unknown'} to ${change.newValues?.politicalGroupAbbr || 'unknown'}`;
+    case 'declaration':
+      return `${name} filed a declaration of financial interests`;
+    default:
+      return fields.length > 0 ? `${name}: ${fields.join(', ')} changed` : `${name} was updated`;
+  }
+}
+
+/**
+ * My Changes - Changes to the MEPs and committees the signed-in user follows
+ *
+ * Lists the followed entities and a feed of their change log entries and
+ * newly announced committee events, newest first.
+ */
+export default function MyChangesPage() {
+  const [page, setPage] = useState(1);
+
+  const { data: watchlist, isLoading: watchlistLoading } = useQuery({
+    queryKey: ['/api/watchlist'],
+    queryFn: api.getWatchlist,
+  });
+
+  const { data: feed, isLoading: feedLoading, refetch } = useQuery({
+    queryKey: ['/api/watchlist/changes', page],
+    queryFn: () => api.getWatchlistChanges(page, PAGE_SIZE),
+    refetchInterval: 60000,
+  });
+
+  const totalPages = feed?.pagination.totalPages || 1;
+  const names = new Map(
+    (watchlist ?? []).map((item: WatchlistItem) => [`${item.entityType}:${item.entityId}`, item.name ?? item.entityId])
+  );
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between space-y-2 sm:space-y-0">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">My Changes</h1>
+          <p className="text-muted-foreground">
+            Updates to the MEPs and committees you follow
+          </p>
+        </div>
+        <Button onClick={() => refetch()} variant="outline">
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Star className="h-5 w-5" />
+            Following
+          </CardTitle>
+          <CardDescription>
+            Follow MEPs and committees from their profile pages
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {watchlistLoading ? (
+            <div className="h-8 bg-gray-200 rounded w-1/2 animate-pulse"></div>
+          ) : !watchlist || watchlist.length === 0 ? (
+            <p className="text-sm text-muted-foreground">You are not following anyone yet.</p>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {watchlist.map((item) => (
+                <div key={item.id} className="py-2 flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Badge variant="outline">{item.entityType === 'committee' ? 'Committee' : 'MEP'}</Badge>
+                    <Link href={entityHref(item.entityType, item.entityId)} className="text-sm font-medium text-primary hover:underline truncate">
+                      {item.code ? `${item.code} – ${item.name}` : item.name ?? item.entityId}
+                    </Link>
+                  </div>
+                  <FollowButton entityType={item.entityType} entityId={item.entityId} size="sm" />
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <DigestPreferences />
+
+      <CalendarSubscription />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Updates</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {feedLoading ? (
+            <div className="space-y-4">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="flex items-center space-x-4 animate-pulse">
+                  <div className="w-8 h-8 bg-gray-200 rounded-full"></div>
+                  <div className="flex-1">
+                    <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
+                    <div className="h-3 bg-gray-200 rounded w-1/2"></div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : !feed || feed.data.length === 0 ? (
+            <p className="text-slate-gray text-center py-8">
+              No changes to the MEPs and committees you follow yet.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {feed.data.map((item, index) => {
+                const href = item.kind === 'event'
+                  ? entityHref('committee', item.committee.id)
+                  : entityHref(item.change.entityType, item.change.entityId);
+                return (
+                  <div key={item.kind === 'event' ? `event-${item.event.id}` : `change-${item.change.id}`}>
+                    <div className="flex items-start space-x-4">
+                      <div className="flex-shrink-0">
+                        <FeedIcon item={item} />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <Link href={href} className="text-sm font-medium text-gray-900 hover:underline">
+                          {describe(item, names)}
+                        </Link>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {format(new Date(item.occurredAt), 'PPp')}
+                        </p>
+                      </div>
+                      <Badge variant="secondary" className="text-xs">
+                        {item.kind === 'event' ? 'New event' : item.change.changeType.charAt(0).toUpperCase() + item.change.changeType.slice(1)}
+                      </Badge>
+                    </div>
+                    {index < feed.data.length - 1 && <Separator className="mt-4" />}
+                  </div>
+                );
+              })}
+
+              {totalPages > 1 && (
+                <div className="flex items-center justify-between pt-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(page - 1)}
+                    disabled={page <= 1}
+                  >
+                    <ChevronLeft className="w-4 h-4 mr-1" />
+                    Previous
+                  </Button>
+                  <span className="text-sm text-slate-gray">
+                    Page {page} of {totalPages}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(page + 1)}
+                    disabled={page >= totalPages}
+                  >
+                    Next
+                    <ChevronRight className="w-4 h-4 ml-1" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
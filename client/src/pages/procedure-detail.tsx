@@ -0,0 +1,196 @@
+import { useQuery } from "@tanstack/react-query";
+import { useRoute } from "wouter";
+import { api } from "@/lib/api";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { ArrowLeft, Calendar, FileText, Users } from "lucide-react";
+import { Link } from "wouter";
+import { format } from "date-fns";
+
+export default function ProcedureDetail() {
+  const [, params] = useRoute("/procedures/:ref");
+  const reference = params?.ref ? decodeURIComponent(params.ref) : undefined;
+
+  const { data: procedure, isLoading } = useQuery({
+    queryKey: ['/api/procedures', reference],
+    queryFn: () => api.getProcedure(reference!),
+    enabled: !!reference,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="animate-pulse space-y-8">
+            <div className="h-8 bg-gray-200 rounded w-1/4"></div>
+            <div className="bg-white rounded-lg p-8">
+              <div className="h-8 bg-gray-200 rounded w-3/4 mb-4"></div>
+              <div className="h-4 bg-gray-200 rounded w-1/2 mb-2"></div>
+              <div className="h-4 bg-gray-200 rounded w-1/3"></div>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!procedure) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Card className="w-full max-w-md">
+          <CardContent className="pt-6">
+            <div className="text-center">
+              <h1 className="text-xl font-bold text-gray-900 mb-4">Procedure Not Found</h1>
+              <p className="text-slate-gray mb-4">The requested legislative procedure could not be found.</p>
+              <Link href="/committees">
+                <Button>Back to Committees</Button>
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const getInitials = (firstName: string, lastName: string) => {
+    return `${firstName.charAt(0)}${lastName.charAt(0)}`.toUpperCase();
+  };
+
+  const leadCommittees = procedure.committees.filter((link) => link.role === 'lead');
+  const opinionCommittees = procedure.committees.filter((link) => link.role === 'opinion');
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <Button variant="ghost" className="mb-4" onClick={() => window.history.back()}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+          <h1 className="text-2xl font-bold text-gray-900">Legislative Procedure</h1>
+        </div>
+
+        {/* Procedure Info Card */}
+        <Card className="mb-8">
+          <CardHeader>
+            <div className="flex flex-wrap items-center gap-2 mb-2">
+              <Badge variant="secondary" className="text-lg px-3 py-1">
+                {procedure.reference}
+              </Badge>
+              {procedure.procedureType && <Badge variant="outline">{procedure.procedureType}</Badge>}
+            </div>
+            <CardTitle className="text-xl">{procedure.title}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div className="flex items-center space-x-3">
+                <FileText className="w-6 h-6 text-slate-gray" />
+                <div>
+                  <p className="font-medium">Stage</p>
+                  <p className="text-slate-gray">{procedure.stage || 'Unknown'}</p>
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-3">
+                <Calendar className="w-6 h-6 text-slate-gray" />
+                <div>
+                  <p className="font-medium">Last Event</p>
+                  <p className="text-slate-gray">
+                    {procedure.lastEventDate ? format(new Date(procedure.lastEventDate), 'PPP') : 'Unknown'}
+                  </p>
+                </div>
+              </div>
+
+              {procedure.officialUrl && (
+                <div className="flex items-center space-x-3">
+                  <a
+                    href={procedure.officialUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-600 hover:text-blue-800 font-medium"
+                  >
+                    Legislative Observatory (OEIL) ↗
+                  </a>
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          {/* Committees */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Committees</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {procedure.committees.length === 0 ? (
+                <p className="text-slate-gray">No committees recorded</p>
+              ) : (
+                [...leadCommittees, ...opinionCommittees].map((link) => (
+                  <div key={link.id} className="border rounded-lg p-4">
+                    <div className="flex items-start justify-between mb-2">
+                      <h4 className="font-semibold">{link.committee.name}</h4>
+                      <Badge variant={link.role === 'lead' ? 'default' : 'outline'}>
+                        {link.role === 'lead' ? 'Lead' : 'Opinion'}
+                      </Badge>
+                    </div>
+                    <Link href={`/committees/${link.committee.id}`}>
+                      <Button variant="outline" size="sm">
+                        {link.committee.code}
+                      </Button>
+                    </Link>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Rapporteurs */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Users className="w-5 h-5 mr-2" />
+                Rapporteurs
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {procedure.rapporteurs.length === 0 ? (
+                <p className="text-slate-gray">No rapporteurs appointed</p>
+              ) : (
+                procedure.rapporteurs.map((rapporteur) => (
+                  <div key={rapporteur.id} className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3">
+                      <Avatar className="h-10 w-10">
+                        <AvatarImage src={rapporteur.mep.photoUrl} alt={rapporteur.mep.fullName} />
+                        <AvatarFallback>
+                          {getInitials(rapporteur.mep.firstName, rapporteur.mep.lastName)}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div>
+                        <Link href={`/meps/${rapporteur.mep.id}`}>
+                          <span className="font-medium text-gray-900 hover:text-blue-600 cursor-pointer">
+                            {rapporteur.mep.fullName}
+                          </span>
+                        </Link>
+                        <div className="text-sm text-slate-gray">
+                          {[rapporteur.politicalGroupAbbr, rapporteur.committee?.code].filter(Boolean).join(' · ')}
+                        </div>
+                      </div>
+                    </div>
+                    <Badge variant={rapporteur.role === 'rapporteur' ? 'default' : 'secondary'}>
+                      {rapporteur.role === 'rapporteur' ? 'Rapporteur' : 'Shadow'}
+                    </Badge>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@
  */
 
 import { db } from '../server/db';
+import { storage } from '../server/storage';
 import { meps, mepCommittees } from '@shared/schema';
 import { sql, eq, and, desc } from 'drizzle-orm';
 
@@ -58,7 +59,7 @@ async function main() {
       const excess = currentCount - 720;
       console.log(`Deactivating ${excess} oldest MEP entries to reach 720...`);
       
-      await db.execute(sql`
+      const deactivated = await db.execute(sql`
         UPDATE meps 
         SET is_active = false 
         WHERE id IN (
@@ -67,7 +68,11 @@ async function main() {
           ORDER BY created_at ASC 
           LIMIT ${excess}
         )
+        RETURNING id
       `);
+      for (const mep of deactivated) {
+        await storage.recordMEPProvenance(String(mep.id), { isActive: false }, { source: 'fix_script' });
+      }
     }
     
     // Step 4: Final count
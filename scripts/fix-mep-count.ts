@@ -5,6 +5,7 @@
  */
 
 import { db } from '../server/db';
+import { storage } from '../server/storage';
 import { meps } from '@shared/schema';
 import { sql, eq, desc } from 'drizzle-orm';
 
@@ -38,6 +39,7 @@ async function main() {
       
       for (const mep of excessMEPs) {
         await db.execute(sql`UPDATE meps SET is_active = false WHERE id = ${mep.id}`);
+        await storage.recordMEPProvenance(String(mep.id), { isActive: false }, { source: 'fix_script' });
       }
       
       console.log(`✅ Deactivated ${excess} MEPs`);
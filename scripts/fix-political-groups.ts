@@ -6,6 +6,7 @@
 
 import { openSanctionsAPI } from '../server/services/openSanctionsApi';
 import { db } from '../server/db';
+import { storage } from '../server/storage';
 import { meps } from '@shared/schema';
 import { eq, sql } from 'drizzle-orm';
 
@@ -15,6 +16,7 @@ async function fixPoliticalGroupData() {
   try {
     // Fetch fresh data from OpenSanctions
     const openSanctionsMEPs = await openSanctionsAPI.fetchAllMEPs();
+    const fetchedAt = new Date();
     console.log(`Processing ${openSanctionsMEPs.length} MEPs from OpenSanctions...`);
     
     let updatedCount = 0;
@@ -63,6 +65,11 @@ async function fixPoliticalGroupData() {
               politicalGroupAbbr 
             })
             .where(eq(meps.id, mepId));
+          await storage.recordMEPProvenance(mepId, { politicalGroup, politicalGroupAbbr }, {
+            source: 'fix_script',
+            sourceUrl: openSanctionsAPI.getSourceUrl(osMEP),
+            fetchedAt,
+          });
           
           updatedCount++;
           if (updatedCount % 50 === 0) {
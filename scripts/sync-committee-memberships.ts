@@ -0,0 +1,35 @@
+#!/usr/bin/env tsx
+
+/**
+ * Script to sync committee memberships from EU Parliament membership data
+ * (corporate bodies, with MEP profile pages as fallback) and purge
+ * memberships of unknown origin
+ */
+
+import { dataSyncService } from '../server/services/dataSync';
+
+async function main() {
+  try {
+    console.log('Starting committee membership sync...');
+    const result = await dataSyncService.syncCommitteeMemberships();
+    
+    console.log(`\n✅ Sync completed:`);
+    console.log(`- Memberships created: ${result.created}`);
+    console.log(`- Memberships updated: ${result.updated - result.closed}`);
+    console.log(`- Memberships closed: ${result.closed}`);
+    console.log(`- Unverified memberships purged: ${result.purged}`);
+    console.log(`- Errors: ${result.errors.length}`);
+    
+    if (result.errors.length > 0) {
+      console.log('\nErrors:');
+      result.errors.forEach(error => console.log(`  - ${error}`));
+    }
+    
+    process.exit(0);
+  } catch (error) {
+    console.error('Script failed:', error);
+    process.exit(1);
+  }
+}
+
+main();
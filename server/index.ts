@@ -11,6 +11,7 @@
  * - Automatic API request logging and performance monitoring
  * - Error handling with structured responses
  * - Automated EU Parliament data synchronization
+ * - Persistent background job queue for sync, cleanup and quality jobs
  * - Hot module replacement in development via Vite integration
  * 
  * Production Deployment:
@@ -35,6 +36,8 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { schedulerService } from "./services/scheduler";
+import { jobQueueService } from "./services/jobQueue";
+import { webhookService } from "./services/webhooks";
 
 /** Main Express application instance */
 const app = express();
@@ -103,8 +106,11 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
     
-    // Start automated data synchronization scheduler
-    schedulerService.start();
-    log(`📅 Automated EU Parliament data sync started (daily at 2:00 AM UTC)`);
+    // Start the background job and webhook delivery workers, then the scheduler that feeds them
+    jobQueueService.start();
+    webhookService.start();
+    schedulerService.start().catch(error => {
+      console.error('❌ Failed to start the sync scheduler:', error);
+    });
   });
 })();
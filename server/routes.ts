@@ -21,6 +21,7 @@
  * - /api/export/* - Data export functionality with rate limiting
  * - /api/sync/* - Manual data synchronization (admin only)
  * - /api/monitoring/* - System monitoring and health checks
+ * - /feeds/* - Public Atom, RSS and iCalendar feeds (no authentication)
  * 
  * Performance Optimizations:
  * - Database query optimization with proper indexing
@@ -40,23 +41,35 @@
  * @version 2.0.0 - Production with comprehensive monitoring
  */
 
-import type { Express } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { OptimizedStorage } from "./storage/optimized";
 import { dataSyncService } from "./services/dataSync";
 import { exportService } from "./services/exportService";
-import { schedulerService } from "./services/scheduler";
+import { schedulerService, SCHEDULE_STAGES } from "./services/scheduler";
 import { monitoringService } from "./services/monitoring";
 import { dataQualityService } from "./services/dataQuality";
 import { securityService } from "./services/security";
-import { dataCleanupService } from "./services/dataCleanup";
+import { voteAnalyticsService } from "./services/voteAnalytics";
+import { declarationService } from "./services/declarations";
+import { accurateDataSync } from "./services/accurateDataSync";
+import { sourceMergeService, PROVENANCE_SOURCES, StaleConflictError } from "./services/sourceMerge";
+import { jobQueueService, JOB_TYPES } from "./services/jobQueue";
+import { digestService } from "./services/digest";
+import { webhookService, WEBHOOK_EVENT_TYPES, generateWebhookSecret, withoutSecret } from "./services/webhooks";
+import { feedService } from "./services/feeds";
+import { calendarService } from "./services/calendar";
+import { renderFeed, feedETag, isNotModified, FEED_CONTENT_TYPES, type Feed, type FeedFormat } from "./utils/feeds";
+import { renderICalendar, CALENDAR_CONTENT_TYPE } from "./utils/icalendar";
 import { apiCache } from "./utils/cache";
+import { COMMITTEE_TYPES } from "./utils/committeeCatalogue";
 import { logger } from "./utils/logger";
 import { db } from "./db";
 import { sql } from "drizzle-orm";
 import { setupAuth, isAuthenticated } from "./replitAuth";
 import { apiRateLimit, exportRateLimit, authRateLimit } from "./middleware/rateLimiting";
+import { isAdmin } from "./middleware/adminAuth";
 import { monitoringRouter } from "./routes/monitoring";
 import { z } from "zod";
 
@@ -73,10 +86,233 @@ const searchFiltersSchema = z.object({
   country: z.string().optional(),
   politicalGroup: z.string().optional(),
   committee: z.string().optional(),
+  sortBy: z.enum(['name', 'questions', 'reports', 'speeches']).optional(),
+  sortOrder: z.enum(['asc', 'desc']).optional(),
   page: z.coerce.number().min(1).default(1),
   limit: z.coerce.number().min(1).max(100).default(50)
 });
 
+/**
+ * Validation schema for committee list filters
+ * `type` narrows the list to one committee type
+ */
+const committeeListSchema = z.object({
+  type: z.enum(COMMITTEE_TYPES).optional()
+});
+
+/**
+ * Validation schema for committee detail parameters
+ * `asOf` selects the day for which the committee composition is rebuilt
+ */
+const committeeQuerySchema = z.object({
+  asOf: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).pipe(z.coerce.date()).optional()
+});
+
+/**
+ * Validation schema for the followed entity in watchlist routes
+ */
+const watchTargetSchema = z.object({
+  entityType: z.enum(['mep', 'committee']),
+  entityId: z.string().min(1)
+});
+
+/**
+ * Validation schema for the "My changes" feed
+ */
+const watchlistFeedQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(50)
+});
+
+/**
+ * Validation schema for email digest preferences
+ */
+const notificationPreferencesSchema = z.object({
+  digestFrequency: z.enum(['off', 'daily', 'weekly'])
+});
+
+/**
+ * Validation schema for the digest preview
+ */
+const digestPreviewSchema = z.object({
+  frequency: z.enum(['daily', 'weekly']).default('daily')
+});
+
+/**
+ * Validation schema for political group transfer queries
+ * `group` matches either side of a transfer; `from`/`to` bound the transfer date
+ */
+const transferQuerySchema = z.object({
+  group: z.string().optional(),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).pipe(z.coerce.date()).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).pipe(z.coerce.date()).optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(50)
+});
+
+/**
+ * Validation schema for MEP detail options
+ * `include` is a comma-separated list of optional sections, e.g. "provenance"
+ */
+const mepDetailQuerySchema = z.object({
+  include: z.string().optional().transform(value => new Set(value ? value.split(',').map(part => part.trim()) : []))
+});
+
+/**
+ * Validation schema for per-entity change history
+ * `from`/`to` bound the day the change was recorded
+ */
+const historyQuerySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).pipe(z.coerce.date()).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).pipe(z.coerce.date()).optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20)
+});
+
+/**
+ * Validation schema for parliamentary question search
+ * `search` matches title, text and reference; `mepId` restricts to one author
+ */
+const questionQuerySchema = z.object({
+  search: z.string().optional(),
+  addressee: z.string().optional(),
+  type: z.enum(['written', 'oral', 'priority']).optional(),
+  mepId: z.string().optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(50)
+});
+
+/**
+ * Validation schemas for plenary speeches
+ * `q` is parsed as a PostgreSQL web search query ("phrase", -word, or)
+ */
+const speechListSchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20)
+});
+
+const speechSearchSchema = speechListSchema.extend({
+  q: z.string().trim().min(2),
+  mepId: z.string().optional(),
+  language: z.string().length(2).optional(),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).pipe(z.coerce.date()).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).pipe(z.coerce.date()).optional()
+});
+
+/**
+ * Validation schema for admin declaration uploads
+ * The file is sent base64-encoded; `items` carries transcribed line items for PDFs
+ */
+const declarationUploadSchema = z.object({
+  declarationDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  format: z.enum(['pdf', 'xml']),
+  content: z.string().min(1),
+  documentUrl: z.string().url().optional(),
+  items: z.array(z.object({
+    category: z.enum(['outside_activity', 'holding', 'other']).optional(),
+    section: z.string().max(2).optional(),
+    description: z.string().min(1),
+    incomeBand: z.string().max(20).optional()
+  })).optional()
+}).refine((upload) => upload.format === 'xml' || upload.declarationDate, {
+  message: "declarationDate is required for PDF uploads",
+  path: ['declarationDate']
+});
+
+/**
+ * Validation schemas for roll-call vote analytics
+ * Date bounds apply to the vote date
+ */
+const analyticsRangeSchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).pipe(z.coerce.date()).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).pipe(z.coerce.date()).optional()
+});
+
+const cohesionQuerySchema = analyticsRangeSchema.extend({
+  group: z.string().optional(),
+  limit: z.coerce.number().min(1).max(500).default(100)
+});
+
+/**
+ * Validation schemas for source precedence rules and the conflict review queue
+ * `sources` is ordered highest priority first
+ */
+const precedenceRuleSchema = z.object({
+  sources: z.array(z.string().min(1)).min(1),
+  reviewConflicts: z.boolean().default(false)
+});
+
+const conflictQuerySchema = z.object({
+  status: z.enum(['open', 'accepted', 'dismissed']).default('open'),
+  mepId: z.string().optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(50)
+});
+
+const conflictResolutionSchema = z.object({
+  resolution: z.enum(['accept', 'dismiss'])
+});
+
+/**
+ * Validation schemas for the background job queue
+ * `payload` is passed to the job handler, e.g. `{ full: true }` for syncs
+ */
+const jobQuerySchema = z.object({
+  status: z.enum(['queued', 'running', 'completed', 'failed', 'cancelled']).optional(),
+  type: z.enum(JOB_TYPES).optional(),
+  limit: z.coerce.number().min(1).max(100).default(20)
+});
+
+const jobCreateSchema = z.object({
+  type: z.enum(JOB_TYPES),
+  payload: z.record(z.unknown()).optional()
+});
+
+/**
+ * Validation schemas for webhook subscriptions and their delivery log
+ * Receivers must be http(s) URLs; at least one event type is required
+ */
+const webhookSubscriptionSchema = z.object({
+  url: z.string().trim().url().max(2000).refine(url => /^https?:\/\//i.test(url)),
+  description: z.string().trim().max(200).nullish(),
+  eventTypes: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1),
+  isActive: z.boolean().default(true)
+});
+
+const webhookDeliveryQuerySchema = z.object({
+  status: z.enum(['pending', 'delivered', 'failed']).optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(25)
+});
+
+/**
+ * Validation schema for sync stage schedule edits
+ * `cronExpression` uses the five-field cron format; `timezone` is an IANA zone
+ */
+const scheduleUpdateSchema = z.object({
+  cronExpression: z.string().trim().min(1).max(100).optional(),
+  timezone: z.string().min(1).max(50).optional(),
+  enabled: z.boolean().optional()
+});
+
+/**
+ * Send a rendered feed with its ETag, or 304 when the client's
+ * If-None-Match already names it
+ */
+function sendWithETag(req: Request, res: Response, body: string, headers: Record<string, string>) {
+  const etag = feedETag(body);
+  res.set({ 'Cache-Control': 'public, max-age=300', ...headers, 'ETag': etag });
+  
+  if (isNotModified(req.headers['if-none-match'], etag)) {
+    return res.status(304).end();
+  }
+  res.send(body);
+}
+
+function sendFeed(req: Request, res: Response, feed: Feed, format: FeedFormat) {
+  sendWithETag(req, res, renderFeed(feed, format), { 'Content-Type': FEED_CONTENT_TYPES[format] });
+}
+
 /**
  * Register all API routes and initialize monitoring services
  * 
@@ -143,21 +379,460 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Watchlists: MEPs and committees followed by the signed-in user
+  app.get("/api/watchlist", apiRateLimit, isAuthenticated, async (req: any, res) => {
+    try {
+      const items = await optimizedStorage.getWatchlist(req.user.claims.sub);
+      res.json(items);
+    } catch (error) {
+      console.error("Error fetching watchlist:", error);
+      res.status(500).json({ error: "Failed to fetch watchlist" });
+    }
+  });
+  
+  app.get("/api/watchlist/changes", apiRateLimit, isAuthenticated, async (req: any, res) => {
+    try {
+      const { page, limit } = watchlistFeedQuerySchema.parse(req.query);
+      const offset = (page - 1) * limit;
+      
+      const result = await optimizedStorage.getWatchlistFeed(req.user.claims.sub, { limit, offset });
+      
+      res.json({
+        data: result.items,
+        pagination: {
+          page,
+          limit,
+          total: result.total,
+          totalPages: Math.ceil(result.total / limit)
+        }
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query parameters" });
+      }
+      console.error("Error fetching watchlist changes:", error);
+      res.status(500).json({ error: "Failed to fetch watchlist changes" });
+    }
+  });
+  
+  app.put("/api/watchlist/:entityType/:entityId", apiRateLimit, isAuthenticated, async (req: any, res) => {
+    try {
+      const { entityType, entityId } = watchTargetSchema.parse(req.params);
+      const entity = entityType === 'mep'
+        ? await optimizedStorage.getMEP(entityId)
+        : await optimizedStorage.getCommittee(entityId);
+      if (!entity) {
+        return res.status(404).json({ error: entityType === 'mep' ? "MEP not found" : "Committee not found" });
+      }
+      
+      const entry = await optimizedStorage.followEntity({ userId: req.user.claims.sub, entityType, entityId });
+      res.json(entry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid watchlist entity" });
+      }
+      console.error("Error following entity:", error);
+      res.status(500).json({ error: "Failed to follow entity" });
+    }
+  });
+  
+  app.delete("/api/watchlist/:entityType/:entityId", apiRateLimit, isAuthenticated, async (req: any, res) => {
+    try {
+      const { entityType, entityId } = watchTargetSchema.parse(req.params);
+      const removed = await optimizedStorage.unfollowEntity(req.user.claims.sub, entityType, entityId);
+      if (!removed) {
+        return res.status(404).json({ error: "Entity is not on your watchlist" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid watchlist entity" });
+      }
+      console.error("Error unfollowing entity:", error);
+      res.status(500).json({ error: "Failed to unfollow entity" });
+    }
+  });
+  
+  // Email digest preferences of the signed-in user
+  app.get("/api/notifications/preferences", apiRateLimit, isAuthenticated, async (req: any, res) => {
+    try {
+      const preferences = await optimizedStorage.getNotificationPreferences(req.user.claims.sub);
+      res.json(preferences ?? { userId: req.user.claims.sub, digestFrequency: 'off', lastDigestAt: null });
+    } catch (error) {
+      console.error("Error fetching notification preferences:", error);
+      res.status(500).json({ error: "Failed to fetch notification preferences" });
+    }
+  });
+  
+  app.put("/api/notifications/preferences", apiRateLimit, isAuthenticated, async (req: any, res) => {
+    try {
+      const { digestFrequency } = notificationPreferencesSchema.parse(req.body);
+      const preferences = await optimizedStorage.saveNotificationPreferences({
+        userId: req.user.claims.sub,
+        digestFrequency
+      });
+      res.json(preferences);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid digest frequency" });
+      }
+      console.error("Error saving notification preferences:", error);
+      res.status(500).json({ error: "Failed to save notification preferences" });
+    }
+  });
+  
+  // Subscription URL of the signed-in user's watchlist calendar
+  app.get("/api/calendar/subscription", apiRateLimit, isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await calendarService.watchlistSubscription(req.user.claims.sub));
+    } catch (error) {
+      console.error("Error fetching calendar subscription:", error);
+      res.status(500).json({ error: "Failed to fetch calendar subscription" });
+    }
+  });
+  
+  // Issue a new calendar URL; the previous one stops working
+  app.post("/api/calendar/subscription/reset", apiRateLimit, isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await calendarService.watchlistSubscription(req.user.claims.sub, true));
+    } catch (error) {
+      console.error("Error resetting calendar subscription:", error);
+      res.status(500).json({ error: "Failed to reset calendar subscription" });
+    }
+  });
+  
+  // Render the next digest of the signed-in user without sending it
+  app.get("/api/notifications/digest/preview", apiRateLimit, isAuthenticated, async (req: any, res) => {
+    try {
+      const { frequency } = digestPreviewSchema.parse(req.query);
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      
+      const preferences = await optimizedStorage.getNotificationPreferences(user.id);
+      const until = new Date();
+      const since = preferences?.lastDigestAt ?? new Date(until.getTime() - (frequency === 'weekly' ? 7 : 1) * 24 * 60 * 60 * 1000);
+      const digest = await digestService.buildDigest(user, frequency, since, until);
+      
+      res.json({ empty: digestService.isEmpty(digest), ...digestService.renderDigest({ ...digest, user: { ...user, email: user.email ?? '' } }) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid digest frequency" });
+      }
+      console.error("Error previewing digest:", error);
+      res.status(500).json({ error: "Failed to preview digest" });
+    }
+  });
+  
   // MEPs endpoints with rate limiting
   app.get("/api/meps", apiRateLimit, isAuthenticated, async (req, res) => {
     try {
-      const filters = searchFiltersSchema.parse(req.query);
-      const { page, limit, ...searchFilters } = filters;
+      const filters = searchFiltersSchema.parse(req.query);
+      const { page, limit, ...searchFilters } = filters;
+      const offset = (page - 1) * limit;
+      
+      const result = await optimizedStorage.getMEPs({
+        ...searchFilters,
+        limit,
+        offset
+      });
+      
+      res.json({
+        data: result.meps,
+        pagination: {
+          page,
+          limit,
+          total: result.total,
+          totalPages: Math.ceil(result.total / limit)
+        }
+      });
+    } catch (error) {
+      logger.error("Error fetching MEPs", 'API', { error: error instanceof Error ? error.message : String(error) });
+      res.status(500).json({ error: "Failed to fetch MEPs" });
+    }
+  });
+  
+  app.get("/api/meps/:id", apiRateLimit, isAuthenticated, async (req, res) => {
+    try {
+      const mep = await optimizedStorage.getMEP(req.params.id);
+      if (!mep) {
+        return res.status(404).json({ error: "MEP not found" });
+      }
+      const { include } = mepDetailQuerySchema.parse(req.query);
+      const mandates = await optimizedStorage.getMEPMandates(mep.id);
+      if (include.has('provenance')) {
+        const provenance = await optimizedStorage.getMEPProvenance(mep.id);
+        return res.json({ ...mep, mandates, provenance });
+      }
+      res.json({ ...mep, mandates });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query parameters" });
+      }
+      console.error("Error fetching MEP:", error);
+      res.status(500).json({ error: "Failed to fetch MEP" });
+    }
+  });
+  
+  app.get("/api/meps/:id/history", apiRateLimit, isAuthenticated, async (req, res) => {
+    try {
+      const { page, limit, ...filters } = historyQuerySchema.parse(req.query);
+      const offset = (page - 1) * limit;
+      
+      const result = await optimizedStorage.getEntityHistory('mep', req.params.id, { ...filters, limit, offset });
+      
+      res.json({
+        data: result.changes,
+        pagination: {
+          page,
+          limit,
+          total: result.total,
+          totalPages: Math.ceil(result.total / limit)
+        }
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid history filters" });
+      }
+      console.error("Error fetching MEP history:", error);
+      res.status(500).json({ error: "Failed to fetch MEP history" });
+    }
+  });
+  
+  app.get("/api/meps/:id/loyalty", apiRateLimit, isAuthenticated, async (req, res) => {
+    try {
+      const filters = analyticsRangeSchema.parse(req.query);
+      const mep = await optimizedStorage.getMEP(req.params.id);
+      if (!mep) {
+        return res.status(404).json({ error: "MEP not found" });
+      }
+      
+      const loyalty = await voteAnalyticsService.getMEPLoyalty(mep.id, filters);
+      res.json(loyalty);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid date range" });
+      }
+      console.error("Error computing MEP loyalty:", error);
+      res.status(500).json({ error: "Failed to compute MEP loyalty" });
+    }
+  });
+
+  app.get("/api/meps/:id/declarations", apiRateLimit, isAuthenticated, async (req, res) => {
+    try {
+      const declarations = await optimizedStorage.getMEPDeclarations(req.params.id);
+      res.json(declarations);
+    } catch (error) {
+      console.error("Error fetching MEP declarations:", error);
+      res.status(500).json({ error: "Failed to fetch MEP declarations" });
+    }
+  });
+
+  app.get("/api/meps/:id/declarations/:declarationId/document", apiRateLimit, isAuthenticated, async (req, res) => {
+    try {
+      const declarations = await optimizedStorage.getMEPDeclarations(req.params.id);
+      const declaration = declarations.find((version) => version.id === req.params.declarationId);
+      if (!declaration?.storedFile) {
+        return res.status(404).json({ error: "Declaration document not found" });
+      }
+      res.download(
+        declarationService.resolveStoredFile(declaration.storedFile),
+        `declaration-${declaration.mepId}-${declaration.declarationDate}.${declaration.documentFormat || 'pdf'}`
+      );
+    } catch (error) {
+      console.error("Error sending declaration document:", error);
+      res.status(500).json({ error: "Failed to send declaration document" });
+    }
+  });
+
+  // Admin upload of a declaration file (PDF with transcribed items, or structured XML)
+  // Items without a category are classified by DPI section
+  app.post("/api/meps/:id/declarations", isAuthenticated, isAdmin, express.json({ limit: '15mb' }), async (req: any, res) => {
+    try {
+      const upload = declarationUploadSchema.parse(req.body);
+      const mep = await optimizedStorage.getMEP(req.params.id);
+      if (!mep) {
+        return res.status(404).json({ error: "MEP not found" });
+      }
+      
+      const content = Buffer.from(upload.content, 'base64');
+      if (upload.format === 'xml' && !upload.declarationDate && !declarationService.parseXML(content.toString('utf8')).declarationDate) {
+        return res.status(400).json({ error: "Declaration date missing from request and XML file" });
+      }
+      
+      const declaration = await declarationService.uploadDeclaration(mep, {
+        declarationDate: upload.declarationDate,
+        format: upload.format,
+        content,
+        documentUrl: upload.documentUrl,
+        items: upload.items?.map((item) => ({
+          category: declarationService.categoryFor(item.category, item.section?.toUpperCase() || null),
+          section: item.section?.toUpperCase() || null,
+          description: item.description,
+          incomeBand: item.incomeBand || null,
+        })),
+        uploadedBy: req.user?.claims?.sub,
+      });
+      apiCache.delete(`declarations_${mep.id}`);
+      
+      res.status(201).json(declaration);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid declaration upload" });
+      }
+      console.error("Error uploading declaration:", error);
+      res.status(500).json({ error: "Failed to upload declaration" });
+    }
+  });
+
+  app.get("/api/meps/:id/speeches", apiRateLimit, isAuthenticated, async (req, res) => {
+    try {
+      const { page, limit } = speechListSchema.parse(req.query);
+      const offset = (page - 1) * limit;
+      
+      const result = await optimizedStorage.getMEPSpeeches(req.params.id, { limit, offset });
+      
+      res.json({
+        data: result.speeches,
+        pagination: {
+          page,
+          limit,
+          total: result.total,
+          totalPages: Math.ceil(result.total / limit)
+        }
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid pagination parameters" });
+      }
+      console.error("Error fetching MEP speeches:", error);
+      res.status(500).json({ error: "Failed to fetch MEP speeches" });
+    }
+  });
+
+  // Full-text search over plenary speeches (CRE)
+  app.get("/api/speeches/search", apiRateLimit, isAuthenticated, async (req, res) => {
+    try {
+      const { page, limit, ...filters } = speechSearchSchema.parse(req.query);
+      const offset = (page - 1) * limit;
+      
+      const result = await optimizedStorage.searchSpeeches({ ...filters, limit, offset });
+      
+      res.json({
+        data: result.results,
+        pagination: {
+          page,
+          limit,
+          total: result.total,
+          totalPages: Math.ceil(result.total / limit)
+        }
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid speech search parameters" });
+      }
+      console.error("Error searching speeches:", error);
+      res.status(500).json({ error: "Failed to search speeches" });
+    }
+  });
+  
+  // Committees endpoints with rate limiting
+  app.get("/api/committees", apiRateLimit, isAuthenticated, async (req, res) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 50;
+      const offset = (page - 1) * limit;
+      const { type } = committeeListSchema.parse(req.query);
+      
+      const result = await optimizedStorage.getCommittees(limit, offset, type);
+      
+      res.json({
+        data: result.committees,
+        pagination: {
+          page,
+          limit,
+          total: result.total,
+          totalPages: Math.ceil(result.total / limit)
+        }
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid committee type" });
+      }
+      console.error("Error fetching committees:", error);
+      res.status(500).json({ error: "Failed to fetch committees" });
+    }
+  });
+  
+  app.get("/api/committees/:id", apiRateLimit, isAuthenticated, async (req, res) => {
+    try {
+      // Optional ?asOf=YYYY-MM-DD rebuilds the composition as it stood on that day
+      const { asOf } = committeeQuerySchema.parse(req.query);
+      const committee = await optimizedStorage.getCommittee(req.params.id, asOf);
+      if (!committee) {
+        return res.status(404).json({ error: "Committee not found" });
+      }
+      res.json(committee);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid asOf date" });
+      }
+      console.error("Error fetching committee:", error);
+      res.status(500).json({ error: "Failed to fetch committee" });
+    }
+  });
+
+  // Roll-call vote analytics
+  app.get("/api/analytics/cohesion", apiRateLimit, isAuthenticated, async (req, res) => {
+    try {
+      const filters = cohesionQuerySchema.parse(req.query);
+      const report = await voteAnalyticsService.getGroupCohesion(filters);
+      res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid cohesion filters" });
+      }
+      console.error("Error computing group cohesion:", error);
+      res.status(500).json({ error: "Failed to compute group cohesion" });
+    }
+  });
+
+  // Political group / national party transfers
+  app.get("/api/transfers", apiRateLimit, isAuthenticated, async (req, res) => {
+    try {
+      const { page, limit, ...filters } = transferQuerySchema.parse(req.query);
+      const offset = (page - 1) * limit;
+      
+      const result = await optimizedStorage.getGroupTransfers({ ...filters, limit, offset });
+      
+      res.json({
+        data: result.transfers,
+        pagination: {
+          page,
+          limit,
+          total: result.total,
+          totalPages: Math.ceil(result.total / limit)
+        }
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid transfer filters" });
+      }
+      console.error("Error fetching transfers:", error);
+      res.status(500).json({ error: "Failed to fetch transfers" });
+    }
+  });
+
+  app.get("/api/committees/:id/history", apiRateLimit, isAuthenticated, async (req, res) => {
+    try {
+      const { page, limit, ...filters } = historyQuerySchema.parse(req.query);
       const offset = (page - 1) * limit;
       
-      const result = await optimizedStorage.getMEPs({
-        ...searchFilters,
-        limit,
-        offset
-      });
+      const result = await optimizedStorage.getEntityHistory('committee', req.params.id, { ...filters, limit, offset });
       
       res.json({
-        data: result.meps,
+        data: result.changes,
         pagination: {
           page,
           limit,
@@ -166,35 +841,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       });
     } catch (error) {
-      logger.error("Error fetching MEPs", 'API', { error: error instanceof Error ? error.message : String(error) });
-      res.status(500).json({ error: "Failed to fetch MEPs" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid history filters" });
+      }
+      console.error("Error fetching committee history:", error);
+      res.status(500).json({ error: "Failed to fetch committee history" });
     }
   });
-  
-  app.get("/api/meps/:id", apiRateLimit, isAuthenticated, async (req, res) => {
+
+  app.get("/api/committees/:id/procedures", apiRateLimit, isAuthenticated, async (req, res) => {
     try {
-      const mep = await optimizedStorage.getMEP(req.params.id);
-      if (!mep) {
-        return res.status(404).json({ error: "MEP not found" });
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
+      const procedures = await optimizedStorage.getCommitteeProcedures(req.params.id, limit);
+      res.json(procedures);
+    } catch (error) {
+      console.error("Error fetching committee procedures:", error);
+      res.status(500).json({ error: "Failed to fetch committee procedures" });
+    }
+  });
+
+  // Legislative procedures (reference is URL-encoded, e.g. 2023%2F0123(COD))
+  app.get("/api/procedures/:ref", apiRateLimit, isAuthenticated, async (req, res) => {
+    try {
+      const procedure = await optimizedStorage.getProcedure(req.params.ref);
+      if (!procedure) {
+        return res.status(404).json({ error: "Procedure not found" });
       }
-      res.json(mep);
+      res.json(procedure);
     } catch (error) {
-      console.error("Error fetching MEP:", error);
-      res.status(500).json({ error: "Failed to fetch MEP" });
+      console.error("Error fetching procedure:", error);
+      res.status(500).json({ error: "Failed to fetch procedure" });
     }
   });
-  
-  // Committees endpoints with rate limiting
-  app.get("/api/committees", apiRateLimit, isAuthenticated, async (req, res) => {
+
+  // Parliamentary questions
+  app.get("/api/questions", apiRateLimit, isAuthenticated, async (req, res) => {
     try {
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 50;
+      const { page, limit, type, ...filters } = questionQuerySchema.parse(req.query);
       const offset = (page - 1) * limit;
       
-      const result = await optimizedStorage.getCommittees(limit, offset);
+      const result = await optimizedStorage.getQuestions({ ...filters, questionType: type, limit, offset });
       
       res.json({
-        data: result.committees,
+        data: result.questions,
         pagination: {
           page,
           limit,
@@ -203,21 +892,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       });
     } catch (error) {
-      console.error("Error fetching committees:", error);
-      res.status(500).json({ error: "Failed to fetch committees" });
-    }
-  });
-  
-  app.get("/api/committees/:id", apiRateLimit, isAuthenticated, async (req, res) => {
-    try {
-      const committee = await optimizedStorage.getCommittee(req.params.id);
-      if (!committee) {
-        return res.status(404).json({ error: "Committee not found" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid question filters" });
       }
-      res.json(committee);
-    } catch (error) {
-      console.error("Error fetching committee:", error);
-      res.status(500).json({ error: "Failed to fetch committee" });
+      console.error("Error fetching questions:", error);
+      res.status(500).json({ error: "Failed to fetch questions" });
     }
   });
 
@@ -235,6 +914,89 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Public Atom/RSS feeds, e.g. /feeds/committees/ENVI/events.atom
+  app.get("/feeds/changes.:format(atom|rss)", apiRateLimit, async (req, res) => {
+    try {
+      const feed = await feedService.changesFeed();
+      sendFeed(req, res, feed, req.params.format as FeedFormat);
+    } catch (error) {
+      console.error("Error generating changes feed:", error);
+      res.status(500).json({ error: "Failed to generate feed" });
+    }
+  });
+  
+  app.get("/feeds/committees/:code/events.:format(atom|rss)", apiRateLimit, async (req, res) => {
+    try {
+      const feed = await feedService.committeeEventsFeed(req.params.code);
+      if (!feed) {
+        return res.status(404).json({ error: "Committee not found" });
+      }
+      sendFeed(req, res, feed, req.params.format as FeedFormat);
+    } catch (error) {
+      console.error("Error generating committee events feed:", error);
+      res.status(500).json({ error: "Failed to generate feed" });
+    }
+  });
+  
+  app.get("/feeds/meps/:id/changes.:format(atom|rss)", apiRateLimit, async (req, res) => {
+    try {
+      const feed = await feedService.mepChangesFeed(req.params.id);
+      if (!feed) {
+        return res.status(404).json({ error: "MEP not found" });
+      }
+      sendFeed(req, res, feed, req.params.format as FeedFormat);
+    } catch (error) {
+      console.error("Error generating MEP changes feed:", error);
+      res.status(500).json({ error: "Failed to generate feed" });
+    }
+  });
+  
+  // iCalendar downloads and subscriptions; webcal:// links resolve to these
+  app.get("/feeds/events/:id.ics", apiRateLimit, async (req, res) => {
+    try {
+      const calendar = await calendarService.eventCalendar(req.params.id);
+      if (!calendar) {
+        return res.status(404).json({ error: "Event not found" });
+      }
+      sendWithETag(req, res, renderICalendar(calendar), {
+        'Content-Type': CALENDAR_CONTENT_TYPE,
+        'Content-Disposition': `attachment; filename="committee-event-${req.params.id}.ics"`
+      });
+    } catch (error) {
+      console.error("Error generating event calendar:", error);
+      res.status(500).json({ error: "Failed to generate calendar" });
+    }
+  });
+  
+  app.get("/feeds/committees/:code/events.ics", apiRateLimit, async (req, res) => {
+    try {
+      const calendar = await calendarService.committeeCalendar(req.params.code);
+      if (!calendar) {
+        return res.status(404).json({ error: "Committee not found" });
+      }
+      sendWithETag(req, res, renderICalendar(calendar), { 'Content-Type': CALENDAR_CONTENT_TYPE });
+    } catch (error) {
+      console.error("Error generating committee calendar:", error);
+      res.status(500).json({ error: "Failed to generate calendar" });
+    }
+  });
+  
+  app.get("/feeds/watchlist/:token/events.ics", apiRateLimit, async (req, res) => {
+    try {
+      const calendar = await calendarService.watchlistCalendar(req.params.token);
+      if (!calendar) {
+        return res.status(404).json({ error: "Calendar not found" });
+      }
+      sendWithETag(req, res, renderICalendar(calendar), {
+        'Content-Type': CALENDAR_CONTENT_TYPE,
+        'Cache-Control': 'private, max-age=300'
+      });
+    } catch (error) {
+      console.error("Error generating watchlist calendar:", error);
+      res.status(500).json({ error: "Failed to generate calendar" });
+    }
+  });
+  
   // Export endpoints with strict rate limiting
   app.get("/api/export/meps/csv", exportRateLimit, isAuthenticated, async (req, res) => {
     try {
@@ -285,14 +1047,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Data sync endpoints (for manual triggers and status)
-  app.post("/api/sync/trigger", isAuthenticated, async (req, res) => {
+  // Runs the EU Parliament sync as a background job. Only the OpenSanctions
+  // sync can be planned, so { dryRun: true } queues a plan of that pass; the
+  // EU Parliament stages always write directly.
+  app.post("/api/sync/trigger", isAuthenticated, isAdmin, async (req: any, res) => {
     try {
-      // Start sync in background
-      dataSyncService.syncAllData().catch(error => {
-        console.error("Background sync failed:", error);
-      });
+      const createdBy = req.user?.claims?.sub;
+      if (req.body?.dryRun === true) {
+        const job = await jobQueueService.enqueue('syncOpenSanctions', {
+          payload: { full: req.body?.full === true, planOnly: true },
+          createdBy,
+        });
+        return res.status(202).json({ message: "OpenSanctions sync plan generation queued", job });
+      }
       
-      res.json({ message: "Data synchronization started" });
+      const job = await jobQueueService.enqueue('syncAll', { createdBy });
+      res.status(202).json({ message: "Data synchronization queued", job });
     } catch (error) {
       console.error("Error starting data sync:", error);
       res.status(500).json({ error: "Failed to start data synchronization" });
@@ -315,7 +1085,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/sync/status", isAuthenticated, async (req, res) => {
     try {
       const latestUpdate = await optimizedStorage.getLatestDataUpdate();
-      const schedulerStatus = schedulerService.getStatus();
+      const schedulerStatus = await schedulerService.getStatus();
       res.json({ 
         lastSync: latestUpdate || { status: "never_run" },
         scheduler: schedulerStatus
@@ -327,22 +1097,257 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Scheduler management endpoints
-  app.post("/api/scheduler/trigger", isAuthenticated, async (req, res) => {
+  app.post("/api/scheduler/trigger", isAuthenticated, isAdmin, async (req: any, res) => {
     try {
-      const result = await schedulerService.triggerManualSync();
-      res.json(result);
+      const result = await schedulerService.triggerManualSync(req.body?.full === true, req.user?.claims?.sub);
+      res.status(result.success ? 202 : 500).json(result);
     } catch (error) {
       console.error("Error triggering manual sync:", error);
       res.status(500).json({ error: "Failed to trigger manual sync" });
     }
   });
 
+  // Background jobs: enqueue, poll progress, cancel
+  app.get("/api/jobs", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const filters = jobQuerySchema.parse(req.query);
+      const jobs = await optimizedStorage.getJobs(filters);
+      res.json(jobs);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid job filters" });
+      }
+      console.error("Error fetching jobs:", error);
+      res.status(500).json({ error: "Failed to fetch jobs" });
+    }
+  });
+
+  app.post("/api/jobs", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const { type, payload } = jobCreateSchema.parse(req.body);
+      const job = await jobQueueService.enqueue(type, { payload, createdBy: req.user?.claims?.sub });
+      res.status(202).json(job);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid job" });
+      }
+      console.error("Error enqueuing job:", error);
+      res.status(500).json({ error: "Failed to enqueue job" });
+    }
+  });
+
+  app.get("/api/jobs/:id", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const job = await optimizedStorage.getJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      res.json(job);
+    } catch (error) {
+      console.error("Error fetching job:", error);
+      res.status(500).json({ error: "Failed to fetch job" });
+    }
+  });
+
+  app.post("/api/jobs/:id/cancel", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const job = await optimizedStorage.getJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      
+      const cancelled = await jobQueueService.cancel(job.id);
+      if (!cancelled) {
+        return res.status(409).json({ error: `Job is already ${job.status}` });
+      }
+      res.json(cancelled);
+    } catch (error) {
+      console.error("Error cancelling job:", error);
+      res.status(500).json({ error: "Failed to cancel job" });
+    }
+  });
+
+  // Dry-run sync plans: generate, review, approve or reject
+  app.get("/api/sync/plans", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const plans = await optimizedStorage.getSyncPlans();
+      res.json(plans);
+    } catch (error) {
+      console.error("Error fetching sync plans:", error);
+      res.status(500).json({ error: "Failed to fetch sync plans" });
+    }
+  });
+
+  // The plan is generated by a background job; its result is the stored plan
+  app.post("/api/sync/plans", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const job = await jobQueueService.enqueue('syncOpenSanctions', {
+        payload: { full: req.body?.full === true, planOnly: true },
+        createdBy: req.user?.claims?.sub,
+      });
+      res.status(202).json({ message: "Sync plan generation queued", job });
+    } catch (error) {
+      console.error("Error creating sync plan:", error);
+      res.status(500).json({ error: "Failed to create sync plan" });
+    }
+  });
+
+  app.get("/api/sync/plans/:id", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const plan = await optimizedStorage.getSyncPlan(req.params.id);
+      if (!plan) {
+        return res.status(404).json({ error: "Sync plan not found" });
+      }
+      res.json(plan);
+    } catch (error) {
+      console.error("Error fetching sync plan:", error);
+      res.status(500).json({ error: "Failed to fetch sync plan" });
+    }
+  });
+
+  app.post("/api/sync/plans/:id/approve", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const plan = await optimizedStorage.getSyncPlan(req.params.id);
+      if (!plan) {
+        return res.status(404).json({ error: "Sync plan not found" });
+      }
+      const conflict = await accurateDataSync.getPlanConflict(plan);
+      if (conflict) {
+        return res.status(409).json({ error: conflict });
+      }
+      
+      // Only one of concurrent approvals gets the plan, so it is applied once
+      const approved = await accurateDataSync.approveSyncPlan(plan.id, req.user?.claims?.sub);
+      if (!approved) {
+        return res.status(409).json({ error: "Sync plan is no longer pending" });
+      }
+      // A failed apply marks the plan as failed, which needs a new plan rather than a retry
+      const job = await jobQueueService.enqueue('applySyncPlan', {
+        payload: { planId: plan.id },
+        createdBy: req.user?.claims?.sub,
+        maxAttempts: 1,
+      });
+      res.status(202).json({ message: "Sync plan approved and queued for applying", plan: approved, job });
+    } catch (error) {
+      console.error("Error applying sync plan:", error);
+      res.status(500).json({ error: "Failed to apply sync plan" });
+    }
+  });
+
+  app.post("/api/sync/plans/:id/reject", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const plan = await optimizedStorage.getSyncPlan(req.params.id);
+      if (!plan) {
+        return res.status(404).json({ error: "Sync plan not found" });
+      }
+      if (plan.status !== 'pending') {
+        return res.status(409).json({ error: `Sync plan is already ${plan.status}` });
+      }
+      
+      const rejected = await accurateDataSync.rejectSyncPlan(plan.id, req.user?.claims?.sub);
+      if (!rejected) {
+        return res.status(409).json({ error: "Sync plan is no longer pending" });
+      }
+      res.json(rejected);
+    } catch (error) {
+      console.error("Error rejecting sync plan:", error);
+      res.status(500).json({ error: "Failed to reject sync plan" });
+    }
+  });
+
+  // Source precedence rules and the conflict review queue
+  app.get("/api/sync/precedence", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const rules = await sourceMergeService.getRules();
+      res.json({ rules, sources: PROVENANCE_SOURCES });
+    } catch (error) {
+      console.error("Error fetching precedence rules:", error);
+      res.status(500).json({ error: "Failed to fetch precedence rules" });
+    }
+  });
+
+  app.put("/api/sync/precedence/:field", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const { sources, reviewConflicts } = precedenceRuleSchema.parse(req.body);
+      await sourceMergeService.saveRule(req.params.field, sources, reviewConflicts, req.user?.claims?.sub);
+      res.json(await sourceMergeService.getRules());
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid precedence rule" });
+      }
+      console.error("Error saving precedence rule:", error);
+      res.status(500).json({ error: "Failed to save precedence rule" });
+    }
+  });
+
+  app.delete("/api/sync/precedence/:field", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      await sourceMergeService.resetRule(req.params.field);
+      res.json(await sourceMergeService.getRules());
+    } catch (error) {
+      console.error("Error resetting precedence rule:", error);
+      res.status(500).json({ error: "Failed to reset precedence rule" });
+    }
+  });
+
+  app.get("/api/sync/conflicts", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const { page, limit, ...filters } = conflictQuerySchema.parse(req.query);
+      const offset = (page - 1) * limit;
+      
+      const result = await optimizedStorage.getFieldConflicts({ ...filters, limit, offset });
+      
+      res.json({
+        data: result.conflicts,
+        pagination: {
+          page,
+          limit,
+          total: result.total,
+          totalPages: Math.ceil(result.total / limit)
+        }
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid conflict filters" });
+      }
+      console.error("Error fetching source conflicts:", error);
+      res.status(500).json({ error: "Failed to fetch source conflicts" });
+    }
+  });
+
+  app.post("/api/sync/conflicts/:id/resolve", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const { resolution } = conflictResolutionSchema.parse(req.body);
+      const conflict = await optimizedStorage.getFieldConflict(req.params.id);
+      if (!conflict) {
+        return res.status(404).json({ error: "Conflict not found" });
+      }
+      if (conflict.status !== 'open') {
+        return res.status(409).json({ error: `Conflict is already ${conflict.status}` });
+      }
+      
+      const resolved = await sourceMergeService.resolveConflict(conflict, resolution, req.user?.claims?.sub);
+      apiCache.delete(`mep_${conflict.mepId}`);
+      apiCache.delete(`mep_provenance_${conflict.mepId}`);
+      res.json(resolved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid conflict resolution" });
+      }
+      if (error instanceof StaleConflictError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Error resolving source conflict:", error);
+      res.status(500).json({ error: "Failed to resolve source conflict" });
+    }
+  });
+
   // Data cleanup endpoints
-  app.post("/api/cleanup/run", isAuthenticated, async (req, res) => {
+  app.post("/api/cleanup/run", isAuthenticated, async (req: any, res) => {
     try {
       logger.info("Manual data cleanup triggered", 'API');
-      const result = await dataCleanupService.runFullCleanup();
-      res.json(result);
+      const job = await jobQueueService.enqueue('cleanup', { createdBy: req.user?.claims?.sub });
+      res.status(202).json({ message: "Data cleanup queued", job });
     } catch (error) {
       logger.error("Error running data cleanup", 'API', { error: error instanceof Error ? error.message : String(error) });
       res.status(500).json({ error: "Failed to run data cleanup" });
@@ -373,13 +1378,156 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/scheduler/status", isAuthenticated, async (req, res) => {
     try {
-      const status = schedulerService.getStatus();
+      const status = await schedulerService.getStatus();
       res.json(status);
     } catch (error) {
       console.error("Error fetching scheduler status:", error);
       res.status(500).json({ error: "Failed to fetch scheduler status" });
     }
   });
+
+  app.put("/api/scheduler/schedules/:stage", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const stage = z.enum(SCHEDULE_STAGES).safeParse(req.params.stage);
+      if (!stage.success) {
+        return res.status(404).json({ error: "Unknown sync stage" });
+      }
+      const changes = scheduleUpdateSchema.parse(req.body);
+      const invalid = schedulerService.validateSchedule(changes.cronExpression, changes.timezone);
+      if (invalid) {
+        return res.status(400).json({ error: invalid });
+      }
+      
+      const schedule = await schedulerService.updateSchedule(stage.data, changes, req.user?.claims?.sub);
+      if (!schedule) {
+        return res.status(404).json({ error: "Schedule not found" });
+      }
+      res.json(schedule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid schedule" });
+      }
+      console.error("Error updating schedule:", error);
+      res.status(500).json({ error: "Failed to update schedule" });
+    }
+  });
+  
+  // Outbound webhook subscriptions (admin only). The signing secret is only returned on creation and rotation
+  app.get("/api/webhooks", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const subscriptions = await optimizedStorage.getWebhookSubscriptions();
+      res.json(subscriptions.map(withoutSecret));
+    } catch (error) {
+      console.error("Error fetching webhook subscriptions:", error);
+      res.status(500).json({ error: "Failed to fetch webhook subscriptions" });
+    }
+  });
+  
+  app.post("/api/webhooks", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const subscription = webhookSubscriptionSchema.parse(req.body);
+      const created = await optimizedStorage.createWebhookSubscription({
+        ...subscription,
+        secret: generateWebhookSecret(),
+        createdBy: req.user?.claims?.sub
+      });
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid webhook subscription" });
+      }
+      console.error("Error creating webhook subscription:", error);
+      res.status(500).json({ error: "Failed to create webhook subscription" });
+    }
+  });
+  
+  app.put("/api/webhooks/:id", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const changes = webhookSubscriptionSchema.partial().parse(req.body);
+      const updated = await optimizedStorage.updateWebhookSubscription(req.params.id, changes);
+      if (!updated) {
+        return res.status(404).json({ error: "Webhook subscription not found" });
+      }
+      res.json(withoutSecret(updated));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid webhook subscription" });
+      }
+      console.error("Error updating webhook subscription:", error);
+      res.status(500).json({ error: "Failed to update webhook subscription" });
+    }
+  });
+  
+  app.post("/api/webhooks/:id/rotate-secret", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const updated = await optimizedStorage.updateWebhookSubscription(req.params.id, { secret: generateWebhookSecret() });
+      if (!updated) {
+        return res.status(404).json({ error: "Webhook subscription not found" });
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Error rotating webhook secret:", error);
+      res.status(500).json({ error: "Failed to rotate webhook secret" });
+    }
+  });
+  
+  app.delete("/api/webhooks/:id", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const deleted = await optimizedStorage.deleteWebhookSubscription(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Webhook subscription not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting webhook subscription:", error);
+      res.status(500).json({ error: "Failed to delete webhook subscription" });
+    }
+  });
+  
+  // Delivery log of one subscription, newest first
+  app.get("/api/webhooks/:id/deliveries", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const { page, limit, status } = webhookDeliveryQuerySchema.parse(req.query);
+      const subscription = await optimizedStorage.getWebhookSubscription(req.params.id);
+      if (!subscription) {
+        return res.status(404).json({ error: "Webhook subscription not found" });
+      }
+      
+      const result = await optimizedStorage.getWebhookDeliveries(subscription.id, { status, limit, offset: (page - 1) * limit });
+      res.json({
+        data: result.deliveries,
+        pagination: {
+          page,
+          limit,
+          total: result.total,
+          totalPages: Math.ceil(result.total / limit)
+        }
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid delivery filters" });
+      }
+      console.error("Error fetching webhook deliveries:", error);
+      res.status(500).json({ error: "Failed to fetch webhook deliveries" });
+    }
+  });
+  
+  app.post("/api/webhooks/deliveries/:id/redeliver", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const delivery = await optimizedStorage.getWebhookDelivery(req.params.id);
+      if (!delivery) {
+        return res.status(404).json({ error: "Webhook delivery not found" });
+      }
+      if (delivery.status === 'pending') {
+        return res.status(409).json({ error: "Delivery is already queued" });
+      }
+      
+      res.json(await webhookService.redeliver(delivery));
+    } catch (error) {
+      console.error("Error redelivering webhook:", error);
+      res.status(500).json({ error: "Failed to redeliver webhook" });
+    }
+  });
   
   // Filter options endpoints
   app.get("/api/filters/countries", isAuthenticated, async (req, res) => {
@@ -4,132 +4,195 @@
  * Uses multiple reliable data sources for comprehensive EU Parliament data:
  * 1. OpenSanctions EU MEPs API (weekly updates, 719 MEPs)
  * 2. Official EU Parliament XML feed  
- * 3. Direct MEP profile scraping for committee memberships
+ * 
+ * Membership openings and role changes are planned from the EU Parliament
+ * corporate-body data. Closing memberships is left to the membership sync
+ * (`DataSyncService.syncCommitteeMemberships`), which also reads profile pages
+ * before deciding a seat is gone.
+ * 
+ * Runs incrementally by default: the newest OpenSanctions modification
+ * timestamp applied so far is kept in `sync_state`, and known MEPs that have
+ * not changed since are skipped. Each run is recorded in `data_updates`.
+ * 
+ * Every run first plans its writes against a snapshot of the stored data
+ * (creates, updates, deactivations and membership changes). A direct sync
+ * applies the plan straight away; a dry run stores it in `sync_plans` for an
+ * admin to approve or reject. Deactivations always need approval: a direct
+ * sync applies everything else and stores them as a separate plan.
+ * 
+ * Planning covers this service only: the EU Parliament sync in
+ * `DataSyncService` still writes directly.
  * 
  * @author EU MEP Watch Development Team
  * @since August 2025
  */
 
 import { openSanctionsAPI } from './openSanctionsApi';
+import { euParliamentAPI } from './euParliamentApi';
+import { sourceMergeService } from './sourceMerge';
+import { webhookService } from './webhooks';
 import { storage } from '../storage';
 import { logger } from '../utils/logger';
-import type { InsertMEP, InsertCommittee, InsertMEPCommittee } from '@shared/schema';
+import { diffFields } from '../utils/changeDiff';
+import { checkpoint, subTask, type TaskControl } from '../utils/progress';
+import { normalizeCommitteeRole } from '../utils/committeeCatalogue';
+import { upstreamClient } from '../utils/upstreamClient';
+import type {
+  InsertMEP,
+  InsertCommittee,
+  InsertMEPCommittee,
+  InsertMEPMandate,
+  MEP,
+  MEPCommittee,
+  InsertSyncPlanChange,
+  FieldChange,
+  SyncPlan,
+  SyncPlanChange,
+  SyncPlanAction,
+  SyncPlanSummary,
+  SyncState,
+} from '@shared/schema';
+
+/** `sync_state` key of the OpenSanctions MEP dataset */
+const OPENSANCTIONS_SOURCE = 'opensanctions_meps';
+
+/** Official number of seats in the European Parliament */
+const OFFICIAL_MEP_COUNT = 720;
+
+/** Postgres SQLSTATE of a unique constraint violation */
+const UNIQUE_VIOLATION = '23505';
+
+/** Whether a database error is a violation of the given unique constraint */
+function isUniqueViolation(error: unknown, constraint: string): boolean {
+  const { code, constraint: violated } = (error ?? {}) as { code?: string; constraint?: string };
+  return code === UNIQUE_VIOLATION && violated === constraint;
+}
+
+/** Payload of planned MEP creates and updates */
+interface MEPChangePayload {
+  mep: InsertMEP;
+  mandates: Omit<InsertMEPMandate, 'mepId'>[];
+  /** Where and when the values were fetched (ISO timestamp once stored) */
+  provenance?: { sourceUrl: string; fetchedAt: string };
+}
+
+/** Payload of planned membership openings and role changes */
+type MembershipChangePayload = Pick<InsertMEPCommittee, 'mepId' | 'committeeId' | 'source'> & { role: string };
+
+/** Adds a change to the plan being drafted */
+type PlanFn = (action: SyncPlanAction, change: Omit<InsertSyncPlanChange, 'action' | 'position'>) => void;
+
+/** The parts of a planned or stored change needed to apply it */
+type PlannedChange = Pick<SyncPlanChange, 'action' | 'entityId' | 'label'> & { payload?: unknown };
+
+interface SyncPlanDraft {
+  changes: InsertSyncPlanChange[];
+  summary: SyncPlanSummary;
+  /** Known MEPs skipped because they were not modified since the watermark */
+  skipped: number;
+  /** Watermark to store once the plan is applied without errors */
+  watermark: Date | null;
+  state: SyncState | undefined;
+  errors: string[];
+}
+
+export interface SyncApplyResult {
+  mepsCreated: number;
+  mepsUpdated: number;
+  mepsDeactivated: number;
+  committeesCreated: number;
+  membershipsCreated: number;
+  errors: string[];
+}
 
 export class AccurateDataSyncService {
   
   /**
    * Perform accurate data sync using multiple reliable sources
+   * 
+   * @param options.full Ignore the stored watermark and re-apply every record
+   * @param control Progress reporting; when aborted, remaining changes are skipped
+   *   and the watermark is left in place
    */
-  async syncAccurateData(): Promise<{
+  async syncAccurateData(options: { full?: boolean } = {}, control?: TaskControl): Promise<{
     mepsCreated: number;
     mepsUpdated: number; 
+    mepsSkipped: number;
     committeesCreated: number;
     membershipsCreated: number;
+    /** Id of the plan holding the deactivations that await approval */
+    deactivationPlanId: string | null;
     errors: string[];
+    /** Set when the sync could not run at all */
+    fatal?: string;
   }> {
-    logger.info('Starting accurate data synchronization...', 'AccurateDataSync');
+    logger.info('Starting accurate data synchronization...', 'AccurateDataSync', { full: !!options.full });
     
     let mepsCreated = 0;
     let mepsUpdated = 0;
+    let mepsSkipped = 0;
     let committeesCreated = 0;
     let membershipsCreated = 0;
+    let deactivationPlanId: string | null = null;
     const errors: string[] = [];
     
+    const updateRecord = await storage.createDataUpdate({
+      updateType: options.full ? 'opensanctions_full_sync' : 'opensanctions_sync',
+      status: 'running'
+    });
+    
     try {
-      // Step 1: Sync MEPs from OpenSanctions (most reliable source)
-      logger.info('Syncing MEPs from OpenSanctions...', 'AccurateDataSync');
-      const openSanctionsMEPs = await openSanctionsAPI.fetchAllMEPs();
-      logger.info('Found MEPs from OpenSanctions', 'AccurateDataSync', { count: openSanctionsMEPs.length });
-      
-      for (const osMEP of openSanctionsMEPs) {
-        try {
-          const transformedMEP = openSanctionsAPI.transformToInternalFormat(osMEP);
-          
-          // Check if MEP exists
-          const existingMEP = await storage.getMEP(transformedMEP.id);
-          
-          if (existingMEP) {
-            // Update existing MEP with accurate data
-            await storage.updateMEP(transformedMEP.id, transformedMEP);
-            mepsUpdated++;
-          } else {
-            // Create new MEP
-            await storage.createMEP(transformedMEP);
-            mepsCreated++;
-          }
-          
-          // Extract and create committee memberships from OpenSanctions data
-          const committeeMemberships = this.extractCommitteeMemberships(osMEP);
-          for (const membership of committeeMemberships) {
-            try {
-              // Ensure committee exists first
-              await this.ensureCommitteeExists(membership.committeeCode, membership.committeeName);
-              
-              // Create membership
-              await storage.createMEPCommittee({
-                mepId: transformedMEP.id,
-                committeeId: `comm_${membership.committeeCode.toLowerCase()}`,
-                role: membership.role || 'member'
-              });
-              membershipsCreated++;
-            } catch (error) {
-              // Skip if membership already exists
-              if (!String(error).includes('duplicate')) {
-                errors.push(`Failed to create committee membership: ${error}`);
-              }
-            }
-          }
-          
-        } catch (error) {
-          errors.push(`Failed to process MEP ${osMEP.id}: ${error}`);
-        }
-      }
-      
-      // Step 2: Fetch additional data from official EU Parliament XML feed
-      logger.info('Syncing additional data from EU Parliament XML...', 'AccurateDataSync');
-      await this.syncFromOfficialXML();
+      const draft = await this.planSync(options, subTask(control, 0, 0.5));
+      mepsSkipped = draft.skipped + draft.summary.unchanged;
+      errors.push(...draft.errors);
       
-      // Step 3: Ensure we have exactly 720 active MEPs (official EU Parliament count)
-      logger.info('Ensuring correct MEP count (720 active MEPs)...', 'AccurateDataSync');
-      const { db } = await import('../db');
-      const { sql } = await import('drizzle-orm');
+      const deactivations = draft.changes.filter(change => change.action === 'deactivate_mep');
+      const applied = await this.applyChanges(draft.changes.filter(change => change.action !== 'deactivate_mep'), subTask(control, 0.5, 1));
+      ({ mepsCreated, mepsUpdated, committeesCreated, membershipsCreated } = applied);
+      errors.push(...applied.errors);
+      const cancelled = control?.signal?.aborted === true;
       
-      // Count current active MEPs
-      const countResult = await db.execute(sql`SELECT COUNT(*) as count FROM meps WHERE is_active = true`);
-      const firstRow = countResult.rows[0] as { count: string };
-      const currentCount = Number(firstRow.count);
+      await this.saveWatermark(draft, options.full, errors.length === 0 && !cancelled);
       
-      if (currentCount > 720) {
-        const excess = currentCount - 720;
-        logger.warn('Deactivating excess MEPs to reach official count', 'AccurateDataSync', { excess, targetCount: 720 });
-        
-        await db.execute(sql`
-          UPDATE meps 
-          SET is_active = false 
-          WHERE id IN (
-            SELECT id FROM (
-              SELECT id FROM meps 
-              WHERE is_active = true 
-              ORDER BY created_at ASC 
-              LIMIT ${excess}
-            ) AS excess_meps
-          )
-        `);
+      // Stored after the watermark so the plan is not already out of date
+      if (deactivations.length > 0 && !cancelled) {
+        const plan = await storage.createSyncPlan({
+          source: OPENSANCTIONS_SOURCE,
+          fullSync: false,
+          summary: { ...this.emptySummary(), deactivate_mep: deactivations.length },
+          watermark: draft.watermark,
+          errors: null,
+        }, deactivations.map((change, position) => ({ ...change, position })));
+        deactivationPlanId = plan.id;
+        logger.warn('MEP deactivations held back for approval', 'AccurateDataSync', { planId: plan.id, count: deactivations.length });
       }
       
-      logger.info('Accurate data sync completed successfully', 'AccurateDataSync', {
+      logger.info(cancelled ? 'Accurate data sync cancelled' : 'Accurate data sync completed successfully', 'AccurateDataSync', {
         mepsCreated,
         mepsUpdated,
-        finalMEPCount: 720,
+        mepsSkipped,
+        deactivationsPending: deactivations.length,
         membershipsCreated,
         errorCount: errors.length
       });
       
+      await storage.updateDataUpdate(updateRecord.id, {
+        status: cancelled ? 'cancelled' : 'completed',
+        completedAt: new Date(),
+        recordsProcessed: mepsCreated + mepsUpdated + mepsSkipped,
+        recordsCreated: mepsCreated,
+        recordsUpdated: mepsUpdated,
+        recordsSkipped: mepsSkipped,
+        errors: errors.length > 0 ? errors : null
+      });
+      
       return {
         mepsCreated,
         mepsUpdated,
+        mepsSkipped,
         committeesCreated,
         membershipsCreated,
+        deactivationPlanId,
         errors
       };
       
@@ -137,136 +200,470 @@ export class AccurateDataSyncService {
       const errorMsg = `Accurate data sync failed: ${error}`;
       console.error(errorMsg);
       errors.push(errorMsg);
-      return { mepsCreated, mepsUpdated, committeesCreated, membershipsCreated, errors };
+      await storage.updateDataUpdate(updateRecord.id, {
+        status: 'failed',
+        completedAt: new Date(),
+        recordsCreated: mepsCreated,
+        recordsUpdated: mepsUpdated,
+        recordsSkipped: mepsSkipped,
+        errors
+      });
+      return { mepsCreated, mepsUpdated, mepsSkipped, committeesCreated, membershipsCreated, deactivationPlanId, errors, fatal: errorMsg };
     }
   }
   
   /**
-   * Extract committee memberships from OpenSanctions data structure
+   * Dry run: plan the sync without writing any data and store the plan for review.
+   * Pending plans computed earlier are superseded.
+   * 
+   * @param options.full Ignore the stored watermark and plan every record
+   * @param control Progress reporting; an aborted dry run stores no plan
    */
-  private extractCommitteeMemberships(osMEP: any): Array<{
-    committeeCode: string;
-    committeeName: string;
-    role?: string;
-  }> {
-    const memberships: Array<{
-      committeeCode: string;
-      committeeName: string;
-      role?: string;
-    }> = [];
+  async createSyncPlan(options: { full?: boolean } = {}, control?: TaskControl): Promise<SyncPlan> {
+    logger.info('Starting dry-run data synchronization...', 'AccurateDataSync', { full: !!options.full });
     
-    // Look for membership information in the complex OpenSanctions structure
-    if (osMEP.properties?.membershipMember) {
-      for (const membership of osMEP.properties.membershipMember) {
-        if (membership.properties?.organization) {
-          for (const org of membership.properties.organization) {
-            const orgName = org.caption || '';
-            
-            // Check if this is a committee (contains "Committee" in name)
-            if (orgName.includes('Committee') || orgName.includes('commission')) {
-              const committeeCode = this.extractCommitteeCode(orgName);
-              if (committeeCode) {
-                memberships.push({
-                  committeeCode,
-                  committeeName: orgName,
-                  role: this.determineRole(membership)
-                });
-              }
-            }
-          }
-        }
+    const draft = await this.planSync(options, control);
+    if (control?.signal?.aborted) {
+      throw new Error('Dry run cancelled before the plan was complete');
+    }
+    const plan = await storage.createSyncPlan({
+      source: OPENSANCTIONS_SOURCE,
+      fullSync: !!options.full,
+      summary: draft.summary,
+      watermark: draft.watermark,
+      errors: draft.errors.length > 0 ? draft.errors : null,
+    }, draft.changes);
+    
+    logger.info('Sync plan created', 'AccurateDataSync', {
+      planId: plan.id,
+      changes: draft.changes.length,
+      skipped: draft.skipped,
+      ...draft.summary
+    });
+    return plan;
+  }
+  
+  /**
+   * Reason a stored plan can no longer be applied, or null when it can
+   * 
+   * @param expectedStatus `pending` before approval, `approved` when the apply job runs
+   */
+  async getPlanConflict(plan: SyncPlan, expectedStatus: 'pending' | 'approved' = 'pending'): Promise<string | null> {
+    if (plan.status !== expectedStatus) {
+      return `Sync plan is already ${plan.status}`;
+    }
+    const state = await storage.getSyncState(plan.source);
+    if (state?.lastRunAt && plan.createdAt && state.lastRunAt > plan.createdAt) {
+      return 'Data has been synchronized since this plan was generated; generate a new plan';
+    }
+    return null;
+  }
+  
+  /**
+   * Mark a pending plan as approved; it is applied by an `applySyncPlan` job
+   * 
+   * @returns undefined when the plan is no longer pending, e.g. because a
+   *   concurrent request approved or rejected it first
+   */
+  async approveSyncPlan(planId: string, reviewedBy?: string): Promise<SyncPlan | undefined> {
+    const plan = await storage.transitionSyncPlan(planId, 'pending', { status: 'approved', reviewedBy, reviewedAt: new Date() });
+    if (plan) {
+      logger.info('Sync plan approved', 'AccurateDataSync', { planId, reviewedBy });
+    }
+    return plan;
+  }
+  
+  /**
+   * Apply an approved plan exactly as it was reviewed
+   * 
+   * @param control Progress reporting; when aborted, remaining changes are skipped
+   *   and the plan ends as failed
+   */
+  async applySyncPlan(planId: string, control?: TaskControl): Promise<SyncApplyResult> {
+    const plan = await storage.getSyncPlan(planId);
+    if (!plan) {
+      throw new Error(`Sync plan ${planId} not found`);
+    }
+    const conflict = await this.getPlanConflict(plan, 'approved');
+    if (conflict) {
+      if (plan.status === 'approved') {
+        await storage.updateSyncPlan(plan.id, { status: 'failed', errors: [conflict] });
       }
+      throw new Error(conflict);
     }
     
-    return memberships;
+    const updateRecord = await storage.createDataUpdate({
+      updateType: 'sync_plan_apply',
+      status: 'running'
+    });
+    
+    const result = await this.applyChanges(plan.changes, control);
+    if (control?.signal?.aborted) {
+      result.errors.push('Cancelled before every change was applied');
+    }
+    const planErrors = Array.isArray(plan.errors) ? plan.errors as string[] : [];
+    await this.saveWatermark({
+      watermark: plan.watermark,
+      state: await storage.getSyncState(plan.source),
+    }, plan.fullSync, planErrors.length === 0 && result.errors.length === 0);
+    
+    await storage.updateSyncPlan(plan.id, {
+      status: result.errors.length === 0 ? 'applied' : 'failed',
+      appliedAt: new Date(),
+      errors: [...planErrors, ...result.errors].length > 0 ? [...planErrors, ...result.errors] : null,
+    });
+    await storage.updateDataUpdate(updateRecord.id, {
+      status: control?.signal?.aborted ? 'cancelled' : 'completed',
+      completedAt: new Date(),
+      recordsProcessed: plan.changes.length,
+      recordsCreated: result.mepsCreated,
+      recordsUpdated: result.mepsUpdated + result.mepsDeactivated,
+      recordsSkipped: plan.summary.unchanged,
+      errors: result.errors.length > 0 ? result.errors : null
+    });
+    
+    logger.info('Sync plan applied', 'AccurateDataSync', { planId, reviewedBy: plan.reviewedBy, ...result, errors: result.errors.length });
+    return result;
+  }
+  
+  /**
+   * Reject a pending plan; nothing is written
+   * 
+   * @returns undefined when the plan is no longer pending
+   */
+  async rejectSyncPlan(planId: string, reviewedBy?: string): Promise<SyncPlan | undefined> {
+    const plan = await storage.transitionSyncPlan(planId, 'pending', { status: 'rejected', reviewedBy, reviewedAt: new Date() });
+    if (plan) {
+      logger.info('Sync plan rejected', 'AccurateDataSync', { planId, reviewedBy });
+    }
+    return plan;
   }
   
   /**
-   * Extract committee code from committee name
+   * Compute every write the sync would make, without writing anything.
+   * Records planned earlier in the run are kept in a staging snapshot so later
+   * records see them (e.g. a committee is created only once).
    */
-  private extractCommitteeCode(committeeName: string): string | null {
-    // Known EU Parliament committee mappings
-    const committeeMap: Record<string, string> = {
-      'Agriculture': 'AGRI',
-      'Budget': 'BUDG',
-      'Constitutional Affairs': 'AFCO',
-      'Budgetary Control': 'CONT',
-      'Culture': 'CULT',
-      'Education': 'CULT',
-      'Development': 'DEVE',
-      'Economic': 'ECON',
-      'Monetary Affairs': 'ECON',
-      'Employment': 'EMPL',
-      'Social Affairs': 'EMPL',
-      'Environment': 'ENVI',
-      'Public Health': 'ENVI',
-      'Food Safety': 'ENVI',
-      'Foreign Affairs': 'AFET',
-      'Human Rights': 'DROI',
-      'Industry': 'ITRE',
-      'Research': 'ITRE',
-      'Energy': 'ITRE',
-      'Internal Market': 'IMCO',
-      'Consumer Protection': 'IMCO',
-      'International Trade': 'INTA',
-      'Civil Liberties': 'LIBE',
-      'Justice': 'LIBE',
-      'Home Affairs': 'LIBE',
-      'Legal Affairs': 'JURI',
-      'Petitions': 'PETI',
-      'Regional Development': 'REGI',
-      'Transport': 'TRAN',
-      'Tourism': 'TRAN',
-      "Women's Rights": 'FEMM',
-      'Gender Equality': 'FEMM',
-      'Fisheries': 'PECH'
+  private async planSync(options: { full?: boolean }, control?: TaskControl): Promise<SyncPlanDraft> {
+    const changes: InsertSyncPlanChange[] = [];
+    const summary = this.emptySummary();
+    const errors: string[] = [];
+    let skipped = 0;
+    
+    const plan: PlanFn = (action, change) => {
+      changes.push({ ...change, action, position: changes.length });
+      summary[action]++;
     };
     
-    for (const [keyword, code] of Object.entries(committeeMap)) {
-      if (committeeName.includes(keyword)) {
-        return code;
+    // Step 1: Plan MEPs from OpenSanctions (most reliable source)
+    logger.info('Syncing MEPs from OpenSanctions...', 'AccurateDataSync');
+    const openSanctionsMEPs = await openSanctionsAPI.fetchAllMEPs();
+    const fetchedAt = new Date().toISOString();
+    logger.info('Found MEPs from OpenSanctions', 'AccurateDataSync', { count: openSanctionsMEPs.length });
+    
+    const state = await storage.getSyncState(OPENSANCTIONS_SOURCE);
+    const watermark = options.full ? null : state?.watermark ?? null;
+    const storedMEPs = await storage.getAllMEPs();
+    const knownMEPIds = new Set(storedMEPs.map(mep => mep.id));
+    let newestModifiedAt = watermark;
+    
+    // MEPs in the OpenSanctions dataset, including skipped ones
+    const publishedMEPIds = new Set<string>();
+    let activations = 0;
+    
+    const mepControl = subTask(control, 0, 0.7);
+    let processed = 0;
+    for (const osMEP of openSanctionsMEPs) {
+      if (checkpoint(mepControl, processed++, openSanctionsMEPs.length, 'Planning MEP changes')) break;
+      try {
+        const transformedMEP = openSanctionsAPI.transformToInternalFormat(osMEP);
+        const modifiedAt = openSanctionsAPI.getModifiedAt(osMEP);
+        publishedMEPIds.add(transformedMEP.id);
+        
+        // Known MEPs unchanged since the last applied modification are skipped
+        if (watermark && modifiedAt && modifiedAt <= watermark && knownMEPIds.has(transformedMEP.id)) {
+          skipped++;
+          continue;
+        }
+        if (modifiedAt && (!newestModifiedAt || modifiedAt > newestModifiedAt)) {
+          newestModifiedAt = modifiedAt;
+        }
+        
+        // Mandate history from the nested position occupancies
+        const mandates = openSanctionsAPI.extractMandates(osMEP);
+        const payload: MEPChangePayload = {
+          mep: transformedMEP,
+          mandates,
+          provenance: { sourceUrl: openSanctionsAPI.getSourceUrl(osMEP), fetchedAt },
+        };
+        const existingMEP = await storage.getMEP(transformedMEP.id);
+        
+        if (existingMEP) {
+          // Only fields OpenSanctions may overwrite; contested ones go to review on apply
+          const { accepted, conflicts } = await sourceMergeService.resolveMEPUpdate(existingMEP, transformedMEP, 'opensanctions');
+          const fieldChanges = [
+            ...diffFields(existingMEP, accepted),
+            ...conflicts.map(conflict => ({ field: `${conflict.field} (needs review)`, before: conflict.currentValue, after: conflict.incomingValue })),
+          ];
+          const mandateChange = await this.diffMandates(transformedMEP.id, mandates);
+          if (mandateChange) fieldChanges.push(mandateChange);
+          
+          if (fieldChanges.length > 0) {
+            plan('update_mep', { entityType: 'mep', entityId: transformedMEP.id, label: transformedMEP.fullName, payload, fieldChanges });
+            // Only reactivations the precedence rules let through count towards the seats
+            if (!existingMEP.isActive && accepted.isActive === true) activations++;
+          } else {
+            summary.unchanged++;
+          }
+        } else {
+          plan('create_mep', { entityType: 'mep', entityId: transformedMEP.id, label: transformedMEP.fullName, payload, fieldChanges: diffFields(null, transformedMEP) });
+          if (transformedMEP.isActive) activations++;
+        }
+        
+      } catch (error) {
+        errors.push(`Failed to process MEP ${osMEP.id}: ${error}`);
       }
     }
     
-    return null;
+    // Step 2: Fetch additional data from official EU Parliament XML feed
+    logger.info('Syncing additional data from EU Parliament XML...', 'AccurateDataSync');
+    await this.syncFromOfficialXML();
+    
+    // Step 3: Keep the active MEP count at the official number of seats.
+    // An MEP that failed to process would look unpublished, so nothing is deactivated then
+    if (!control?.signal?.aborted && errors.length === 0) {
+      this.planDeactivations(plan, storedMEPs, publishedMEPIds, activations);
+    }
+    
+    // Step 4: Plan membership openings and role changes
+    if (!control?.signal?.aborted) {
+      const plannedMEPIds = new Set(changes.filter(change => change.action === 'create_mep').map(change => change.entityId));
+      try {
+        await this.planMemberships(plan, id => knownMEPIds.has(id) || plannedMEPIds.has(id), subTask(control, 0.7, 1));
+      } catch (error) {
+        errors.push(`Failed to plan committee memberships: ${error}`);
+      }
+    }
+    
+    return { changes, summary, skipped, watermark: newestModifiedAt, state, errors };
   }
   
   /**
-   * Determine role from membership data
+   * Plan membership openings and role changes from the corporate-body data
+   * 
+   * @param isKnownMEP Whether an MEP is stored or planned for creation
    */
-  private determineRole(membership: any): string {
-    // Check for role indicators in the membership data
-    const membershipStr = JSON.stringify(membership).toLowerCase();
+  private async planMemberships(plan: PlanFn, isKnownMEP: (mepId: string) => boolean, control?: TaskControl) {
+    logger.info('Planning committee memberships from EU Parliament data...', 'AccurateDataSync');
+    const seatsByCommittee = await euParliamentAPI.fetchCommitteeMemberships();
+    const committeesByCode = new Map((await storage.getAllCommittees()).map(committee => [committee.code, committee] as const));
+    const openMemberships = new Map<string, MEPCommittee>((await storage.getOpenMEPCommittees()).map(membership => [`${membership.mepId}:${membership.committeeId}`, membership]));
+    const seen = new Set<string>();
     
-    if (membershipStr.includes('chair') || membershipStr.includes('president')) {
-      return 'chair';
-    } else if (membershipStr.includes('vice') || membershipStr.includes('deputy')) {
-      return 'vice-chair';
-    } else if (membershipStr.includes('coordinator')) {
-      return 'coordinator';
+    const codes = Array.from(seatsByCommittee.keys());
+    for (let index = 0; index < codes.length; index++) {
+      if (checkpoint(control, index, codes.length, 'Planning membership changes')) break;
+      const committee = committeesByCode.get(codes[index]);
+      if (!committee) continue;
+      
+      for (const seat of seatsByCommittee.get(codes[index]) || []) {
+        // A chair is listed both as chairperson and as member; the first listing wins
+        const key = `${seat.personId}:${committee.id}`;
+        if (!isKnownMEP(seat.personId) || seen.has(key)) continue;
+        seen.add(key);
+        
+        const role = normalizeCommitteeRole(seat.role);
+        const payload: MembershipChangePayload = { mepId: seat.personId, committeeId: committee.id, role, source: 'ep_corporate_body' };
+        const label = `${seat.personName || seat.personId} (${committee.code})`;
+        const existing = openMemberships.get(key);
+        
+        if (!existing) {
+          plan('open_membership', { entityType: 'membership', entityId: key, label, payload, fieldChanges: [{ field: 'role', before: null, after: role }] });
+        } else if (existing.role !== role) {
+          plan('change_role', { entityType: 'membership', entityId: key, label, payload, fieldChanges: [{ field: 'role', before: existing.role, after: role }] });
+        }
+      }
     }
+  }
+  
+  /**
+   * Plan deactivations when the active MEP count would exceed the official
+   * number of seats. Only MEPs OpenSanctions no longer publishes are
+   * candidates; if that is not enough the surplus is only reported.
+   * 
+   * @param activations Creates and reactivations planned in this run
+   */
+  private planDeactivations(plan: PlanFn, storedMEPs: MEP[], publishedMEPIds: Set<string>, activations: number) {
+    const active = storedMEPs.filter(mep => mep.isActive);
+    const plannedCount = active.length + activations;
+    if (plannedCount <= OFFICIAL_MEP_COUNT) return;
     
-    return 'member';
+    const candidates = active.filter(mep => !publishedMEPIds.has(mep.id));
+    logger.warn('Active MEP count exceeds the official number of seats', 'AccurateDataSync', {
+      plannedCount,
+      targetCount: OFFICIAL_MEP_COUNT,
+      unpublished: candidates.length,
+    });
+    
+    for (const mep of candidates.slice(0, plannedCount - OFFICIAL_MEP_COUNT)) {
+      plan('deactivate_mep', { entityType: 'mep', entityId: mep.id, label: mep.fullName, payload: null, fieldChanges: [{ field: 'isActive', before: true, after: false }] });
+    }
+  }
+  
+  private emptySummary(): SyncPlanSummary {
+    return {
+      create_mep: 0,
+      update_mep: 0,
+      deactivate_mep: 0,
+      create_committee: 0,
+      open_membership: 0,
+      change_role: 0,
+      unchanged: 0,
+    };
   }
   
   /**
-   * Ensure committee exists in database
+   * Write planned changes in order. Failures are collected per change so one
+   * bad record does not stop the rest of the plan.
    */
-  private async ensureCommitteeExists(code: string, name: string): Promise<void> {
-    const existingCommittee = await storage.getCommitteeByCode(code);
+  private async applyChanges(changes: PlannedChange[], control?: TaskControl): Promise<SyncApplyResult> {
+    const result: SyncApplyResult = {
+      mepsCreated: 0,
+      mepsUpdated: 0,
+      mepsDeactivated: 0,
+      committeesCreated: 0,
+      membershipsCreated: 0,
+      errors: [],
+    };
     
-    if (!existingCommittee) {
-      await storage.createCommittee({
-        id: `comm_${code.toLowerCase()}`,
-        code,
-        name,
-        nameNational: null,
-        coordinatorName: null,
-        coordinatorGroup: null,
-        officialUrl: `https://www.europarl.europa.eu/committees/en/${code.toLowerCase()}`,
-        isActive: true
-      });
+    let processed = 0;
+    for (const change of changes) {
+      if (checkpoint(control, processed++, changes.length, 'Applying changes')) break;
+      try {
+        switch (change.action as SyncPlanAction) {
+          case 'create_committee':
+            await storage.createCommittee(change.payload as InsertCommittee);
+            result.committeesCreated++;
+            break;
+          case 'create_mep': {
+            const { mep, mandates, provenance } = change.payload as MEPChangePayload;
+            await storage.createMEP(mep);
+            await this.recordProvenance(mep, provenance);
+            if (mandates.length > 0) {
+              await storage.replaceMEPMandates(mep.id, mandates);
+            }
+            result.mepsCreated++;
+            
+            const created = await storage.createChangeLog({
+              entityType: 'mep',
+              entityId: mep.id,
+              changeType: 'created',
+              oldValues: null,
+              newValues: mep
+            });
+            await webhookService.emitChange(created);
+            break;
+          }
+          case 'update_mep': {
+            const { mep, mandates, provenance } = change.payload as MEPChangePayload;
+            const existingMEP = await storage.getMEP(mep.id);
+            if (existingMEP) {
+              const { accepted } = await sourceMergeService.updateMEP(existingMEP, mep, {
+                source: 'opensanctions',
+                sourceUrl: provenance?.sourceUrl,
+                fetchedAt: provenance ? new Date(provenance.fetchedAt) : undefined,
+              });
+              await this.recordUpdate(existingMEP, accepted);
+            }
+            if (mandates.length > 0) {
+              await storage.replaceMEPMandates(mep.id, mandates);
+            }
+            result.mepsUpdated++;
+            break;
+          }
+          case 'deactivate_mep': {
+            const existingMEP = await storage.getMEP(change.entityId);
+            if (existingMEP) {
+              const { accepted } = await sourceMergeService.updateMEP(existingMEP, { isActive: false }, { source: 'seat_count_adjustment' });
+              if ('isActive' in accepted) result.mepsDeactivated++;
+              await this.recordUpdate(existingMEP, accepted);
+            }
+            break;
+          }
+          case 'open_membership': {
+            const membership = await storage.createMEPCommittee(change.payload as MembershipChangePayload);
+            result.membershipsCreated++;
+            await webhookService.emit('membership.added', { membership });
+            break;
+          }
+          case 'change_role': {
+            const { mepId, committeeId, role } = change.payload as MembershipChangePayload;
+            await storage.changeMEPCommitteeRole(mepId, committeeId, role);
+            break;
+          }
+        }
+      } catch (error) {
+        // A membership opened since the plan was generated is already applied
+        if (change.action === 'open_membership' && isUniqueViolation(error, 'mep_committees_open_unique')) continue;
+        result.errors.push(`Failed to apply ${change.action} for ${change.label}: ${error}`);
+      }
     }
+    
+    return result;
+  }
+  
+  /**
+   * Log the fields an update actually wrote and notify webhook subscribers
+   */
+  private async recordUpdate(existing: MEP, accepted: Partial<InsertMEP>) {
+    if (Object.keys(accepted).length === 0) return;
+    const change = await storage.createChangeLog({
+      entityType: 'mep',
+      entityId: existing.id,
+      changeType: 'updated',
+      oldValues: existing,
+      newValues: accepted
+    });
+    await webhookService.emitChange(change);
+  }
+  
+  /**
+   * Record OpenSanctions as the source of every field written for an MEP
+   */
+  private async recordProvenance(mep: InsertMEP, provenance: MEPChangePayload['provenance']) {
+    await storage.recordMEPProvenance(mep.id, mep, {
+      source: 'opensanctions',
+      sourceUrl: provenance?.sourceUrl,
+      fetchedAt: provenance ? new Date(provenance.fetchedAt) : undefined,
+    });
+  }
+  
+  /**
+   * Record the run in `sync_state`. A failed record must be retried next run,
+   * so the watermark only advances on a clean pass.
+   */
+  private async saveWatermark(draft: Pick<SyncPlanDraft, 'watermark' | 'state'>, full: boolean | undefined, clean: boolean) {
+    const now = new Date();
+    await storage.saveSyncState({
+      source: OPENSANCTIONS_SOURCE,
+      watermark: clean ? draft.watermark : draft.state?.watermark ?? null,
+      lastRunAt: now,
+      lastFullSyncAt: full || !draft.state ? now : draft.state.lastFullSyncAt,
+    });
+  }
+  
+  /**
+   * Mandate history difference as a single summary field change, or null when unchanged
+   */
+  private async diffMandates(mepId: string, mandates: Omit<InsertMEPMandate, 'mepId'>[]): Promise<FieldChange | null> {
+    if (mandates.length === 0) return null;
+    
+    const stored = await storage.getMEPMandates(mepId);
+    const sorted = [...mandates].sort((a, b) => a.startDate.localeCompare(b.startDate));
+    const changed = stored.length !== sorted.length ||
+      sorted.some((mandate, index) => diffFields(stored[index], mandate).length > 0);
+    
+    return changed ? { field: 'mandates', before: stored.length, after: sorted.length } : null;
   }
   
   /**
@@ -276,12 +673,8 @@ export class AccurateDataSyncService {
     try {
       console.log('Fetching official EU Parliament XML data...');
       
-      const response = await fetch('https://www.europarl.europa.eu/meps/en/full-list/xml');
-      
-      if (!response.ok) {
-        console.log('Official EU Parliament XML not accessible, skipping...');
-        return;
-      }
+      // Failures (including an open circuit) are logged below and skipped
+      const response = await upstreamClient.fetch('https://www.europarl.europa.eu/meps/en/full-list/xml', { retries: 1 });
       
       const xmlText = await response.text();
       console.log('Successfully fetched official EU Parliament XML data');
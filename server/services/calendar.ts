@@ -0,0 +1,126 @@
+/**
+ * Committee Event Calendars
+ *
+ * Publishes committee events as iCalendar files:
+ * - A single event, for "add to calendar" downloads
+ * - All events of one committee, as a subscribable feed
+ * - Events of the committees a user follows, as a private subscribable feed
+ *
+ * Calendar apps cannot sign in, so a user's watchlist calendar is addressed by
+ * a random token stored with their notification preferences. Resetting the
+ * token revokes every URL shared before.
+ *
+ * @author EU MEP Watch Development Team
+ * @since August 2025
+ */
+
+import { randomBytes } from 'crypto';
+import { storage } from '../storage';
+import { appBaseUrl } from '../utils/appUrl';
+import { toWebcalUrl, type Calendar, type CalendarEntry } from '../utils/icalendar';
+import type { CalendarEvent } from '@shared/schema';
+
+/** How far back subscribed calendars keep past events */
+const PAST_DAYS = 30;
+/** How far ahead subscribed calendars look */
+const FUTURE_MONTHS = 6;
+
+/** Start of the window published in subscribed calendars */
+function windowStart(): Date {
+  return new Date(Date.now() - PAST_DAYS * 24 * 60 * 60 * 1000);
+}
+
+function windowEnd(): Date {
+  const end = new Date();
+  end.setMonth(end.getMonth() + FUTURE_MONTHS);
+  return end;
+}
+
+export class CalendarService {
+  private entry({ event, committee }: CalendarEvent, baseUrl: string): CalendarEntry {
+    const committeeUrl = `${baseUrl}/committees/${encodeURIComponent(committee.id)}`;
+    const description = [
+      event.description,
+      event.agenda ? `Agenda: ${event.agenda}` : null,
+      event.liveStreamUrl ? `Live stream: ${event.liveStreamUrl}` : null,
+      event.documentsUrl ? `Documents: ${event.documentsUrl}` : null,
+      `${committee.name}: ${committeeUrl}`,
+    ].filter((line): line is string => !!line).join('\n\n');
+
+    return {
+      // Independent of the app's domain so subscribers keep their entries if it moves
+      uid: `committee-event-${event.id}@mepwatch`,
+      sequence: event.sequence,
+      start: event.startDate,
+      end: event.endDate,
+      summary: `${committee.code}: ${event.title}`,
+      description,
+      location: event.location,
+      url: event.officialUrl ?? committeeUrl,
+      categories: [committee.code, event.eventType],
+      created: event.createdAt ?? event.startDate,
+      lastModified: event.updatedAt ?? event.createdAt ?? event.startDate,
+    };
+  }
+
+  private calendar(name: string, description: string, events: CalendarEvent[]): Calendar {
+    const baseUrl = appBaseUrl();
+    return { name, description, entries: events.map(event => this.entry(event, baseUrl)) };
+  }
+
+  /**
+   * One public event
+   *
+   * @returns undefined when the event does not exist or is not public
+   */
+  async eventCalendar(eventId: string): Promise<Calendar | undefined> {
+    const [event] = await storage.getCalendarEvents({ eventId });
+    if (!event) return undefined;
+    return this.calendar(`${event.committee.code}: ${event.event.title}`, event.committee.name, [event]);
+  }
+
+  /**
+   * Recent and upcoming events of a committee
+   *
+   * @returns undefined when no committee has the code
+   */
+  async committeeCalendar(code: string): Promise<Calendar | undefined> {
+    const committee = await storage.getCommitteeByCode(code.toUpperCase());
+    if (!committee) return undefined;
+
+    const events = await storage.getCalendarEvents({ committeeId: committee.id, from: windowStart(), to: windowEnd() });
+    return this.calendar(`MEP Watch: ${committee.code}`, `Meetings and hearings of the ${committee.name}`, events);
+  }
+
+  /**
+   * Recent and upcoming events of the committees a user follows
+   *
+   * @returns undefined when no user has the token
+   */
+  async watchlistCalendar(token: string): Promise<Calendar | undefined> {
+    const preferences = await storage.getNotificationPreferencesByCalendarToken(token);
+    if (!preferences) return undefined;
+
+    const events = await storage.getCalendarEvents({ userId: preferences.userId, from: windowStart(), to: windowEnd() });
+    return this.calendar('MEP Watch: followed committees', 'Meetings and hearings of the committees you follow on MEP Watch', events);
+  }
+
+  /**
+   * URLs of a user's watchlist calendar, creating its token on first use
+   *
+   * @param reset Replace the token, invalidating the previous URLs
+   */
+  async watchlistSubscription(userId: string, reset = false): Promise<{ url: string; webcalUrl: string }> {
+    const preferences = await storage.getNotificationPreferences(userId);
+    let token = preferences?.calendarToken;
+    if (!token || reset) {
+      token = randomBytes(24).toString('base64url');
+      await storage.saveNotificationPreferences({ userId, calendarToken: token });
+    }
+
+    const url = `${appBaseUrl()}/feeds/watchlist/${token}/events.ics`;
+    return { url, webcalUrl: toWebcalUrl(url) };
+  }
+}
+
+export const calendarService = new CalendarService();
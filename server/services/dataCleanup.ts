@@ -12,9 +12,11 @@
  */
 
 import { db } from "../db";
+import { storage } from "../storage";
 import { meps, committees, mepCommittees, changeLog } from "@shared/schema";
-import { eq, and, sql, inArray, desc } from "drizzle-orm";
+import { eq, and, sql, inArray, desc, isNull } from "drizzle-orm";
 import { logger } from "../utils/logger";
+import { checkpoint, type TaskControl } from "../utils/progress";
 import { nanoid } from "nanoid";
 
 export class DataCleanupService {
@@ -120,35 +122,37 @@ export class DataCleanupService {
 
     // Transfer committee memberships to primary MEP
     for (const committee of duplicateCommittees) {
-      // Check if primary MEP already has this committee membership
+      // Check if primary MEP already has this membership period (or an open one for open periods)
       const existing = await db.select()
         .from(mepCommittees)
         .where(
           and(
             eq(mepCommittees.mepId, primaryMEP.id),
-            eq(mepCommittees.committeeId, committee.committeeId)
+            eq(mepCommittees.committeeId, committee.committeeId),
+            committee.endDate ? eq(mepCommittees.startDate, committee.startDate) : isNull(mepCommittees.endDate)
           )
         );
 
       if (existing.length === 0) {
-        // Transfer the committee membership
-        await db.insert(mepCommittees).values({
-          mepId: primaryMEP.id,
-          committeeId: committee.committeeId,
-          role: committee.role
-        });
+        // Move the membership period (and with it its role history) to the primary MEP
+        await db.update(mepCommittees)
+          .set({ mepId: primaryMEP.id })
+          .where(eq(mepCommittees.id, committee.id));
         
         logger.info(`Transferred committee ${committee.committeeId} to primary MEP ${primaryMEP.id}`, 'DataCleanup');
       }
     }
 
-    // Delete duplicate committee memberships
+    // Delete remaining duplicate committee memberships
     await db.delete(mepCommittees).where(inArray(mepCommittees.mepId, duplicateIds));
 
     // Mark duplicate MEPs as inactive instead of deleting (for audit trail)
     await db.update(meps)
       .set({ isActive: false, updatedAt: new Date() })
       .where(inArray(meps.id, duplicateIds));
+    for (const duplicateId of duplicateIds) {
+      await storage.recordMEPProvenance(duplicateId, { isActive: false }, { source: 'data_cleanup' });
+    }
 
     // Log the merge action
     await db.insert(changeLog).values({
@@ -225,7 +229,7 @@ export class DataCleanupService {
         SELECT mc.mep_id, mc.committee_id, COUNT(*) as count
         FROM mep_committees mc
         LEFT JOIN meps m ON mc.mep_id = m.id AND m.is_active = true
-        WHERE m.id IS NULL
+        WHERE m.id IS NULL AND mc.end_date IS NULL
         GROUP BY mc.mep_id, mc.committee_id
       `);
 
@@ -234,18 +238,18 @@ export class DataCleanupService {
         SELECT mc.mep_id, mc.committee_id, COUNT(*) as count
         FROM mep_committees mc
         LEFT JOIN committees c ON mc.committee_id = c.id AND c.is_active = true
-        WHERE c.id IS NULL
+        WHERE c.id IS NULL AND mc.end_date IS NULL
         GROUP BY mc.mep_id, mc.committee_id
       `);
 
       const orphanedMEPCount = orphanedMEPs.rows.length;
       const orphanedCommitteeCount = orphanedCommittees.rows.length;
 
-      // Clean up orphaned memberships
+      // Close orphaned memberships; the periods are kept for historical compositions
       if (orphanedMEPCount > 0) {
         await db.execute(sql`
-          DELETE FROM mep_committees 
-          WHERE mep_id NOT IN (
+          UPDATE mep_committees SET end_date = CURRENT_DATE
+          WHERE end_date IS NULL AND mep_id NOT IN (
             SELECT id FROM meps WHERE is_active = true
           )
         `);
@@ -253,14 +257,14 @@ export class DataCleanupService {
 
       if (orphanedCommitteeCount > 0) {
         await db.execute(sql`
-          DELETE FROM mep_committees 
-          WHERE committee_id NOT IN (
+          UPDATE mep_committees SET end_date = CURRENT_DATE
+          WHERE end_date IS NULL AND committee_id NOT IN (
             SELECT id FROM committees WHERE is_active = true
           )
         `);
       }
 
-      logger.info(`Cleaned up ${orphanedMEPCount + orphanedCommitteeCount} orphaned memberships`, 'DataCleanup');
+      logger.info(`Closed ${orphanedMEPCount + orphanedCommitteeCount} orphaned memberships`, 'DataCleanup');
 
       return {
         orphanedMemberships: orphanedMEPCount,
@@ -276,8 +280,10 @@ export class DataCleanupService {
 
   /**
    * Run comprehensive data cleanup
+   * 
+   * @param control Progress reporting; when aborted, later steps are skipped
    */
-  async runFullCleanup(): Promise<{
+  async runFullCleanup(control?: TaskControl): Promise<{
     success: boolean;
     duplicateCleanup: any;
     orphanedCleanup: any;
@@ -287,12 +293,21 @@ export class DataCleanupService {
       logger.info("Starting comprehensive data cleanup", 'DataCleanup');
 
       // Step 1: Clean up duplicates
+      checkpoint(control, 0, 2, 'Merging duplicate MEPs');
       const duplicateCleanup = await this.detectAndMergeDuplicates();
 
       // Step 2: Clean up orphaned memberships
+      if (checkpoint(control, 1, 2, 'Closing orphaned memberships')) {
+        return {
+          success: false,
+          duplicateCleanup,
+          orphanedCleanup: null,
+          summary: `Cleanup cancelled after merging ${duplicateCleanup.recordsMerged} MEPs`
+        };
+      }
       const orphanedCleanup = await this.cleanupOrphanedMemberships();
 
-      const summary = `Cleanup completed: ${duplicateCleanup.recordsMerged} MEPs merged, ${duplicateCleanup.committeesConsolidated} committee memberships consolidated, ${orphanedCleanup.cleaned} orphaned memberships removed`;
+      const summary = `Cleanup completed: ${duplicateCleanup.recordsMerged} MEPs merged, ${duplicateCleanup.committeesConsolidated} committee memberships consolidated, ${orphanedCleanup.cleaned} orphaned memberships closed`;
 
       logger.info(summary, 'DataCleanup');
 
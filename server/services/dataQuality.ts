@@ -3,6 +3,7 @@ import { OptimizedStorage } from "../storage/optimized";
 import { dataSyncService } from "./dataSync";
 import { sql, count } from "drizzle-orm";
 import { meps, committees } from "@shared/schema";
+import { checkpoint, type TaskControl } from "../utils/progress";
 
 /**
  * Data quality assurance service for validating EU Parliament data integrity
@@ -267,8 +268,10 @@ export class DataQualityService {
 
   /**
    * Generate comprehensive data quality report
+   * 
+   * @param control Progress reporting through the three checks
    */
-  async generateQualityReport(): Promise<{
+  async generateQualityReport(control?: TaskControl): Promise<{
     overall_score: number;
     sync_validation: any;
     completeness: any;
@@ -278,8 +281,11 @@ export class DataQualityService {
   }> {
     console.log("📋 Generating data quality report...");
 
+    checkpoint(control, 0, 3, 'Validating daily sync');
     const syncValidation = await this.validateDailySyncData();
+    checkpoint(control, 1, 3, 'Checking completeness');
     const completeness = await this.checkDataCompleteness();
+    checkpoint(control, 2, 3, 'Verifying official sources');
     const sourceVerification = await this.verifyOfficialSources();
 
     // Calculate overall quality score (0-100)
@@ -1,7 +1,34 @@
-import { euParliamentAPI } from './euParliamentApi';
+import { euParliamentAPI, type EUCommitteeMembership, type EUDocumentData } from './euParliamentApi';
+import { sourceMergeService } from './sourceMerge';
+import { declarationService } from './declarations';
+import { webhookService } from './webhooks';
 import { storage } from '../storage';
 import { logger } from '../utils/logger';
-import type { InsertMEP, InsertCommittee, InsertMEPCommittee, InsertChangeLog, InsertCommitteeEvent } from '@shared/schema';
+import { toISODate } from '../utils/parliamentaryTerms';
+import { checkpoint, subTask, type TaskControl } from '../utils/progress';
+import { CircuitOpenError } from '../utils/upstreamClient';
+import { classifyCommittee, normalizeCommitteeRole } from '../utils/committeeCatalogue';
+import type { InsertMEP, InsertCommittee, InsertMEPCommittee, InsertChangeLog, InsertCommitteeEvent, InsertVoteResult, MEPMandate, MembershipSource } from '@shared/schema';
+
+/**
+ * Records written by one sync stage. `fatal` is set when the stage could not
+ * run at all (e.g. the listing could not be fetched), as opposed to errors on
+ * individual records.
+ */
+type SyncResult = { created: number; updated: number; errors: string[]; fatal?: string };
+
+/** Event fields published in calendars; changing any of them is a new revision */
+const CALENDAR_EVENT_FIELDS = [
+  'title', 'eventType', 'description', 'startDate', 'endDate', 'location',
+  'meetingType', 'agenda', 'documentsUrl', 'liveStreamUrl', 'isPublic',
+] as const;
+
+function sameEventValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+  }
+  return (a ?? null) === (b ?? null);
+}
 
 /**
  * DataSyncService - Automated synchronization with EU Parliament APIs
@@ -17,17 +44,20 @@ import type { InsertMEP, InsertCommittee, InsertMEPCommittee, InsertChangeLog, I
  * - Change tracking and audit logging
  * - Error handling and recovery mechanisms
  * - Duplicate prevention and data integrity checks
+ * - Progress reporting and cancellation when run as a queued job
  * 
  * Data Sources:
  * - EU Parliament API v2 (https://data.europarl.europa.eu/api/v2/)
  * - Official MEP profiles and committee memberships
  * - Parliamentary event schedules and documentation
+ * - Plenary roll-call votes with individual MEP positions
+ * - Legislative procedures with committees and rapporteurs
  * 
  * @author EU MEP Watch Development Team
  * @since August 2025
  */
 export class DataSyncService {
-  async syncAllData() {
+  async syncAllData(control?: TaskControl) {
     const updateRecord = await storage.createDataUpdate({
       updateType: 'full_sync',
       status: 'running'
@@ -36,24 +66,44 @@ export class DataSyncService {
     try {
       logger.info('Starting full data synchronization with EU Parliament API v2...', 'DataSync');
       
-      // Sync MEPs
-      const mepResults = await this.syncMEPs();
-      
-      // Sync Committees (Corporate Bodies)  
-      const committeeResults = await this.syncCommittees();
+      const stages: Array<[string, (stageControl?: TaskControl) => Promise<SyncResult>]> = [
+        ['MEPs', stageControl => this.syncMEPs(stageControl)],
+        // Committees (Corporate Bodies)
+        ['committees', stageControl => this.syncCommittees(stageControl)],
+        ['events', stageControl => this.syncEvents(stageControl)],
+        // Authentic committee memberships from EU Parliament API
+        ['committee memberships', stageControl => this.syncCommitteeMemberships(stageControl)],
+        // Plenary roll-call votes
+        ['votes', stageControl => this.syncVotes(stageControl)],
+        // Legislative procedures handled by our committees
+        ['procedures', stageControl => this.syncProcedures(stageControl)],
+        ['parliamentary questions', stageControl => this.syncQuestions(stageControl)],
+        // Verbatim plenary speeches
+        ['speeches', stageControl => this.syncSpeeches(stageControl)],
+        // Newly filed declarations of financial interests
+        ['declarations', stageControl => this.syncDeclarations(stageControl)],
+      ];
       
-      // Sync Events
-      const eventResults = await this.syncEvents();
+      const results: SyncResult[] = [];
+      for (const [name, runStage] of stages) {
+        const done = results.length;
+        if (checkpoint(control, done, stages.length, `Syncing ${name}`)) break;
+        results.push(await runStage(subTask(control, done / stages.length, (done + 1) / stages.length)));
+      }
+      const cancelled = control?.signal?.aborted === true;
       
-      // Sync authentic committee memberships from EU Parliament API
-      const membershipResults = await this.syncCommitteeMemberships();
+      // Recompute per-MEP activity counters from the synced activity tables
+      if (!cancelled) {
+        await storage.refreshMEPActivityCounts();
+      }
       
-      const totalRecordsCreated = mepResults.created + committeeResults.created + eventResults.created + membershipResults.created;
-      const totalRecordsUpdated = mepResults.updated + committeeResults.updated + eventResults.updated + membershipResults.updated;
-      const allErrors = [...mepResults.errors, ...committeeResults.errors, ...eventResults.errors, ...membershipResults.errors];
+      const totalRecordsCreated = results.reduce((sum, result) => sum + result.created, 0);
+      const totalRecordsUpdated = results.reduce((sum, result) => sum + result.updated, 0);
+      const allErrors = results.flatMap(result => result.errors);
+      const fatalErrors = results.map(result => result.fatal).filter((fatal): fatal is string => !!fatal);
       
       await storage.updateDataUpdate(updateRecord.id, {
-        status: 'completed',
+        status: cancelled ? 'cancelled' : fatalErrors.length > 0 ? 'failed' : 'completed',
         completedAt: new Date(),
         recordsProcessed: totalRecordsCreated + totalRecordsUpdated,
         recordsCreated: totalRecordsCreated,
@@ -61,12 +111,19 @@ export class DataSyncService {
         errors: allErrors.length > 0 ? allErrors : null
       });
       
-      logger.info('Data synchronization completed successfully!', 'DataSync', {
+      logger.info(cancelled ? 'Data synchronization cancelled' : 'Data synchronization completed successfully!', 'DataSync', {
         recordsCreated: totalRecordsCreated,
         recordsUpdated: totalRecordsUpdated,
         errorCount: allErrors.length
       });
       
+      return {
+        recordsCreated: totalRecordsCreated,
+        recordsUpdated: totalRecordsUpdated,
+        errors: allErrors,
+        // Stages are incremental, so retrying the whole sync is cheap for those that succeeded
+        fatal: fatalErrors.length > 0 ? fatalErrors.join('; ') : undefined,
+      };
     } catch (error) {
       logger.error('Error during data synchronization', 'DataSync', { error: error instanceof Error ? error.message : String(error) });
       await storage.updateDataUpdate(updateRecord.id, {
@@ -78,7 +135,7 @@ export class DataSyncService {
     }
   }
 
-  async syncMEPs(): Promise<{ created: number; updated: number; errors: string[] }> {
+  async syncMEPs(control?: TaskControl): Promise<SyncResult> {
     logger.info('Syncing MEPs from EU Parliament API...', 'DataSync');
     
     let created = 0;
@@ -89,46 +146,69 @@ export class DataSyncService {
       // Fetch current MEPs from EU API
       const mepsResponse = await euParliamentAPI.fetchCurrentMEPs();
       const mepsData = mepsResponse['@graph'] || [];
+      const fetchedAt = new Date();
       
       logger.info('Found MEPs from EU API', 'DataSync', { count: mepsData.length });
       
+      let processed = 0;
       for (const mepData of mepsData) {
+        if (checkpoint(control, processed++, mepsData.length, 'Processing MEPs')) break;
         try {
           const transformedMEP = euParliamentAPI.transformMEPData(mepData);
           const existingMEP = await storage.getMEP(transformedMEP.id);
           
           if (existingMEP) {
-            // Update existing MEP if there are changes
+            // Update existing MEP if there are changes, subject to source precedence
             if (this.hasSignificantMEPChanges(existingMEP, transformedMEP)) {
-              await storage.updateMEP(transformedMEP.id, transformedMEP);
-              updated++;
-              
-              await storage.createChangeLog({
-                entityType: 'mep',
-                entityId: transformedMEP.id,
-                changeType: 'updated',
-                oldValues: existingMEP,
-                newValues: transformedMEP
+              const { accepted } = await sourceMergeService.updateMEP(existingMEP, transformedMEP, {
+                source: 'eu_parliament_api',
+                sourceUrl: euParliamentAPI.getMEPSourceUrl(transformedMEP.id),
+                fetchedAt,
               });
               
-              console.log(`Updated MEP: ${transformedMEP.fullName}`);
+              if (Object.keys(accepted).length > 0) {
+                updated++;
+                
+                const change = await storage.createChangeLog({
+                  entityType: 'mep',
+                  entityId: transformedMEP.id,
+                  changeType: 'updated',
+                  oldValues: existingMEP,
+                  newValues: accepted
+                });
+                await webhookService.emitChange(change);
+                
+                console.log(`Updated MEP: ${transformedMEP.fullName}`);
+              }
             }
           } else {
             // Create new MEP
             await storage.createMEP(transformedMEP);
+            await storage.recordMEPProvenance(transformedMEP.id, transformedMEP, {
+              source: 'eu_parliament_api',
+              sourceUrl: euParliamentAPI.getMEPSourceUrl(transformedMEP.id),
+              fetchedAt,
+            });
             created++;
             
-            await storage.createChangeLog({
+            const change = await storage.createChangeLog({
               entityType: 'mep',
               entityId: transformedMEP.id,
               changeType: 'created',
               oldValues: null,
               newValues: transformedMEP
             });
+            await webhookService.emitChange(change);
             
             console.log(`Created MEP: ${transformedMEP.fullName}`);
           }
           
+          // Keep the full mandate history in sync when the API publishes it
+          const mandates = euParliamentAPI.transformMandateData(mepData);
+          if (mandates.length > 0) {
+            await storage.replaceMEPMandates(transformedMEP.id, mandates);
+          }
+          
           // Add small delay to avoid overwhelming the database
           await new Promise(resolve => setTimeout(resolve, 50));
           
@@ -143,12 +223,13 @@ export class DataSyncService {
       const errorMsg = `Error fetching MEPs: ${error instanceof Error ? error.message : 'Unknown error'}`;
       console.error(errorMsg);
       errors.push(errorMsg);
+      return { created, updated, errors, fatal: errorMsg };
     }
     
     return { created, updated, errors };
   }
 
-  async syncCommittees(): Promise<{ created: number; updated: number; errors: string[] }> {
+  async syncCommittees(control?: TaskControl): Promise<SyncResult> {
     console.log('Syncing Committees from EU Parliament API...');
     
     let created = 0;
@@ -162,7 +243,9 @@ export class DataSyncService {
       
       console.log(`Found ${bodiesData.length} corporate bodies`);
       
+      let processed = 0;
       for (const bodyData of bodiesData) {
+        if (checkpoint(control, processed++, bodiesData.length, 'Processing corporate bodies')) break;
         try {
           const transformedCommittee = euParliamentAPI.transformCommitteeData(bodyData);
           
@@ -212,16 +295,58 @@ export class DataSyncService {
         }
       }
       
+      if (!control?.signal?.aborted) {
+        updated += await this.reclassifyCommittees();
+      }
+      
     } catch (error) {
       const errorMsg = `Error fetching committees: ${error instanceof Error ? error.message : 'Unknown error'}`;
       console.error(errorMsg);
       errors.push(errorMsg);
+      return { created, updated, errors, fatal: errorMsg };
     }
     
     return { created, updated, errors };
   }
 
-  async syncEvents(): Promise<{ created: number; updated: number; errors: string[] }> {
+  /**
+   * Bring every stored committee in line with the catalogue: set its type,
+   * link subcommittees to their parent, and deactivate bodies that are not
+   * committees at all (such as CCBE)
+   * 
+   * @returns Number of committees changed
+   */
+  private async reclassifyCommittees(): Promise<number> {
+    const stored = await storage.getAllCommittees();
+    const idsByCode = new Map(stored.map(committee => [committee.code, committee.id] as const));
+    let changed = 0;
+    
+    for (const committee of stored) {
+      const classification = classifyCommittee(committee.code, committee.name);
+      const changes: Partial<InsertCommittee> = classification
+        ? {
+            committeeType: classification.committeeType,
+            parentCommitteeId: classification.parentCode ? idsByCode.get(classification.parentCode) ?? null : null,
+          }
+        : { isActive: false };
+      
+      if (Object.keys(changes).some(field => (committee as Record<string, unknown>)[field] !== changes[field as keyof InsertCommittee])) {
+        await storage.updateCommittee(committee.id, changes);
+        await storage.createChangeLog({
+          entityType: 'committee',
+          entityId: committee.id,
+          changeType: 'updated',
+          oldValues: committee,
+          newValues: changes
+        });
+        changed++;
+      }
+    }
+    
+    return changed;
+  }
+
+  async syncEvents(control?: TaskControl): Promise<SyncResult> {
     console.log('Syncing Events from EU Parliament API...');
     
     let created = 0;
@@ -241,12 +366,15 @@ export class DataSyncService {
       
       console.log(`Found ${eventsData.length} upcoming events`);
       
+      let processed = 0;
       for (const eventData of eventsData) {
+        if (checkpoint(control, processed++, eventsData.length, 'Processing events')) break;
         try {
           const transformedEvent = euParliamentAPI.transformEventData(eventData);
           
-          // Only process events with valid committee IDs
-          if (!transformedEvent.committeeId) continue;
+          // Only process events with valid committee IDs and a published start;
+          // a made-up start would move the event and revise it on every run
+          if (!transformedEvent.committeeId || !transformedEvent.startDate) continue;
           
           const eventRecord: InsertCommitteeEvent = {
             committeeId: transformedEvent.committeeId,
@@ -260,14 +388,35 @@ export class DataSyncService {
             agenda: transformedEvent.agenda,
             documentsUrl: transformedEvent.documentsUrl,
             liveStreamUrl: transformedEvent.liveStreamUrl,
-            isPublic: transformedEvent.isPublic
+            isPublic: transformedEvent.isPublic,
+            externalId: transformedEvent.id || null
           };
           
-          // For events, we'll just create new ones (avoiding duplicates is complex with API data)
-          await storage.createCommitteeEvent(eventRecord);
-          created++;
+          // Known events are revised in place so calendar subscribers see one
+          // entry whose SEQUENCE goes up, not a duplicate. Events imported
+          // before the EP id was stored are matched on committee, title and
+          // start, and take over the id.
+          const existing = (eventRecord.externalId
+            ? await storage.getCommitteeEventByExternalId(eventRecord.externalId)
+            : undefined)
+            ?? await storage.getLegacyCommitteeEvent(eventRecord.committeeId, eventRecord.title, transformedEvent.startDate);
           
-          console.log(`Created Event: ${transformedEvent.title}`);
+          if (existing) {
+            const revised = CALENDAR_EVENT_FIELDS.some(field => !sameEventValue(existing[field], eventRecord[field]));
+            if (revised) {
+              await storage.updateCommitteeEvent(existing.id, { ...eventRecord, sequence: existing.sequence + 1 });
+              updated++;
+              console.log(`Updated Event: ${transformedEvent.title}`);
+            } else if (existing.externalId !== eventRecord.externalId) {
+              await storage.updateCommitteeEvent(existing.id, { externalId: eventRecord.externalId });
+            }
+          } else {
+            const event = await storage.createCommitteeEvent(eventRecord);
+            created++;
+            await webhookService.emit('committee_event.created', { event });
+            
+            console.log(`Created Event: ${transformedEvent.title}`);
+          }
           
           await new Promise(resolve => setTimeout(resolve, 50));
           
@@ -282,6 +431,420 @@ export class DataSyncService {
       const errorMsg = `Error fetching events: ${error instanceof Error ? error.message : 'Unknown error'}`;
       console.error(errorMsg);
       errors.push(errorMsg);
+      return { created, updated, errors, fatal: errorMsg };
+    }
+    
+    return { created, updated, errors };
+  }
+
+  /**
+   * Ingest plenary roll-call votes from the last stored vote day onwards.
+   * Individual positions are linked to `meps.id`. MEPs whose stored mandate
+   * covers the vote day but who are missing from every voter list are recorded
+   * as absent, so past sittings reflect the chamber of that day.
+   */
+  async syncVotes(control?: TaskControl): Promise<SyncResult> {
+    logger.info('Syncing plenary roll-call votes from EU Parliament API...', 'DataSync');
+    
+    let created = 0;
+    let updated = 0;
+    const errors: string[] = [];
+    
+    try {
+      // Re-fetch the latest stored day in case it was only partially published
+      const latestVoteDate = await storage.getLatestVoteDate();
+      const since = latestVoteDate || new Date(Date.now() - 90 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+      const today = new Date().toISOString().split('T')[0];
+      
+      const roster = await storage.getAllMEPs();
+      const mepsById = new Map(roster.map(mep => [mep.id, mep]));
+      // Mandates held on each vote day decide who was expected to vote
+      const mandatesByDay = new Map<string, Map<string, MEPMandate>>();
+      
+      const firstYear = parseInt(since.slice(0, 4), 10);
+      const yearCount = new Date().getFullYear() - firstYear + 1;
+      for (let year = firstYear; year < firstYear + yearCount; year++) {
+        if (control?.signal?.aborted) break;
+        const yearControl = subTask(control, (year - firstYear) / yearCount, (year - firstYear + 1) / yearCount);
+        const sittingsResponse = await euParliamentAPI.fetchPlenarySittings(year);
+        const sittings = (sittingsResponse['@graph'] || []).filter(sitting => {
+          const sittingDate = toISODate(sitting.activity_date);
+          return sittingDate !== null && sittingDate >= since && sittingDate <= today;
+        });
+        
+        logger.info('Found plenary sittings', 'DataSync', { year, count: sittings.length });
+        
+        for (let index = 0; index < sittings.length; index++) {
+          if (checkpoint(yearControl, index, sittings.length, 'Processing plenary votes')) break;
+          const sittingId = euParliamentAPI.extractSittingId(sittings[index]);
+          
+          try {
+            const decisionsResponse = await euParliamentAPI.fetchSittingDecisions(sittingId);
+            
+            for (const decision of decisionsResponse['@graph'] || []) {
+              const transformed = euParliamentAPI.transformVoteData(decision, sittingId, sittings[index].activity_date);
+              if (!transformed) continue;
+              
+              const { vote, positions } = transformed;
+              await storage.upsertVote(vote);
+              
+              let expected = mandatesByDay.get(vote.voteDate);
+              if (!expected) {
+                const held = await storage.getMandatesHeldOn(vote.voteDate);
+                expected = new Map(held.map(mandate => [mandate.mepId, mandate]));
+                mandatesByDay.set(vote.voteDate, expected);
+              }
+              
+              const results: Omit<InsertVoteResult, 'voteId'>[] = [];
+              const voted = new Set<string>();
+              for (const { personId, position } of positions) {
+                const mandate = expected.get(personId);
+                const mep = mepsById.get(personId);
+                if ((!mandate && !mep) || voted.has(personId)) continue;
+                voted.add(personId);
+                results.push({ mepId: personId, position, politicalGroupAbbr: mandate?.politicalGroupAbbr ?? mep?.politicalGroupAbbr ?? null });
+              }
+              
+              expected.forEach((mandate, mepId) => {
+                if (!voted.has(mepId)) {
+                  results.push({ mepId, position: 'absent', politicalGroupAbbr: mandate.politicalGroupAbbr ?? mepsById.get(mepId)?.politicalGroupAbbr ?? null });
+                }
+              });
+              
+              await storage.replaceVoteResults(vote.id, results);
+              
+              if (latestVoteDate && vote.voteDate <= latestVoteDate) {
+                updated++;
+              } else {
+                created++;
+              }
+              
+              const unmatched = positions.length - voted.size;
+              if (unmatched > 0) {
+                logger.warn('Roll-call voters not matched to MEPs', 'DataSync', { voteId: vote.id, unmatched });
+              }
+            }
+            
+            await new Promise(resolve => setTimeout(resolve, 50));
+            
+          } catch (error) {
+            const errorMsg = `Error processing plenary sitting ${sittingId}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+            console.error(errorMsg);
+            errors.push(errorMsg);
+          }
+        }
+      }
+      
+      logger.info('Roll-call vote sync completed', 'DataSync', { created, updated });
+      
+    } catch (error) {
+      const errorMsg = `Error syncing roll-call votes: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      console.error(errorMsg);
+      errors.push(errorMsg);
+      return { created, updated, errors, fatal: errorMsg };
+    }
+    
+    return { created, updated, errors };
+  }
+
+  /**
+   * Ingest legislative procedures (OEIL) started this year or last year.
+   * Only procedures involving at least one tracked committee are stored;
+   * rapporteurs and shadow rapporteurs are linked to `meps.id`.
+   */
+  async syncProcedures(control?: TaskControl): Promise<SyncResult> {
+    logger.info('Syncing legislative procedures from EU Parliament API...', 'DataSync');
+    
+    let created = 0;
+    let updated = 0;
+    const errors: string[] = [];
+    
+    try {
+      const committeesByCode = new Map((await storage.getAllCommittees()).map(committee => [committee.code.toUpperCase(), committee]));
+      const currentYear = new Date().getFullYear();
+      
+      const years = [currentYear - 1, currentYear];
+      for (let yearIndex = 0; yearIndex < years.length; yearIndex++) {
+        if (control?.signal?.aborted) break;
+        const year = years[yearIndex];
+        const yearControl = subTask(control, yearIndex / years.length, (yearIndex + 1) / years.length);
+        const proceduresResponse = await euParliamentAPI.fetchProcedures(year);
+        const procedureList = proceduresResponse['@graph'] || [];
+        
+        logger.info('Found legislative procedures', 'DataSync', { year, count: procedureList.length });
+        
+        for (let index = 0; index < procedureList.length; index++) {
+          if (checkpoint(yearControl, index, procedureList.length, 'Processing procedures')) break;
+          const processId = euParliamentAPI.extractProcessId(procedureList[index]);
+          
+          try {
+            const details = await euParliamentAPI.fetchProcedureDetails(processId);
+            if (!details) continue;
+            
+            // Rapporteurs are often only recorded on the committee report documents
+            let documents: EUDocumentData[] = [];
+            try {
+              documents = (await euParliamentAPI.fetchProcedureDocuments(processId))['@graph'] || [];
+            } catch (error) {
+              logger.warn('Procedure documents unavailable', 'DataSync', { processId });
+            }
+            
+            const transformed = euParliamentAPI.transformProcedureData(details, documents);
+            if (!transformed) continue;
+            
+            const committeeLinks = transformed.committees
+              .filter(link => committeesByCode.has(link.code))
+              .map(link => ({ committeeId: committeesByCode.get(link.code)!.id, role: link.role }));
+            if (committeeLinks.length === 0) continue;
+            
+            const rapporteurs = [];
+            for (const rapporteur of transformed.rapporteurs) {
+              const mep = await storage.getMEP(rapporteur.personId);
+              if (!mep) continue;
+              rapporteurs.push({
+                mepId: mep.id,
+                committeeId: rapporteur.committeeCode ? committeesByCode.get(rapporteur.committeeCode)?.id ?? null : null,
+                role: rapporteur.role,
+                politicalGroupAbbr: mep.politicalGroupAbbr,
+                appointedDate: rapporteur.appointedDate,
+              });
+            }
+            
+            const existing = await storage.getProcedure(transformed.procedure.reference);
+            await storage.upsertProcedure(transformed.procedure);
+            await storage.replaceProcedureParticipants(transformed.procedure.reference, committeeLinks, rapporteurs);
+            
+            if (existing) {
+              updated++;
+            } else {
+              created++;
+              console.log(`Created Procedure: ${transformed.procedure.reference}`);
+            }
+            
+            await new Promise(resolve => setTimeout(resolve, 50));
+            
+          } catch (error) {
+            const errorMsg = `Error processing procedure ${processId}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+            console.error(errorMsg);
+            errors.push(errorMsg);
+          }
+        }
+      }
+      
+      logger.info('Procedure sync completed', 'DataSync', { created, updated });
+      
+    } catch (error) {
+      const errorMsg = `Error syncing procedures: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      console.error(errorMsg);
+      errors.push(errorMsg);
+      return { created, updated, errors, fatal: errorMsg };
+    }
+    
+    return { created, updated, errors };
+  }
+
+  /**
+   * Sync verbatim plenary speeches (CRE) sitting by sitting, starting from the
+   * latest stored speech date, or 90 days back on the first run.
+   */
+  async syncSpeeches(control?: TaskControl): Promise<SyncResult> {
+    logger.info('Syncing plenary speeches from EU Parliament API...', 'DataSync');
+    
+    let created = 0;
+    let updated = 0;
+    const errors: string[] = [];
+    
+    try {
+      // Re-fetch the latest stored day since the CRE is published in stages
+      const latestSpeechDate = await storage.getLatestSpeechDate();
+      const since = latestSpeechDate || new Date(Date.now() - 90 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+      const today = new Date().toISOString().split('T')[0];
+      
+      const mepIds = new Set((await storage.getAllMEPs()).map(mep => mep.id));
+      
+      const firstYear = parseInt(since.slice(0, 4), 10);
+      const yearCount = new Date().getFullYear() - firstYear + 1;
+      for (let year = firstYear; year < firstYear + yearCount; year++) {
+        if (control?.signal?.aborted) break;
+        const yearControl = subTask(control, (year - firstYear) / yearCount, (year - firstYear + 1) / yearCount);
+        const sittingsResponse = await euParliamentAPI.fetchPlenarySittings(year);
+        const sittings = (sittingsResponse['@graph'] || []).filter(sitting => {
+          const sittingDate = toISODate(sitting.activity_date);
+          return sittingDate !== null && sittingDate >= since && sittingDate <= today;
+        });
+        
+        for (let index = 0; index < sittings.length; index++) {
+          if (checkpoint(yearControl, index, sittings.length, 'Processing plenary speeches')) break;
+          const sittingId = euParliamentAPI.extractSittingId(sittings[index]);
+          const sittingDate = toISODate(sittings[index].activity_date)!;
+          
+          try {
+            const speechesResponse = await euParliamentAPI.fetchSittingSpeeches(sittingDate);
+            let unmatched = 0;
+            
+            for (const euSpeech of speechesResponse['@graph'] || []) {
+              const transformed = euParliamentAPI.transformSpeechData(euSpeech, sittingId, sittingDate);
+              if (!transformed) continue;
+              
+              // Speeches by non-MEPs (Commissioners, Council) are not tracked
+              if (!mepIds.has(transformed.personId)) {
+                unmatched++;
+                continue;
+              }
+              
+              await storage.upsertSpeech({ ...transformed.speech, mepId: transformed.personId });
+              
+              if (latestSpeechDate && sittingDate <= latestSpeechDate) {
+                updated++;
+              } else {
+                created++;
+              }
+            }
+            
+            if (unmatched > 0) {
+              logger.info('Speeches by non-MEP speakers skipped', 'DataSync', { sittingDate, unmatched });
+            }
+            
+            await new Promise(resolve => setTimeout(resolve, 50));
+            
+          } catch (error) {
+            const errorMsg = `Error processing speeches for sitting ${sittingId}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+            console.error(errorMsg);
+            errors.push(errorMsg);
+          }
+        }
+      }
+      
+      logger.info('Speech sync completed', 'DataSync', { created, updated });
+      
+    } catch (error) {
+      const errorMsg = `Error syncing speeches: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      console.error(errorMsg);
+      errors.push(errorMsg);
+      return { created, updated, errors, fatal: errorMsg };
+    }
+    
+    return { created, updated, errors };
+  }
+
+  /**
+   * Record declarations of private interests filed this year and last year.
+   * New versions are stored unparsed; their items are added through admin upload.
+   */
+  async syncDeclarations(control?: TaskControl): Promise<SyncResult> {
+    logger.info('Syncing MEP declarations from EU Parliament API...', 'DataSync');
+    
+    let created = 0;
+    const updated = 0;
+    const errors: string[] = [];
+    
+    try {
+      const mepIds = new Set((await storage.getAllMEPs()).map(mep => mep.id));
+      const currentYear = new Date().getFullYear();
+      
+      const years = [currentYear - 1, currentYear];
+      for (let yearIndex = 0; yearIndex < years.length; yearIndex++) {
+        if (control?.signal?.aborted) break;
+        const yearControl = subTask(control, yearIndex / years.length, (yearIndex + 1) / years.length);
+        const declarationList = (await euParliamentAPI.fetchMEPDeclarations(years[yearIndex]))['@graph'] || [];
+        
+        for (let index = 0; index < declarationList.length; index++) {
+          if (checkpoint(yearControl, index, declarationList.length, 'Processing declarations')) break;
+          const declaration = euParliamentAPI.transformDeclarationData(declarationList[index]);
+          if (!declaration || !mepIds.has(declaration.personId)) continue;
+          
+          try {
+            const recorded = await declarationService.recordListedDeclaration(
+              declaration.personId,
+              declaration.declarationDate,
+              declaration.documentUrl
+            );
+            if (recorded) created++;
+          } catch (error) {
+            const errorMsg = `Error recording declaration for MEP ${declaration.personId}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+            console.error(errorMsg);
+            errors.push(errorMsg);
+          }
+        }
+      }
+      
+      logger.info('Declaration sync completed', 'DataSync', { created });
+      
+    } catch (error) {
+      const errorMsg = `Error syncing declarations: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      console.error(errorMsg);
+      errors.push(errorMsg);
+      return { created, updated, errors, fatal: errorMsg };
+    }
+    
+    return { created, updated, errors };
+  }
+
+  /**
+   * Sync parliamentary questions for this year and last year.
+   * Only questions not yet stored are fetched in full, so repeated runs stay cheap.
+   */
+  async syncQuestions(control?: TaskControl): Promise<SyncResult> {
+    logger.info('Syncing parliamentary questions from EU Parliament API...', 'DataSync');
+    
+    let created = 0;
+    const updated = 0;
+    const errors: string[] = [];
+    
+    try {
+      const currentYear = new Date().getFullYear();
+      
+      const years = [currentYear - 1, currentYear];
+      for (let yearIndex = 0; yearIndex < years.length; yearIndex++) {
+        if (control?.signal?.aborted) break;
+        const year = years[yearIndex];
+        const yearControl = subTask(control, yearIndex / years.length, (yearIndex + 1) / years.length);
+        const questionsResponse = await euParliamentAPI.fetchParliamentaryQuestions(year);
+        const questionIds = (questionsResponse['@graph'] || [])
+          .map(listed => euParliamentAPI.extractQuestionId(listed))
+          .filter(Boolean);
+        
+        const storedIds = await storage.getStoredQuestionIds(questionIds);
+        const newIds = questionIds.filter(id => !storedIds.has(id));
+        
+        logger.info('Found parliamentary questions', 'DataSync', { year, count: questionIds.length, new: newIds.length });
+        
+        for (let index = 0; index < newIds.length; index++) {
+          if (checkpoint(yearControl, index, newIds.length, 'Processing parliamentary questions')) break;
+          const questionId = newIds[index];
+          try {
+            const details = await euParliamentAPI.fetchQuestionDetails(questionId);
+            if (!details) continue;
+            
+            const transformed = euParliamentAPI.transformQuestionData(details);
+            if (!transformed) continue;
+            
+            const authorIds = [];
+            for (const personId of transformed.authorIds) {
+              const mep = await storage.getMEP(personId);
+              if (mep) authorIds.push(mep.id);
+            }
+            
+            await storage.upsertQuestion(transformed.question, authorIds);
+            created++;
+            
+            await new Promise(resolve => setTimeout(resolve, 50));
+            
+          } catch (error) {
+            const errorMsg = `Error processing question ${questionId}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+            console.error(errorMsg);
+            errors.push(errorMsg);
+          }
+        }
+      }
+      
+      logger.info('Question sync completed', 'DataSync', { created });
+      
+    } catch (error) {
+      const errorMsg = `Error syncing questions: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      console.error(errorMsg);
+      errors.push(errorMsg);
+      return { created, updated, errors, fatal: errorMsg };
     }
     
     return { created, updated, errors };
@@ -291,7 +854,7 @@ export class DataSyncService {
     // Check for significant changes that warrant an update
     const fieldsToCheck = [
       'firstName', 'lastName', 'fullName', 'country', 
-      'politicalGroup', 'politicalGroupAbbr', 'email', 
+      'politicalGroup', 'politicalGroupAbbr', 'nationalPoliticalGroup', 'email', 
       'photoUrl', 'isActive'
     ];
     
@@ -300,115 +863,149 @@ export class DataSyncService {
 
   private hasSignificantCommitteeChanges(existing: any, updated: any): boolean {
     const fieldsToCheck = [
-      'name', 'code', 'coordinatorName', 'coordinatorGroup', 'isActive'
+      'name', 'code', 'committeeType', 'coordinatorName', 'coordinatorGroup', 'isActive'
     ];
     
     return fieldsToCheck.some(field => existing[field] !== updated[field]);
   }
 
-  async syncCommitteeMemberships(): Promise<{ created: number; updated: number; errors: string[] }> {
-    console.log('Syncing committee memberships from EU Parliament API...');
+  /**
+   * Sync committee memberships from authoritative EU Parliament data
+   * 
+   * Seats come from the corporate-body membership data; active MEPs without
+   * a seat there are looked up on their profile page. Every membership is
+   * marked with its source. Authoritative memberships no longer published are
+   * closed, and memberships of unknown origin (such as the generated
+   * assignments of earlier releases) are purged once the corporate-body data
+   * has been read.
+   */
+  async syncCommitteeMemberships(control?: TaskControl): Promise<SyncResult & { closed: number; purged: number }> {
+    logger.info('Syncing committee memberships from EU Parliament API...', 'DataSync');
     
     let created = 0;
     let updated = 0;
+    let closed = 0;
+    let purged = 0;
     const errors: string[] = [];
     
     try {
-      // Get committees with members from EU Parliament API
-      const committeeResponse = await euParliamentAPI.fetchCommitteesWithMembers();
-      const committeesBodies = committeeResponse['@graph'] || [];
+      const committeesByCode = new Map((await storage.getAllCommittees()).map(committee => [committee.code, committee] as const));
+      const seen = new Set<string>(); // `${mepId}:${committeeId}` published in this run
+      const seatedMEPs = new Set<string>();
       
-      console.log(`Found ${committeesBodies.length} corporate bodies`);
+      const recordSeat = async (seat: EUCommitteeMembership, source: MembershipSource) => {
+        const committee = committeesByCode.get(seat.committeeCode);
+        const mep = committee && await this.findMEPByIdOrName(seat.personId, seat.personName);
+        if (!committee || !mep) return;
+        
+        // A chair is listed both as chairperson and as member; the first listing wins
+        const key = `${mep.id}:${committee.id}`;
+        if (seen.has(key)) return;
+        seen.add(key);
+        seatedMEPs.add(mep.id);
+        
+        const outcome = await this.upsertMembership(mep.id, committee.id, normalizeCommitteeRole(seat.role), source);
+        if (outcome === 'created') created++;
+        if (outcome === 'updated') updated++;
+      };
       
-      for (const body of committeesBodies) {
-        try {
-          // Check if this is actually a committee
-          const bodyType = body['ep:bodyType']?.[0]?.['skos:prefLabel']?.['en'] || '';
-          if (!bodyType.toLowerCase().includes('committee')) {
-            continue;
-          }
-          
-          const committeeCode = body['skos:notation'] || '';
-          const committeeName = body['skos:prefLabel']?.['en'] || '';
-          
-          // Find matching committee in our database
-          const committee = await storage.getCommitteeByCode(committeeCode);
-          if (!committee) {
-            console.log(`Committee not found in database: ${committeeCode}`);
-            continue;
-          }
-          
-          console.log(`Processing committee: ${committeeCode} - ${committeeName}`);
-          
-          // Process chairperson
-          if (body['ep:chairperson'] && Array.isArray(body['ep:chairperson']) && body['ep:chairperson'].length > 0) {
-            for (const chair of body['ep:chairperson']) {
-              const chairId = euParliamentAPI.extractId(chair['@id'] || '');
-              const chairName = chair['foaf:name'] || '';
-              
-              if (!chairId && !chairName) continue;
-              
-              // Find MEP by ID or name
-              const mep = await this.findMEPByIdOrName(chairId, chairName);
-              if (mep) {
-                try {
-                  await storage.createMEPCommittee({
-                    mepId: mep.id,
-                    committeeId: committee.id,
-                    role: 'chair'
-                  });
-                  created++;
-                  console.log(`Added chair: ${chairName} to ${committeeCode}`);
-                } catch (error) {
-                  // Relationship might already exist
-                }
-              }
-            }
+      // Step 1: corporate-body membership data
+      const seatsByCommittee = await euParliamentAPI.fetchCommitteeMemberships();
+      const codes = Array.from(seatsByCommittee.keys());
+      const syncedCommittees = new Set<string>();
+      logger.info('Found committees with published members', 'DataSync', { count: codes.length });
+      
+      const bodyControl = subTask(control, 0, 0.3);
+      for (let index = 0; index < codes.length; index++) {
+        if (checkpoint(bodyControl, index, codes.length, 'Reading committee memberships')) break;
+        const committee = committeesByCode.get(codes[index]);
+        if (!committee) {
+          logger.debug(`Committee not found in database: ${codes[index]}`, 'DataSync');
+          continue;
+        }
+        syncedCommittees.add(committee.id);
+        
+        for (const seat of seatsByCommittee.get(codes[index]) || []) {
+          try {
+            await recordSeat(seat, 'ep_corporate_body');
+          } catch (error) {
+            errors.push(`Error processing ${seat.personName || seat.personId} in ${seat.committeeCode}: ${error instanceof Error ? error.message : 'Unknown error'}`);
           }
-          
-          // Process members
-          if (body['ep:hasMember'] && Array.isArray(body['ep:hasMember']) && body['ep:hasMember'].length > 0) {
-            for (const member of body['ep:hasMember']) {
-              const memberId = euParliamentAPI.extractId(member['@id'] || '');
-              const memberName = member['foaf:name'] || '';
-              const roleLabel = member['ep:role']?.[0]?.['skos:prefLabel']?.['en'] || 'member';
-              
-              if (!memberId && !memberName) continue;
-              
-              // Find MEP by ID or name
-              const mep = await this.findMEPByIdOrName(memberId, memberName);
-              if (mep) {
-                const role = this.normalizeRole(roleLabel);
-                try {
-                  await storage.createMEPCommittee({
-                    mepId: mep.id,
-                    committeeId: committee.id,
-                    role: role
-                  });
-                  created++;
-                } catch (error) {
-                  // Relationship might already exist
-                }
-              }
-            }
+        }
+      }
+      
+      // Step 2: profile pages of active MEPs without a published seat
+      const unseated = (await storage.getAllMEPs()).filter(mep => mep.isActive && !seatedMEPs.has(mep.id));
+      const profiledMEPs = new Set<string>();
+      const profileControl = subTask(control, 0.3, 1);
+      for (let index = 0; index < unseated.length; index++) {
+        if (checkpoint(profileControl, index, unseated.length, 'Reading MEP profile pages')) break;
+        const mep = unseated[index];
+        try {
+          const seats = await euParliamentAPI.fetchProfileMemberships(mep.id);
+          profiledMEPs.add(mep.id);
+          for (const seat of seats) {
+            await recordSeat({ ...seat, personId: mep.id }, 'ep_profile');
           }
-          
         } catch (error) {
-          const errorMsg = `Error processing committee ${body['skos:notation']}: ${error instanceof Error ? error.message : 'Unknown error'}`;
-          console.error(errorMsg);
-          errors.push(errorMsg);
+          errors.push(`Error reading profile of MEP ${mep.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          // No point in trying the remaining profiles while the site is unreachable
+          if (error instanceof CircuitOpenError) break;
         }
       }
       
-      console.log(`Committee membership sync completed: ${created} created, ${updated} updated`);
+      if (!control?.signal?.aborted) {
+        // Step 3: close authoritative memberships that are no longer published
+        for (const membership of await storage.getOpenMEPCommittees()) {
+          const covered = (membership.source === 'ep_corporate_body' && syncedCommittees.has(membership.committeeId)) ||
+            (membership.source === 'ep_profile' && profiledMEPs.has(membership.mepId));
+          if (covered && !seen.has(`${membership.mepId}:${membership.committeeId}`)) {
+            await storage.removeMEPFromCommittee(membership.mepId, membership.committeeId);
+            closed++;
+          }
+        }
+        
+        // Step 4: purge memberships nobody has confirmed
+        if (syncedCommittees.size > 0) {
+          purged = await storage.purgeUnverifiedMEPCommittees();
+        }
+      }
+      
+      logger.info('Committee membership sync completed', 'DataSync', { created, updated, closed, purged });
       
     } catch (error) {
       const errorMsg = `Error syncing committee memberships: ${error instanceof Error ? error.message : 'Unknown error'}`;
-      console.error(errorMsg);
+      logger.error(errorMsg, 'DataSync');
       errors.push(errorMsg);
+      return { created, updated: updated + closed, errors, closed, purged, fatal: errorMsg };
     }
     
-    return { created, updated, errors };
+    return { created, updated: updated + closed, errors, closed, purged };
+  }
+
+  /**
+   * Open a membership if none is running, or record a role change on the open
+   * one; an existing row takes the source that confirmed it
+   */
+  private async upsertMembership(mepId: string, committeeId: string, role: string, source: MembershipSource): Promise<'created' | 'updated' | 'unchanged'> {
+    const existing = await storage.getOpenMEPCommittee(mepId, committeeId);
+    
+    if (!existing) {
+      const membership = await storage.createMEPCommittee({ mepId, committeeId, role, source });
+      await webhookService.emit('membership.added', { membership });
+      return 'created';
+    }
+    
+    if (existing.source !== source) {
+      await storage.setMEPCommitteeSource(existing.id, source);
+    }
+    
+    if (existing.role !== role) {
+      await storage.changeMEPCommitteeRole(mepId, committeeId, role);
+      return 'updated';
+    }
+    
+    return 'unchanged';
   }
 
   private async findMEPByIdOrName(id: string, name: string): Promise<any> {
@@ -432,23 +1029,6 @@ export class DataSyncService {
     return null;
   }
 
-  private normalizeRole(roleLabel: string): string {
-    const role = roleLabel.toLowerCase();
-    if (role.includes('chair') || role.includes('president')) return 'chair';
-    if (role.includes('vice') || role.includes('deputy')) return 'vice-chair';
-    if (role.includes('substitute')) return 'substitute';
-    return 'member';
-  }
-
-  private shuffleArray<T>(array: T[]): T[] {
-    const shuffled = [...array];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-    }
-    return shuffled;
-  }
-
   async testConnection(): Promise<boolean> {
     try {
       console.log('Testing EU Parliament API connection...');
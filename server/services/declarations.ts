@@ -0,0 +1,250 @@
+/**
+ * Declarations of Financial Interests
+ *
+ * Stores each version of an MEP's declaration of private interests (DPI) and
+ * its line items (outside activities with income bands, holdings, other
+ * interests). Versions come from two paths:
+ * - Data sync records the official PDF listed by the EU Parliament API as an
+ *   unparsed version, since the API carries no structured content
+ * - Admins upload the PDF with transcribed items, or a structured XML file
+ *
+ * Whenever a version is parsed, its items are compared with the previous
+ * parsed version and the differences are logged in `change_log` with the
+ * 'declaration' change type.
+ *
+ * Expected XML layout (sections follow the DPI form, A-H):
+ * ```xml
+ * <declaration date="2024-07-16">
+ *   <item section="C" band="2">Member of the board, Example Foundation</item>
+ *   <item section="F">Shares in Example plc</item>
+ * </declaration>
+ * ```
+ *
+ * @author EU MEP Watch Development Team
+ * @since August 2025
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { storage } from '../storage';
+import { webhookService } from './webhooks';
+import { logger } from '../utils/logger';
+import { diffFields } from '../utils/changeDiff';
+import { toISODate } from '../utils/parliamentaryTerms';
+import type { MEP, DeclarationItem, DeclarationItemCategory, DeclarationWithItems, InsertDeclarationItem } from '@shared/schema';
+
+export type DeclarationFormat = 'pdf' | 'xml';
+
+export interface DeclarationUpload {
+  declarationDate?: string;
+  format: DeclarationFormat;
+  content: Buffer;
+  documentUrl?: string;
+  /** Transcribed line items, used when the file itself is not structured */
+  items?: InsertDeclarationItem[];
+  uploadedBy?: string;
+}
+
+export interface ParsedDeclaration {
+  declarationDate: string | null;
+  items: InsertDeclarationItem[];
+}
+
+/** Summary keys compared between versions, one list per item category */
+const SUMMARY_FIELDS: Record<DeclarationItemCategory, string> = {
+  outside_activity: 'outsideActivities',
+  holding: 'holdings',
+  other: 'otherInterests',
+};
+
+export class DeclarationService {
+  private uploadDir = process.env.DECLARATIONS_UPLOAD_DIR || path.resolve('uploads', 'declarations');
+
+  /**
+   * Absolute path of an uploaded declaration file
+   */
+  resolveStoredFile(storedFile: string): string {
+    return path.join(this.uploadDir, storedFile);
+  }
+
+  /**
+   * Parse a structured declaration file (see layout above)
+   */
+  parseXML(xml: string): ParsedDeclaration {
+    const root = xml.match(/<declaration\b([^>]*)>/i);
+    const declarationDate = root ? toISODate(this.parseAttributes(root[1]).date) : null;
+
+    const items: InsertDeclarationItem[] = [];
+    for (const match of Array.from(xml.matchAll(/<item\b([^>]*)>([\s\S]*?)<\/item>/gi))) {
+      const attributes = this.parseAttributes(match[1]);
+      const description = this.decodeText(match[2]);
+      if (!description) continue;
+
+      const section = attributes.section?.toUpperCase().slice(0, 2) || null;
+      items.push({
+        category: this.categoryFor(attributes.category, section),
+        section,
+        description,
+        incomeBand: attributes.band?.slice(0, 20) || null,
+        position: items.length,
+      });
+    }
+
+    return { declarationDate, items };
+  }
+
+  /**
+   * Record a declaration version listed by the EU Parliament API.
+   * Existing versions are left untouched so uploaded items are never overwritten.
+   *
+   * @returns true when a new version was recorded
+   */
+  async recordListedDeclaration(mepId: string, declarationDate: string, documentUrl: string | null): Promise<boolean> {
+    const existing = await storage.getMEPDeclaration(mepId, declarationDate);
+    if (existing) return false;
+
+    await storage.saveDeclaration({
+      mepId,
+      declarationDate,
+      source: 'eu_parliament_api',
+      documentUrl,
+    }, null);
+    return true;
+  }
+
+  /**
+   * Store an uploaded declaration file, parse its items and log the
+   * differences to the previous parsed version.
+   */
+  async uploadDeclaration(mep: MEP, upload: DeclarationUpload): Promise<DeclarationWithItems> {
+    const parsed = upload.format === 'xml'
+      ? this.parseXML(upload.content.toString('utf8'))
+      : { declarationDate: null, items: [] };
+
+    const declarationDate = upload.declarationDate || parsed.declarationDate;
+    if (!declarationDate) {
+      throw new Error('Declaration date missing from upload and file');
+    }
+
+    const contentHash = createHash('sha256').update(upload.content).digest('hex');
+    const storedFile = path.join(mep.id, `${declarationDate}-${contentHash.slice(0, 12)}.${upload.format}`);
+    await mkdir(path.dirname(this.resolveStoredFile(storedFile)), { recursive: true });
+    await writeFile(this.resolveStoredFile(storedFile), upload.content);
+
+    const items = parsed.items.length > 0 ? parsed.items : upload.items ?? null;
+    const previousVersions = await storage.getMEPDeclarations(mep.id);
+
+    const saved = await storage.saveDeclaration({
+      mepId: mep.id,
+      declarationDate,
+      source: 'admin_upload',
+      documentUrl: upload.documentUrl,
+      documentFormat: upload.format,
+      storedFile,
+      contentHash,
+      uploadedBy: upload.uploadedBy,
+    }, items);
+
+    const versions = await storage.getMEPDeclarations(mep.id);
+    const declaration = versions.find(version => version.id === saved.id)!;
+
+    if (items) {
+      const previous = previousVersions.find(version =>
+        version.isParsed && version.declarationDate < declarationDate
+      );
+      const replaced = previousVersions.find(version => version.id === saved.id && version.isParsed);
+      await this.logChanges(mep, declaration, replaced ?? previous);
+    }
+
+    logger.info('Declaration uploaded', 'Declarations', {
+      mepId: mep.id,
+      declarationDate,
+      format: upload.format,
+      items: items?.length ?? 0,
+    });
+
+    return declaration;
+  }
+
+  /**
+   * Log item differences between a parsed version and the one it follows or replaces
+   */
+  private async logChanges(mep: MEP, declaration: DeclarationWithItems, previous?: DeclarationWithItems) {
+    const before = previous ? this.summarize(previous.items) : null;
+    const after = this.summarize(declaration.items);
+
+    // A first version lists every non-empty category as added
+    const fieldChanges = diffFields(before, after).filter(change =>
+      before !== null || (Array.isArray(change.after) && change.after.length > 0)
+    );
+    if (previous && fieldChanges.length === 0) return;
+
+    const change = await storage.createChangeLog({
+      entityType: 'mep',
+      entityId: mep.id,
+      changeType: 'declaration',
+      oldValues: previous ? { fullName: mep.fullName, declarationDate: previous.declarationDate } : null,
+      newValues: {
+        fullName: mep.fullName,
+        declarationId: declaration.id,
+        declarationDate: declaration.declarationDate,
+        version: declaration.version,
+      },
+      fieldChanges,
+    });
+    await webhookService.emitChange(change);
+  }
+
+  /**
+   * One sorted list of readable entries per category, so versions compare
+   * independently of item order
+   */
+  private summarize(items: Array<Pick<DeclarationItem, 'category' | 'description' | 'incomeBand'>>): Record<string, string[]> {
+    const summary: Record<string, string[]> = {};
+    for (const field of Object.values(SUMMARY_FIELDS)) {
+      summary[field] = [];
+    }
+    for (const item of items) {
+      const field = SUMMARY_FIELDS[item.category as DeclarationItemCategory] || SUMMARY_FIELDS.other;
+      summary[field].push(item.incomeBand ? `${item.description} (income band ${item.incomeBand})` : item.description);
+    }
+    for (const field of Object.keys(summary)) {
+      summary[field].sort();
+    }
+    return summary;
+  }
+
+  /**
+   * Item category, derived from the DPI section when not given explicitly.
+   * Sections A-E cover occupations and outside activities, F holdings.
+   */
+  categoryFor(category: string | undefined, section: string | null): DeclarationItemCategory {
+    if (category && category in SUMMARY_FIELDS) return category as DeclarationItemCategory;
+    if (section && 'ABCDE'.includes(section)) return 'outside_activity';
+    if (section === 'F') return 'holding';
+    return 'other';
+  }
+
+  private parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of Array.from(source.matchAll(/([\w-]+)\s*=\s*"([^"]*)"/g))) {
+      attributes[match[1].toLowerCase()] = this.decodeText(match[2]);
+    }
+    return attributes;
+  }
+
+  private decodeText(value: string): string {
+    return value
+      .replace(/^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/, '$1')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+}
+
+export const declarationService = new DeclarationService();
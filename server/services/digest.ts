@@ -0,0 +1,246 @@
+/**
+ * Email Digests
+ *
+ * Sends each subscribed user a daily or weekly summary of:
+ * - Changes to the MEPs and committees on their watchlist, and events newly
+ *   announced by followed committees
+ * - Political group transfers recorded in the period
+ * - Meetings of followed committees in the coming week
+ *
+ * Digests are built from storage and handed to a `MailTransport`, so they can
+ * be rendered and inspected with the file or console transport. Sending is
+ * queued as a `sendDigests` job by the scheduler's digest stages.
+ *
+ * @author EU MEP Watch Development Team
+ * @since August 2025
+ */
+
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+import { appBaseUrl } from '../utils/appUrl';
+import { describeChange } from '../utils/changeDiff';
+import { mailTransport, type MailMessage, type MailTransport } from '../utils/mailTransport';
+import { checkpoint, type TaskControl } from '../utils/progress';
+import type {
+  User,
+  Committee,
+  CommitteeEvent,
+  DigestFrequency,
+  GroupTransferWithMEP,
+  WatchlistFeedItem,
+} from '@shared/schema';
+
+export type DigestSchedule = Exclude<DigestFrequency, 'off'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Period covered by a digest when the user has not received one before */
+const DIGEST_PERIOD_MS: Record<DigestSchedule, number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+};
+
+/** Entries per digest section; the rest are summarised as a count */
+const MAX_SECTION_ITEMS = 50;
+const UPCOMING_EVENT_DAYS = 7;
+
+export interface Digest {
+  user: Pick<User, 'id' | 'email' | 'firstName'>;
+  frequency: DigestSchedule;
+  since: Date;
+  until: Date;
+  changes: WatchlistFeedItem[];
+  totalChanges: number;
+  transfers: GroupTransferWithMEP[];
+  totalTransfers: number;
+  upcomingEvents: Array<{ event: CommitteeEvent; committee: Pick<Committee, 'id' | 'code' | 'name'> }>;
+  /** Display names of followed entities, keyed by `entityType:entityId` */
+  names: Record<string, string>;
+}
+
+export interface DigestRunResult {
+  sent: number;
+  skipped: number;
+  failed: number;
+  errors: string[];
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatDay(date: Date | string): string {
+  return new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+}
+
+export class DigestService {
+  constructor(private transport: MailTransport = mailTransport) {}
+
+  /**
+   * Collect the digest content of one user for the period `since`..`until`
+   */
+  async buildDigest(
+    user: Pick<User, 'id' | 'email' | 'firstName'>,
+    frequency: DigestSchedule,
+    since: Date,
+    until: Date = new Date()
+  ): Promise<Digest> {
+    const watchlist = await storage.getWatchlist(user.id);
+    const names = Object.fromEntries(
+      watchlist.map(item => [`${item.entityType}:${item.entityId}`, item.name ?? item.entityId])
+    );
+
+    const feed = await storage.getWatchlistFeed(user.id, { since, limit: MAX_SECTION_ITEMS });
+    const changes = feed.items.filter(item => item.occurredAt <= until);
+
+    // Transfers are stored by day, so the date filter is widened and narrowed by creation time
+    const { transfers } = await storage.getGroupTransfers({ from: since, to: until, limit: MAX_SECTION_ITEMS * 2 });
+    const newTransfers = transfers.filter(transfer => transfer.createdAt && transfer.createdAt > since && transfer.createdAt <= until);
+
+    // Public events of followed committees only, soonest first
+    const horizon = new Date(until.getTime() + UPCOMING_EVENT_DAYS * DAY_MS);
+    const upcomingEvents = await storage.getCalendarEvents({ userId: user.id, from: until, to: horizon });
+
+    return {
+      user,
+      frequency,
+      since,
+      until,
+      changes,
+      totalChanges: feed.total,
+      transfers: newTransfers.slice(0, MAX_SECTION_ITEMS),
+      totalTransfers: newTransfers.length,
+      upcomingEvents: upcomingEvents.slice(0, MAX_SECTION_ITEMS),
+      names,
+    };
+  }
+
+  isEmpty(digest: Digest): boolean {
+    return digest.changes.length === 0 && digest.transfers.length === 0 && digest.upcomingEvents.length === 0;
+  }
+
+  private describeFeedItem(item: WatchlistFeedItem, names: Record<string, string>): string {
+    if (item.kind === 'event') {
+      return `${item.committee.code}: new ${item.event.eventType} "${item.event.title}" on ${formatDay(item.event.startDate)}`;
+    }
+    return describeChange(item.change, names[`${item.change.entityType}:${item.change.entityId}`]);
+  }
+
+  private describeTransfer(transfer: GroupTransferWithMEP): string {
+    return transfer.transferType === 'political_group'
+      ? `${transfer.mep.fullName} moved from ${transfer.fromGroupAbbr ?? 'unknown'} to ${transfer.toGroupAbbr ?? 'unknown'}`
+      : `${transfer.mep.fullName} changed national party from ${transfer.fromNationalParty ?? 'unknown'} to ${transfer.toNationalParty ?? 'unknown'}`;
+  }
+
+  /**
+   * Render a digest as a plain-text and HTML email
+   */
+  renderDigest(digest: Digest): MailMessage {
+    const baseUrl = appBaseUrl();
+    const period = digest.frequency === 'daily' ? 'Daily' : 'Weekly';
+    const sections: Array<{ title: string; lines: string[]; more: number }> = [
+      {
+        title: 'Your watchlist',
+        lines: digest.changes.map(item => this.describeFeedItem(item, digest.names)),
+        more: digest.totalChanges - digest.changes.length,
+      },
+      {
+        title: 'Political group transfers',
+        lines: digest.transfers.map(transfer => this.describeTransfer(transfer)),
+        more: digest.totalTransfers - digest.transfers.length,
+      },
+      {
+        title: `Upcoming meetings of followed committees (next ${UPCOMING_EVENT_DAYS} days)`,
+        lines: digest.upcomingEvents.map(({ event, committee }) =>
+          `${formatDay(event.startDate)}, ${committee.code}: ${event.title}${event.location ? ` (${event.location})` : ''}`
+        ),
+        more: 0,
+      },
+    ].filter(section => section.lines.length > 0);
+
+    const greeting = `Hello${digest.user.firstName ? ` ${digest.user.firstName}` : ''},`;
+    const intro = `Here is what changed between ${formatDay(digest.since)} and ${formatDay(digest.until)}.`;
+    const footer = `Manage your watchlist and digest settings at ${baseUrl}/my-changes`;
+
+    const text = [
+      greeting,
+      '',
+      intro,
+      ...sections.flatMap(section => [
+        '',
+        section.title,
+        '-'.repeat(section.title.length),
+        ...section.lines.map(line => `- ${line}`),
+        ...(section.more > 0 ? [`…and ${section.more} more`] : []),
+      ]),
+      '',
+      footer,
+    ].join('\n');
+
+    const html = [
+      `<p>${escapeHtml(greeting)}</p>`,
+      `<p>${escapeHtml(intro)}</p>`,
+      ...sections.map(section => [
+        `<h3>${escapeHtml(section.title)}</h3>`,
+        '<ul>',
+        ...section.lines.map(line => `<li>${escapeHtml(line)}</li>`),
+        '</ul>',
+        section.more > 0 ? `<p>…and ${section.more} more</p>` : '',
+      ].join('\n')),
+      `<p><a href="${escapeHtml(`${baseUrl}/my-changes`)}">Manage your watchlist and digest settings</a></p>`,
+    ].join('\n');
+
+    return {
+      to: digest.user.email!,
+      subject: `${period} MEP Watch digest: ${digest.totalChanges} watchlist updates, ${digest.totalTransfers} transfers`,
+      text,
+      html,
+    };
+  }
+
+  /**
+   * Send the digest of every user subscribed to `frequency`
+   *
+   * Each digest covers the time since the user's previous one (or one period
+   * for a first digest). Users with nothing to report are skipped but their
+   * period still advances; failed sends are retried with the next run.
+   */
+  async sendDigests(frequency: DigestSchedule, control?: TaskControl): Promise<DigestRunResult> {
+    const recipients = await storage.getDigestRecipients(frequency);
+    const until = new Date();
+    const result: DigestRunResult = { sent: 0, skipped: 0, failed: 0, errors: [] };
+
+    logger.info(`Sending ${frequency} digests to ${recipients.length} users via ${this.transport.name}`, 'Digest');
+
+    for (let index = 0; index < recipients.length; index++) {
+      const { user, preferences } = recipients[index];
+      if (checkpoint(control, index, recipients.length, `Digest ${index + 1} of ${recipients.length}`)) break;
+
+      const since = preferences.lastDigestAt ?? new Date(until.getTime() - DIGEST_PERIOD_MS[frequency]);
+      try {
+        const digest = await this.buildDigest(user, frequency, since, until);
+        if (this.isEmpty(digest)) {
+          result.skipped++;
+        } else {
+          await this.transport.send(this.renderDigest(digest));
+          result.sent++;
+        }
+        await storage.markDigestSent(user.id, until);
+      } catch (error) {
+        const message = `Digest for user ${user.id} failed: ${error instanceof Error ? error.message : String(error)}`;
+        logger.error(message, 'Digest');
+        result.failed++;
+        result.errors.push(message);
+      }
+    }
+
+    logger.info(`${frequency} digests done`, 'Digest', { ...result, errors: result.errors.length });
+    return result;
+  }
+}
+
+export const digestService = new DigestService();
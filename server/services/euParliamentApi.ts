@@ -1,6 +1,13 @@
 // EU Parliament Open Data API v2 Integration
 // API Documentation: https://data.europarl.europa.eu/en/developer-corner/opendata-api
 
+import type { InsertMEPMandate, InsertVote, InsertProcedure, InsertParliamentaryQuestion, InsertSpeech, VotePosition } from '@shared/schema';
+import { parseTermNumber, termNumberForDate, toISODate } from '../utils/parliamentaryTerms';
+import { classifyCommittee } from '../utils/committeeCatalogue';
+import { toCountryCode } from '../utils/countryCodes';
+import { upstreamClient, type UpstreamClient } from '../utils/upstreamClient';
+import * as cheerio from 'cheerio';
+
 interface EUAPIResponse<T> {
   '@context': Record<string, unknown>;
   '@graph': T[];
@@ -33,14 +40,26 @@ interface EUMEPData {
     'skos:notation'?: string;
     'skos:prefLabel'?: { [lang: string]: string };
   }>;
-  'ep:hasMandate'?: Array<{
+  'ep:hasMandate'?: EUMandateData[];
+}
+
+interface EUMandateData {
+  '@id': string;
+  'ep:parliamentaryTerm'?: string;
+  'ep:startDate'?: string;
+  'ep:endDate'?: string;
+  'ep:represents'?: Array<{
     '@id': string;
-    'ep:parliamentaryTerm'?: string;
-    'ep:inParlGroup'?: Array<{
-      '@id': string;
-      'skos:notation'?: string;
-      'skos:prefLabel'?: { [lang: string]: string };
-    }>;
+    'skos:notation'?: string;
+  }>;
+  'ep:inParlGroup'?: Array<{
+    '@id': string;
+    'skos:notation'?: string;
+    'skos:prefLabel'?: { [lang: string]: string };
+  }>;
+  'ep:inNationalParty'?: Array<{
+    '@id': string;
+    'skos:prefLabel'?: { [lang: string]: string };
   }>;
 }
 
@@ -87,43 +106,189 @@ interface EUEventData {
   'ep:isPublic'?: boolean;
 }
 
+interface EUMeetingData {
+  id?: string;
+  '@id'?: string;
+  activity_id?: string;
+  activity_date?: string;
+  had_activity_type?: string;
+  activity_label?: { [lang: string]: string };
+}
+
+/**
+ * Plenary decision as published by `/meetings/{sitting-id}/decisions`.
+ * Roll-call votes carry the voter lists; show-of-hands decisions do not.
+ */
+interface EUDecisionData {
+  id?: string;
+  '@id'?: string;
+  activity_id?: string;
+  activity_date?: string;
+  activity_label?: { [lang: string]: string };
+  decision_method?: string;
+  decision_outcome?: string;
+  had_voter_favor?: string[];
+  had_voter_against?: string[];
+  had_voter_abstention?: string[];
+  number_of_votes_favor?: number;
+  number_of_votes_against?: number;
+  number_of_votes_abstention?: number;
+  recorded_in_a_realization_of?: Array<{ identifier?: string; '@id'?: string } | string>;
+  forms_part_of?: Array<{ identifier?: string } | string>;
+  inverse_consists_of?: Array<{ identifier?: string } | string>;
+}
+
+/**
+ * Legislative procedure as published by `/procedures/{process-id}`.
+ * Committee and rapporteur involvement is expressed as participations.
+ */
+interface EUProcedureData {
+  id?: string;
+  '@id'?: string;
+  process_id?: string;
+  label?: string;
+  process_title?: { [lang: string]: string };
+  process_type?: string;
+  process_stage?: string;
+  current_stage?: { [lang: string]: string } | string;
+  process_date_start?: string;
+  process_date_last_event?: string;
+  had_participation?: Array<{
+    participation_role?: string;
+    had_participant_person?: string | string[];
+    had_participant_organization?: string | string[];
+    participation_date?: string;
+  }>;
+}
+
+/**
+ * Document linked to a procedure (committee reports, opinions).
+ * Rapporteurs are listed as document creators.
+ */
+export interface EUDocumentData {
+  id?: string;
+  '@id'?: string;
+  work_type?: string;
+  document_date?: string;
+  creator?: Array<{
+    participation_role?: string;
+    had_participant_person?: string | string[];
+    had_participant_organization?: string | string[];
+  }>;
+}
+
+/**
+ * Parliamentary question as published by `/parliamentary-questions/{doc-id}`.
+ * Authors are listed as creators; the addressee is an EU institution.
+ */
+interface EUQuestionData {
+  id?: string;
+  '@id'?: string;
+  identifier?: string;
+  label?: string;
+  work_type?: string;
+  document_date?: string;
+  title_dcterms?: { [lang: string]: string };
+  content?: { [lang: string]: string } | string;
+  was_addressed_to?: string | string[];
+  inverse_is_answer_to?: Array<{ document_date?: string } | string>;
+  creator?: Array<{
+    had_participant_person?: string | string[];
+  }>;
+}
+
+/**
+ * Verbatim plenary contribution as published by `/speeches`.
+ * The text is keyed by the language it was delivered in.
+ */
+interface EUSpeechData {
+  id?: string;
+  '@id'?: string;
+  activity_id?: string;
+  activity_date?: string;
+  had_participant_person?: string | string[];
+  activity_label?: { [lang: string]: string };
+  text?: { [lang: string]: string };
+}
+
+/**
+ * MEP declaration as published by `/meps-declarations`.
+ * Only document metadata and the PDF are available, not the declared items.
+ */
+interface EUDeclarationData {
+  id?: string;
+  '@id'?: string;
+  work_type?: string;
+  document_date?: string;
+  creator?: Array<{
+    had_participant_person?: string | string[];
+  }>;
+  is_realized_by?: Array<{
+    is_embodied_by?: Array<{ is_exemplified_by?: string }>;
+  }>;
+}
+
+/** Speech ready for storage, with the speaker's person identifier */
+export interface TransformedSpeech {
+  speech: Omit<InsertSpeech, 'mepId'>;
+  personId: string;
+}
+
+/** Question ready for storage, with author person identifiers */
+export interface TransformedQuestion {
+  question: InsertParliamentaryQuestion;
+  authorIds: string[];
+}
+
+/** Procedure ready for storage, with committee codes and rapporteur person identifiers */
+export interface TransformedProcedure {
+  procedure: InsertProcedure;
+  committees: Array<{ code: string; role: 'lead' | 'opinion' }>;
+  rapporteurs: Array<{
+    personId: string;
+    role: 'rapporteur' | 'shadow_rapporteur';
+    committeeCode: string | null;
+    appointedDate: string | null;
+  }>;
+}
+
+/** A committee seat as published by the EU Parliament, with the role label as given */
+export interface EUCommitteeMembership {
+  committeeCode: string;
+  personId: string;
+  personName: string;
+  role: string;
+}
+
+/** Items requested per page of a paginated listing */
+const PAGE_SIZE = 500;
+/** Upper bound on pages of one listing, in case the API keeps linking to more */
+const MAX_PAGES = 200;
+
+/** Roll-call vote ready for storage, with voter person identifiers per position */
+export interface TransformedVote {
+  vote: InsertVote;
+  positions: Array<{ personId: string; position: Exclude<VotePosition, 'absent'> }>;
+}
+
 export class EUParliamentAPI {
   private baseUrl = 'https://data.europarl.europa.eu/api/v2';
-  private requestCount = 0;
-  private resetTime = Date.now() + 5 * 60 * 1000; // 5 minutes
-  private maxRequests = 450; // Conservative limit (API allows 500 per 5 min)
-
-  private async rateLimitedFetch(url: string): Promise<Response> {
-    // Reset counter if 5 minutes have passed
-    if (Date.now() > this.resetTime) {
-      this.requestCount = 0;
-      this.resetTime = Date.now() + 5 * 60 * 1000;
-    }
 
-    // Check rate limit
-    if (this.requestCount >= this.maxRequests) {
-      const waitTime = this.resetTime - Date.now();
-      console.log(`Rate limit reached. Waiting ${Math.ceil(waitTime / 1000)} seconds...`);
-      await new Promise(resolve => setTimeout(resolve, waitTime + 1000));
-      this.requestCount = 0;
-      this.resetTime = Date.now() + 5 * 60 * 1000;
-    }
+  constructor(private client: UpstreamClient = upstreamClient) {}
 
-    this.requestCount++;
-    console.log(`API Request ${this.requestCount}/${this.maxRequests}: ${url}`);
-    
-    const response = await fetch(url, {
+  /**
+   * Fetch a JSON-LD resource through the shared upstream client, which
+   * enforces the API's rate budget, retries transient failures and
+   * revalidates unchanged resources
+   */
+  private async apiFetch(url: string): Promise<Response> {
+    console.log(`API Request: ${url}`);
+    return this.client.fetch(url, {
       headers: {
         'Accept': 'application/ld+json',
         'User-Agent': 'EU-MEP-Watch/1.0 (Contact: admin@example.com)'
       }
     });
-
-    if (!response.ok) {
-      throw new Error(`API request failed: ${response.status} ${response.statusText}`);
-    }
-
-    return response;
   }
 
   private extractText(obj: { [lang: string]: string } | string | undefined, defaultLang = 'en'): string {
@@ -138,37 +303,44 @@ export class EUParliamentAPI {
     return uri.split('/').pop() || uri;
   }
 
+  /**
+   * API URL of an MEP record, stored as the provenance of synced fields
+   */
+  getMEPSourceUrl(mepId: string): string {
+    return `${this.baseUrl}/meps/${mepId}`;
+  }
+
   async fetchCurrentMEPs(): Promise<EUAPIResponse<EUMEPData>> {
-    const response = await this.rateLimitedFetch(`${this.baseUrl}/meps/show-current`);
+    const response = await this.apiFetch(`${this.baseUrl}/meps/show-current`);
     return await response.json();
   }
 
   async fetchMEPDetails(mepId: string): Promise<EUMEPData> {
-    const response = await this.rateLimitedFetch(`${this.baseUrl}/meps/${mepId}`);
+    const response = await this.apiFetch(`${this.baseUrl}/meps/${mepId}`);
     const data: EUAPIResponse<EUMEPData> = await response.json();
     return data['@graph'][0];
   }
 
   async fetchCorporateBodies(): Promise<EUAPIResponse<EUCorporateBodyData>> {
-    const response = await this.rateLimitedFetch(`${this.baseUrl}/corporate-bodies/show-current`);
+    const response = await this.apiFetch(`${this.baseUrl}/corporate-bodies/show-current`);
     return await response.json();
   }
 
   async fetchCommitteeDetails(committeeId: string): Promise<EUCorporateBodyData> {
-    const response = await this.rateLimitedFetch(`${this.baseUrl}/corporate-bodies/${committeeId}`);
+    const response = await this.apiFetch(`${this.baseUrl}/corporate-bodies/${committeeId}`);
     const data: EUAPIResponse<EUCorporateBodyData> = await response.json();
     return data['@graph'][0];
   }
 
   async fetchCommitteesWithMembers(): Promise<EUAPIResponse<EUCorporateBodyData>> {
     // Fetch committees using the correct parameter format - request JSON format explicitly
-    const response = await this.rateLimitedFetch(`${this.baseUrl}/corporate-bodies?body-classification=COMMITTEE&format=application/ld+json&limit=50`);
+    const response = await this.apiFetch(`${this.baseUrl}/corporate-bodies?body-classification=COMMITTEE&format=application/ld+json&limit=50`);
     return await response.json();
   }
 
   async fetchDetailedCommitteeInfo(committeeId: string): Promise<EUAPIResponse<EUCorporateBodyData>> {
     // Fetch detailed committee information including leadership
-    const response = await this.rateLimitedFetch(`${this.baseUrl}/corporate-bodies/${committeeId}?format=application/ld+json`);
+    const response = await this.apiFetch(`${this.baseUrl}/corporate-bodies/${committeeId}?format=application/ld+json`);
     return await response.json();
   }
 
@@ -192,10 +364,90 @@ export class EUParliamentAPI {
       url += `?${params.join('&')}`;
     }
     
-    const response = await this.rateLimitedFetch(url);
+    const response = await this.apiFetch(url);
     return await response.json();
   }
 
+  /**
+   * Plenary sittings (one per sitting day) held in a given year
+   */
+  async fetchPlenarySittings(year: number): Promise<EUAPIResponse<EUMeetingData>> {
+    return this.getAllPaginatedData<EUMeetingData>(`${this.baseUrl}/meetings?year=${year}&format=application/ld+json`);
+  }
+
+  /**
+   * Decisions taken during a plenary sitting, including roll-call voter lists
+   */
+  async fetchSittingDecisions(sittingId: string): Promise<EUAPIResponse<EUDecisionData>> {
+    return this.getAllPaginatedData<EUDecisionData>(`${this.baseUrl}/meetings/${sittingId}/decisions?format=application/ld+json`);
+  }
+
+  /**
+   * Verbatim speeches (CRE) delivered on a plenary sitting day
+   */
+  async fetchSittingSpeeches(sittingDate: string): Promise<EUAPIResponse<EUSpeechData>> {
+    return this.getAllPaginatedData<EUSpeechData>(`${this.baseUrl}/speeches?sitting-date=${sittingDate}&format=application/ld+json`);
+  }
+
+  /**
+   * Declarations filed by MEPs in a given year (private interests, gifts, events)
+   */
+  async fetchMEPDeclarations(year: number): Promise<EUAPIResponse<EUDeclarationData>> {
+    return this.getAllPaginatedData<EUDeclarationData>(`${this.baseUrl}/meps-declarations?year=${year}&format=application/ld+json`);
+  }
+
+  /**
+   * Procedures started in a given year
+   */
+  async fetchProcedures(year: number): Promise<EUAPIResponse<EUProcedureData>> {
+    return this.getAllPaginatedData<EUProcedureData>(`${this.baseUrl}/procedures?year=${year}&format=application/ld+json`);
+  }
+
+  /**
+   * Full procedure file, including committee and rapporteur participations
+   */
+  async fetchProcedureDetails(processId: string): Promise<EUProcedureData | undefined> {
+    const response = await this.apiFetch(`${this.baseUrl}/procedures/${processId}?format=application/ld+json`);
+    const data: EUAPIResponse<EUProcedureData> = await response.json();
+    return data['@graph']?.[0];
+  }
+
+  /**
+   * Documents (reports, opinions) attached to a procedure
+   */
+  async fetchProcedureDocuments(processId: string): Promise<EUAPIResponse<EUDocumentData>> {
+    const response = await this.apiFetch(`${this.baseUrl}/procedures/${processId}/documents?format=application/ld+json`);
+    return await response.json();
+  }
+
+  /**
+   * Parliamentary questions tabled in a given year
+   */
+  async fetchParliamentaryQuestions(year: number): Promise<EUAPIResponse<EUQuestionData>> {
+    return this.getAllPaginatedData<EUQuestionData>(`${this.baseUrl}/parliamentary-questions?year=${year}&format=application/ld+json`);
+  }
+
+  /**
+   * Full question document, including authors, addressee and answer
+   */
+  async fetchQuestionDetails(docId: string): Promise<EUQuestionData | undefined> {
+    const response = await this.apiFetch(`${this.baseUrl}/parliamentary-questions/${docId}?format=application/ld+json`);
+    const data: EUAPIResponse<EUQuestionData> = await response.json();
+    return data['@graph']?.[0];
+  }
+
+  extractQuestionId(question: EUQuestionData): string {
+    return this.extractId(question.id || question['@id'] || '');
+  }
+
+  extractProcessId(procedure: EUProcedureData): string {
+    return procedure.process_id || this.extractId(procedure.id || procedure['@id'] || '');
+  }
+
+  extractSittingId(sitting: EUMeetingData): string {
+    return sitting.activity_id || this.extractId(sitting.id || sitting['@id'] || '');
+  }
+
   // Transform EU API data to our internal format
   transformMEPData(euMep: Record<string, unknown>) {
     // Transform based on official EU Parliament API v2 structure
@@ -222,6 +474,267 @@ export class EUParliamentAPI {
     };
   }
 
+  /**
+   * Transform the `ep:hasMandate` entries of an MEP into mandate history rows.
+   * Mandates without a usable start date are skipped.
+   */
+  transformMandateData(euMep: EUMEPData): Omit<InsertMEPMandate, 'mepId'>[] {
+    const mandates: Omit<InsertMEPMandate, 'mepId'>[] = [];
+
+    for (const mandate of euMep['ep:hasMandate'] || []) {
+      const startDate = toISODate(mandate['ep:startDate']);
+      if (!startDate) continue;
+
+      const group = mandate['ep:inParlGroup']?.[0];
+      const country = mandate['ep:represents']?.[0]?.['skos:notation']
+        || this.extractId(mandate['ep:represents']?.[0]?.['@id'] || '');
+
+      mandates.push({
+        termNumber: parseTermNumber(mandate['ep:parliamentaryTerm']) ?? termNumberForDate(startDate),
+        startDate,
+        endDate: toISODate(mandate['ep:endDate']),
+        country: country ? toCountryCode(country) : null,
+        politicalGroup: group ? this.extractText(group['skos:prefLabel']) || null : null,
+        politicalGroupAbbr: group?.['skos:notation'] || null,
+        nationalPoliticalGroup: this.extractText(mandate['ep:inNationalParty']?.[0]?.['skos:prefLabel']) || null,
+      });
+    }
+
+    return mandates;
+  }
+
+  /**
+   * Transform a plenary decision into a vote row plus individual positions.
+   * Returns null for decisions that were not taken by roll-call.
+   */
+  transformVoteData(decision: EUDecisionData, sittingId: string, sittingDate?: string): TransformedVote | null {
+    const favor = decision.had_voter_favor || [];
+    const against = decision.had_voter_against || [];
+    const abstention = decision.had_voter_abstention || [];
+
+    if (favor.length + against.length + abstention.length === 0) return null;
+
+    const id = decision.activity_id || this.extractId(decision.id || decision['@id'] || '');
+    const voteDate = toISODate(decision.activity_date) || toISODate(sittingDate);
+    if (!id || !voteDate) return null;
+
+    const outcome = this.extractId(decision.decision_outcome || '').toLowerCase();
+    const documentReference = this.firstIdentifier(decision.recorded_in_a_realization_of);
+    const procedureReference = this.firstIdentifier(decision.forms_part_of) || this.firstIdentifier(decision.inverse_consists_of);
+
+    const positions: TransformedVote['positions'] = [
+      ...favor.map(voter => ({ personId: this.extractId(voter), position: 'for' as const })),
+      ...against.map(voter => ({ personId: this.extractId(voter), position: 'against' as const })),
+      ...abstention.map(voter => ({ personId: this.extractId(voter), position: 'abstain' as const })),
+    ];
+
+    return {
+      vote: {
+        id,
+        sittingId,
+        voteDate,
+        title: this.extractText(decision.activity_label) || `Roll-call vote ${id}`,
+        documentReference: documentReference ? documentReference.slice(0, 50) : null,
+        procedureReference: procedureReference && /^\d{4}\/\d{4}\(\w+\)$/.test(procedureReference) ? procedureReference : null,
+        outcome: outcome.includes('adopt') ? 'adopted' : outcome.includes('reject') ? 'rejected' : outcome || null,
+        forCount: decision.number_of_votes_favor ?? favor.length,
+        againstCount: decision.number_of_votes_against ?? against.length,
+        abstainCount: decision.number_of_votes_abstention ?? abstention.length,
+        officialUrl: `https://www.europarl.europa.eu/doceo/document/PV-${termNumberForDate(voteDate)}-${voteDate}-RCV_EN.html`,
+      },
+      positions,
+    };
+  }
+
+  /**
+   * Extract the declarant, date and PDF link of a declaration of private interests.
+   * Returns null for other declaration types (gifts, attended events).
+   */
+  transformDeclarationData(euDeclaration: EUDeclarationData): { personId: string; declarationDate: string; documentUrl: string | null } | null {
+    const workType = this.extractId(euDeclaration.work_type || '').toUpperCase();
+    if (!workType.includes('DPI') && !workType.includes('PRIVATE_INTEREST')) return null;
+
+    const personId = this.extractId(this.toArray(euDeclaration.creator?.[0]?.had_participant_person)[0] || '');
+    const declarationDate = toISODate(euDeclaration.document_date);
+    if (!personId || !declarationDate) return null;
+
+    const documentUrl = (euDeclaration.is_realized_by || [])
+      .flatMap(expression => expression.is_embodied_by || [])
+      .map(embodiment => embodiment.is_exemplified_by)
+      .find((url): url is string => !!url && url.toLowerCase().endsWith('.pdf'));
+
+    return { personId, declarationDate, documentUrl: documentUrl || null };
+  }
+
+  /**
+   * Transform a CRE contribution into a speech row.
+   * Returns null for procedural entries without a speaker or text.
+   */
+  transformSpeechData(euSpeech: EUSpeechData, sittingId: string, sittingDate: string): TransformedSpeech | null {
+    const id = euSpeech.activity_id || this.extractId(euSpeech.id || euSpeech['@id'] || '');
+    const personId = this.extractId(this.toArray(euSpeech.had_participant_person)[0] || '');
+    const [language, text] = Object.entries(euSpeech.text || {}).find(([, value]) => value?.trim()) || [];
+    if (!id || !personId || !language || !text) return null;
+
+    const speechDate = toISODate(euSpeech.activity_date) || sittingDate;
+
+    return {
+      speech: {
+        id,
+        sittingId,
+        speechDate,
+        debateTitle: this.extractText(euSpeech.activity_label) || null,
+        language: language.toUpperCase().slice(0, 5),
+        text: text.trim(),
+        officialUrl: `https://www.europarl.europa.eu/doceo/document/CRE-${termNumberForDate(speechDate)}-${speechDate}_${language.toUpperCase()}.html`,
+      },
+      personId,
+    };
+  }
+
+  /**
+   * Transform a question document into a question row plus author identifiers.
+   * Returns null when the document has no identifier.
+   */
+  transformQuestionData(euQuestion: EUQuestionData): TransformedQuestion | null {
+    const id = this.extractQuestionId(euQuestion);
+    if (!id) return null;
+
+    const workType = this.extractId(euQuestion.work_type || '').toUpperCase();
+    const questionType = workType.includes('PRIORITY') ? 'priority'
+      : workType.includes('ORAL') ? 'oral'
+      : 'written';
+
+    const answer = euQuestion.inverse_is_answer_to?.[0];
+    const answerDate = answer && typeof answer === 'object' ? toISODate(answer.document_date) : null;
+    const content = typeof euQuestion.content === 'object' ? this.extractText(euQuestion.content) : euQuestion.content;
+
+    const authorIds = Array.from(new Set(
+      (euQuestion.creator || [])
+        .flatMap(creator => this.toArray(creator.had_participant_person))
+        .map(person => this.extractId(person))
+        .filter(Boolean)
+    ));
+
+    return {
+      question: {
+        id,
+        reference: euQuestion.label || euQuestion.identifier || null,
+        questionType,
+        title: this.extractText(euQuestion.title_dcterms) || euQuestion.label || id,
+        content: content || null,
+        addressee: this.toAddressee(this.toArray(euQuestion.was_addressed_to)[0]),
+        submittedDate: toISODate(euQuestion.document_date),
+        answerDate,
+        officialUrl: `https://www.europarl.europa.eu/doceo/document/${id}_EN.html`,
+      },
+      authorIds,
+    };
+  }
+
+  /**
+   * Map an addressee institution URI to a short display name
+   */
+  private toAddressee(uri?: string): string | null {
+    if (!uri) return null;
+    const code = this.extractId(uri).toUpperCase();
+    if (code.includes('VP') || code.includes('HR')) return 'VP/HR';
+    if (code.includes('COUNCIL') || code === 'CONSIL') return 'Council';
+    if (code.includes('COMMISSION') || code === 'COM') return 'Commission';
+    return code || null;
+  }
+
+  /**
+   * Transform a procedure file and its documents into a procedure row plus
+   * committee and rapporteur links. Returns null when no reference can be derived.
+   */
+  transformProcedureData(euProcedure: EUProcedureData, documents: EUDocumentData[] = []): TransformedProcedure | null {
+    const processId = this.extractProcessId(euProcedure);
+    const procedureType = this.extractId(euProcedure.process_type || '').toUpperCase() || null;
+    const reference = euProcedure.label || this.toProcedureReference(processId, procedureType);
+    if (!reference) return null;
+
+    const committeeRoles = new Map<string, 'lead' | 'opinion'>();
+    const rapporteurs: TransformedProcedure['rapporteurs'] = [];
+    const seenRapporteurs = new Set<string>();
+
+    const participations = [
+      ...(euProcedure.had_participation || []),
+      ...documents.flatMap(document => (document.creator || []).map(creator => ({
+        ...creator,
+        participation_date: document.document_date,
+      }))),
+    ];
+
+    for (const participation of participations) {
+      const role = this.extractId(participation.participation_role || '').toUpperCase();
+      const organizations = this.toArray(participation.had_participant_organization).map(org => this.extractId(org).toUpperCase());
+      const persons = this.toArray(participation.had_participant_person).map(person => this.extractId(person));
+
+      if (role.includes('COMMITTEE_LEAD') || role === 'LEAD') {
+        organizations.forEach(code => committeeRoles.set(code, 'lead'));
+      } else if (role.includes('COMMITTEE_OPINION') || role === 'OPINION') {
+        organizations.forEach(code => {
+          if (!committeeRoles.has(code)) committeeRoles.set(code, 'opinion');
+        });
+      }
+
+      if (!role.includes('RAPPORTEUR')) continue;
+      const rapporteurRole = role.includes('SHADOW') ? 'shadow_rapporteur' : 'rapporteur';
+      for (const personId of persons) {
+        const committeeCode = organizations[0] || null;
+        const key = `${personId}|${rapporteurRole}|${committeeCode}`;
+        if (!personId || seenRapporteurs.has(key)) continue;
+        seenRapporteurs.add(key);
+        rapporteurs.push({
+          personId,
+          role: rapporteurRole,
+          committeeCode,
+          appointedDate: toISODate(participation.participation_date),
+        });
+      }
+    }
+
+    const stage = typeof euProcedure.current_stage === 'object'
+      ? this.extractText(euProcedure.current_stage)
+      : euProcedure.current_stage || this.extractId(euProcedure.process_stage || '').replace(/_/g, ' ').toLowerCase();
+
+    return {
+      procedure: {
+        reference,
+        title: this.extractText(euProcedure.process_title) || reference,
+        procedureType,
+        stage: stage || null,
+        startDate: toISODate(euProcedure.process_date_start),
+        lastEventDate: toISODate(euProcedure.process_date_last_event),
+        officialUrl: `https://oeil.secure.europarl.europa.eu/oeil/popups/ficheprocedure.do?reference=${encodeURIComponent(reference)}&l=en`,
+      },
+      committees: Array.from(committeeRoles.entries()).map(([code, role]) => ({ code, role })),
+      rapporteurs,
+    };
+  }
+
+  /**
+   * Build the OEIL reference (2023/0123(COD)) from an API process id (2023-0123)
+   */
+  private toProcedureReference(processId: string, procedureType: string | null): string | null {
+    const match = processId.match(/^(\d{4})-(\d{4})$/);
+    if (!match || !procedureType) return null;
+    return `${match[1]}/${match[2]}(${procedureType})`;
+  }
+
+  private toArray(value?: string | string[]): string[] {
+    if (!value) return [];
+    return Array.isArray(value) ? value : [value];
+  }
+
+  private firstIdentifier(refs?: Array<{ identifier?: string; '@id'?: string } | string>): string | null {
+    const first = refs?.[0];
+    if (!first) return null;
+    if (typeof first === 'string') return this.extractId(first);
+    return first.identifier || (first['@id'] ? this.extractId(first['@id']) : null);
+  }
+
   transformCommitteeData(euBody: Record<string, unknown>) {
     const id = this.extractId(String(euBody.id || ''));
     const name = String(euBody.label || '');
@@ -249,17 +762,17 @@ export class EUParliamentAPI {
       }
     }
     
-    // Filter to only include actual parliamentary committees
-    // Known EU Parliament committees have specific naming patterns
-    const isCommittee = this.isActualCommittee(String(name), String(code));
+    // Only committees, subcommittees, delegations and joint bodies are kept
+    const classification = classifyCommittee(String(code), String(name));
     
-    if (!isCommittee) return null;
+    if (!classification) return null;
 
     return {
       id,
       code: String(code),
       name: String(name),
       nameNational: null,
+      committeeType: classification.committeeType,
       chairpersonName,
       chairpersonId,
       coordinatorName: null, // Would need additional API call
@@ -269,28 +782,82 @@ export class EUParliamentAPI {
     };
   }
 
-  private isActualCommittee(name: string, code: string): boolean {
-    // Known EU Parliament committee codes
-    const knownCommittees = [
-      'AGRI', 'BUDG', 'CCBE', 'CONT', 'CULT', 'DEVE', 'DROI', 'ECON', 
-      'EMPL', 'ENVI', 'FEMM', 'ITRE', 'IMCO', 'JURI', 'LIBE', 'PECH',
-      'PETI', 'REGI', 'SEDE', 'TRAN', 'AFCO', 'AFET', 'INTA'
-    ];
+  /**
+   * Committee seats from the corporate-body membership data
+   * 
+   * Committees listed without members are fetched individually, since the
+   * listing does not always embed them.
+   * 
+   * @returns Seats per committee code; committees without any published member are absent
+   */
+  async fetchCommitteeMemberships(): Promise<Map<string, EUCommitteeMembership[]>> {
+    const bodies = (await this.fetchCommitteesWithMembers())['@graph'] || [];
+    const memberships = new Map<string, EUCommitteeMembership[]>();
     
-    // Check if code matches known committee codes
-    if (knownCommittees.includes(code)) {
-      return true;
+    for (const listed of bodies) {
+      const bodyType = listed['ep:bodyType']?.[0]?.['skos:prefLabel']?.['en'] || '';
+      const committeeCode = listed['skos:notation'] || '';
+      if (!committeeCode || !bodyType.toLowerCase().includes('committee')) continue;
+      
+      let body = listed;
+      if (!body['ep:hasMember']?.length) {
+        const details = await this.fetchDetailedCommitteeInfo(this.extractId(listed['@id']));
+        body = details['@graph']?.[0] ?? listed;
+      }
+      
+      const seats: EUCommitteeMembership[] = [];
+      for (const chair of body['ep:chairperson'] || []) {
+        seats.push({ committeeCode, personId: this.extractId(chair['@id'] || ''), personName: chair['foaf:name'] || '', role: 'chair' });
+      }
+      for (const member of body['ep:hasMember'] || []) {
+        seats.push({
+          committeeCode,
+          personId: this.extractId(member['@id'] || ''),
+          personName: member['foaf:name'] || '',
+          role: member['ep:role']?.[0]?.['skos:prefLabel']?.['en'] || 'member',
+        });
+      }
+      if (seats.length > 0) {
+        memberships.set(committeeCode, seats);
+      }
     }
     
-    // Check if name contains committee-related terms
-    const namePattern = /committee|commission|subcommittee/i;
-    return namePattern.test(name);
+    return memberships;
   }
 
-  async fetchCommitteeMemberships(): Promise<any> {
-    // This would require additional API endpoints that may not be available
-    // For now, we'll create sample memberships based on political groups
-    return null;
+  /**
+   * Committee seats listed on an MEP's profile page on europarl.europa.eu,
+   * used when the corporate-body data has no seat for the MEP
+   * 
+   * The page groups committee badges under role headings (Chair, Vice-Chair,
+   * Member, Substitute); delegations and other bodies are ignored.
+   */
+  async fetchProfileMemberships(mepId: string): Promise<EUCommitteeMembership[]> {
+    const response = await this.client.fetch(this.getMEPProfileUrl(mepId), {
+      headers: { 'Accept': 'text/html', 'User-Agent': 'EU-MEP-Watch/1.0 (Contact: admin@example.com)' },
+    });
+    const $ = cheerio.load(await response.text());
+    const personName = $('.erpl_title-h1').first().text().trim();
+    const seats: EUCommitteeMembership[] = [];
+    
+    $('.erpl_meps-status').each((_, section) => {
+      const role = $(section).find('h4').first().text().trim();
+      $(section).find('.erpl_committee').each((_, badge) => {
+        const committeeCode = $(badge).text().trim();
+        if (/^[A-Z]{4}$/.test(committeeCode)) {
+          seats.push({ committeeCode, personId: mepId, personName, role: role || 'member' });
+        }
+      });
+    });
+    
+    return seats;
+  }
+
+  /**
+   * Public profile page of an MEP, the source URL of profile-based memberships
+   */
+  getMEPProfileUrl(mepId: string): string {
+    return `https://www.europarl.europa.eu/meps/en/${mepId}/home`;
   }
 
   transformEventData(euEvent: any, committeeId?: string) {
@@ -303,7 +870,7 @@ export class EUParliamentAPI {
       title: this.extractText(euEvent['dcterms:title']),
       eventType: eventType.toLowerCase(),
       description: this.extractText(euEvent['dcterms:description']),
-      startDate: euEvent['schema:startDate'] ? new Date(euEvent['schema:startDate']) : new Date(),
+      startDate: euEvent['schema:startDate'] ? new Date(euEvent['schema:startDate']) : null,
       endDate: euEvent['schema:endDate'] ? new Date(euEvent['schema:endDate']) : null,
       location: this.extractText(euEvent['schema:location']),
       meetingType: 'ordinary', // Default, not specifically available in EU API
@@ -315,34 +882,41 @@ export class EUParliamentAPI {
     };
   }
 
-  async getAllPaginatedData<T>(
-    fetchFunction: (url: string) => Promise<EUAPIResponse<T>>,
-    baseUrl: string
-  ): Promise<T[]> {
-    const allData: T[] = [];
-    let currentUrl = baseUrl;
-
-    while (currentUrl) {
-      try {
-        const response = await this.rateLimitedFetch(currentUrl);
-        const data: EUAPIResponse<T> = await response.json();
-        
-        allData.push(...data['@graph']);
-        
-        // Check for next page
-        currentUrl = data['hydra:view']?.['hydra:next'] || '';
-        
-        // Add delay between pages
-        if (currentUrl) {
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        }
-      } catch (error) {
-        console.error(`Error fetching paginated data from ${currentUrl}:`, error);
-        break;
+  /**
+   * Fetch every page of a listing as one response
+   *
+   * Follows `hydra:next` links when the API provides them and otherwise
+   * advances `offset` until a page comes back short. A failing page fails the
+   * whole listing, so a truncated result is never mistaken for a complete one.
+   */
+  async getAllPaginatedData<T>(url: string): Promise<EUAPIResponse<T>> {
+    const items: T[] = [];
+    let context: Record<string, unknown> = {};
+    let nextUrl: string | undefined = this.pageUrl(url, 0);
+
+    for (let pages = 0; nextUrl; pages++) {
+      if (pages === MAX_PAGES) {
+        throw new Error(`More than ${MAX_PAGES} pages of ${url}`);
       }
+      const response = await this.apiFetch(nextUrl);
+      const page: EUAPIResponse<T> = await response.json();
+      const graph = page['@graph'] || [];
+      items.push(...graph);
+      context = page['@context'] ?? context;
+
+      if (graph.length === 0) break;
+      nextUrl = page['hydra:view']?.['hydra:next']
+        || (graph.length >= PAGE_SIZE ? this.pageUrl(url, items.length) : undefined);
     }
 
-    return allData;
+    return { '@context': context, '@graph': items };
+  }
+
+  private pageUrl(url: string, offset: number): string {
+    const pageUrl = new URL(url);
+    pageUrl.searchParams.set('limit', String(PAGE_SIZE));
+    pageUrl.searchParams.set('offset', String(offset));
+    return pageUrl.toString();
   }
 }
 
@@ -0,0 +1,155 @@
+/**
+ * Public Atom/RSS Feeds
+ *
+ * Builds the feeds served under `/feeds` for readers without an account:
+ * - The global change log
+ * - Upcoming events of one committee
+ * - The change history of one MEP
+ *
+ * Entries link to the app's pages; ids are stable URNs so readers recognise
+ * entries they have seen even if the app moves to another domain.
+ *
+ * @author EU MEP Watch Development Team
+ * @since August 2025
+ */
+
+import { storage } from '../storage';
+import { appBaseUrl } from '../utils/appUrl';
+import { changeEntityName, describeChange } from '../utils/changeDiff';
+import type { Feed, FeedEntry } from '../utils/feeds';
+import type { ChangeLog, CommitteeEvent, Committee } from '@shared/schema';
+
+/** Entries per feed */
+const FEED_SIZE = 50;
+/** How far ahead committee event feeds look */
+const EVENT_MONTHS = 6;
+/** Characters of a field value shown in change details */
+const MAX_VALUE_LENGTH = 200;
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+}
+
+/** Latest entry date, or `fallback` for an empty feed */
+function latest(entries: FeedEntry[], fallback: Date): Date {
+  return entries.reduce((max, entry) => entry.updated > max ? entry.updated : max, entries.length > 0 ? new Date(0) : fallback);
+}
+
+function entityPath(entityType: string, entityId: string): string {
+  switch (entityType) {
+    case 'mep':
+      return `/meps/${encodeURIComponent(entityId)}`;
+    case 'committee':
+      return `/committees/${encodeURIComponent(entityId)}`;
+    default:
+      return '/changes';
+  }
+}
+
+export class FeedService {
+  private changeEntry(change: ChangeLog, baseUrl: string): FeedEntry {
+    return {
+      id: `urn:mepwatch:change:${change.id}`,
+      title: describeChange(change),
+      link: `${baseUrl}${entityPath(change.entityType, change.entityId)}`,
+      updated: change.createdAt ?? new Date(0),
+      summary: `${change.changeType.charAt(0).toUpperCase()}${change.changeType.slice(1)} ${change.entityType} ${changeEntityName(change)}`,
+      details: change.fieldChanges.map(fieldChange =>
+        `${fieldChange.field}: ${formatValue(fieldChange.before)} → ${formatValue(fieldChange.after)}`
+      ),
+      categories: [change.entityType, change.changeType],
+    };
+  }
+
+  private eventEntry(event: CommitteeEvent, committee: Committee, baseUrl: string): FeedEntry {
+    const start = event.startDate.toLocaleString('en-GB', {
+      dateStyle: 'full',
+      timeStyle: 'short',
+      timeZone: 'Europe/Brussels',
+    });
+    return {
+      id: `urn:mepwatch:committee-event:${event.id}`,
+      title: `${committee.code}: ${event.title}`,
+      link: event.officialUrl ?? `${baseUrl}/committees/${encodeURIComponent(committee.id)}`,
+      updated: event.updatedAt ?? event.createdAt ?? event.startDate,
+      summary: [start, event.location, event.meetingType].filter(Boolean).join(' · '),
+      details: [event.description, event.agenda ? `Agenda: ${event.agenda}` : null]
+        .filter((line): line is string => !!line),
+      categories: [event.eventType],
+    };
+  }
+
+  /**
+   * Most recent change log entries across all MEPs and committees
+   */
+  async changesFeed(): Promise<Feed> {
+    const baseUrl = appBaseUrl();
+    const changes = await storage.getRecentChanges(FEED_SIZE);
+    const entries = changes.map(change => this.changeEntry(change, baseUrl));
+
+    return {
+      id: 'urn:mepwatch:feed:changes',
+      title: 'MEP Watch: recent changes',
+      subtitle: 'Changes to MEP profiles, committees and memberships detected by MEP Watch',
+      link: `${baseUrl}/changes`,
+      selfLink: `${baseUrl}/feeds/changes`,
+      updated: latest(entries, new Date(0)),
+      entries,
+    };
+  }
+
+  /**
+   * Upcoming events of a committee, soonest first
+   *
+   * @returns undefined when no committee has the code
+   */
+  async committeeEventsFeed(code: string): Promise<Feed | undefined> {
+    const committee = await storage.getCommitteeByCode(code.toUpperCase());
+    if (!committee) return undefined;
+
+    const baseUrl = appBaseUrl();
+    const horizon = new Date();
+    horizon.setMonth(horizon.getMonth() + EVENT_MONTHS);
+    // The calendar query only returns public events
+    const events = await storage.getCalendarEvents({ committeeId: committee.id, from: new Date(), to: horizon });
+    const entries = events.map(({ event }) => this.eventEntry(event, committee, baseUrl));
+
+    return {
+      id: `urn:mepwatch:feed:committee-events:${committee.code}`,
+      title: `MEP Watch: ${committee.code} upcoming events`,
+      subtitle: `Upcoming meetings and hearings of the ${committee.name}`,
+      link: `${baseUrl}/committees/${encodeURIComponent(committee.id)}`,
+      selfLink: `${baseUrl}/feeds/committees/${encodeURIComponent(committee.code)}/events`,
+      updated: latest(entries, committee.updatedAt ?? committee.createdAt ?? new Date(0)),
+      entries,
+    };
+  }
+
+  /**
+   * Change history of one MEP, newest first
+   *
+   * @returns undefined when the MEP does not exist
+   */
+  async mepChangesFeed(id: string): Promise<Feed | undefined> {
+    const mep = await storage.getMEP(id);
+    if (!mep) return undefined;
+
+    const baseUrl = appBaseUrl();
+    const { changes } = await storage.getEntityHistory('mep', mep.id, { limit: FEED_SIZE });
+    const entries = changes.map(change => this.changeEntry(change, baseUrl));
+
+    return {
+      id: `urn:mepwatch:feed:mep-changes:${mep.id}`,
+      title: `MEP Watch: ${mep.fullName}`,
+      subtitle: `Profile, affiliation and declaration changes of ${mep.fullName}`,
+      link: `${baseUrl}/meps/${encodeURIComponent(mep.id)}`,
+      selfLink: `${baseUrl}/feeds/meps/${encodeURIComponent(mep.id)}/changes`,
+      updated: latest(entries, mep.updatedAt ?? mep.createdAt ?? new Date(0)),
+      entries,
+    };
+  }
+}
+
+export const feedService = new FeedService();
@@ -0,0 +1,285 @@
+import { hostname } from 'os';
+import { storage } from '../storage';
+import { dataSyncService } from './dataSync';
+import { dataCleanupService } from './dataCleanup';
+import { dataQualityService } from './dataQuality';
+import { digestService } from './digest';
+import { webhookService } from './webhooks';
+import { logger } from '../utils/logger';
+import { apiCache } from '../utils/cache';
+import type { TaskControl } from '../utils/progress';
+import type { Job, InsertJob, JobType } from '@shared/schema';
+
+type JobHandler = (payload: Record<string, unknown>, control: TaskControl) => Promise<unknown>;
+
+/**
+ * Fail the job when a sync could not run at all, so it is retried with
+ * backoff; errors on individual records only end up in the result
+ */
+async function failOnFatal<T extends { fatal?: string }>(run: Promise<T>, control: TaskControl): Promise<T> {
+  const result = await run;
+  if (result.fatal && !control.signal?.aborted) {
+    throw new Error(result.fatal);
+  }
+  return result;
+}
+
+const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  syncAll: (_, control) => failOnFatal(dataSyncService.syncAllData(control), control),
+  syncMEPs: (_, control) => failOnFatal(dataSyncService.syncMEPs(control), control),
+  syncCommittees: (_, control) => failOnFatal(dataSyncService.syncCommittees(control), control),
+  syncEvents: (_, control) => failOnFatal(dataSyncService.syncEvents(control), control),
+  syncMemberships: (_, control) => failOnFatal(dataSyncService.syncCommitteeMemberships(control), control),
+  syncOpenSanctions: async (payload, control) => {
+    const { accurateDataSync } = await import('./accurateDataSync');
+    const options = { full: payload.full === true };
+    return payload.planOnly === true
+      ? accurateDataSync.createSyncPlan(options, control)
+      : failOnFatal(accurateDataSync.syncAccurateData(options, control), control);
+  },
+  applySyncPlan: async (payload, control) => {
+    const { accurateDataSync } = await import('./accurateDataSync');
+    const result = await accurateDataSync.applySyncPlan(String(payload.planId), control);
+    apiCache.clear();
+    if (result.errors.length > 0 && !control.signal?.aborted) {
+      throw new Error(`${result.errors.length} change(s) failed: ${result.errors[0]}`);
+    }
+    return result;
+  },
+  cleanup: async (_, control) => {
+    const result = await dataCleanupService.runFullCleanup(control);
+    if (!result.success && !control.signal?.aborted) {
+      throw new Error(result.summary);
+    }
+    return result;
+  },
+  qualityReport: (_, control) => dataQualityService.generateQualityReport(control),
+  sendDigests: (payload, control) =>
+    digestService.sendDigests(payload.frequency === 'weekly' ? 'weekly' : 'daily', control),
+};
+
+export const JOB_TYPES = Object.keys(JOB_HANDLERS) as [JobType, ...JobType[]];
+
+const POLL_INTERVAL_MS = 5000;
+/** How often progress is written and cancellation is checked while a job runs */
+const HEARTBEAT_INTERVAL_MS = 2000;
+/** Running jobs without a heartbeat for this long are considered abandoned */
+const STALE_AFTER_MS = 5 * 60 * 1000;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * Delay before the next attempt: 1, 2, 4 ... minutes, capped at an hour
+ */
+export function retryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * JobQueueService - Postgres-backed queue for sync, cleanup and quality jobs
+ *
+ * Long-running work is enqueued as a row in `jobs` and picked up by the worker
+ * loop in this process instead of running inside an HTTP request:
+ * - Jobs are claimed with `FOR UPDATE SKIP LOCKED`, so several app instances can share the queue
+ * - Progress (0-100) and a short message are written every few seconds, doubling as a heartbeat
+ * - Failed jobs are retried with exponential backoff until `maxAttempts` is reached
+ * - Cancelling aborts a running job at its next progress checkpoint
+ * - Jobs whose worker stopped sending heartbeats are queued again
+ *
+ * @author EU MEP Watch Development Team
+ * @since August 2025
+ */
+export class JobQueueService {
+  private readonly workerId = `${hostname()}:${process.pid}`;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private isPolling = false;
+  /** Abort controllers of the jobs this worker is running */
+  private active = new Map<string, AbortController>();
+
+  /**
+   * Start the worker loop
+   */
+  start() {
+    if (this.isRunning) return;
+    this.isRunning = true;
+    this.schedulePoll(0);
+    logger.info('Job queue worker started', 'JobQueue', { workerId: this.workerId });
+  }
+
+  /**
+   * Stop claiming new jobs; a running job finishes normally
+   */
+  stop() {
+    this.isRunning = false;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  async enqueue(type: JobType, options: {
+    payload?: Record<string, unknown>;
+    createdBy?: string;
+    maxAttempts?: number;
+  } = {}): Promise<Job> {
+    const job = await storage.createJob({
+      type,
+      payload: options.payload ?? {},
+      createdBy: options.createdBy,
+      maxAttempts: options.maxAttempts ?? 3,
+    });
+    logger.info('Job enqueued', 'JobQueue', { jobId: job.id, type, createdBy: options.createdBy });
+    this.pollSoon();
+    return job;
+  }
+
+  /**
+   * Queue the job of a schedule slot. Every instance runs the same cron
+   * tasks, so the first instance to insert the slot's key queues the job.
+   *
+   * @returns The job, or undefined when the slot was already queued
+   */
+  async enqueueScheduled(type: JobType, scheduleKey: string, options: {
+    payload?: Record<string, unknown>;
+  } = {}): Promise<Job | undefined> {
+    const job = await storage.createScheduledJob({
+      type,
+      payload: options.payload ?? {},
+      scheduleKey,
+      maxAttempts: 3,
+    });
+    if (!job) {
+      logger.info('Scheduled job already queued', 'JobQueue', { type, scheduleKey });
+      return undefined;
+    }
+    logger.info('Job enqueued', 'JobQueue', { jobId: job.id, type, scheduleKey });
+    this.pollSoon();
+    return job;
+  }
+
+  /**
+   * Pick up a new job right away instead of waiting for the next poll
+   */
+  private pollSoon() {
+    if (this.isRunning && !this.isPolling) {
+      this.schedulePoll(0);
+    }
+  }
+
+  /**
+   * Cancel a queued or running job
+   *
+   * @returns The updated job, or undefined when it had already finished
+   */
+  async cancel(id: string): Promise<Job | undefined> {
+    const job = await storage.requestJobCancel(id);
+    this.active.get(id)?.abort();
+    if (job) {
+      logger.info('Job cancellation requested', 'JobQueue', { jobId: id, status: job.status });
+    }
+    return job;
+  }
+
+  private schedulePoll(delay: number) {
+    if (this.pollTimer) clearTimeout(this.pollTimer);
+    this.pollTimer = setTimeout(() => this.poll(), delay);
+  }
+
+  /**
+   * Run due jobs one at a time until the queue is empty
+   */
+  private async poll() {
+    this.pollTimer = null;
+    if (this.isPolling) return;
+    this.isPolling = true;
+
+    try {
+      const requeued = await storage.requeueStaleJobs(new Date(Date.now() - STALE_AFTER_MS));
+      if (requeued > 0) {
+        logger.warn('Requeued jobs abandoned by their worker', 'JobQueue', { count: requeued });
+      }
+
+      while (this.isRunning) {
+        const job = await storage.claimNextJob(this.workerId);
+        if (!job) break;
+        await this.run(job);
+      }
+    } catch (error) {
+      logger.error('Job queue poll failed', 'JobQueue', { error: error instanceof Error ? error.message : String(error) });
+    } finally {
+      this.isPolling = false;
+      if (this.isRunning) this.schedulePoll(POLL_INTERVAL_MS);
+    }
+  }
+
+  private async run(job: Job) {
+    const controller = new AbortController();
+    this.active.set(job.id, controller);
+    let progress = 0;
+    let progressMessage: string | null = null;
+    let lastBeat: Promise<unknown> = Promise.resolve();
+
+    // Write progress and heartbeat periodically, and pick up cancellation from other instances
+    const heartbeat = setInterval(() => {
+      lastBeat = storage.updateJob(job.id, { progress, progressMessage, heartbeatAt: new Date() })
+        .then(current => {
+          if (current?.cancelRequested) controller.abort();
+        })
+        .catch(error => {
+          logger.warn('Job heartbeat failed', 'JobQueue', { jobId: job.id, error: error instanceof Error ? error.message : String(error) });
+        });
+    }, HEARTBEAT_INTERVAL_MS);
+    // Stop heartbeats and let the last one land before the final status is written
+    const settle = async () => {
+      clearInterval(heartbeat);
+      await lastBeat;
+    };
+
+    const control: TaskControl = {
+      signal: controller.signal,
+      onProgress: (fraction, message) => {
+        progress = Math.min(99, Math.max(0, Math.round(fraction * 100)));
+        progressMessage = message ?? progressMessage;
+      },
+    };
+
+    logger.info('Job started', 'JobQueue', { jobId: job.id, type: job.type, attempt: job.attempts });
+    try {
+      const handler = JOB_HANDLERS[job.type as JobType];
+      if (!handler) {
+        throw new Error(`Unknown job type: ${job.type}`);
+      }
+      const result = await handler(job.payload, control) as InsertJob['result'];
+
+      await settle();
+      await storage.updateJob(job.id, controller.signal.aborted
+        ? { status: 'cancelled', progress, progressMessage, result, completedAt: new Date() }
+        : { status: 'completed', progress: 100, progressMessage: null, result, completedAt: new Date() });
+      logger.info(controller.signal.aborted ? 'Job cancelled' : 'Job completed', 'JobQueue', { jobId: job.id, type: job.type });
+    } catch (error) {
+      await settle();
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (controller.signal.aborted) {
+        await storage.updateJob(job.id, { status: 'cancelled', error: message, completedAt: new Date() });
+      } else if (job.attempts < job.maxAttempts) {
+        const runAt = new Date(Date.now() + retryDelay(job.attempts));
+        await storage.updateJob(job.id, { status: 'queued', error: message, runAt, lockedBy: null });
+        logger.warn('Job failed, retry scheduled', 'JobQueue', { jobId: job.id, type: job.type, attempt: job.attempts, runAt, error: message });
+      } else {
+        await storage.updateJob(job.id, { status: 'failed', error: message, completedAt: new Date() });
+        logger.error('Job failed', 'JobQueue', { jobId: job.id, type: job.type, attempts: job.attempts, error: message });
+        // Applying an approved sync plan is part of the sync as well
+        if (job.type.startsWith('sync') || job.type === 'applySyncPlan') {
+          await webhookService.emit('sync.failed', { jobId: job.id, jobType: job.type, attempts: job.attempts, error: message });
+        }
+      }
+    } finally {
+      clearInterval(heartbeat);
+      this.active.delete(job.id);
+    }
+  }
+}
+
+export const jobQueueService = new JobQueueService();
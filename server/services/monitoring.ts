@@ -1,6 +1,7 @@
 import { db } from "../db";
 import { dataSyncService } from "./dataSync";
 import { apiCache } from "../utils/cache";
+import { upstreamClient, type UpstreamHostStatus } from "../utils/upstreamClient";
 import { OptimizedStorage } from "../storage/optimized";
 import { performance } from "perf_hooks";
 import { sql } from "drizzle-orm";
@@ -18,6 +19,8 @@ export class MonitoringService {
     cacheHitRate: 0.7, // 70%
     euApiResponse: 5000 // 5 seconds
   };
+  /** Hosts whose open circuit has already raised an alert */
+  private openCircuits = new Set<string>();
 
   /**
    * Start performance monitoring for API endpoints
@@ -44,6 +47,11 @@ export class MonitoringService {
     setInterval(async () => {
       await this.checkEUParliamentAPIHealth();
     }, 600000); // Every 10 minutes
+
+    // Monitor upstream circuit breakers
+    setInterval(() => {
+      this.checkUpstreamCircuits();
+    }, 60000); // Every minute
   }
 
   /**
@@ -164,6 +172,20 @@ export class MonitoringService {
     }
   }
 
+  /**
+   * Raise an alert when an upstream host's circuit breaker opens
+   */
+  private checkUpstreamCircuits(): void {
+    for (const host of upstreamClient.getStatus()) {
+      if (host.circuit === 'open' && !this.openCircuits.has(host.host)) {
+        this.openCircuits.add(host.host);
+        this.addAlert('external_api', `Circuit open for ${host.host}: ${host.lastError ?? 'repeated failures'}`, 'high');
+      } else if (host.circuit === 'closed') {
+        this.openCircuits.delete(host.host);
+      }
+    }
+  }
+
   /**
    * Add monitoring alert
    */
@@ -230,6 +252,7 @@ export class MonitoringService {
     databaseHealth: string;
     cacheEffectiveness: number;
     euApiHealth: string;
+    upstream: UpstreamHostStatus[];
     recommendations: string[];
   } {
     const metrics = this.getMetrics();
@@ -258,11 +281,20 @@ export class MonitoringService {
       recommendations.push('Review and optimize slow database queries');
     }
 
+    // Upstream circuit breakers
+    const upstream = upstreamClient.getStatus();
+    for (const host of upstream) {
+      if (host.circuit !== 'closed') {
+        recommendations.push(`Check connectivity to ${host.host} (circuit ${host.circuit.replace('_', '-')})`);
+      }
+    }
+
     return {
       apiPerformance,
       databaseHealth: metrics.db_health || 'unknown',
       cacheEffectiveness: cacheHitRate,
       euApiHealth: metrics.eu_api_health || 'unknown',
+      upstream,
       recommendations
     };
   }
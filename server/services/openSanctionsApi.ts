@@ -11,6 +11,21 @@
  * @since August 2025
  */
 
+import type { InsertMEPMandate } from '@shared/schema';
+import { termNumberForDate, toISODate } from '../utils/parliamentaryTerms';
+import { toCountryCode } from '../utils/countryCodes';
+import { upstreamClient, type UpstreamClient } from '../utils/upstreamClient';
+
+interface OpenSanctionsOccupancy {
+  id: string;
+  caption?: string;
+  properties: {
+    startDate?: string[];
+    endDate?: string[];
+    post?: Array<{ caption?: string }>;
+  };
+}
+
 interface OpenSanctionsMEP {
   id: string;
   schema: string;
@@ -34,23 +49,26 @@ interface OpenSanctionsMEP {
     sourceUrl?: string[];
     modifiedAt?: string[];
     createdAt?: string[];
+    positionOccupancies?: OpenSanctionsOccupancy[];
   };
   datasets: string[];
   first_seen: string;
   last_seen: string;
+  last_change?: string;
 }
 
+const FULL_EXPORT_TIMEOUT_MS = 5 * 60 * 1000;
+
 export class OpenSanctionsAPI {
   private baseUrl = 'https://data.opensanctions.org/datasets/latest/eu_meps';
+
+  constructor(private client: UpstreamClient = upstreamClient) {}
   
   async fetchAllMEPs(): Promise<OpenSanctionsMEP[]> {
     console.log('Fetching MEPs from OpenSanctions API...');
     
-    const response = await fetch(`${this.baseUrl}/targets.nested.json`);
-    
-    if (!response.ok) {
-      throw new Error(`OpenSanctions API request failed: ${response.status} ${response.statusText}`);
-    }
+    // The full export is large, so allow it more time than an API call
+    const response = await this.client.fetch(`${this.baseUrl}/targets.nested.json`, { timeoutMs: FULL_EXPORT_TIMEOUT_MS });
     
     const text = await response.text();
     const lines = text.trim().split('\n');
@@ -73,11 +91,7 @@ export class OpenSanctionsAPI {
   async fetchSimplifiedMEPs(): Promise<any[]> {
     console.log('Fetching simplified MEP data from OpenSanctions...');
     
-    const response = await fetch(`${this.baseUrl}/targets.simple.csv`);
-    
-    if (!response.ok) {
-      throw new Error(`OpenSanctions CSV request failed: ${response.status} ${response.statusText}`);
-    }
+    const response = await this.client.fetch(`${this.baseUrl}/targets.simple.csv`, { timeoutMs: FULL_EXPORT_TIMEOUT_MS });
     
     const csvText = await response.text();
     return this.parseCSV(csvText);
@@ -124,6 +138,26 @@ export class OpenSanctionsAPI {
     return result;
   }
   
+  /**
+   * Public page of an OpenSanctions entity, stored as the provenance of synced fields
+   */
+  getSourceUrl(openSanctionsMEP: OpenSanctionsMEP): string {
+    return `https://www.opensanctions.org/entities/${openSanctionsMEP.id}/`;
+  }
+  
+  /**
+   * When the entity's content last changed upstream.
+   * `last_seen` only marks the latest crawl, so it is the last resort.
+   */
+  getModifiedAt(openSanctionsMEP: OpenSanctionsMEP): Date | null {
+    const value = openSanctionsMEP.last_change
+      || openSanctionsMEP.properties.modifiedAt?.[0]
+      || openSanctionsMEP.last_seen;
+    if (!value) return null;
+    const parsed = new Date(value);
+    return isNaN(parsed.getTime()) ? null : parsed;
+  }
+  
   transformToInternalFormat(openSanctionsMEP: OpenSanctionsMEP) {
     const props = openSanctionsMEP.properties;
     
@@ -147,6 +181,37 @@ export class OpenSanctionsAPI {
     };
   }
   
+  /**
+   * Derive mandate history from the nested position occupancies.
+   * OpenSanctions does not record group changes per mandate, so each mandate
+   * carries the MEP's current affiliation.
+   */
+  extractMandates(openSanctionsMEP: OpenSanctionsMEP): Omit<InsertMEPMandate, 'mepId'>[] {
+    const props = openSanctionsMEP.properties;
+    const current = this.transformToInternalFormat(openSanctionsMEP);
+    const mandates: Omit<InsertMEPMandate, 'mepId'>[] = [];
+
+    for (const occupancy of props.positionOccupancies || []) {
+      const postName = occupancy.properties.post?.[0]?.caption || '';
+      if (postName && !/european parliament/i.test(postName)) continue;
+
+      const startDate = toISODate(occupancy.properties.startDate?.[0]);
+      if (!startDate) continue;
+
+      mandates.push({
+        termNumber: termNumberForDate(startDate),
+        startDate,
+        endDate: toISODate(occupancy.properties.endDate?.[0]),
+        country: current.country ? toCountryCode(current.country) : null,
+        politicalGroup: current.politicalGroup || null,
+        politicalGroupAbbr: current.politicalGroupAbbr ? current.politicalGroupAbbr.slice(0, 10) : null,
+        nationalPoliticalGroup: current.nationalPoliticalGroup || null,
+      });
+    }
+
+    return mandates;
+  }
+
   private extractPoliticalGroupAbbr(politicalGroup: string): string {
     // Extract abbreviation from political group name
     const abbrevMap: Record<string, string> = {
@@ -1,119 +1,258 @@
-import cron from 'node-cron';
-import { dataSyncService } from './dataSync';
+import cron, { type ScheduledTask } from 'node-cron';
+import { storage } from '../storage';
+import { jobQueueService } from './jobQueue';
+import type { JobType, SyncSchedule, SyncScheduleStage } from '@shared/schema';
+
+interface StageDefinition {
+  label: string;
+  jobType: JobType;
+  defaultCron: string;
+  enabledByDefault: boolean;
+  payload?: () => Record<string, unknown>;
+}
+
+/**
+ * Key of a stage's cron slot. Every instance fires the same slot at about the
+ * same time, so the slot is the scheduled minute rather than the exact tick.
+ */
+function scheduleKey(stage: string, slot: Date): string {
+  const minute = new Date(slot);
+  minute.setUTCSeconds(0, 0);
+  return `${stage}@${minute.toISOString()}`;
+}
+
+/**
+ * Stages that can be scheduled. Of the sync stages only the OpenSanctions pull
+ * runs by default, matching the single daily sync of earlier releases.
+ */
+const STAGES: Record<SyncScheduleStage, StageDefinition> = {
+  meps: { label: 'MEP sync', jobType: 'syncMEPs', defaultCron: '0 3 * * *', enabledByDefault: false },
+  committees: { label: 'Committee sync', jobType: 'syncCommittees', defaultCron: '15 3 * * 1', enabledByDefault: false },
+  events: { label: 'Event sync', jobType: 'syncEvents', defaultCron: '30 3 * * *', enabledByDefault: false },
+  memberships: { label: 'Membership sync', jobType: 'syncMemberships', defaultCron: '0 4 * * *', enabledByDefault: false },
+  opensanctions: {
+    label: 'OpenSanctions pull',
+    jobType: 'syncOpenSanctions',
+    defaultCron: '0 2 * * *',
+    enabledByDefault: true,
+    // Only plan the sync when an admin has to approve it
+    payload: () => ({ planOnly: process.env.SYNC_REQUIRE_APPROVAL === 'true' }),
+  },
+  quality_report: { label: 'Quality report', jobType: 'qualityReport', defaultCron: '0 6 * * *', enabledByDefault: false },
+  // Digests only go to users who opted in, so both stages run by default
+  daily_digest: {
+    label: 'Daily email digest',
+    jobType: 'sendDigests',
+    defaultCron: '0 7 * * *',
+    enabledByDefault: true,
+    payload: () => ({ frequency: 'daily' }),
+  },
+  weekly_digest: {
+    label: 'Weekly email digest',
+    jobType: 'sendDigests',
+    defaultCron: '0 7 * * 1',
+    enabledByDefault: true,
+    payload: () => ({ frequency: 'weekly' }),
+  },
+};
+
+export const SCHEDULE_STAGES = Object.keys(STAGES) as [SyncScheduleStage, ...SyncScheduleStage[]];
 
 /**
  * SchedulerService - Automated task scheduling for EU Parliament data synchronization
  * 
  * Manages automated data updates to ensure the application always has current information:
- * - Daily synchronization with EU Parliament APIs at 2:00 AM UTC
- * - Automatic error handling and retry mechanisms
+ * - One cron expression per stage (MEPs, committees, events, memberships,
+ *   OpenSanctions, quality report, daily and weekly email digests), stored in `sync_schedules`
+ * - Admins enable, disable or edit a stage's schedule at runtime
+ * - Runs are enqueued as background jobs, so retries with backoff,
+ *   progress and cancellation are handled by the job queue
  * - Logging and monitoring of scheduled operations
  * 
- * Schedule: Daily at 2:00 AM UTC (optimal time when EU Parliament APIs are less busy)
+ * Default: OpenSanctions pull daily at 2:00 AM UTC (when EU Parliament APIs are
+ * less busy) and email digests at 7:00 AM UTC (weekly on Mondays); the other
+ * stages are seeded disabled.
+ * 
+ * With SYNC_REQUIRE_APPROVAL=true, scheduled runs only generate a dry-run sync
+ * plan that an admin approves or rejects from the admin page. Without it, MEP
+ * deactivations are still held back in a plan for approval.
  * 
  * Features:
- * - Automatic recovery from failed sync attempts
+ * - Automatic recovery from failed sync attempts (job retries)
  * - Comprehensive logging for monitoring and debugging
- * - Configurable scheduling intervals
+ * - Next-run times computed from each stage's expression
  * - Production-ready error handling
  * 
  * @author EU MEP Watch Development Team
  * @since August 2025
  */
 export class SchedulerService {
-  private syncTask: any | null = null;
+  private tasks = new Map<string, ScheduledTask>();
   private isRunning = false;
 
   /**
    * Initialize and start the automated data synchronization scheduler
    * 
-   * Sets up daily sync at 2:00 AM UTC when EU Parliament APIs typically have
-   * lower traffic and latest data updates are available.
+   * Seeds default schedules for stages without one, then schedules every
+   * enabled stage.
    */
-  start() {
+  async start() {
     if (this.isRunning) {
       console.log('Scheduler is already running');
       return;
     }
 
-    // Schedule daily sync at 2:00 AM UTC
+    await storage.ensureSyncSchedules(SCHEDULE_STAGES.map(stage => ({
+      stage,
+      cronExpression: STAGES[stage].defaultCron,
+      enabled: STAGES[stage].enabledByDefault,
+    })));
+
+    this.isRunning = true;
+    const schedules = await storage.getSyncSchedules();
+    for (const schedule of schedules) {
+      this.scheduleStage(schedule);
+    }
+
+    console.log(`📅 EU Parliament data sync scheduler started (${this.tasks.size} stages enabled)`);
+  }
+
+  /**
+   * Replace the cron task of a stage with one matching its stored schedule
+   */
+  private scheduleStage(schedule: SyncSchedule) {
+    const stage = STAGES[schedule.stage as SyncScheduleStage];
+    this.tasks.get(schedule.stage)?.destroy();
+    this.tasks.delete(schedule.stage);
+    if (!stage || !schedule.enabled) return;
+
     // Cron format: minute hour day month day-of-week
-    this.syncTask = cron.schedule('0 2 * * *', async () => {
-      console.log('🔄 Starting scheduled EU Parliament data synchronization...');
+    const task = cron.schedule(schedule.cronExpression, async (context) => {
+      console.log(`🔄 Queueing scheduled ${stage.label}...`);
       
       try {
-        const { accurateDataSync } = await import('./accurateDataSync');
-        await accurateDataSync.syncAccurateData();
-        console.log('✅ Scheduled data synchronization completed successfully');
-      } catch (error) {
-        console.error('❌ Scheduled data synchronization failed:', error);
-        
-        // Log error details for monitoring
-        console.error('Error details:', {
-          timestamp: new Date().toISOString(),
-          error: error instanceof Error ? error.message : 'Unknown error',
-          stack: error instanceof Error ? error.stack : undefined
+        const job = await jobQueueService.enqueueScheduled(stage.jobType, scheduleKey(schedule.stage, context.date), {
+          payload: stage.payload?.(),
         });
-        
-        // Attempt retry after 30 minutes
-        setTimeout(async () => {
-          console.log('🔄 Retrying failed synchronization...');
-          try {
-            const { accurateDataSync } = await import('./accurateDataSync');
-            await accurateDataSync.syncAccurateData();
-            console.log('✅ Retry synchronization completed successfully');
-          } catch (retryError) {
-            console.error('❌ Retry synchronization also failed:', retryError);
-          }
-        }, 30 * 60 * 1000); // 30 minutes
+        if (!job) {
+          console.log(`⏭️ Scheduled ${stage.label} already queued by another instance`);
+        }
+      } catch (error) {
+        console.error(`❌ Failed to queue scheduled ${stage.label}:`, error);
       }
     }, {
-      timezone: 'UTC'
+      name: `sync:${schedule.stage}`,
+      timezone: schedule.timezone
     });
+    this.tasks.set(schedule.stage, task);
+  }
 
-    this.isRunning = true;
-    console.log('📅 EU Parliament data sync scheduler started (daily at 2:00 AM UTC)');
+  /**
+   * Validate a schedule before it is stored
+   * 
+   * @returns A readable error, or null when the schedule is valid
+   */
+  validateSchedule(cronExpression?: string, timezone?: string): string | null {
+    if (cronExpression !== undefined && !cron.validate(cronExpression)) {
+      return `Invalid cron expression: ${cronExpression}`;
+    }
+    if (timezone !== undefined) {
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      } catch {
+        return `Unknown timezone: ${timezone}`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Store a stage's schedule and apply it immediately
+   * 
+   * @returns The stage status, or undefined for an unknown stage
+   */
+  async updateSchedule(stage: SyncScheduleStage, changes: {
+    cronExpression?: string;
+    timezone?: string;
+    enabled?: boolean;
+  }, updatedBy?: string) {
+    const updated = await storage.updateSyncSchedule(stage, { ...changes, updatedBy });
+    if (!updated) return undefined;
+
+    if (this.isRunning) {
+      this.scheduleStage(updated);
+    }
+    console.log(`📅 Schedule for ${STAGES[stage].label} updated: ${updated.enabled ? updated.cronExpression : 'disabled'}`);
+    return this.describe(updated);
+  }
+
+  private describe(schedule: SyncSchedule) {
+    const stage = STAGES[schedule.stage as SyncScheduleStage];
+    return {
+      ...schedule,
+      label: stage?.label ?? schedule.stage,
+      jobType: stage?.jobType ?? null,
+      nextRun: this.tasks.get(schedule.stage)?.getNextRun() ?? null,
+    };
   }
 
   /**
    * Stop the automated scheduler
    */
   stop() {
-    if (this.syncTask) {
-      this.syncTask.stop();
-      this.syncTask = null;
+    this.tasks.forEach(task => task.destroy());
+    this.tasks.clear();
+    if (this.isRunning) {
       this.isRunning = false;
       console.log('📅 EU Parliament data sync scheduler stopped');
     }
   }
 
   /**
-   * Get current scheduler status
+   * Get current scheduler status with the next run of every stage
    */
-  getStatus() {
+  async getStatus() {
+    const schedules = (await storage.getSyncSchedules()).map(schedule => this.describe(schedule));
+    const upcoming = schedules
+      .map(schedule => schedule.nextRun)
+      .filter((nextRun): nextRun is Date => nextRun !== null)
+      .sort((a, b) => a.getTime() - b.getTime());
+
     return {
       isRunning: this.isRunning,
-      nextRun: this.syncTask ? '2:00 AM UTC daily' : null,
-      timezone: 'UTC'
+      nextRun: upcoming[0] ?? null,
+      schedules
     };
   }
 
   /**
    * Manually trigger a data sync (useful for testing or immediate updates)
+   * 
+   * The sync runs as a background job; poll `/api/jobs/:id` for its progress.
+   * Like the scheduled run it only generates a sync plan when approval is
+   * required.
+   * 
+   * @param full Re-apply every record instead of only those changed since the last sync
+   * @param createdBy Id of the user who triggered the sync
    */
-  async triggerManualSync() {
-    console.log('🔄 Manually triggered data synchronization...');
+  async triggerManualSync(full = false, createdBy?: string) {
+    console.log(`🔄 Manually triggered ${full ? 'full' : 'incremental'} data synchronization...`);
     
     try {
-      const { accurateDataSync } = await import('./accurateDataSync');
-      await accurateDataSync.syncAccurateData();
-      console.log('✅ Manual data synchronization completed successfully');
-      return { success: true, message: 'Data synchronization completed successfully' };
+      const payload: Record<string, unknown> = { ...STAGES.opensanctions.payload?.(), full };
+      const planOnly = payload.planOnly === true;
+      const job = await jobQueueService.enqueue(STAGES.opensanctions.jobType, { payload, createdBy });
+      return {
+        success: true,
+        message: planOnly ? 'Sync plan generation queued for approval' : 'Data synchronization queued',
+        planOnly,
+        job,
+      };
     } catch (error) {
-      console.error('❌ Manual data synchronization failed:', error);
+      console.error('❌ Failed to queue manual data synchronization:', error);
       return { 
         success: false, 
-        message: 'Data synchronization failed',
+        message: 'Data synchronization could not be queued',
         error: error instanceof Error ? error.message : 'Unknown error'
       };
     }
@@ -0,0 +1,267 @@
+/**
+ * Source Precedence Merge Layer
+ *
+ * Decides, field by field, whether a value delivered by a sync source may
+ * overwrite the stored MEP value. The stored value's owner is taken from the
+ * field provenance, and each field has an ordered list of sources:
+ * - A source ranked above the owner (or the owner itself) overwrites the value
+ * - A source ranked below the owner is ignored, and queued for review when the
+ *   rule has `reviewConflicts` set
+ * - When neither source outranks the other, the value is queued in
+ *   `field_conflicts` and the stored value is kept until an admin decides
+ *
+ * Built-in rules below apply unless an admin stores an override in
+ * `source_precedence_rules`.
+ *
+ * @author EU MEP Watch Development Team
+ * @since August 2025
+ */
+
+import { storage } from '../storage';
+import { transferDetectionService, type TransferSource } from './transferDetection';
+import { webhookService } from './webhooks';
+import { logger } from '../utils/logger';
+import { diffFields } from '../utils/changeDiff';
+import type { MEP, InsertMEP, ProvenanceInfo, ProvenanceSource, FieldConflict, InsertFieldConflict, MEPProvenanceMap } from '@shared/schema';
+
+/** Sources that write MEP fields, as recorded in field provenance */
+export const PROVENANCE_SOURCES: ProvenanceSource[] = [
+  'eu_parliament_api',
+  'opensanctions',
+  'seat_count_adjustment',
+  'data_cleanup',
+  'fix_script',
+];
+
+/** Field name of the rule used for fields without their own rule */
+export const DEFAULT_RULE_FIELD = '*';
+
+export interface PrecedenceRule {
+  field: string;
+  sources: string[];
+  reviewConflicts: boolean;
+  /** False when an admin override is stored for the field */
+  isBuiltIn: boolean;
+}
+
+/**
+ * Built-in rules: the official EU Parliament API outranks OpenSanctions, and
+ * affiliation disagreements are always queued for review. Deactivations
+ * from duplicate merges and the seat count rule stick over OpenSanctions.
+ */
+const BUILT_IN_RULES: Omit<PrecedenceRule, 'isBuiltIn'>[] = [
+  { field: DEFAULT_RULE_FIELD, sources: ['eu_parliament_api', 'opensanctions', 'fix_script'], reviewConflicts: false },
+  { field: 'politicalGroup', sources: ['eu_parliament_api', 'opensanctions', 'fix_script'], reviewConflicts: true },
+  { field: 'politicalGroupAbbr', sources: ['eu_parliament_api', 'opensanctions', 'fix_script'], reviewConflicts: true },
+  { field: 'nationalPoliticalGroup', sources: ['eu_parliament_api', 'opensanctions'], reviewConflicts: true },
+  { field: 'isActive', sources: ['data_cleanup', 'eu_parliament_api', 'seat_count_adjustment', 'opensanctions', 'fix_script'], reviewConflicts: false },
+];
+
+const TRANSFER_SOURCES: string[] = ['eu_parliament_api', 'opensanctions'];
+
+/** Value that failed to overwrite the stored one, before it is queued */
+interface PendingConflict {
+  field: string;
+  currentValue: unknown;
+  currentSource: string | null;
+  incomingValue: unknown;
+}
+
+/** Raised when a conflict is accepted after the stored value it was queued against has changed */
+export class StaleConflictError extends Error {
+  constructor(public readonly conflict: FieldConflict) {
+    super(`The stored ${conflict.field} has changed since this conflict was queued`);
+    this.name = 'StaleConflictError';
+  }
+}
+
+export interface MEPMergeResult {
+  /** Fields written, with their new values */
+  accepted: Partial<InsertMEP>;
+  /** Values queued for review instead of being written */
+  conflicts: number;
+}
+
+export class SourceMergeService {
+  private rulesCache: PrecedenceRule[] | null = null;
+
+  /**
+   * Effective rules: built-in rules overlaid with admin overrides
+   */
+  async getRules(): Promise<PrecedenceRule[]> {
+    if (this.rulesCache) return this.rulesCache;
+
+    const overrides = await storage.getSourcePrecedenceRules();
+    const rules = new Map<string, PrecedenceRule>(
+      BUILT_IN_RULES.map(rule => [rule.field, { ...rule, isBuiltIn: true }])
+    );
+    for (const override of overrides) {
+      rules.set(override.field, {
+        field: override.field,
+        sources: override.sources,
+        reviewConflicts: override.reviewConflicts,
+        isBuiltIn: false,
+      });
+    }
+
+    this.rulesCache = Array.from(rules.values());
+    return this.rulesCache;
+  }
+
+  async saveRule(field: string, sources: string[], reviewConflicts: boolean, updatedBy?: string) {
+    await storage.saveSourcePrecedenceRule({ field, sources, reviewConflicts, updatedBy });
+    this.rulesCache = null;
+    logger.info('Source precedence rule saved', 'SourceMerge', { field, sources, reviewConflicts, updatedBy });
+  }
+
+  /**
+   * Drop the admin override of a field, restoring the built-in rule (if any)
+   */
+  async resetRule(field: string) {
+    await storage.deleteSourcePrecedenceRule(field);
+    this.rulesCache = null;
+  }
+
+  /**
+   * Split incoming values into those the source may write and conflicts.
+   * Reads only; nothing is written or queued.
+   */
+  async resolveMEPUpdate(existing: MEP, incoming: Partial<Record<keyof InsertMEP, unknown>>, source: string): Promise<{
+    accepted: Partial<InsertMEP>;
+    conflicts: PendingConflict[];
+  }> {
+    const rules = await this.getRules();
+    const provenance = await storage.getMEPProvenance(existing.id);
+    const accepted: Record<string, unknown> = {};
+    const conflicts: PendingConflict[] = [];
+
+    for (const change of diffFields(existing, incoming)) {
+      const value = incoming[change.field as keyof InsertMEP];
+      const decision = this.decide(rules, provenance, change.field, source);
+      if (decision === 'accept') {
+        accepted[change.field] = value;
+      } else if (decision === 'review') {
+        conflicts.push({
+          field: change.field,
+          currentValue: change.before,
+          currentSource: provenance[change.field]?.source ?? null,
+          incomingValue: change.after,
+        });
+      }
+    }
+
+    return { accepted: accepted as Partial<InsertMEP>, conflicts };
+  }
+
+  /**
+   * Merge a source's values into a stored MEP: write the accepted fields with
+   * their provenance and queue the conflicts. Affiliation transfers are
+   * detected on the accepted values before they are written.
+   */
+  async updateMEP(existing: MEP, incoming: Partial<Record<keyof InsertMEP, unknown>>, provenance: ProvenanceInfo): Promise<MEPMergeResult> {
+    const { accepted, conflicts } = await this.resolveMEPUpdate(existing, incoming, provenance.source);
+    const fetchedAt = provenance.fetchedAt ?? new Date();
+
+    let queued = 0;
+    for (const conflict of conflicts) {
+      const saved = await storage.queueFieldConflict({
+        mepId: existing.id,
+        field: conflict.field,
+        currentValue: conflict.currentValue as InsertFieldConflict['currentValue'],
+        currentSource: conflict.currentSource,
+        incomingValue: conflict.incomingValue as InsertFieldConflict['incomingValue'],
+        incomingSource: provenance.source,
+        incomingSourceUrl: provenance.sourceUrl ?? null,
+        fetchedAt,
+      });
+      if (saved) queued++;
+    }
+
+    if (Object.keys(accepted).length > 0) {
+      await this.writeValues(existing, accepted, { ...provenance, fetchedAt });
+    }
+
+    if (queued > 0) {
+      logger.info('Source conflicts queued for review', 'SourceMerge', {
+        mepId: existing.id,
+        source: provenance.source,
+        fields: conflicts.map(conflict => conflict.field),
+      });
+    }
+    return { accepted, conflicts: queued };
+  }
+
+  /**
+   * Write values with their provenance. Affiliation transfers are detected
+   * before the stored values are overwritten.
+   */
+  private async writeValues(existing: MEP, values: Partial<InsertMEP>, provenance: ProvenanceInfo) {
+    if (TRANSFER_SOURCES.includes(provenance.source)) {
+      // Record political group / national party transfers before overwriting
+      await transferDetectionService.detectTransfer(existing, values, provenance.source as TransferSource);
+    }
+    await storage.updateMEP(existing.id, values);
+    await storage.recordMEPProvenance(existing.id, values, provenance);
+  }
+
+  /**
+   * Settle a queued conflict: 'accept' writes the incoming value on behalf of
+   * its source, 'dismiss' keeps the stored value
+   *
+   * An accepted value is written like a sync update: transfers are detected,
+   * and the change is logged and sent to webhook subscribers.
+   *
+   * @throws StaleConflictError when accepting a conflict whose stored value
+   *   has changed since it was queued
+   */
+  async resolveConflict(conflict: FieldConflict, resolution: 'accept' | 'dismiss', resolvedBy?: string): Promise<FieldConflict> {
+    if (resolution === 'accept') {
+      const existing = await storage.getMEP(conflict.mepId);
+      if (!existing || diffFields(existing, { [conflict.field]: conflict.currentValue }).length > 0) {
+        throw new StaleConflictError(conflict);
+      }
+
+      const values = { [conflict.field]: conflict.incomingValue } as Partial<InsertMEP>;
+      await this.writeValues(existing, values, {
+        source: conflict.incomingSource as ProvenanceSource,
+        sourceUrl: conflict.incomingSourceUrl,
+        fetchedAt: conflict.fetchedAt,
+      });
+      const change = await storage.createChangeLog({
+        entityType: 'mep',
+        entityId: existing.id,
+        changeType: 'updated',
+        oldValues: existing,
+        newValues: values
+      });
+      await webhookService.emitChange(change);
+    }
+
+    const resolved = await storage.updateFieldConflict(conflict.id, {
+      status: resolution === 'accept' ? 'accepted' : 'dismissed',
+      resolvedBy,
+      resolvedAt: new Date(),
+    });
+    logger.info('Source conflict resolved', 'SourceMerge', { conflictId: conflict.id, resolution, resolvedBy });
+    return resolved;
+  }
+
+  private decide(rules: PrecedenceRule[], provenance: MEPProvenanceMap, field: string, source: string): 'accept' | 'reject' | 'review' {
+    const owner = provenance[field]?.source;
+    // Values without provenance predate tracking and carry no claim
+    if (!owner || owner === source) return 'accept';
+
+    const rule = rules.find(candidate => candidate.field === field)
+      || rules.find(candidate => candidate.field === DEFAULT_RULE_FIELD)!;
+    const rank = (name: string) => {
+      const index = rule.sources.indexOf(name);
+      return index === -1 ? rule.sources.length : index;
+    };
+
+    if (rank(source) < rank(owner)) return 'accept';
+    if (rank(source) === rank(owner)) return 'review';
+    return rule.reviewConflicts ? 'review' : 'reject';
+  }
+}
+
+export const sourceMergeService = new SourceMergeService();
@@ -0,0 +1,119 @@
+/**
+ * Political Group Transfer Detection
+ *
+ * Compares the affiliations reported by a sync source with the stored MEP record
+ * and records a structured transfer event whenever an MEP changes:
+ * - European Parliament political group (e.g. ID → PfE)
+ * - National political party
+ *
+ * Each detected transfer is written to `group_transfers` and mirrored in
+ * `change_log` with the 'transferred' change type so it shows up in the
+ * changes feed. Missing upstream values are never treated as a transfer.
+ *
+ * @author EU MEP Watch Development Team
+ * @since August 2025
+ */
+
+import { storage, toDateOnly } from '../storage';
+import { webhookService } from './webhooks';
+import { logger } from '../utils/logger';
+import { diffFields } from '../utils/changeDiff';
+import type { MEP, GroupTransfer } from '@shared/schema';
+
+export type TransferSource = 'eu_parliament_api' | 'opensanctions';
+
+/** Affiliation fields as delivered by the (loosely typed) sync sources */
+type IncomingAffiliation = Partial<Record<'politicalGroup' | 'politicalGroupAbbr' | 'nationalPoliticalGroup', unknown>>;
+
+export class TransferDetectionService {
+  /**
+   * Detect and record an affiliation change for an existing MEP.
+   * Must run before the MEP record is updated with the incoming values.
+   *
+   * @returns The recorded transfer, or null when affiliations are unchanged
+   */
+  async detectTransfer(
+    existing: MEP,
+    incoming: IncomingAffiliation,
+    source: TransferSource,
+    transferDate: Date = new Date()
+  ): Promise<GroupTransfer | null> {
+    const fromGroupAbbr = this.asText(existing.politicalGroupAbbr);
+    const toGroupAbbr = this.asText(incoming.politicalGroupAbbr);
+    const fromParty = this.asText(existing.nationalPoliticalGroup);
+    const toParty = this.asText(incoming.nationalPoliticalGroup);
+
+    const groupChanged = this.hasChanged(fromGroupAbbr, toGroupAbbr);
+    const partyChanged = this.hasChanged(fromParty, toParty);
+
+    if (!groupChanged && !partyChanged) return null;
+
+    // The stored group name only describes the destination when the group is
+    // unchanged; a new group without a reported name is left unnamed
+    const toGroup = this.asText(incoming.politicalGroup) || (groupChanged ? '' : existing.politicalGroup || '');
+
+    const transfer = await storage.createGroupTransfer({
+      mepId: existing.id,
+      transferType: groupChanged ? 'political_group' : 'national_party',
+      fromGroup: existing.politicalGroup || null,
+      fromGroupAbbr: fromGroupAbbr || null,
+      toGroup: toGroup || null,
+      toGroupAbbr: (toGroupAbbr || fromGroupAbbr || '').slice(0, 10) || null,
+      fromNationalParty: fromParty || null,
+      toNationalParty: toParty || fromParty || null,
+      transferDate: toDateOnly(transferDate),
+      source,
+    });
+
+    const oldAffiliation = {
+      politicalGroup: transfer.fromGroup,
+      politicalGroupAbbr: transfer.fromGroupAbbr,
+      nationalPoliticalGroup: transfer.fromNationalParty,
+    };
+    const newAffiliation = {
+      politicalGroup: transfer.toGroup,
+      politicalGroupAbbr: transfer.toGroupAbbr,
+      nationalPoliticalGroup: transfer.toNationalParty,
+    };
+
+    const change = await storage.createChangeLog({
+      entityType: 'mep',
+      entityId: existing.id,
+      changeType: 'transferred',
+      oldValues: { fullName: existing.fullName, ...oldAffiliation },
+      newValues: {
+        fullName: existing.fullName,
+        ...newAffiliation,
+        transferId: transfer.id,
+        transferType: transfer.transferType,
+        transferDate: transfer.transferDate,
+      },
+      fieldChanges: diffFields(oldAffiliation, newAffiliation),
+    });
+    await webhookService.emitChange(change);
+
+    logger.info('Detected political affiliation transfer', 'TransferDetection', {
+      mepId: existing.id,
+      transferType: transfer.transferType,
+      from: groupChanged ? fromGroupAbbr : fromParty,
+      to: groupChanged ? toGroupAbbr : toParty,
+      source,
+    });
+
+    return transfer;
+  }
+
+  /**
+   * Both sides must be known for a change to count as a transfer
+   */
+  private hasChanged(from: string, to: string): boolean {
+    if (!from || !to) return false;
+    return from.toLowerCase() !== to.toLowerCase();
+  }
+
+  private asText(value: unknown): string {
+    return typeof value === 'string' ? value.trim() : '';
+  }
+}
+
+export const transferDetectionService = new TransferDetectionService();
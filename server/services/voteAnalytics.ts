@@ -0,0 +1,289 @@
+/**
+ * Vote Analytics Service
+ *
+ * Computes voting behaviour metrics on top of stored roll-call votes:
+ * - Political group cohesion using the Agreement Index (Hix, Noury & Roland)
+ * - MEP loyalty: share of votes cast with the group majority and with the
+ *   national delegation majority
+ *
+ * Absences are excluded from every calculation. The political group is the one
+ * recorded at vote time, so transfers do not rewrite past cohesion figures.
+ *
+ * @author EU MEP Watch Development Team
+ * @since August 2025
+ */
+
+import { db } from "../db";
+import { votes, voteResults } from "@shared/schema";
+import { and, eq, gte, lte, ne, isNotNull, desc, sql } from "drizzle-orm";
+import { apiCache } from "../utils/cache";
+import { toDateOnly } from "../storage";
+
+type CastPosition = 'for' | 'against' | 'abstain';
+
+interface PositionCounts {
+  for: number;
+  against: number;
+  abstain: number;
+}
+
+export interface GroupCohesion {
+  group: string;
+  votes: number;
+  averageAgreementIndex: number;
+}
+
+export interface VoteCohesion {
+  voteId: string;
+  voteDate: string;
+  title: string;
+  groups: Record<string, number>;
+}
+
+export interface CohesionReport {
+  from: string | null;
+  to: string | null;
+  groups: GroupCohesion[];
+  votes: VoteCohesion[];
+}
+
+export interface LoyaltyRate {
+  votes: number;
+  withMajority: number;
+  rate: number | null;
+}
+
+export interface MEPLoyalty {
+  mepId: string;
+  from: string | null;
+  to: string | null;
+  votesCast: number;
+  group: LoyaltyRate;
+  national: LoyaltyRate;
+  timeline: Array<{
+    month: string;
+    votes: number;
+    groupRate: number | null;
+    nationalRate: number | null;
+  }>;
+}
+
+export class VoteAnalyticsService {
+  private readonly cacheTTL = 10 * 60 * 1000; // 10 minutes
+
+  /**
+   * Agreement Index for one group on one vote:
+   * (max(Y, N, A) - ½ · (Y + N + A - max(Y, N, A))) / (Y + N + A)
+   * Ranges from 0 (evenly split) to 1 (unanimous).
+   */
+  agreementIndex(counts: PositionCounts): number | null {
+    const total = counts.for + counts.against + counts.abstain;
+    if (total === 0) return null;
+    const max = Math.max(counts.for, counts.against, counts.abstain);
+    return (max - 0.5 * (total - max)) / total;
+  }
+
+  /**
+   * Group cohesion per vote and averaged over the date range
+   */
+  async getGroupCohesion(filters: { from?: Date; to?: Date; group?: string; limit?: number } = {}): Promise<CohesionReport> {
+    const cacheKey = `analytics_cohesion_${JSON.stringify(filters)}`;
+    const cached = apiCache.get<CohesionReport>(cacheKey);
+    if (cached) return cached;
+
+    const from = filters.from ? toDateOnly(filters.from) : null;
+    const to = filters.to ? toDateOnly(filters.to) : null;
+
+    const conditions = [
+      ne(voteResults.position, 'absent'),
+      isNotNull(voteResults.politicalGroupAbbr),
+    ];
+    if (from) conditions.push(gte(votes.voteDate, from));
+    if (to) conditions.push(lte(votes.voteDate, to));
+    if (filters.group) conditions.push(eq(voteResults.politicalGroupAbbr, filters.group));
+
+    const rows = await db
+      .select({
+        voteId: votes.id,
+        voteDate: votes.voteDate,
+        title: votes.title,
+        group: voteResults.politicalGroupAbbr,
+        for: sql<number>`count(*) filter (where ${voteResults.position} = 'for')`.mapWith(Number),
+        against: sql<number>`count(*) filter (where ${voteResults.position} = 'against')`.mapWith(Number),
+        abstain: sql<number>`count(*) filter (where ${voteResults.position} = 'abstain')`.mapWith(Number),
+      })
+      .from(voteResults)
+      .innerJoin(votes, eq(voteResults.voteId, votes.id))
+      .where(and(...conditions))
+      .groupBy(votes.id, votes.voteDate, votes.title, voteResults.politicalGroupAbbr)
+      .orderBy(desc(votes.voteDate), votes.id);
+
+    const perVote = new Map<string, VoteCohesion>();
+    const totals = new Map<string, { sum: number; votes: number }>();
+
+    for (const row of rows) {
+      const index = this.agreementIndex(row);
+      if (index === null || !row.group) continue;
+
+      let vote = perVote.get(row.voteId);
+      if (!vote) {
+        vote = { voteId: row.voteId, voteDate: row.voteDate, title: row.title, groups: {} };
+        perVote.set(row.voteId, vote);
+      }
+      vote.groups[row.group] = this.round(index);
+
+      const total = totals.get(row.group) || { sum: 0, votes: 0 };
+      total.sum += index;
+      total.votes++;
+      totals.set(row.group, total);
+    }
+
+    const report: CohesionReport = {
+      from,
+      to,
+      groups: Array.from(totals.entries())
+        .map(([group, total]) => ({
+          group,
+          votes: total.votes,
+          averageAgreementIndex: this.round(total.sum / total.votes),
+        }))
+        .sort((a, b) => b.averageAgreementIndex - a.averageAgreementIndex),
+      votes: Array.from(perVote.values()).slice(0, filters.limit ?? 100),
+    };
+
+    apiCache.set(cacheKey, report, this.cacheTTL);
+    return report;
+  }
+
+  /**
+   * How often an MEP voted with their group majority and national delegation majority.
+   * The MEP's own vote is excluded when determining each majority; tied majorities are skipped.
+   */
+  async getMEPLoyalty(mepId: string, filters: { from?: Date; to?: Date } = {}): Promise<MEPLoyalty> {
+    const cacheKey = `analytics_loyalty_${mepId}_${JSON.stringify(filters)}`;
+    const cached = apiCache.get<MEPLoyalty>(cacheKey);
+    if (cached) return cached;
+
+    const from = filters.from ? toDateOnly(filters.from) : null;
+    const to = filters.to ? toDateOnly(filters.to) : null;
+    const dateFilter = sql`${from ? sql`AND v.vote_date >= ${from}` : sql``} ${to ? sql`AND v.vote_date <= ${to}` : sql``}`;
+
+    const ownVotes = await db.execute(sql`
+      SELECT vr.vote_id, v.vote_date, vr.position
+      FROM vote_result vr
+      JOIN vote v ON v.id = vr.vote_id
+      WHERE vr.mep_id = ${mepId} AND vr.position <> 'absent' ${dateFilter}
+      ORDER BY v.vote_date
+    `);
+
+    // Positions of the rest of the MEP's group (as recorded at vote time)
+    const groupCounts = await db.execute(sql`
+      SELECT vr.vote_id, vr.position, COUNT(*)::int AS count
+      FROM vote_result me
+      JOIN vote v ON v.id = me.vote_id
+      JOIN vote_result vr ON vr.vote_id = me.vote_id
+        AND vr.political_group_abbr = me.political_group_abbr
+        AND vr.mep_id <> me.mep_id
+      WHERE me.mep_id = ${mepId} AND me.position <> 'absent' AND vr.position <> 'absent' ${dateFilter}
+      GROUP BY vr.vote_id, vr.position
+    `);
+
+    // Positions of the rest of the MEP's national delegation
+    const nationalCounts = await db.execute(sql`
+      SELECT vr.vote_id, vr.position, COUNT(*)::int AS count
+      FROM vote_result me
+      JOIN vote v ON v.id = me.vote_id
+      JOIN meps self ON self.id = me.mep_id
+      JOIN vote_result vr ON vr.vote_id = me.vote_id AND vr.mep_id <> me.mep_id
+      JOIN meps m ON m.id = vr.mep_id AND m.country = self.country
+      WHERE me.mep_id = ${mepId} AND me.position <> 'absent' AND vr.position <> 'absent' ${dateFilter}
+      GROUP BY vr.vote_id, vr.position
+    `);
+
+    const groupMajorities = this.majorities(groupCounts.rows as any[]);
+    const nationalMajorities = this.majorities(nationalCounts.rows as any[]);
+
+    const group = { votes: 0, withMajority: 0 };
+    const national = { votes: 0, withMajority: 0 };
+    const months = new Map<string, { votes: number; group: { votes: number; withMajority: number }; national: { votes: number; withMajority: number } }>();
+
+    for (const row of ownVotes.rows as any[]) {
+      const voteDate = typeof row.vote_date === 'string' ? row.vote_date : toDateOnly(new Date(row.vote_date));
+      const month = voteDate.slice(0, 7);
+      const bucket = months.get(month) || { votes: 0, group: { votes: 0, withMajority: 0 }, national: { votes: 0, withMajority: 0 } };
+      bucket.votes++;
+
+      const groupMajority = groupMajorities.get(row.vote_id);
+      if (groupMajority) {
+        const agrees = groupMajority === row.position ? 1 : 0;
+        group.votes++;
+        group.withMajority += agrees;
+        bucket.group.votes++;
+        bucket.group.withMajority += agrees;
+      }
+
+      const nationalMajority = nationalMajorities.get(row.vote_id);
+      if (nationalMajority) {
+        const agrees = nationalMajority === row.position ? 1 : 0;
+        national.votes++;
+        national.withMajority += agrees;
+        bucket.national.votes++;
+        bucket.national.withMajority += agrees;
+      }
+
+      months.set(month, bucket);
+    }
+
+    const loyalty: MEPLoyalty = {
+      mepId,
+      from,
+      to,
+      votesCast: ownVotes.rows.length,
+      group: this.toRate(group),
+      national: this.toRate(national),
+      timeline: Array.from(months.entries()).map(([month, bucket]) => ({
+        month,
+        votes: bucket.votes,
+        groupRate: this.toRate(bucket.group).rate,
+        nationalRate: this.toRate(bucket.national).rate,
+      })),
+    };
+
+    apiCache.set(cacheKey, loyalty, this.cacheTTL);
+    return loyalty;
+  }
+
+  /**
+   * Majority position per vote from grouped position counts; ties yield no majority
+   */
+  private majorities(rows: Array<{ vote_id: string; position: CastPosition; count: number }>): Map<string, CastPosition> {
+    const countsByVote = new Map<string, PositionCounts>();
+    for (const row of rows) {
+      const counts = countsByVote.get(row.vote_id) || { for: 0, against: 0, abstain: 0 };
+      counts[row.position] = Number(row.count);
+      countsByVote.set(row.vote_id, counts);
+    }
+
+    const result = new Map<string, CastPosition>();
+    countsByVote.forEach((counts, voteId) => {
+      const ranked = (Object.entries(counts) as Array<[CastPosition, number]>).sort((a, b) => b[1] - a[1]);
+      if (ranked[0][1] > 0 && ranked[0][1] > ranked[1][1]) {
+        result.set(voteId, ranked[0][0]);
+      }
+    });
+    return result;
+  }
+
+  private toRate(tally: { votes: number; withMajority: number }): LoyaltyRate {
+    return {
+      ...tally,
+      rate: tally.votes > 0 ? this.round(tally.withMajority / tally.votes) : null,
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
+
+export const voteAnalyticsService = new VoteAnalyticsService();
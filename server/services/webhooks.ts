@@ -0,0 +1,258 @@
+/**
+ * Outbound Webhooks
+ *
+ * Notifies admin-managed endpoints of change events:
+ * - `mep.created` / `mep.updated`: a change log entry was written for an MEP
+ * - `membership.added`: a committee membership was opened
+ * - `committee_event.created`: a committee event was imported
+ * - `sync.failed`: a sync job failed after its last retry
+ *
+ * Emitting an event stores one row per matching subscription in
+ * `webhook_deliveries`, which is both the retry queue and the delivery log.
+ * The worker loop in this process posts due deliveries and retries failures
+ * with exponential backoff, so events survive restarts and receiver outages.
+ *
+ * Every request is signed: `X-MEPWatch-Signature` is `sha256=` followed by
+ * the hex HMAC-SHA256 of `<X-MEPWatch-Timestamp>.<raw body>` keyed with the
+ * subscription secret.
+ *
+ * @author EU MEP Watch Development Team
+ * @since August 2025
+ */
+
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+import type {
+  ChangeLog,
+  WebhookDelivery,
+  WebhookEventType,
+  WebhookSubscription,
+} from '@shared/schema';
+
+export const WEBHOOK_EVENT_TYPES: [WebhookEventType, ...WebhookEventType[]] = [
+  'mep.created',
+  'mep.updated',
+  'membership.added',
+  'committee_event.created',
+  'sync.failed',
+];
+
+const POLL_INTERVAL_MS = 5000;
+const REQUEST_TIMEOUT_MS = 10000;
+/** Claimed deliveries without a result for this long are released to other workers */
+const STALE_AFTER_MS = 5 * 60 * 1000;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+/** Characters of the receiver's response kept in the delivery log */
+const MAX_RESPONSE_LENGTH = 1000;
+
+/**
+ * Delay before the next attempt: 1, 2, 4 ... minutes, capped at six hours
+ */
+export function webhookRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Signature header value of a request body
+ *
+ * @param timestamp Unix time in seconds, sent as `X-MEPWatch-Timestamp`
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/** Subscription as shown to admins after creation; the secret is only returned once */
+export function withoutSecret<T extends WebhookSubscription>(subscription: T): Omit<T, 'secret'> {
+  const { secret: _secret, ...rest } = subscription;
+  return rest;
+}
+
+/**
+ * WebhookService - Fans change events out to subscriptions and delivers them
+ */
+export class WebhookService {
+  private readonly workerId = `${hostname()}:${process.pid}`;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private isPolling = false;
+
+  /**
+   * Start the delivery worker loop
+   */
+  start() {
+    if (this.isRunning) return;
+    this.isRunning = true;
+    this.schedulePoll(0);
+    logger.info('Webhook delivery worker started', 'Webhooks', { workerId: this.workerId });
+  }
+
+  stop() {
+    this.isRunning = false;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Queue an event for every active subscription that includes its type
+   *
+   * Never throws: a failing webhook must not fail the sync that emitted it.
+   */
+  async emit(eventType: WebhookEventType, data: Record<string, unknown>): Promise<void> {
+    try {
+      const subscriptions = await storage.getWebhookSubscriptionsForEvent(eventType);
+      if (subscriptions.length === 0) return;
+
+      const eventId = randomUUID();
+      const payload = { id: eventId, type: eventType, createdAt: new Date().toISOString(), data };
+      await storage.createWebhookDeliveries(subscriptions.map(subscription => ({
+        subscriptionId: subscription.id,
+        eventId,
+        eventType,
+        payload,
+      })));
+
+      if (this.isRunning && !this.isPolling) {
+        this.schedulePoll(0);
+      }
+    } catch (error) {
+      logger.error('Failed to queue webhook event', 'Webhooks', {
+        eventType,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Emit the event for a change log entry; MEP creations are `mep.created`,
+   * every other MEP change (updates, transfers, declarations) `mep.updated`
+   */
+  async emitChange(change: ChangeLog): Promise<void> {
+    if (change.entityType !== 'mep') return;
+    await this.emit(change.changeType === 'created' ? 'mep.created' : 'mep.updated', {
+      mepId: change.entityId,
+      change,
+    });
+  }
+
+  /**
+   * Send a delivery again now, with one more attempt if it had used up its retries
+   */
+  async redeliver(delivery: WebhookDelivery): Promise<WebhookDelivery | undefined> {
+    const redelivered = await storage.updateWebhookDelivery(delivery.id, {
+      status: 'pending',
+      nextAttemptAt: new Date(),
+      maxAttempts: Math.max(delivery.maxAttempts, delivery.attempts + 1),
+      lockedBy: null,
+      lockedAt: null,
+    });
+    if (this.isRunning && !this.isPolling) {
+      this.schedulePoll(0);
+    }
+    return redelivered;
+  }
+
+  private schedulePoll(delay: number) {
+    if (this.pollTimer) clearTimeout(this.pollTimer);
+    this.pollTimer = setTimeout(() => this.poll(), delay);
+  }
+
+  /**
+   * Send due deliveries one at a time until none are left
+   */
+  private async poll() {
+    this.pollTimer = null;
+    if (this.isPolling) return;
+    this.isPolling = true;
+
+    try {
+      const released = await storage.releaseStaleWebhookDeliveries(new Date(Date.now() - STALE_AFTER_MS));
+      if (released > 0) {
+        logger.warn('Released webhook deliveries abandoned by their worker', 'Webhooks', { count: released });
+      }
+
+      while (this.isRunning) {
+        const delivery = await storage.claimNextWebhookDelivery(this.workerId);
+        if (!delivery) break;
+        await this.deliver(delivery);
+      }
+    } catch (error) {
+      logger.error('Webhook delivery poll failed', 'Webhooks', { error: error instanceof Error ? error.message : String(error) });
+    } finally {
+      this.isPolling = false;
+      if (this.isRunning) this.schedulePoll(POLL_INTERVAL_MS);
+    }
+  }
+
+  private async deliver(delivery: WebhookDelivery) {
+    const subscription = await storage.getWebhookSubscription(delivery.subscriptionId);
+    if (!subscription) return; // Deleted meanwhile; its deliveries cascade
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const started = Date.now();
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    try {
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'MEPWatch-Webhooks/1.0',
+          'X-MEPWatch-Event': delivery.eventType,
+          'X-MEPWatch-Delivery': delivery.id,
+          'X-MEPWatch-Timestamp': String(timestamp),
+          'X-MEPWatch-Signature': signWebhookPayload(subscription.secret, timestamp, body),
+        },
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        redirect: 'manual',
+      });
+      responseStatus = response.status;
+      responseBody = (await response.text().catch(() => '')).slice(0, MAX_RESPONSE_LENGTH);
+      if (!response.ok) {
+        error = `Receiver responded with HTTP ${response.status}`;
+      }
+    } catch (requestError) {
+      error = requestError instanceof Error ? requestError.message : String(requestError);
+    }
+
+    const attempt = {
+      responseStatus,
+      responseBody,
+      error,
+      durationMs: Date.now() - started,
+      lockedBy: null,
+      lockedAt: null,
+    };
+
+    if (!error) {
+      await storage.updateWebhookDelivery(delivery.id, { ...attempt, status: 'delivered', deliveredAt: new Date() });
+      logger.debug('Webhook delivered', 'Webhooks', { deliveryId: delivery.id, eventType: delivery.eventType });
+    } else if (delivery.attempts < delivery.maxAttempts) {
+      const nextAttemptAt = new Date(Date.now() + webhookRetryDelay(delivery.attempts));
+      await storage.updateWebhookDelivery(delivery.id, { ...attempt, nextAttemptAt });
+      logger.warn('Webhook delivery failed, retry scheduled', 'Webhooks', {
+        deliveryId: delivery.id,
+        attempt: delivery.attempts,
+        nextAttemptAt,
+        error,
+      });
+    } else {
+      await storage.updateWebhookDelivery(delivery.id, { ...attempt, status: 'failed' });
+      logger.error('Webhook delivery failed', 'Webhooks', { deliveryId: delivery.id, attempts: delivery.attempts, error });
+    }
+  }
+}
+
+export const webhookService = new WebhookService();
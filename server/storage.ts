@@ -36,31 +36,399 @@
 
 import { 
   meps, 
+  mepMandates,
+  mepFieldProvenance,
+  sourcePrecedenceRules,
+  fieldConflicts,
   committees, 
   mepCommittees, 
-  dataUpdates, 
+  mepCommitteeRoles,
+  dataUpdates,
+  syncState, 
+  syncPlans,
+  syncPlanChanges,
+  jobs,
+  syncSchedules,
   changeLog,
   committeeEvents,
+  groupTransfers,
+  votes,
+  voteResults,
+  procedures,
+  procedureCommittees,
+  procedureRapporteurs,
+  parliamentaryQuestions,
+  questionAuthors,
+  speeches,
+  mepDeclarations,
+  declarationItems,
   users,
+  watchlistEntries,
+  notificationPreferences,
+  webhookSubscriptions,
+  webhookDeliveries,
   type MEP, 
   type InsertMEP,
+  type MEPMandate,
+  type InsertMEPMandate,
+  type ProvenanceInfo,
+  type MEPProvenanceMap,
+  type SourcePrecedenceRule,
+  type InsertSourcePrecedenceRule,
+  type FieldConflict,
+  type InsertFieldConflict,
+  type FieldConflictWithMEP,
   type Committee, 
   type InsertCommittee,
+  type CommitteeType,
   type MEPCommittee,
   type InsertMEPCommittee,
+  type MEPCommitteeRole,
+  type MembershipSource,
   type DataUpdate,
   type InsertDataUpdate,
+  type SyncState,
+  type InsertSyncState,
+  type SyncPlan,
+  type SyncPlanStatus,
+  type InsertSyncPlan,
+  type InsertSyncPlanChange,
+  type SyncPlanWithChanges,
+  type Job,
+  type InsertJob,
+  type SyncSchedule,
+  type InsertSyncSchedule,
   type ChangeLog,
   type InsertChangeLog,
+  type FieldChange,
   type CommitteeEvent,
   type InsertCommitteeEvent,
+  type GroupTransfer,
+  type InsertGroupTransfer,
+  type GroupTransferWithMEP,
+  type Vote,
+  type InsertVote,
+  type InsertVoteResult,
+  type ParliamentaryQuestion,
+  type InsertParliamentaryQuestion,
+  type QuestionWithAuthors,
+  type MEPDeclaration,
+  type InsertMEPDeclaration,
+  type InsertDeclarationItem,
+  type DeclarationWithItems,
+  type Speech,
+  type InsertSpeech,
+  type SpeechSearchResult,
+  type Procedure,
+  type InsertProcedure,
+  type InsertProcedureCommittee,
+  type InsertProcedureRapporteur,
+  type ProcedureWithDetails,
+  type CommitteeProcedure,
   type User,
   type UpsertUser,
+  type WatchlistEntry,
+  type InsertWatchlistEntry,
+  type WatchEntityType,
+  type WatchlistItem,
+  type WatchlistFeedItem,
+  type CalendarEvent,
+  type NotificationPreferences,
+  type InsertNotificationPreferences,
+  type DigestFrequency,
+  type WebhookSubscription,
+  type InsertWebhookSubscription,
+  type WebhookSubscriptionWithStats,
+  type WebhookDelivery,
+  type InsertWebhookDelivery,
+  type WebhookEventType,
+  type WebhookDeliveryStatus,
   type MEPWithCommittees,
   type CommitteeWithMembers
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, like, and, or, sql, count, ilike, gte, lte, inArray } from "drizzle-orm";
+import { diffFields } from "./utils/changeDiff";
+import { eq, asc, desc, like, and, or, sql, count, ilike, gt, gte, lte, inArray, isNull } from "drizzle-orm";
+
+/** Rows per insert statement when storing sync plan changes */
+export const SYNC_PLAN_CHANGE_BATCH = 500;
+
+/**
+ * Format a date as the YYYY-MM-DD string used by membership date columns
+ */
+export function toDateOnly(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Condition selecting committee memberships that were running on a given day.
+ * End dates are exclusive: a membership closed on day D no longer counts on D.
+ * Without a date, only currently open memberships are selected.
+ */
+export function membershipActiveOn(asOf?: Date) {
+  if (!asOf) return isNull(mepCommittees.endDate);
+  const day = toDateOnly(asOf);
+  return and(
+    lte(mepCommittees.startDate, day),
+    or(isNull(mepCommittees.endDate), gt(mepCommittees.endDate, day))
+  )!;
+}
+
+/**
+ * Condition selecting role history rows that were held on a given day
+ */
+export function roleActiveOn(asOf: Date) {
+  const day = toDateOnly(asOf);
+  return and(
+    lte(mepCommitteeRoles.startDate, day),
+    or(isNull(mepCommitteeRoles.endDate), gt(mepCommitteeRoles.endDate, day))
+  )!;
+}
+
+/**
+ * Condition selecting mandates held on a given day. Upstream mandate end
+ * dates are the last day served, so the end date itself is included.
+ */
+export function mandateHeldOn(day: string) {
+  return and(
+    lte(mepMandates.startDate, day),
+    or(isNull(mepMandates.endDate), gte(mepMandates.endDate, day))
+  )!;
+}
+
+/**
+ * Provenance rows for the fields a writer sets. Undefined values and
+ * bookkeeping columns are not data written by the source.
+ */
+export function provenanceRows(mepId: string, values: Partial<Record<keyof InsertMEP, unknown>>, provenance: ProvenanceInfo) {
+  const fetchedAt = provenance.fetchedAt ?? new Date();
+  return Object.entries(values)
+    .filter(([field, value]) => value !== undefined && !['id', 'createdAt', 'updatedAt'].includes(field))
+    .map(([field]) => ({
+      mepId,
+      field,
+      source: provenance.source,
+      sourceUrl: provenance.sourceUrl ?? null,
+      fetchedAt,
+    }));
+}
+
+/**
+ * Mandate rows of an MEP. Upstream lists occasionally repeat a mandate; only
+ * the first entry per unique (term, start date) key is kept, so a repeat
+ * does not fail the whole replace.
+ */
+export function mandateRows(mepId: string, mandates: Omit<InsertMEPMandate, 'mepId'>[]): InsertMEPMandate[] {
+  const seen = new Set<string>();
+  return mandates
+    .filter(mandate => {
+      const key = `${mandate.termNumber}:${mandate.startDate}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(mandate => ({ ...mandate, mepId }));
+}
+
+/** Upsert target and update set for provenance rows */
+export const provenanceConflict = {
+  target: [mepFieldProvenance.mepId, mepFieldProvenance.field],
+  set: {
+    source: sql`excluded.source`,
+    sourceUrl: sql`excluded.source_url`,
+    fetchedAt: sql`excluded.fetched_at`,
+    updatedAt: sql`CURRENT_TIMESTAMP`,
+  },
+};
+
+/**
+ * Fill in the field-level diff of a change log entry from its before/after snapshots
+ * when the caller has not computed one explicitly
+ */
+export function withFieldChanges(entry: InsertChangeLog): typeof changeLog.$inferInsert {
+  return {
+    ...entry,
+    fieldChanges: (entry.fieldChanges as FieldChange[] | undefined) ?? diffFields(
+      entry.oldValues as Record<string, unknown> | null,
+      entry.newValues as Record<string, unknown> | null
+    ),
+  };
+}
+
+/**
+ * Where clause for the change history of one entity, optionally bounded by date.
+ * `to` is inclusive of the whole day.
+ */
+export function entityHistoryConditions(entityType: string, entityId: string, filters?: { from?: Date; to?: Date }) {
+  const conditions = [eq(changeLog.entityType, entityType), eq(changeLog.entityId, entityId)];
+  if (filters?.from) {
+    conditions.push(gte(changeLog.createdAt, filters.from));
+  }
+  if (filters?.to) {
+    const endOfDay = new Date(filters.to.getTime() + 24 * 60 * 60 * 1000);
+    conditions.push(sql`${changeLog.createdAt} < ${endOfDay}`);
+  }
+  return and(...conditions);
+}
+
+/**
+ * Join condition matching change log rows to the entities one user follows
+ */
+export function watchedChanges(userId: string, since?: Date) {
+  return and(
+    eq(watchlistEntries.userId, userId),
+    eq(watchlistEntries.entityType, changeLog.entityType),
+    eq(watchlistEntries.entityId, changeLog.entityId),
+    since ? gt(changeLog.createdAt, since) : undefined
+  );
+}
+
+/**
+ * Join condition matching committee events to the committees one user follows
+ */
+export function watchedCommitteeEvents(userId: string, since?: Date) {
+  return and(
+    eq(watchlistEntries.userId, userId),
+    eq(watchlistEntries.entityType, 'committee'),
+    eq(watchlistEntries.entityId, committeeEvents.committeeId),
+    since ? gt(committeeEvents.createdAt, since) : undefined
+  );
+}
+
+/**
+ * Merge watched changes and committee events into one feed, newest first
+ */
+export function toWatchlistFeed(
+  changes: ChangeLog[],
+  events: Array<{ event: CommitteeEvent; committee: Pick<Committee, 'id' | 'code' | 'name'> }>
+): WatchlistFeedItem[] {
+  const items: WatchlistFeedItem[] = [
+    ...changes.map(change => ({ kind: 'change' as const, occurredAt: change.createdAt ?? new Date(0), change })),
+    ...events.map(({ event, committee }) => ({ kind: 'event' as const, occurredAt: event.createdAt ?? new Date(0), event, committee })),
+  ];
+  return items.sort((a, b) => b.occurredAt.getTime() - a.occurredAt.getTime());
+}
+
+/** Selects the committee events of a calendar; every field narrows the result */
+export interface CalendarEventFilter {
+  eventId?: string;
+  committeeId?: string;
+  /** Events of the committees this user follows */
+  userId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Where clause for public committee events matching a calendar filter
+ */
+export function calendarEventConditions(filter: CalendarEventFilter) {
+  return and(
+    eq(committeeEvents.isPublic, true),
+    filter.eventId ? eq(committeeEvents.id, filter.eventId) : undefined,
+    filter.committeeId ? eq(committeeEvents.committeeId, filter.committeeId) : undefined,
+    filter.userId
+      ? inArray(
+          committeeEvents.committeeId,
+          db.select({ id: watchlistEntries.entityId })
+            .from(watchlistEntries)
+            .where(and(eq(watchlistEntries.userId, filter.userId), eq(watchlistEntries.entityType, 'committee')))
+        )
+      : undefined,
+    filter.from ? gte(committeeEvents.startDate, filter.from) : undefined,
+    filter.to ? lte(committeeEvents.startDate, filter.to) : undefined
+  );
+}
+
+/** Sortable columns of the MEP listing */
+export type MEPSortField = 'name' | 'questions' | 'reports' | 'speeches';
+
+/**
+ * Order clause for the MEP listing; activity sorts fall back to name for ties
+ */
+export function mepOrderBy(sortBy: MEPSortField = 'name', sortOrder?: 'asc' | 'desc') {
+  // Names default to A-Z, activity counts to most active first
+  const direction = (sortOrder ?? (sortBy === 'name' ? 'asc' : 'desc')) === 'desc' ? desc : asc;
+  const activityColumns = {
+    questions: meps.questionsCount,
+    reports: meps.reportsCount,
+    speeches: meps.speechesCount,
+  };
+  if (sortBy === 'name') {
+    return [direction(meps.lastName), direction(meps.firstName)];
+  }
+  return [direction(activityColumns[sortBy]), asc(meps.lastName), asc(meps.firstName)];
+}
+
+/**
+ * Where clause for parliamentary question search.
+ * `search` matches title, content and reference; `addressee` is a case-insensitive match.
+ */
+export function questionConditions(filters?: { search?: string; addressee?: string; questionType?: string; mepId?: string }) {
+  const conditions = [];
+  if (filters?.search) {
+    conditions.push(or(
+      ilike(parliamentaryQuestions.title, `%${filters.search}%`),
+      ilike(parliamentaryQuestions.content, `%${filters.search}%`),
+      ilike(parliamentaryQuestions.reference, `%${filters.search}%`)
+    )!);
+  }
+  if (filters?.addressee) {
+    conditions.push(ilike(parliamentaryQuestions.addressee, filters.addressee));
+  }
+  if (filters?.questionType) {
+    conditions.push(eq(parliamentaryQuestions.questionType, filters.questionType));
+  }
+  if (filters?.mepId) {
+    conditions.push(inArray(
+      parliamentaryQuestions.id,
+      db.select({ id: questionAuthors.questionId }).from(questionAuthors).where(eq(questionAuthors.mepId, filters.mepId))
+    ));
+  }
+  return and(...conditions);
+}
+
+/**
+ * Speech columns returned by the API; the search vector stays in the database
+ */
+export const speechColumns = {
+  id: speeches.id,
+  mepId: speeches.mepId,
+  sittingId: speeches.sittingId,
+  speechDate: speeches.speechDate,
+  debateTitle: speeches.debateTitle,
+  language: speeches.language,
+  text: speeches.text,
+  officialUrl: speeches.officialUrl,
+  createdAt: speeches.createdAt,
+  updatedAt: speeches.updatedAt,
+};
+
+/**
+ * Full-text search over plenary speeches.
+ * `q` uses web search syntax ("quoted phrase", -excluded, or); snippets wrap matches in <mark>.
+ */
+export function speechSearch(filters: { q: string; mepId?: string; language?: string; from?: Date; to?: Date }) {
+  const query = sql`websearch_to_tsquery('simple', ${filters.q})`;
+  const conditions = [sql`${speeches.searchVector} @@ ${query}`];
+  if (filters.mepId) {
+    conditions.push(eq(speeches.mepId, filters.mepId));
+  }
+  if (filters.language) {
+    conditions.push(eq(speeches.language, filters.language.toUpperCase()));
+  }
+  if (filters.from) {
+    conditions.push(gte(speeches.speechDate, toDateOnly(filters.from)));
+  }
+  if (filters.to) {
+    conditions.push(lte(speeches.speechDate, toDateOnly(filters.to)));
+  }
+  return {
+    where: and(...conditions),
+    rank: sql<number>`ts_rank(${speeches.searchVector}, ${query})`,
+    snippet: sql<string>`ts_headline('simple', ${speeches.text}, ${query}, 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=35, MinWords=15')`,
+  };
+}
 
 /**
  * Storage interface defining all database operations for the EU MEP Watch application
@@ -85,6 +453,8 @@ export interface IStorage {
     country?: string;
     politicalGroup?: string;
     committee?: string;
+    sortBy?: MEPSortField;
+    sortOrder?: 'asc' | 'desc';
     limit?: number;
     offset?: number;
   }): Promise<{ meps: MEPWithCommittees[]; total: number }>;
@@ -93,9 +463,32 @@ export interface IStorage {
   updateMEP(id: string, mep: Partial<InsertMEP>): Promise<MEP>;
   deleteMEP(id: string): Promise<void>;
   
+  // MEP mandate history
+  getMEPMandates(mepId: string): Promise<MEPMandate[]>;
+  getMandatesHeldOn(day: string): Promise<MEPMandate[]>;
+  replaceMEPMandates(mepId: string, mandates: Omit<InsertMEPMandate, 'mepId'>[]): Promise<MEPMandate[]>;
+  
+  // Per-field provenance of MEP values
+  recordMEPProvenance(mepId: string, values: Partial<Record<keyof InsertMEP, unknown>>, provenance: ProvenanceInfo): Promise<void>;
+  getMEPProvenance(mepId: string): Promise<MEPProvenanceMap>;
+  
+  // Source precedence rules and conflict review queue
+  getSourcePrecedenceRules(): Promise<SourcePrecedenceRule[]>;
+  saveSourcePrecedenceRule(rule: InsertSourcePrecedenceRule): Promise<SourcePrecedenceRule>;
+  deleteSourcePrecedenceRule(field: string): Promise<void>;
+  queueFieldConflict(conflict: InsertFieldConflict): Promise<FieldConflict | undefined>;
+  getFieldConflicts(filters?: {
+    status?: string;
+    mepId?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<{ conflicts: FieldConflictWithMEP[]; total: number }>;
+  getFieldConflict(id: string): Promise<FieldConflict | undefined>;
+  updateFieldConflict(id: string, conflict: Partial<InsertFieldConflict>): Promise<FieldConflict>;
+  
   // Committees
-  getCommittees(limit?: number, offset?: number): Promise<{ committees: CommitteeWithMembers[]; total: number }>;
-  getCommittee(id: string): Promise<CommitteeWithMembers | undefined>;
+  getCommittees(limit?: number, offset?: number, committeeType?: CommitteeType): Promise<{ committees: CommitteeWithMembers[]; total: number }>;
+  getCommittee(id: string, asOf?: Date): Promise<CommitteeWithMembers | undefined>;
   getCommitteeByCode(code: string): Promise<Committee | undefined>;
   createCommittee(committee: InsertCommittee): Promise<Committee>;
   updateCommittee(id: string, committee: Partial<InsertCommittee>): Promise<Committee>;
@@ -104,11 +497,22 @@ export interface IStorage {
   // Committee Events
   getCommitteeEvents(committeeId: string, months?: number): Promise<CommitteeEvent[]>;
   createCommitteeEvent(event: InsertCommitteeEvent): Promise<CommitteeEvent>;
+  getCommitteeEventByExternalId(externalId: string): Promise<CommitteeEvent | undefined>;
+  /** Oldest event imported before external ids were stored, matched on committee, title and start */
+  getLegacyCommitteeEvent(committeeId: string, title: string, startDate: Date): Promise<CommitteeEvent | undefined>;
+  updateCommitteeEvent(id: string, event: Partial<InsertCommitteeEvent>): Promise<CommitteeEvent | undefined>;
+  getCalendarEvents(filter: CalendarEventFilter): Promise<CalendarEvent[]>;
   
   // MEP-Committee relationships
   addMEPToCommittee(mepCommittee: InsertMEPCommittee): Promise<MEPCommittee>;
   createMEPCommittee(mepCommittee: InsertMEPCommittee): Promise<MEPCommittee>;
-  removeMEPFromCommittee(mepId: string, committeeId: string): Promise<void>;
+  getOpenMEPCommittee(mepId: string, committeeId: string): Promise<MEPCommittee | undefined>;
+  changeMEPCommitteeRole(mepId: string, committeeId: string, role: string, effectiveDate?: Date): Promise<MEPCommittee>;
+  removeMEPFromCommittee(mepId: string, committeeId: string, endDate?: Date): Promise<void>;
+  getMEPCommitteeRoles(membershipId: string): Promise<MEPCommitteeRole[]>;
+  getOpenMEPCommittees(): Promise<MEPCommittee[]>;
+  setMEPCommitteeSource(membershipId: string, source: MembershipSource): Promise<void>;
+  purgeUnverifiedMEPCommittees(): Promise<number>;
   
   // Bulk fetch methods
   getAllMEPs(): Promise<MEP[]>;
@@ -118,10 +522,131 @@ export interface IStorage {
   createDataUpdate(update: InsertDataUpdate): Promise<DataUpdate>;
   updateDataUpdate(id: string, update: Partial<InsertDataUpdate>): Promise<DataUpdate>;
   getLatestDataUpdate(): Promise<DataUpdate | undefined>;
+  getSyncState(source: string): Promise<SyncState | undefined>;
+  saveSyncState(state: InsertSyncState): Promise<SyncState>;
+  
+  // Dry-run sync plans
+  createSyncPlan(plan: InsertSyncPlan, changes: InsertSyncPlanChange[]): Promise<SyncPlan>;
+  getSyncPlans(limit?: number): Promise<SyncPlan[]>;
+  getSyncPlan(id: string): Promise<SyncPlanWithChanges | undefined>;
+  updateSyncPlan(id: string, plan: Partial<InsertSyncPlan>): Promise<SyncPlan>;
+  /** Update a plan only while it still has `fromStatus`; undefined when another request changed it first */
+  transitionSyncPlan(id: string, fromStatus: SyncPlanStatus, plan: Partial<InsertSyncPlan>): Promise<SyncPlan | undefined>;
+  
+  // Background job queue
+  createJob(job: InsertJob): Promise<Job>;
+  /** Insert a job unless one with the same schedule key exists; undefined when it does */
+  createScheduledJob(job: InsertJob & { scheduleKey: string }): Promise<Job | undefined>;
+  getJob(id: string): Promise<Job | undefined>;
+  getJobs(filters?: { status?: string; type?: string; limit?: number }): Promise<Job[]>;
+  updateJob(id: string, job: Partial<InsertJob>): Promise<Job>;
+  claimNextJob(workerId: string): Promise<Job | undefined>;
+  requestJobCancel(id: string): Promise<Job | undefined>;
+  requeueStaleJobs(heartbeatBefore: Date): Promise<number>;
+  
+  // Sync stage schedules
+  getSyncSchedules(): Promise<SyncSchedule[]>;
+  ensureSyncSchedules(defaults: InsertSyncSchedule[]): Promise<void>;
+  updateSyncSchedule(stage: string, schedule: Partial<InsertSyncSchedule>): Promise<SyncSchedule | undefined>;
+  
+  // Political group transfers
+  createGroupTransfer(transfer: InsertGroupTransfer): Promise<GroupTransfer>;
+  getGroupTransfers(filters?: {
+    group?: string;
+    from?: Date;
+    to?: Date;
+    mepId?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<{ transfers: GroupTransferWithMEP[]; total: number }>;
+  
+  // Plenary roll-call votes
+  upsertVote(vote: InsertVote): Promise<Vote>;
+  replaceVoteResults(voteId: string, results: Omit<InsertVoteResult, 'voteId'>[]): Promise<number>;
+  getLatestVoteDate(): Promise<string | null>;
+  
+  // Declarations of financial interests
+  saveDeclaration(declaration: InsertMEPDeclaration, items: InsertDeclarationItem[] | null): Promise<MEPDeclaration>;
+  getMEPDeclaration(mepId: string, declarationDate: string): Promise<MEPDeclaration | undefined>;
+  getMEPDeclarations(mepId: string): Promise<DeclarationWithItems[]>;
+  
+  // Plenary speeches (CRE)
+  upsertSpeech(speech: InsertSpeech): Promise<Speech>;
+  getLatestSpeechDate(): Promise<string | null>;
+  getMEPSpeeches(mepId: string, filters?: { limit?: number; offset?: number }): Promise<{ speeches: Speech[]; total: number }>;
+  searchSpeeches(filters: {
+    q: string;
+    mepId?: string;
+    language?: string;
+    from?: Date;
+    to?: Date;
+    limit?: number;
+    offset?: number;
+  }): Promise<{ results: SpeechSearchResult[]; total: number }>;
+  
+  // Parliamentary questions and activity counters
+  upsertQuestion(question: InsertParliamentaryQuestion, authorIds: string[]): Promise<ParliamentaryQuestion>;
+  getStoredQuestionIds(ids: string[]): Promise<Set<string>>;
+  getQuestions(filters?: {
+    search?: string;
+    addressee?: string;
+    questionType?: string;
+    mepId?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<{ questions: QuestionWithAuthors[]; total: number }>;
+  refreshMEPActivityCounts(): Promise<void>;
+  
+  // Legislative procedures
+  upsertProcedure(procedure: InsertProcedure): Promise<Procedure>;
+  replaceProcedureParticipants(
+    reference: string,
+    committees: Omit<InsertProcedureCommittee, 'procedureReference'>[],
+    rapporteurs: Omit<InsertProcedureRapporteur, 'procedureReference'>[]
+  ): Promise<void>;
+  getProcedure(reference: string): Promise<ProcedureWithDetails | undefined>;
+  getCommitteeProcedures(committeeId: string, limit?: number): Promise<CommitteeProcedure[]>;
   
   // Change log
   createChangeLog(changeLog: InsertChangeLog): Promise<ChangeLog>;
   getRecentChanges(limit?: number): Promise<ChangeLog[]>;
+  getEntityHistory(entityType: string, entityId: string, filters?: {
+    from?: Date;
+    to?: Date;
+    limit?: number;
+    offset?: number;
+  }): Promise<{ changes: ChangeLog[]; total: number }>;
+  
+  // Watchlists
+  getWatchlist(userId: string): Promise<WatchlistItem[]>;
+  followEntity(entry: InsertWatchlistEntry): Promise<WatchlistEntry>;
+  unfollowEntity(userId: string, entityType: WatchEntityType, entityId: string): Promise<boolean>;
+  getWatchlistFeed(userId: string, filters?: { since?: Date; limit?: number; offset?: number }): Promise<{ items: WatchlistFeedItem[]; total: number }>;
+  
+  // Notification preferences
+  getNotificationPreferences(userId: string): Promise<NotificationPreferences | undefined>;
+  saveNotificationPreferences(preferences: InsertNotificationPreferences): Promise<NotificationPreferences>;
+  getDigestRecipients(frequency: DigestFrequency): Promise<Array<{ user: User; preferences: NotificationPreferences }>>;
+  markDigestSent(userId: string, coveredUntil: Date): Promise<void>;
+  getNotificationPreferencesByCalendarToken(token: string): Promise<NotificationPreferences | undefined>;
+  
+  // Webhook subscriptions and their delivery queue
+  getWebhookSubscriptions(): Promise<WebhookSubscriptionWithStats[]>;
+  getWebhookSubscription(id: string): Promise<WebhookSubscription | undefined>;
+  getWebhookSubscriptionsForEvent(eventType: WebhookEventType): Promise<WebhookSubscription[]>;
+  createWebhookSubscription(subscription: InsertWebhookSubscription): Promise<WebhookSubscription>;
+  updateWebhookSubscription(id: string, subscription: Partial<InsertWebhookSubscription>): Promise<WebhookSubscription | undefined>;
+  deleteWebhookSubscription(id: string): Promise<boolean>;
+  createWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]>;
+  getWebhookDeliveries(subscriptionId: string, filters?: {
+    status?: WebhookDeliveryStatus;
+    limit?: number;
+    offset?: number;
+  }): Promise<{ deliveries: WebhookDelivery[]; total: number }>;
+  getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined>;
+  updateWebhookDelivery(id: string, delivery: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined>;
+  claimNextWebhookDelivery(workerId: string): Promise<WebhookDelivery | undefined>;
+  releaseStaleWebhookDeliveries(lockedBefore: Date): Promise<number>;
   
   // Dashboard stats
   getDashboardStats(): Promise<{
@@ -164,6 +689,8 @@ export class DatabaseStorage implements IStorage {
     country?: string;
     politicalGroup?: string;
     committee?: string;
+    sortBy?: MEPSortField;
+    sortOrder?: 'asc' | 'desc';
     limit?: number;
     offset?: number;
   }) {
@@ -193,10 +720,10 @@ export class DatabaseStorage implements IStorage {
     let query = db
       .select()
       .from(meps)
-      .leftJoin(mepCommittees, eq(meps.id, mepCommittees.mepId))
+      .leftJoin(mepCommittees, and(eq(meps.id, mepCommittees.mepId), membershipActiveOn()))
       .leftJoin(committees, eq(mepCommittees.committeeId, committees.id))
       .where(and(...whereConditions))
-      .orderBy(meps.lastName, meps.firstName)
+      .orderBy(...mepOrderBy(filters?.sortBy, filters?.sortOrder))
       .limit(limit)
       .offset(offset);
     
@@ -237,7 +764,7 @@ export class DatabaseStorage implements IStorage {
     const results = await db
       .select()
       .from(meps)
-      .leftJoin(mepCommittees, eq(meps.id, mepCommittees.mepId))
+      .leftJoin(mepCommittees, and(eq(meps.id, mepCommittees.mepId), membershipActiveOn()))
       .leftJoin(committees, eq(mepCommittees.committeeId, committees.id))
       .where(eq(meps.id, id));
     
@@ -278,12 +805,177 @@ export class DatabaseStorage implements IStorage {
     await db.delete(meps).where(eq(meps.id, id));
   }
   
-  async getCommittees(limit = 50, offset = 0) {
+  async getMEPMandates(mepId: string) {
+    return await db
+      .select()
+      .from(mepMandates)
+      .where(eq(mepMandates.mepId, mepId))
+      .orderBy(mepMandates.startDate);
+  }
+  
+  async getMandatesHeldOn(day: string) {
+    return await db
+      .select()
+      .from(mepMandates)
+      .where(mandateHeldOn(day));
+  }
+  
+  /**
+   * Replace the stored mandate history of an MEP with the list published upstream.
+   * The upstream mandate list is authoritative, so rows are swapped in one transaction.
+   */
+  async replaceMEPMandates(mepId: string, mandates: Omit<InsertMEPMandate, 'mepId'>[]) {
+    return await db.transaction(async (tx) => {
+      await tx.delete(mepMandates).where(eq(mepMandates.mepId, mepId));
+      if (mandates.length === 0) return [];
+      return await tx
+        .insert(mepMandates)
+        .values(mandateRows(mepId, mandates))
+        .returning();
+    });
+  }
+  
+  async recordMEPProvenance(mepId: string, values: Partial<Record<keyof InsertMEP, unknown>>, provenance: ProvenanceInfo) {
+    const rows = provenanceRows(mepId, values, provenance);
+    if (rows.length === 0) return;
+    await db.insert(mepFieldProvenance).values(rows).onConflictDoUpdate(provenanceConflict);
+  }
+  
+  async getMEPProvenance(mepId: string) {
+    const rows = await db
+      .select()
+      .from(mepFieldProvenance)
+      .where(eq(mepFieldProvenance.mepId, mepId));
+  
+    const provenance: MEPProvenanceMap = {};
+    for (const row of rows) {
+      provenance[row.field] = { source: row.source, sourceUrl: row.sourceUrl, fetchedAt: row.fetchedAt };
+    }
+    return provenance;
+  }
+  
+  async getSourcePrecedenceRules() {
+    return await db.select().from(sourcePrecedenceRules).orderBy(asc(sourcePrecedenceRules.field));
+  }
+  
+  async saveSourcePrecedenceRule(rule: InsertSourcePrecedenceRule) {
+    const values = { ...rule, sources: rule.sources as string[] };
+    const [saved] = await db
+      .insert(sourcePrecedenceRules)
+      .values(values)
+      .onConflictDoUpdate({
+        target: sourcePrecedenceRules.field,
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+  
+  async deleteSourcePrecedenceRule(field: string) {
+    await db.delete(sourcePrecedenceRules).where(eq(sourcePrecedenceRules.field, field));
+  }
+  
+  /**
+   * Queue a conflict for review. An open conflict for the same MEP, field and
+   * source is refreshed instead of duplicated, and a value already dismissed
+   * by a reviewer is not queued again.
+   *
+   * @returns The queued conflict, or undefined when it was dismissed before
+   */
+  async queueFieldConflict(conflict: InsertFieldConflict) {
+    const incomingValue = sql`${JSON.stringify(conflict.incomingValue ?? null)}::jsonb`;
+    const [previous] = await db
+      .select()
+      .from(fieldConflicts)
+      .where(and(
+        eq(fieldConflicts.mepId, conflict.mepId),
+        eq(fieldConflicts.field, conflict.field),
+        eq(fieldConflicts.incomingSource, conflict.incomingSource),
+        inArray(fieldConflicts.status, ['open', 'dismissed']),
+        sql`${fieldConflicts.incomingValue} = ${incomingValue}`
+      ))
+      .orderBy(desc(fieldConflicts.createdAt))
+      .limit(1);
+  
+    if (previous?.status === 'dismissed') return undefined;
+    if (previous) {
+      return await this.updateFieldConflict(previous.id, {
+        currentValue: conflict.currentValue,
+        currentSource: conflict.currentSource,
+        incomingSourceUrl: conflict.incomingSourceUrl,
+        fetchedAt: conflict.fetchedAt,
+      });
+    }
+  
+    const [created] = await db.insert(fieldConflicts).values(conflict).returning();
+    return created;
+  }
+  
+  async getFieldConflicts(filters?: {
+    status?: string;
+    mepId?: string;
+    limit?: number;
+    offset?: number;
+  }) {
+    const limit = filters?.limit || 50;
+    const offset = filters?.offset || 0;
+    
+    const whereConditions = [];
+    if (filters?.status) {
+      whereConditions.push(eq(fieldConflicts.status, filters.status));
+    }
+    if (filters?.mepId) {
+      whereConditions.push(eq(fieldConflicts.mepId, filters.mepId));
+    }
+    
+    const rows = await db
+      .select()
+      .from(fieldConflicts)
+      .innerJoin(meps, eq(fieldConflicts.mepId, meps.id))
+      .where(and(...whereConditions))
+      .orderBy(desc(fieldConflicts.createdAt))
+      .limit(limit)
+      .offset(offset);
+    
+    const [{ count: total }] = await db
+      .select({ count: count() })
+      .from(fieldConflicts)
+      .where(and(...whereConditions));
+    
+    return {
+      conflicts: rows.map(row => ({
+        ...row.field_conflicts,
+        mep: { id: row.meps.id, fullName: row.meps.fullName, country: row.meps.country },
+      })),
+      total
+    };
+  }
+  
+  async getFieldConflict(id: string) {
+    const [conflict] = await db.select().from(fieldConflicts).where(eq(fieldConflicts.id, id));
+    return conflict;
+  }
+  
+  async updateFieldConflict(id: string, conflict: Partial<InsertFieldConflict>) {
+    const [updated] = await db
+      .update(fieldConflicts)
+      .set(conflict)
+      .where(eq(fieldConflicts.id, id))
+      .returning();
+    return updated;
+  }
+  
+  async getCommittees(limit = 50, offset = 0, committeeType?: CommitteeType) {
+    const listed = and(
+      eq(committees.isActive, true),
+      committeeType ? eq(committees.committeeType, committeeType) : undefined
+    );
+    
     // First get the committees with pagination
     const committeesQuery = await db
       .select()
       .from(committees)
-      .where(eq(committees.isActive, true))
+      .where(listed)
       .orderBy(committees.name)
       .limit(limit)
       .offset(offset);
@@ -292,7 +984,7 @@ export class DatabaseStorage implements IStorage {
     const [{ count: total }] = await db
       .select({ count: count() })
       .from(committees)
-      .where(eq(committees.isActive, true));
+      .where(listed);
     
     // If no committees found, return empty result
     if (committeesQuery.length === 0) {
@@ -309,7 +1001,7 @@ export class DatabaseStorage implements IStorage {
     const memberResults = await db
       .select()
       .from(committees)
-      .leftJoin(mepCommittees, eq(committees.id, mepCommittees.committeeId))
+      .leftJoin(mepCommittees, and(eq(committees.id, mepCommittees.committeeId), membershipActiveOn()))
       .leftJoin(meps, eq(mepCommittees.mepId, meps.id))
       .where(and(
         eq(committees.isActive, true),
@@ -342,11 +1034,15 @@ export class DatabaseStorage implements IStorage {
     };
   }
   
-  async getCommittee(id: string) {
+  /**
+   * Get a committee with its members. When `asOf` is given, the composition
+   * and roles are rebuilt as they stood on that day.
+   */
+  async getCommittee(id: string, asOf?: Date) {
     const results = await db
       .select()
       .from(committees)
-      .leftJoin(mepCommittees, eq(committees.id, mepCommittees.committeeId))
+      .leftJoin(mepCommittees, and(eq(committees.id, mepCommittees.committeeId), membershipActiveOn(asOf)))
       .leftJoin(meps, eq(mepCommittees.mepId, meps.id))
       .where(eq(committees.id, id));
     
@@ -366,6 +1062,19 @@ export class DatabaseStorage implements IStorage {
       }
     }
     
+    if (asOf && committee.members.length > 0) {
+      // Roles may have changed since; use the role held on the requested day
+      const roles = await db
+        .select()
+        .from(mepCommitteeRoles)
+        .where(and(
+          inArray(mepCommitteeRoles.membershipId, committee.members.map(m => m.id)),
+          roleActiveOn(asOf)
+        ));
+      const roleMap = new Map(roles.map(r => [r.membershipId, r.role]));
+      committee.members = committee.members.map(m => ({ ...m, role: roleMap.get(m.id) ?? m.role }));
+    }
+    
     return committee;
   }
   
@@ -417,18 +1126,149 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
   
+  async getCommitteeEventByExternalId(externalId: string) {
+    const [event] = await db
+      .select()
+      .from(committeeEvents)
+      .where(eq(committeeEvents.externalId, externalId));
+    return event;
+  }
+  
+  async getLegacyCommitteeEvent(committeeId: string, title: string, startDate: Date) {
+    const [event] = await db
+      .select()
+      .from(committeeEvents)
+      .where(and(
+        isNull(committeeEvents.externalId),
+        eq(committeeEvents.committeeId, committeeId),
+        eq(committeeEvents.title, title),
+        eq(committeeEvents.startDate, startDate)
+      ))
+      .orderBy(asc(committeeEvents.createdAt))
+      .limit(1);
+    return event;
+  }
+
+  async updateCommitteeEvent(id: string, event: Partial<InsertCommitteeEvent>) {
+    const [updated] = await db
+      .update(committeeEvents)
+      .set({ ...event, updatedAt: new Date() })
+      .where(eq(committeeEvents.id, id))
+      .returning();
+    return updated;
+  }
+  
+  /**
+   * Public committee events with their committee, in start order
+   */
+  async getCalendarEvents(filter: CalendarEventFilter) {
+    return await db
+      .select({
+        event: committeeEvents,
+        committee: { id: committees.id, code: committees.code, name: committees.name },
+      })
+      .from(committeeEvents)
+      .innerJoin(committees, eq(committees.id, committeeEvents.committeeId))
+      .where(calendarEventConditions(filter))
+      .orderBy(committeeEvents.startDate);
+  }
+  
   async addMEPToCommittee(mepCommittee: InsertMEPCommittee) {
-    const [created] = await db.insert(mepCommittees).values(mepCommittee).returning();
-    return created;
+    return this.createMEPCommittee(mepCommittee);
   }
   
-  async removeMEPFromCommittee(mepId: string, committeeId: string) {
-    await db.delete(mepCommittees).where(
-      and(
+  async getOpenMEPCommittee(mepId: string, committeeId: string) {
+    const [membership] = await db
+      .select()
+      .from(mepCommittees)
+      .where(and(
         eq(mepCommittees.mepId, mepId),
-        eq(mepCommittees.committeeId, committeeId)
-      )
-    );
+        eq(mepCommittees.committeeId, committeeId),
+        isNull(mepCommittees.endDate)
+      ));
+    return membership || undefined;
+  }
+  
+  /**
+   * Record a role change within an open membership: the current role period is
+   * closed and a new one opened from `effectiveDate` (defaults to today).
+   */
+  async changeMEPCommitteeRole(mepId: string, committeeId: string, role: string, effectiveDate = new Date()) {
+    const membership = await this.getOpenMEPCommittee(mepId, committeeId);
+    if (!membership) {
+      throw new Error(`No open membership for MEP ${mepId} in committee ${committeeId}`);
+    }
+    if (membership.role === role) return membership;
+    
+    const day = toDateOnly(effectiveDate);
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(mepCommitteeRoles)
+        .set({ endDate: day })
+        .where(and(eq(mepCommitteeRoles.membershipId, membership.id), isNull(mepCommitteeRoles.endDate)));
+      await tx.insert(mepCommitteeRoles).values({ membershipId: membership.id, role, startDate: day });
+      const [updated] = await tx
+        .update(mepCommittees)
+        .set({ role })
+        .where(eq(mepCommittees.id, membership.id))
+        .returning();
+      return updated;
+    });
+  }
+  
+  /**
+   * Close an MEP's open membership of a committee. The membership and its role
+   * history are kept so past compositions can still be rebuilt.
+   */
+  async removeMEPFromCommittee(mepId: string, committeeId: string, endDate = new Date()) {
+    const membership = await this.getOpenMEPCommittee(mepId, committeeId);
+    if (!membership) return;
+    
+    const day = toDateOnly(endDate);
+    await db.transaction(async (tx) => {
+      await tx
+        .update(mepCommitteeRoles)
+        .set({ endDate: day })
+        .where(and(eq(mepCommitteeRoles.membershipId, membership.id), isNull(mepCommitteeRoles.endDate)));
+      await tx
+        .update(mepCommittees)
+        .set({ endDate: day })
+        .where(eq(mepCommittees.id, membership.id));
+    });
+  }
+  
+  async getMEPCommitteeRoles(membershipId: string) {
+    return await db
+      .select()
+      .from(mepCommitteeRoles)
+      .where(eq(mepCommitteeRoles.membershipId, membershipId))
+      .orderBy(mepCommitteeRoles.startDate);
+  }
+  
+  async getOpenMEPCommittees() {
+    return await db.select().from(mepCommittees).where(isNull(mepCommittees.endDate));
+  }
+  
+  /**
+   * Mark the origin of a membership, e.g. when authoritative data confirms an
+   * unverified row
+   */
+  async setMEPCommitteeSource(membershipId: string, source: MembershipSource) {
+    await db.update(mepCommittees).set({ source }).where(eq(mepCommittees.id, membershipId));
+  }
+  
+  /**
+   * Delete every membership of unknown origin, with its role history. Unlike
+   * closing a membership, nothing is kept: these rows were never confirmed.
+   * 
+   * @returns Number of memberships deleted
+   */
+  async purgeUnverifiedMEPCommittees() {
+    const deleted = await db
+      .delete(mepCommittees)
+      .where(eq(mepCommittees.source, 'unverified'))
+      .returning({ id: mepCommittees.id });
+    return deleted.length;
   }
   
   async createDataUpdate(update: InsertDataUpdate) {
@@ -454,38 +1294,978 @@ export class DatabaseStorage implements IStorage {
     return latest || undefined;
   }
   
-  async createChangeLog(changeLogEntry: InsertChangeLog) {
-    const [created] = await db.insert(changeLog).values(changeLogEntry).returning();
-    return created;
+  async getSyncState(source: string) {
+    const [state] = await db.select().from(syncState).where(eq(syncState.source, source));
+    return state;
   }
   
-  async getRecentChanges(limit = 10) {
+  async saveSyncState(state: InsertSyncState) {
+    const [saved] = await db
+      .insert(syncState)
+      .values(state)
+      .onConflictDoUpdate({
+        target: syncState.source,
+        set: { ...state, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+  
+  /**
+   * Store a dry-run plan with its changes. Older pending plans of the same
+   * source are superseded, as they were computed against outdated data.
+   */
+  async createSyncPlan(plan: InsertSyncPlan, changes: InsertSyncPlanChange[]) {
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(syncPlans)
+        .set({ status: 'superseded' })
+        .where(and(eq(syncPlans.source, plan.source), eq(syncPlans.status, 'pending')));
+  
+      const [created] = await tx.insert(syncPlans).values(plan).returning();
+      for (let i = 0; i < changes.length; i += SYNC_PLAN_CHANGE_BATCH) {
+        await tx.insert(syncPlanChanges).values(
+          changes.slice(i, i + SYNC_PLAN_CHANGE_BATCH).map(change => ({
+            ...change,
+            planId: created.id,
+            fieldChanges: change.fieldChanges as FieldChange[] | undefined,
+          }))
+        );
+      }
+      return created;
+    });
+  }
+  
+  async getSyncPlans(limit = 20) {
     return await db
       .select()
-      .from(changeLog)
-      .orderBy(desc(changeLog.createdAt))
+      .from(syncPlans)
+      .orderBy(desc(syncPlans.createdAt))
       .limit(limit);
   }
   
-  async getDashboardStats() {
-    const [mepCount] = await db
-      .select({ count: count() })
-      .from(meps)
-      .where(eq(meps.isActive, true));
-    
-    const [committeeCount] = await db
-      .select({ count: count() })
-      .from(committees)
-      .where(eq(committees.isActive, true));
-    
-    const [countryCount] = await db
-      .select({ count: count(sql`DISTINCT ${meps.country}`) })
-      .from(meps)
-      .where(eq(meps.isActive, true));
-    
-    const latestUpdate = await this.getLatestDataUpdate();
-    
-    return {
+  async getSyncPlan(id: string) {
+    const [plan] = await db.select().from(syncPlans).where(eq(syncPlans.id, id));
+    if (!plan) return undefined;
+  
+    const changes = await db
+      .select()
+      .from(syncPlanChanges)
+      .where(eq(syncPlanChanges.planId, id))
+      .orderBy(asc(syncPlanChanges.position));
+    return { ...plan, changes };
+  }
+  
+  async updateSyncPlan(id: string, plan: Partial<InsertSyncPlan>) {
+    const [updated] = await db
+      .update(syncPlans)
+      .set(plan)
+      .where(eq(syncPlans.id, id))
+      .returning();
+    return updated;
+  }
+  
+  async transitionSyncPlan(id: string, fromStatus: SyncPlanStatus, plan: Partial<InsertSyncPlan>) {
+    const [updated] = await db
+      .update(syncPlans)
+      .set(plan)
+      .where(and(eq(syncPlans.id, id), eq(syncPlans.status, fromStatus)))
+      .returning();
+    return updated;
+  }
+  
+  async createJob(job: InsertJob) {
+    const [created] = await db.insert(jobs).values({ ...job, payload: job.payload as Record<string, unknown> | undefined }).returning();
+    return created;
+  }
+  
+  async createScheduledJob(job: InsertJob & { scheduleKey: string }) {
+    const [created] = await db
+      .insert(jobs)
+      .values({ ...job, payload: job.payload as Record<string, unknown> | undefined })
+      .onConflictDoNothing({ target: jobs.scheduleKey })
+      .returning();
+    return created;
+  }
+  
+  async getJob(id: string) {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+  
+  async getJobs(filters?: { status?: string; type?: string; limit?: number }) {
+    const whereConditions = [];
+    if (filters?.status) {
+      whereConditions.push(eq(jobs.status, filters.status));
+    }
+    if (filters?.type) {
+      whereConditions.push(eq(jobs.type, filters.type));
+    }
+  
+    return await db
+      .select()
+      .from(jobs)
+      .where(and(...whereConditions))
+      .orderBy(desc(jobs.createdAt))
+      .limit(filters?.limit || 20);
+  }
+  
+  async updateJob(id: string, job: Partial<InsertJob>) {
+    const [updated] = await db
+      .update(jobs)
+      .set({ ...job, payload: job.payload as Record<string, unknown> | undefined })
+      .where(eq(jobs.id, id))
+      .returning();
+    return updated;
+  }
+  
+  /**
+   * Claim the oldest due job for a worker. Concurrent workers skip rows
+   * locked by each other, so a job is only ever claimed once.
+   */
+  async claimNextJob(workerId: string) {
+    const now = new Date();
+    const next = db
+      .select({ id: jobs.id })
+      .from(jobs)
+      .where(and(eq(jobs.status, 'queued'), lte(jobs.runAt, now)))
+      .orderBy(asc(jobs.runAt))
+      .limit(1)
+      .for('update', { skipLocked: true });
+  
+    const [claimed] = await db
+      .update(jobs)
+      .set({
+        status: 'running',
+        attempts: sql`${jobs.attempts} + 1`,
+        lockedBy: workerId,
+        heartbeatAt: now,
+        startedAt: now,
+        progress: 0,
+        progressMessage: null,
+        error: null,
+      })
+      .where(inArray(jobs.id, next))
+      .returning();
+    return claimed;
+  }
+  
+  /**
+   * Cancel a queued job right away, or flag a running one so its worker
+   * stops at the next progress checkpoint
+   */
+  async requestJobCancel(id: string) {
+    const [job] = await db
+      .update(jobs)
+      .set({
+        cancelRequested: true,
+        status: sql`CASE WHEN ${jobs.status} = 'queued' THEN 'cancelled' ELSE ${jobs.status} END`,
+        completedAt: sql`CASE WHEN ${jobs.status} = 'queued' THEN now() ELSE ${jobs.completedAt} END`,
+      })
+      .where(and(eq(jobs.id, id), inArray(jobs.status, ['queued', 'running'])))
+      .returning();
+    return job;
+  }
+  
+  /**
+   * Put running jobs whose worker stopped sending heartbeats back in the queue
+   */
+  async requeueStaleJobs(heartbeatBefore: Date) {
+    const requeued = await db
+      .update(jobs)
+      .set({ status: 'queued', lockedBy: null, runAt: new Date() })
+      .where(and(eq(jobs.status, 'running'), lte(jobs.heartbeatAt, heartbeatBefore)))
+      .returning({ id: jobs.id });
+    return requeued.length;
+  }
+  
+  async getSyncSchedules() {
+    return await db.select().from(syncSchedules).orderBy(asc(syncSchedules.stage));
+  }
+  
+  /**
+   * Insert default schedules for stages that have none; existing rows are kept
+   */
+  async ensureSyncSchedules(defaults: InsertSyncSchedule[]) {
+    if (defaults.length === 0) return;
+    await db.insert(syncSchedules).values(defaults).onConflictDoNothing();
+  }
+  
+  async updateSyncSchedule(stage: string, schedule: Partial<InsertSyncSchedule>) {
+    const [updated] = await db
+      .update(syncSchedules)
+      .set({ ...schedule, updatedAt: new Date() })
+      .where(eq(syncSchedules.stage, stage))
+      .returning();
+    return updated;
+  }
+  
+  async createGroupTransfer(transfer: InsertGroupTransfer) {
+    const [created] = await db.insert(groupTransfers).values(transfer).returning();
+    return created;
+  }
+  
+  /**
+   * Political group / national party transfers, newest first.
+   * `group` matches either the group left or the group joined.
+   */
+  async getGroupTransfers(filters?: {
+    group?: string;
+    from?: Date;
+    to?: Date;
+    mepId?: string;
+    limit?: number;
+    offset?: number;
+  }) {
+    const limit = filters?.limit || 50;
+    const offset = filters?.offset || 0;
+    
+    const whereConditions = [];
+    if (filters?.group) {
+      whereConditions.push(or(
+        eq(groupTransfers.fromGroupAbbr, filters.group),
+        eq(groupTransfers.toGroupAbbr, filters.group)
+      )!);
+    }
+    if (filters?.from) {
+      whereConditions.push(gte(groupTransfers.transferDate, toDateOnly(filters.from)));
+    }
+    if (filters?.to) {
+      whereConditions.push(lte(groupTransfers.transferDate, toDateOnly(filters.to)));
+    }
+    if (filters?.mepId) {
+      whereConditions.push(eq(groupTransfers.mepId, filters.mepId));
+    }
+    
+    const rows = await db
+      .select()
+      .from(groupTransfers)
+      .innerJoin(meps, eq(groupTransfers.mepId, meps.id))
+      .where(and(...whereConditions))
+      .orderBy(desc(groupTransfers.transferDate), desc(groupTransfers.createdAt))
+      .limit(limit)
+      .offset(offset);
+    
+    const [{ count: total }] = await db
+      .select({ count: count() })
+      .from(groupTransfers)
+      .where(and(...whereConditions));
+    
+    return {
+      transfers: rows.map(row => ({ ...row.group_transfers, mep: row.meps })),
+      total
+    };
+  }
+  
+  async upsertVote(vote: InsertVote) {
+    const [saved] = await db
+      .insert(votes)
+      .values(vote)
+      .onConflictDoUpdate({
+        target: votes.id,
+        set: { ...vote, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+  
+  /**
+   * Replace all individual positions of a vote in one transaction
+   */
+  async replaceVoteResults(voteId: string, results: Omit<InsertVoteResult, 'voteId'>[]) {
+    return await db.transaction(async (tx) => {
+      await tx.delete(voteResults).where(eq(voteResults.voteId, voteId));
+      if (results.length === 0) return 0;
+      const inserted = await tx
+        .insert(voteResults)
+        .values(results.map(result => ({ ...result, voteId })))
+        .returning({ id: voteResults.id });
+      return inserted.length;
+    });
+  }
+  
+  async getLatestVoteDate() {
+    const [latest] = await db
+      .select({ voteDate: votes.voteDate })
+      .from(votes)
+      .orderBy(desc(votes.voteDate))
+      .limit(1);
+    return latest?.voteDate ?? null;
+  }
+  
+  /**
+   * Insert or update a declaration version. When `items` is given the line
+   * items are replaced and the version is marked as parsed.
+   */
+  async saveDeclaration(declaration: InsertMEPDeclaration, items: InsertDeclarationItem[] | null) {
+    return await db.transaction(async (tx) => {
+      const values = items ? { ...declaration, isParsed: true } : declaration;
+      const [saved] = await tx
+        .insert(mepDeclarations)
+        .values(values)
+        .onConflictDoUpdate({
+          target: [mepDeclarations.mepId, mepDeclarations.declarationDate],
+          set: { ...values, updatedAt: new Date() },
+        })
+        .returning();
+      if (items) {
+        await tx.delete(declarationItems).where(eq(declarationItems.declarationId, saved.id));
+        if (items.length > 0) {
+          await tx.insert(declarationItems).values(items.map((item, index) => ({
+            ...item,
+            declarationId: saved.id,
+            position: index,
+          })));
+        }
+      }
+      return saved;
+    });
+  }
+  
+  async getMEPDeclaration(mepId: string, declarationDate: string) {
+    const [declaration] = await db
+      .select()
+      .from(mepDeclarations)
+      .where(and(eq(mepDeclarations.mepId, mepId), eq(mepDeclarations.declarationDate, declarationDate)));
+    return declaration;
+  }
+  
+  /**
+   * All declaration versions of an MEP, newest first, with their line items
+   */
+  async getMEPDeclarations(mepId: string) {
+    const declarations = await db
+      .select()
+      .from(mepDeclarations)
+      .where(eq(mepDeclarations.mepId, mepId))
+      .orderBy(desc(mepDeclarations.declarationDate));
+  
+    const items = declarations.length > 0
+      ? await db
+          .select()
+          .from(declarationItems)
+          .where(inArray(declarationItems.declarationId, declarations.map(declaration => declaration.id)))
+          .orderBy(declarationItems.position)
+      : [];
+  
+    return declarations.map((declaration, index) => ({
+      ...declaration,
+      version: declarations.length - index,
+      items: items.filter(item => item.declarationId === declaration.id),
+    }));
+  }
+  
+  async upsertSpeech(speech: InsertSpeech) {
+    const [saved] = await db
+      .insert(speeches)
+      .values(speech)
+      .onConflictDoUpdate({
+        target: speeches.id,
+        set: { ...speech, updatedAt: new Date() },
+      })
+      .returning(speechColumns);
+    return saved;
+  }
+  
+  async getLatestSpeechDate() {
+    const [latest] = await db
+      .select({ speechDate: speeches.speechDate })
+      .from(speeches)
+      .orderBy(desc(speeches.speechDate))
+      .limit(1);
+    return latest?.speechDate ?? null;
+  }
+  
+  async getMEPSpeeches(mepId: string, filters?: { limit?: number; offset?: number }) {
+    const limit = filters?.limit || 20;
+    const offset = filters?.offset || 0;
+  
+    const [rows, [{ count: total }]] = await Promise.all([
+      db.select(speechColumns)
+        .from(speeches)
+        .where(eq(speeches.mepId, mepId))
+        .orderBy(desc(speeches.speechDate), speeches.id)
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: count() })
+        .from(speeches)
+        .where(eq(speeches.mepId, mepId)),
+    ]);
+  
+    return { speeches: rows, total };
+  }
+  
+  /**
+   * Ranked full-text search with highlighted snippets
+   */
+  async searchSpeeches(filters: {
+    q: string;
+    mepId?: string;
+    language?: string;
+    from?: Date;
+    to?: Date;
+    limit?: number;
+    offset?: number;
+  }) {
+    const limit = filters.limit || 20;
+    const offset = filters.offset || 0;
+    const { where, rank, snippet } = speechSearch(filters);
+  
+    const [rows, [{ count: total }]] = await Promise.all([
+      db.select({
+          ...speechColumns,
+          snippet,
+          rank,
+          mep: {
+            id: meps.id,
+            fullName: meps.fullName,
+            country: meps.country,
+            politicalGroupAbbr: meps.politicalGroupAbbr,
+            photoUrl: meps.photoUrl,
+          },
+        })
+        .from(speeches)
+        .innerJoin(meps, eq(speeches.mepId, meps.id))
+        .where(where)
+        .orderBy(desc(rank), desc(speeches.speechDate))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: count() })
+        .from(speeches)
+        .where(where),
+    ]);
+  
+    return { results: rows, total };
+  }
+  
+  /**
+   * Store a question and replace its author links in one transaction
+   */
+  async upsertQuestion(question: InsertParliamentaryQuestion, authorIds: string[]) {
+    return await db.transaction(async (tx) => {
+      const [saved] = await tx
+        .insert(parliamentaryQuestions)
+        .values(question)
+        .onConflictDoUpdate({
+          target: parliamentaryQuestions.id,
+          set: { ...question, updatedAt: new Date() },
+        })
+        .returning();
+      await tx.delete(questionAuthors).where(eq(questionAuthors.questionId, saved.id));
+      if (authorIds.length > 0) {
+        await tx.insert(questionAuthors).values(authorIds.map(mepId => ({ questionId: saved.id, mepId })));
+      }
+      return saved;
+    });
+  }
+  
+  async getStoredQuestionIds(ids: string[]) {
+    if (ids.length === 0) return new Set<string>();
+    const rows = await db
+      .select({ id: parliamentaryQuestions.id })
+      .from(parliamentaryQuestions)
+      .where(inArray(parliamentaryQuestions.id, ids));
+    return new Set(rows.map(row => row.id));
+  }
+  
+  async getQuestions(filters?: {
+    search?: string;
+    addressee?: string;
+    questionType?: string;
+    mepId?: string;
+    limit?: number;
+    offset?: number;
+  }) {
+    const limit = filters?.limit || 50;
+    const offset = filters?.offset || 0;
+    const whereClause = questionConditions(filters);
+  
+    const [rows, [{ count: total }]] = await Promise.all([
+      db.select()
+        .from(parliamentaryQuestions)
+        .where(whereClause)
+        .orderBy(sql`${parliamentaryQuestions.submittedDate} DESC NULLS LAST`, parliamentaryQuestions.id)
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: count() })
+        .from(parliamentaryQuestions)
+        .where(whereClause),
+    ]);
+  
+    const authorsByQuestion = new Map<string, MEP[]>();
+    if (rows.length > 0) {
+      const authorRows = await db
+        .select()
+        .from(questionAuthors)
+        .innerJoin(meps, eq(questionAuthors.mepId, meps.id))
+        .where(inArray(questionAuthors.questionId, rows.map(row => row.id)));
+      for (const row of authorRows) {
+        const authors = authorsByQuestion.get(row.question_authors.questionId) || [];
+        authors.push(row.meps);
+        authorsByQuestion.set(row.question_authors.questionId, authors);
+      }
+    }
+  
+    return {
+      questions: rows.map(row => ({ ...row, authors: authorsByQuestion.get(row.id) || [] })),
+      total,
+    };
+  }
+  
+  /**
+   * Recompute the per-MEP activity counters from the activity tables
+   */
+  async refreshMEPActivityCounts() {
+    await db.execute(sql`
+      UPDATE meps SET
+        questions_count = (SELECT COUNT(*) FROM question_authors qa WHERE qa.mep_id = meps.id),
+        reports_count = (
+          SELECT COUNT(DISTINCT pr.procedure_reference) FROM procedure_rapporteurs pr
+          WHERE pr.mep_id = meps.id AND pr.role = 'rapporteur'
+        ),
+        speeches_count = (SELECT COUNT(*) FROM speeches s WHERE s.mep_id = meps.id)
+    `);
+  }
+  
+  async upsertProcedure(procedure: InsertProcedure) {
+    const [saved] = await db
+      .insert(procedures)
+      .values(procedure)
+      .onConflictDoUpdate({
+        target: procedures.reference,
+        set: { ...procedure, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+  
+  /**
+   * Replace the committees and rapporteurs of a procedure in one transaction
+   */
+  async replaceProcedureParticipants(
+    reference: string,
+    committeeLinks: Omit<InsertProcedureCommittee, 'procedureReference'>[],
+    rapporteurs: Omit<InsertProcedureRapporteur, 'procedureReference'>[]
+  ) {
+    await db.transaction(async (tx) => {
+      await tx.delete(procedureCommittees).where(eq(procedureCommittees.procedureReference, reference));
+      await tx.delete(procedureRapporteurs).where(eq(procedureRapporteurs.procedureReference, reference));
+      if (committeeLinks.length > 0) {
+        await tx.insert(procedureCommittees).values(committeeLinks.map(link => ({ ...link, procedureReference: reference })));
+      }
+      if (rapporteurs.length > 0) {
+        await tx.insert(procedureRapporteurs).values(rapporteurs.map(rapporteur => ({ ...rapporteur, procedureReference: reference })));
+      }
+    });
+  }
+  
+  async getProcedure(reference: string): Promise<ProcedureWithDetails | undefined> {
+    const [procedure] = await db.select().from(procedures).where(eq(procedures.reference, reference));
+    if (!procedure) return undefined;
+  
+    const [committeeRows, rapporteurRows] = await Promise.all([
+      db.select()
+        .from(procedureCommittees)
+        .innerJoin(committees, eq(procedureCommittees.committeeId, committees.id))
+        .where(eq(procedureCommittees.procedureReference, reference))
+        .orderBy(procedureCommittees.role, committees.code),
+      db.select()
+        .from(procedureRapporteurs)
+        .innerJoin(meps, eq(procedureRapporteurs.mepId, meps.id))
+        .leftJoin(committees, eq(procedureRapporteurs.committeeId, committees.id))
+        .where(eq(procedureRapporteurs.procedureReference, reference))
+        .orderBy(procedureRapporteurs.role, meps.lastName),
+    ]);
+  
+    return {
+      ...procedure,
+      committees: committeeRows.map(row => ({ ...row.procedure_committees, committee: row.committees })),
+      rapporteurs: rapporteurRows.map(row => ({ ...row.procedure_rapporteurs, mep: row.meps, committee: row.committees })),
+    };
+  }
+  
+  async getCommitteeProcedures(committeeId: string, limit = 50): Promise<CommitteeProcedure[]> {
+    const rows = await db
+      .select()
+      .from(procedureCommittees)
+      .innerJoin(procedures, eq(procedureCommittees.procedureReference, procedures.reference))
+      .where(eq(procedureCommittees.committeeId, committeeId))
+      .orderBy(sql`${procedures.lastEventDate} DESC NULLS LAST`, procedures.reference)
+      .limit(limit);
+  
+    return rows.map(row => ({ ...row.procedures, role: row.procedure_committees.role }));
+  }
+  
+  async createChangeLog(changeLogEntry: InsertChangeLog) {
+    const [created] = await db.insert(changeLog).values(withFieldChanges(changeLogEntry)).returning();
+    return created;
+  }
+  
+  async getRecentChanges(limit = 10) {
+    return await db
+      .select()
+      .from(changeLog)
+      .orderBy(desc(changeLog.createdAt))
+      .limit(limit);
+  }
+  
+  async getEntityHistory(entityType: string, entityId: string, filters?: {
+    from?: Date;
+    to?: Date;
+    limit?: number;
+    offset?: number;
+  }) {
+    const limit = filters?.limit || 50;
+    const offset = filters?.offset || 0;
+    const whereClause = entityHistoryConditions(entityType, entityId, filters);
+    
+    const changes = await db
+      .select()
+      .from(changeLog)
+      .where(whereClause)
+      .orderBy(desc(changeLog.createdAt))
+      .limit(limit)
+      .offset(offset);
+    
+    const [{ count: total }] = await db
+      .select({ count: count() })
+      .from(changeLog)
+      .where(whereClause);
+    
+    return { changes, total };
+  }
+  
+  /**
+   * Followed MEPs and committees of a user, oldest first, with their names
+   */
+  async getWatchlist(userId: string) {
+    const rows = await db
+      .select({
+        entry: watchlistEntries,
+        mepName: meps.fullName,
+        committeeName: committees.name,
+        committeeCode: committees.code,
+      })
+      .from(watchlistEntries)
+      .leftJoin(meps, and(eq(watchlistEntries.entityType, 'mep'), eq(meps.id, watchlistEntries.entityId)))
+      .leftJoin(committees, and(eq(watchlistEntries.entityType, 'committee'), eq(committees.id, watchlistEntries.entityId)))
+      .where(eq(watchlistEntries.userId, userId))
+      .orderBy(watchlistEntries.createdAt);
+    
+    return rows.map(row => ({
+      ...row.entry,
+      name: row.mepName ?? row.committeeName,
+      code: row.committeeCode,
+    }));
+  }
+  
+  /**
+   * Follow an entity; following it again returns the existing entry
+   */
+  async followEntity(entry: InsertWatchlistEntry) {
+    const [created] = await db
+      .insert(watchlistEntries)
+      .values(entry)
+      .onConflictDoNothing()
+      .returning();
+    if (created) return created;
+    
+    const [existing] = await db
+      .select()
+      .from(watchlistEntries)
+      .where(and(
+        eq(watchlistEntries.userId, entry.userId),
+        eq(watchlistEntries.entityType, entry.entityType),
+        eq(watchlistEntries.entityId, entry.entityId)
+      ));
+    return existing;
+  }
+  
+  async unfollowEntity(userId: string, entityType: WatchEntityType, entityId: string) {
+    const deleted = await db
+      .delete(watchlistEntries)
+      .where(and(
+        eq(watchlistEntries.userId, userId),
+        eq(watchlistEntries.entityType, entityType),
+        eq(watchlistEntries.entityId, entityId)
+      ))
+      .returning({ id: watchlistEntries.id });
+    return deleted.length > 0;
+  }
+  
+  /**
+   * "My changes" feed: change log entries of followed entities and events
+   * added to followed committees, newest first
+   */
+  async getWatchlistFeed(userId: string, filters?: { since?: Date; limit?: number; offset?: number }) {
+    const limit = filters?.limit || 50;
+    const offset = filters?.offset || 0;
+    const since = filters?.since;
+    // Each source is read up to the end of the requested page before merging
+    const window = offset + limit;
+    
+    const changes = await db
+      .select({ change: changeLog })
+      .from(changeLog)
+      .innerJoin(watchlistEntries, watchedChanges(userId, since))
+      .orderBy(desc(changeLog.createdAt))
+      .limit(window);
+    
+    const events = await db
+      .select({
+        event: committeeEvents,
+        committee: { id: committees.id, code: committees.code, name: committees.name },
+      })
+      .from(committeeEvents)
+      .innerJoin(watchlistEntries, watchedCommitteeEvents(userId, since))
+      .innerJoin(committees, eq(committees.id, committeeEvents.committeeId))
+      .orderBy(desc(committeeEvents.createdAt))
+      .limit(window);
+    
+    const [{ count: changeTotal }] = await db
+      .select({ count: count() })
+      .from(changeLog)
+      .innerJoin(watchlistEntries, watchedChanges(userId, since));
+    
+    const [{ count: eventTotal }] = await db
+      .select({ count: count() })
+      .from(committeeEvents)
+      .innerJoin(watchlistEntries, watchedCommitteeEvents(userId, since));
+    
+    const items = toWatchlistFeed(changes.map(row => row.change), events).slice(offset, window);
+    return { items, total: changeTotal + eventTotal };
+  }
+  
+  async getNotificationPreferences(userId: string) {
+    const [preferences] = await db
+      .select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId));
+    return preferences;
+  }
+  
+  async saveNotificationPreferences(preferences: InsertNotificationPreferences) {
+    const [saved] = await db
+      .insert(notificationPreferences)
+      .values(preferences)
+      .onConflictDoUpdate({
+        target: notificationPreferences.userId,
+        set: { ...preferences, updatedAt: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+  
+  /**
+   * Users subscribed to a digest frequency who have an email address
+   */
+  async getDigestRecipients(frequency: DigestFrequency) {
+    const rows = await db
+      .select()
+      .from(notificationPreferences)
+      .innerJoin(users, eq(users.id, notificationPreferences.userId))
+      .where(and(
+        eq(notificationPreferences.digestFrequency, frequency),
+        sql`${users.email} IS NOT NULL`
+      ));
+    return rows.map(row => ({ user: row.users, preferences: row.notification_preferences }));
+  }
+  
+  async markDigestSent(userId: string, coveredUntil: Date) {
+    await db
+      .update(notificationPreferences)
+      .set({ lastDigestAt: coveredUntil })
+      .where(eq(notificationPreferences.userId, userId));
+  }
+  
+  async getNotificationPreferencesByCalendarToken(token: string) {
+    const [preferences] = await db
+      .select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.calendarToken, token));
+    return preferences;
+  }
+  
+  /**
+   * List subscriptions, newest first, with pending and failed delivery counts
+   */
+  async getWebhookSubscriptions() {
+    const rows = await db
+      .select({
+        subscription: webhookSubscriptions,
+        pendingDeliveries: sql<number>`count(${webhookDeliveries.id}) filter (where ${webhookDeliveries.status} = 'pending')`.mapWith(Number),
+        failedDeliveries: sql<number>`count(${webhookDeliveries.id}) filter (where ${webhookDeliveries.status} = 'failed')`.mapWith(Number),
+        lastDeliveredAt: sql<Date | null>`max(${webhookDeliveries.deliveredAt})`.mapWith((value: string | null) => value === null ? null : new Date(value)),
+      })
+      .from(webhookSubscriptions)
+      .leftJoin(webhookDeliveries, eq(webhookDeliveries.subscriptionId, webhookSubscriptions.id))
+      .groupBy(webhookSubscriptions.id)
+      .orderBy(desc(webhookSubscriptions.createdAt));
+  
+    return rows.map(({ subscription, ...stats }) => ({ ...subscription, ...stats }));
+  }
+  
+  async getWebhookSubscription(id: string) {
+    const [subscription] = await db.select().from(webhookSubscriptions).where(eq(webhookSubscriptions.id, id));
+    return subscription;
+  }
+  
+  /**
+   * Active subscriptions whose event filter includes `eventType`
+   */
+  async getWebhookSubscriptionsForEvent(eventType: WebhookEventType) {
+    return await db
+      .select()
+      .from(webhookSubscriptions)
+      .where(and(
+        eq(webhookSubscriptions.isActive, true),
+        sql`${webhookSubscriptions.eventTypes} @> ${JSON.stringify([eventType])}::jsonb`
+      ));
+  }
+  
+  async createWebhookSubscription(subscription: InsertWebhookSubscription) {
+    const [created] = await db
+      .insert(webhookSubscriptions)
+      .values({ ...subscription, eventTypes: subscription.eventTypes as WebhookEventType[] })
+      .returning();
+    return created;
+  }
+  
+  async updateWebhookSubscription(id: string, subscription: Partial<InsertWebhookSubscription>) {
+    const [updated] = await db
+      .update(webhookSubscriptions)
+      .set({ ...subscription, eventTypes: subscription.eventTypes as WebhookEventType[] | undefined, updatedAt: new Date() })
+      .where(eq(webhookSubscriptions.id, id))
+      .returning();
+    return updated;
+  }
+  
+  async deleteWebhookSubscription(id: string) {
+    const deleted = await db
+      .delete(webhookSubscriptions)
+      .where(eq(webhookSubscriptions.id, id))
+      .returning({ id: webhookSubscriptions.id });
+    return deleted.length > 0;
+  }
+  
+  async createWebhookDeliveries(deliveries: InsertWebhookDelivery[]) {
+    if (deliveries.length === 0) return [];
+    return await db
+      .insert(webhookDeliveries)
+      .values(deliveries.map(delivery => ({ ...delivery, payload: delivery.payload as Record<string, unknown> })))
+      .returning();
+  }
+  
+  async getWebhookDeliveries(subscriptionId: string, filters?: {
+    status?: WebhookDeliveryStatus;
+    limit?: number;
+    offset?: number;
+  }) {
+    const whereConditions = [eq(webhookDeliveries.subscriptionId, subscriptionId)];
+    if (filters?.status) {
+      whereConditions.push(eq(webhookDeliveries.status, filters.status));
+    }
+  
+    const [deliveries, [totalResult]] = await Promise.all([
+      db
+        .select()
+        .from(webhookDeliveries)
+        .where(and(...whereConditions))
+        .orderBy(desc(webhookDeliveries.createdAt))
+        .limit(filters?.limit || 50)
+        .offset(filters?.offset || 0),
+      db
+        .select({ count: count() })
+        .from(webhookDeliveries)
+        .where(and(...whereConditions)),
+    ]);
+  
+    return { deliveries, total: totalResult.count };
+  }
+  
+  async getWebhookDelivery(id: string) {
+    const [delivery] = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return delivery;
+  }
+  
+  async updateWebhookDelivery(id: string, delivery: Partial<InsertWebhookDelivery>) {
+    const [updated] = await db
+      .update(webhookDeliveries)
+      .set({ ...delivery, payload: delivery.payload as Record<string, unknown> | undefined })
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    return updated;
+  }
+  
+  /**
+   * Claim the oldest due delivery of an active subscription and count the
+   * attempt. Concurrent workers skip rows locked by each other; deliveries of
+   * disabled subscriptions wait until they are enabled again.
+   */
+  async claimNextWebhookDelivery(workerId: string) {
+    const now = new Date();
+    const next = db
+      .select({ id: webhookDeliveries.id })
+      .from(webhookDeliveries)
+      .where(and(
+        eq(webhookDeliveries.status, 'pending'),
+        isNull(webhookDeliveries.lockedBy),
+        lte(webhookDeliveries.nextAttemptAt, now),
+        inArray(
+          webhookDeliveries.subscriptionId,
+          db.select({ id: webhookSubscriptions.id }).from(webhookSubscriptions).where(eq(webhookSubscriptions.isActive, true))
+        )
+      ))
+      .orderBy(asc(webhookDeliveries.nextAttemptAt))
+      .limit(1)
+      .for('update', { skipLocked: true });
+  
+    const [claimed] = await db
+      .update(webhookDeliveries)
+      .set({
+        attempts: sql`${webhookDeliveries.attempts} + 1`,
+        lockedBy: workerId,
+        lockedAt: now,
+      })
+      .where(inArray(webhookDeliveries.id, next))
+      .returning();
+    return claimed;
+  }
+  
+  /**
+   * Release deliveries claimed by a worker that never reported back
+   */
+  async releaseStaleWebhookDeliveries(lockedBefore: Date) {
+    const released = await db
+      .update(webhookDeliveries)
+      .set({ lockedBy: null, lockedAt: null })
+      .where(and(
+        eq(webhookDeliveries.status, 'pending'),
+        lte(webhookDeliveries.lockedAt, lockedBefore)
+      ))
+      .returning({ id: webhookDeliveries.id });
+    return released.length;
+  }
+  
+  async getDashboardStats() {
+    const [mepCount] = await db
+      .select({ count: count() })
+      .from(meps)
+      .where(eq(meps.isActive, true));
+    
+    const [committeeCount] = await db
+      .select({ count: count() })
+      .from(committees)
+      .where(eq(committees.isActive, true));
+    
+    const [countryCount] = await db
+      .select({ count: count(sql`DISTINCT ${meps.country}`) })
+      .from(meps)
+      .where(eq(meps.isActive, true));
+    
+    const latestUpdate = await this.getLatestDataUpdate();
+    
+    return {
       totalMEPs: mepCount.count,
       totalCommittees: committeeCount.count,
       totalCountries: countryCount.count,
@@ -507,12 +2287,25 @@ export class DatabaseStorage implements IStorage {
       .where(eq(committees.isActive, true));
   }
 
+  /**
+   * Open a new membership period, seeding its role history with the initial role.
+   * Fails if the MEP already has an open membership of the committee.
+   */
   async createMEPCommittee(mepCommittee: InsertMEPCommittee): Promise<MEPCommittee> {
-    const [newMEPCommittee] = await db
-      .insert(mepCommittees)
-      .values(mepCommittee)
-      .returning();
-    return newMEPCommittee;
+    return await db.transaction(async (tx) => {
+      const [newMEPCommittee] = await tx
+        .insert(mepCommittees)
+        .values(mepCommittee)
+        .returning();
+      if (newMEPCommittee.role) {
+        await tx.insert(mepCommitteeRoles).values({
+          membershipId: newMEPCommittee.id,
+          role: newMEPCommittee.role,
+          startDate: newMEPCommittee.startDate
+        });
+      }
+      return newMEPCommittee;
+    });
   }
 
   // User operations (mandatory for Replit Auth)
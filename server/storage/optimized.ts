@@ -1,32 +1,110 @@
 import { 
   meps, 
+  mepMandates,
+  mepFieldProvenance,
+  sourcePrecedenceRules,
+  fieldConflicts,
   committees, 
   mepCommittees, 
-  dataUpdates, 
+  mepCommitteeRoles,
+  dataUpdates,
+  syncState, 
+  syncPlans,
+  syncPlanChanges,
+  jobs,
+  syncSchedules,
   changeLog,
   committeeEvents,
+  groupTransfers,
+  votes,
+  voteResults,
+  procedures,
+  procedureCommittees,
+  procedureRapporteurs,
+  parliamentaryQuestions,
+  questionAuthors,
+  speeches,
+  mepDeclarations,
+  declarationItems,
   users,
+  watchlistEntries,
+  notificationPreferences,
+  webhookSubscriptions,
+  webhookDeliveries,
   type MEP, 
   type InsertMEP,
+  type MEPMandate,
+  type InsertMEPMandate,
+  type ProvenanceInfo,
+  type MEPProvenanceMap,
+  type SourcePrecedenceRule,
+  type InsertSourcePrecedenceRule,
+  type FieldConflict,
+  type InsertFieldConflict,
+  type FieldConflictWithMEP,
   type Committee, 
   type InsertCommittee,
+  type CommitteeType,
   type MEPCommittee,
   type InsertMEPCommittee,
+  type MembershipSource,
   type DataUpdate,
   type InsertDataUpdate,
+  type SyncState,
+  type InsertSyncState,
+  type SyncPlan,
+  type SyncPlanStatus,
+  type InsertSyncPlan,
+  type InsertSyncPlanChange,
+  type SyncPlanWithChanges,
+  type Job,
+  type InsertJob,
+  type SyncSchedule,
+  type InsertSyncSchedule,
   type ChangeLog,
   type InsertChangeLog,
+  type FieldChange,
   type CommitteeEvent,
   type InsertCommitteeEvent,
+  type GroupTransfer,
+  type InsertGroupTransfer,
+  type GroupTransferWithMEP,
+  type Vote,
+  type InsertVote,
+  type InsertVoteResult,
+  type ParliamentaryQuestion,
+  type InsertParliamentaryQuestion,
+  type QuestionWithAuthors,
+  type MEPDeclaration,
+  type InsertMEPDeclaration,
+  type InsertDeclarationItem,
+  type DeclarationWithItems,
+  type Speech,
+  type InsertSpeech,
+  type SpeechSearchResult,
+  type Procedure,
+  type InsertProcedure,
+  type InsertProcedureCommittee,
+  type InsertProcedureRapporteur,
+  type ProcedureWithDetails,
+  type CommitteeProcedure,
   type User,
   type UpsertUser,
+  type InsertWatchlistEntry,
+  type WatchEntityType,
+  type InsertNotificationPreferences,
+  type DigestFrequency,
+  type InsertWebhookSubscription,
+  type InsertWebhookDelivery,
+  type WebhookEventType,
+  type WebhookDeliveryStatus,
   type MEPWithCommittees,
   type CommitteeWithMembers
 } from "@shared/schema";
 import { db } from "../db";
-import { eq, desc, like, and, or, sql, count, ilike, gte, lte, inArray } from "drizzle-orm";
+import { eq, asc, desc, like, and, or, sql, count, ilike, gte, lte, inArray, isNull } from "drizzle-orm";
 import { apiCache } from "../utils/cache";
-import { IStorage } from "../storage";
+import { IStorage, type CalendarEventFilter, calendarEventConditions, membershipActiveOn, roleActiveOn, mandateHeldOn, toDateOnly, withFieldChanges, entityHistoryConditions, watchedChanges, watchedCommitteeEvents, toWatchlistFeed, mepOrderBy, questionConditions, speechColumns, speechSearch, SYNC_PLAN_CHANGE_BATCH, provenanceRows, mandateRows, provenanceConflict, type MEPSortField } from "../storage";
 
 /**
  * OptimizedStorage - High-performance storage layer for EU Parliament data
@@ -56,6 +134,8 @@ export class OptimizedStorage implements IStorage {
     country?: string;
     politicalGroup?: string;
     committee?: string;
+    sortBy?: MEPSortField;
+    sortOrder?: 'asc' | 'desc';
     limit?: number;
     offset?: number;
   }) {
@@ -96,7 +176,7 @@ export class OptimizedStorage implements IStorage {
           db.select({ id: mepCommittees.mepId })
             .from(mepCommittees)
             .innerJoin(committees, eq(mepCommittees.committeeId, committees.id))
-            .where(eq(committees.code, filters.committee))
+            .where(and(eq(committees.code, filters.committee), membershipActiveOn()))
         )
       );
     }
@@ -104,7 +184,7 @@ export class OptimizedStorage implements IStorage {
     // Get paginated MEPs
     const paginatedMeps = await db.select().from(meps)
       .where(and(...whereConditions))
-      .orderBy(meps.lastName, meps.firstName)
+      .orderBy(...mepOrderBy(filters?.sortBy, filters?.sortOrder))
       .limit(limit)
       .offset(offset);
 
@@ -120,7 +200,7 @@ export class OptimizedStorage implements IStorage {
       .select()
       .from(mepCommittees)
       .innerJoin(committees, eq(mepCommittees.committeeId, committees.id))
-      .where(inArray(mepCommittees.mepId, mepIds));
+      .where(and(inArray(mepCommittees.mepId, mepIds), membershipActiveOn()));
 
     // Build MEP-committee mapping
     const membershipMap = new Map<string, Array<{ mepCommittee: MEPCommittee; committee: Committee }>>();
@@ -174,7 +254,7 @@ export class OptimizedStorage implements IStorage {
       .select()
       .from(mepCommittees)
       .innerJoin(committees, eq(mepCommittees.committeeId, committees.id))
-      .where(eq(mepCommittees.mepId, id));
+      .where(and(eq(mepCommittees.mepId, id), membershipActiveOn()));
 
     const result: MEPWithCommittees = {
       ...mep,
@@ -215,25 +295,199 @@ export class OptimizedStorage implements IStorage {
     apiCache.delete(`mep_${id}`);
   }
 
+  /**
+   * Mandate history for a single MEP, oldest mandate first
+   */
+  async getMEPMandates(mepId: string) {
+    const cacheKey = `mep_mandates_${mepId}`;
+    const cached = apiCache.get<MEPMandate[]>(cacheKey);
+    if (cached) return cached;
+
+    const mandates = await db
+      .select()
+      .from(mepMandates)
+      .where(eq(mepMandates.mepId, mepId))
+      .orderBy(mepMandates.startDate);
+
+    apiCache.set(cacheKey, mandates, 10 * 60 * 1000); // 10 minutes cache
+    return mandates;
+  }
+
+  async getMandatesHeldOn(day: string) {
+    return await db
+      .select()
+      .from(mepMandates)
+      .where(mandateHeldOn(day));
+  }
+
+  async replaceMEPMandates(mepId: string, mandates: Omit<InsertMEPMandate, 'mepId'>[]) {
+    const replaced = await db.transaction(async (tx) => {
+      await tx.delete(mepMandates).where(eq(mepMandates.mepId, mepId));
+      if (mandates.length === 0) return [];
+      return await tx
+        .insert(mepMandates)
+        .values(mandateRows(mepId, mandates))
+        .returning();
+    });
+
+    apiCache.delete(`mep_mandates_${mepId}`);
+    return replaced;
+  }
+
   /**
    * Optimized committees query
    */
-  async getCommittees(limit = 50, offset = 0) {
-    const cacheKey = `committees_${limit}_${offset}`;
+  async recordMEPProvenance(mepId: string, values: Partial<Record<keyof InsertMEP, unknown>>, provenance: ProvenanceInfo) {
+    const rows = provenanceRows(mepId, values, provenance);
+    if (rows.length === 0) return;
+    await db.insert(mepFieldProvenance).values(rows).onConflictDoUpdate(provenanceConflict);
+    apiCache.delete(`mep_provenance_${mepId}`);
+  }
+
+  async getMEPProvenance(mepId: string) {
+    const cacheKey = `mep_provenance_${mepId}`;
+    const cached = apiCache.get<MEPProvenanceMap>(cacheKey);
+    if (cached) return cached;
+
+    const rows = await db
+      .select()
+      .from(mepFieldProvenance)
+      .where(eq(mepFieldProvenance.mepId, mepId));
+
+    const provenance: MEPProvenanceMap = {};
+    for (const row of rows) {
+      provenance[row.field] = { source: row.source, sourceUrl: row.sourceUrl, fetchedAt: row.fetchedAt };
+    }
+
+    apiCache.set(cacheKey, provenance, 10 * 60 * 1000); // 10 minutes cache
+    return provenance;
+  }
+
+  async getSourcePrecedenceRules() {
+    return await db.select().from(sourcePrecedenceRules).orderBy(asc(sourcePrecedenceRules.field));
+  }
+
+  async saveSourcePrecedenceRule(rule: InsertSourcePrecedenceRule) {
+    const values = { ...rule, sources: rule.sources as string[] };
+    const [saved] = await db
+      .insert(sourcePrecedenceRules)
+      .values(values)
+      .onConflictDoUpdate({
+        target: sourcePrecedenceRules.field,
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteSourcePrecedenceRule(field: string) {
+    await db.delete(sourcePrecedenceRules).where(eq(sourcePrecedenceRules.field, field));
+  }
+
+  async queueFieldConflict(conflict: InsertFieldConflict) {
+    const incomingValue = sql`${JSON.stringify(conflict.incomingValue ?? null)}::jsonb`;
+    const [previous] = await db
+      .select()
+      .from(fieldConflicts)
+      .where(and(
+        eq(fieldConflicts.mepId, conflict.mepId),
+        eq(fieldConflicts.field, conflict.field),
+        eq(fieldConflicts.incomingSource, conflict.incomingSource),
+        inArray(fieldConflicts.status, ['open', 'dismissed']),
+        sql`${fieldConflicts.incomingValue} = ${incomingValue}`
+      ))
+      .orderBy(desc(fieldConflicts.createdAt))
+      .limit(1);
+
+    if (previous?.status === 'dismissed') return undefined;
+    if (previous) {
+      return await this.updateFieldConflict(previous.id, {
+        currentValue: conflict.currentValue,
+        currentSource: conflict.currentSource,
+        incomingSourceUrl: conflict.incomingSourceUrl,
+        fetchedAt: conflict.fetchedAt,
+      });
+    }
+
+    const [created] = await db.insert(fieldConflicts).values(conflict).returning();
+    return created;
+  }
+
+  async getFieldConflicts(filters?: {
+    status?: string;
+    mepId?: string;
+    limit?: number;
+    offset?: number;
+  }) {
+    const limit = filters?.limit || 50;
+    const offset = filters?.offset || 0;
+    
+    const whereConditions = [];
+    if (filters?.status) {
+      whereConditions.push(eq(fieldConflicts.status, filters.status));
+    }
+    if (filters?.mepId) {
+      whereConditions.push(eq(fieldConflicts.mepId, filters.mepId));
+    }
+    
+    const rows = await db
+      .select()
+      .from(fieldConflicts)
+      .innerJoin(meps, eq(fieldConflicts.mepId, meps.id))
+      .where(and(...whereConditions))
+      .orderBy(desc(fieldConflicts.createdAt))
+      .limit(limit)
+      .offset(offset);
+    
+    const [{ count: total }] = await db
+      .select({ count: count() })
+      .from(fieldConflicts)
+      .where(and(...whereConditions));
+    
+    return {
+      conflicts: rows.map(row => ({
+        ...row.field_conflicts,
+        mep: { id: row.meps.id, fullName: row.meps.fullName, country: row.meps.country },
+      })),
+      total
+    };
+  }
+
+  async getFieldConflict(id: string) {
+    const [conflict] = await db.select().from(fieldConflicts).where(eq(fieldConflicts.id, id));
+    return conflict;
+  }
+
+  async updateFieldConflict(id: string, conflict: Partial<InsertFieldConflict>) {
+    const [updated] = await db
+      .update(fieldConflicts)
+      .set(conflict)
+      .where(eq(fieldConflicts.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getCommittees(limit = 50, offset = 0, committeeType?: CommitteeType) {
+    const cacheKey = `committees_${limit}_${offset}_${committeeType ?? 'all'}`;
     const cached = apiCache.get<{ committees: CommitteeWithMembers[]; total: number }>(cacheKey);
     if (cached) return cached;
 
+    const listed = and(
+      eq(committees.isActive, true),
+      committeeType ? eq(committees.committeeType, committeeType) : undefined
+    );
+
     // Get total count first
     const [{ count: total }] = await db
       .select({ count: count() })
       .from(committees)
-      .where(eq(committees.isActive, true));
+      .where(listed);
 
     // Get paginated committees
     const committeesQuery = await db
       .select()
       .from(committees)
-      .where(eq(committees.isActive, true))
+      .where(listed)
       .orderBy(committees.name)
       .limit(limit)
       .offset(offset);
@@ -250,7 +504,7 @@ export class OptimizedStorage implements IStorage {
       .select()
       .from(mepCommittees)
       .innerJoin(meps, eq(mepCommittees.mepId, meps.id))
-      .where(inArray(mepCommittees.committeeId, committeeIds));
+      .where(and(inArray(mepCommittees.committeeId, committeeIds), membershipActiveOn()));
 
     // Build committee-member mapping
     const memberMap = new Map<string, Array<{ mepCommittee: MEPCommittee; mep: MEP }>>();
@@ -282,8 +536,11 @@ export class OptimizedStorage implements IStorage {
     return result;
   }
 
-  async getCommittee(id: string) {
-    const cacheKey = `committee_${id}`;
+  /**
+   * Committee with its members, optionally as composed on a past day
+   */
+  async getCommittee(id: string, asOf?: Date) {
+    const cacheKey = asOf ? `committee_${id}_asof_${toDateOnly(asOf)}` : `committee_${id}`;
     const cached = apiCache.get<CommitteeWithMembers>(cacheKey);
     if (cached) return cached;
 
@@ -294,12 +551,26 @@ export class OptimizedStorage implements IStorage {
       .select()
       .from(mepCommittees)
       .innerJoin(meps, eq(mepCommittees.mepId, meps.id))
-      .where(eq(mepCommittees.committeeId, id));
+      .where(and(eq(mepCommittees.committeeId, id), membershipActiveOn(asOf)));
+
+    // Historical views use the role held on the requested day
+    const roleMap = new Map<string, string>();
+    if (asOf && members.length > 0) {
+      const roles = await db
+        .select()
+        .from(mepCommitteeRoles)
+        .where(and(
+          inArray(mepCommitteeRoles.membershipId, members.map(row => row.mep_committees.id)),
+          roleActiveOn(asOf)
+        ));
+      roles.forEach(r => roleMap.set(r.membershipId, r.role));
+    }
 
     const result: CommitteeWithMembers = {
       ...committee,
       members: members.map(row => ({
         ...row.mep_committees,
+        role: roleMap.get(row.mep_committees.id) ?? row.mep_committees.role,
         mep: row.meps
       }))
     };
@@ -371,35 +642,158 @@ export class OptimizedStorage implements IStorage {
     return created;
   }
 
+  async getCommitteeEventByExternalId(externalId: string) {
+    const [event] = await db
+      .select()
+      .from(committeeEvents)
+      .where(eq(committeeEvents.externalId, externalId));
+    return event;
+  }
+
+  async getLegacyCommitteeEvent(committeeId: string, title: string, startDate: Date) {
+    const [event] = await db
+      .select()
+      .from(committeeEvents)
+      .where(and(
+        isNull(committeeEvents.externalId),
+        eq(committeeEvents.committeeId, committeeId),
+        eq(committeeEvents.title, title),
+        eq(committeeEvents.startDate, startDate)
+      ))
+      .orderBy(asc(committeeEvents.createdAt))
+      .limit(1);
+    return event;
+  }
+
+  async updateCommitteeEvent(id: string, event: Partial<InsertCommitteeEvent>) {
+    const [updated] = await db
+      .update(committeeEvents)
+      .set({ ...event, updatedAt: new Date() })
+      .where(eq(committeeEvents.id, id))
+      .returning();
+    if (updated) {
+      apiCache.delete(`committee_events_${updated.committeeId}_3`);
+    }
+    return updated;
+  }
+
+  async getCalendarEvents(filter: CalendarEventFilter) {
+    return await db
+      .select({
+        event: committeeEvents,
+        committee: { id: committees.id, code: committees.code, name: committees.name },
+      })
+      .from(committeeEvents)
+      .innerJoin(committees, eq(committees.id, committeeEvents.committeeId))
+      .where(calendarEventConditions(filter))
+      .orderBy(committeeEvents.startDate);
+  }
+
   async addMEPToCommittee(mepCommittee: InsertMEPCommittee) {
     return this.createMEPCommittee(mepCommittee);
   }
 
   async createMEPCommittee(mepCommittee: InsertMEPCommittee) {
-    const [created] = await db.insert(mepCommittees).values(mepCommittee).returning();
-    
-    // Invalidate related caches
-    this.invalidateMEPCaches();
-    this.invalidateCommitteeCaches();
-    apiCache.delete(`mep_${mepCommittee.mepId}`);
-    apiCache.delete(`committee_${mepCommittee.committeeId}`);
+    const created = await db.transaction(async (tx) => {
+      const [membership] = await tx.insert(mepCommittees).values(mepCommittee).returning();
+      if (membership.role) {
+        await tx.insert(mepCommitteeRoles).values({
+          membershipId: membership.id,
+          role: membership.role,
+          startDate: membership.startDate
+        });
+      }
+      return membership;
+    });
     
+    this.invalidateMembershipCaches(mepCommittee.mepId, mepCommittee.committeeId);
     return created;
   }
 
-  async removeMEPFromCommittee(mepId: string, committeeId: string) {
-    await db.delete(mepCommittees).where(
-      and(
+  async getOpenMEPCommittee(mepId: string, committeeId: string) {
+    const [membership] = await db
+      .select()
+      .from(mepCommittees)
+      .where(and(
         eq(mepCommittees.mepId, mepId),
-        eq(mepCommittees.committeeId, committeeId)
-      )
-    );
+        eq(mepCommittees.committeeId, committeeId),
+        isNull(mepCommittees.endDate)
+      ));
+    return membership || undefined;
+  }
+
+  async changeMEPCommitteeRole(mepId: string, committeeId: string, role: string, effectiveDate = new Date()) {
+    const membership = await this.getOpenMEPCommittee(mepId, committeeId);
+    if (!membership) {
+      throw new Error(`No open membership for MEP ${mepId} in committee ${committeeId}`);
+    }
+    if (membership.role === role) return membership;
+
+    const day = toDateOnly(effectiveDate);
+    const updated = await db.transaction(async (tx) => {
+      await tx
+        .update(mepCommitteeRoles)
+        .set({ endDate: day })
+        .where(and(eq(mepCommitteeRoles.membershipId, membership.id), isNull(mepCommitteeRoles.endDate)));
+      await tx.insert(mepCommitteeRoles).values({ membershipId: membership.id, role, startDate: day });
+      const [row] = await tx
+        .update(mepCommittees)
+        .set({ role })
+        .where(eq(mepCommittees.id, membership.id))
+        .returning();
+      return row;
+    });
+
+    this.invalidateMembershipCaches(mepId, committeeId);
+    return updated;
+  }
+
+  async removeMEPFromCommittee(mepId: string, committeeId: string, endDate = new Date()) {
+    const membership = await this.getOpenMEPCommittee(mepId, committeeId);
+    if (!membership) return;
+
+    const day = toDateOnly(endDate);
+    await db.transaction(async (tx) => {
+      await tx
+        .update(mepCommitteeRoles)
+        .set({ endDate: day })
+        .where(and(eq(mepCommitteeRoles.membershipId, membership.id), isNull(mepCommitteeRoles.endDate)));
+      await tx
+        .update(mepCommittees)
+        .set({ endDate: day })
+        .where(eq(mepCommittees.id, membership.id));
+    });
     
-    // Invalidate related caches
-    this.invalidateMEPCaches();
-    this.invalidateCommitteeCaches();
-    apiCache.delete(`mep_${mepId}`);
-    apiCache.delete(`committee_${committeeId}`);
+    this.invalidateMembershipCaches(mepId, committeeId);
+  }
+
+  async getMEPCommitteeRoles(membershipId: string) {
+    return await db
+      .select()
+      .from(mepCommitteeRoles)
+      .where(eq(mepCommitteeRoles.membershipId, membershipId))
+      .orderBy(mepCommitteeRoles.startDate);
+  }
+
+  async getOpenMEPCommittees() {
+    return await db.select().from(mepCommittees).where(isNull(mepCommittees.endDate));
+  }
+
+  async setMEPCommitteeSource(membershipId: string, source: MembershipSource) {
+    await db.update(mepCommittees).set({ source }).where(eq(mepCommittees.id, membershipId));
+  }
+
+  async purgeUnverifiedMEPCommittees() {
+    const deleted = await db
+      .delete(mepCommittees)
+      .where(eq(mepCommittees.source, 'unverified'))
+      .returning({ id: mepCommittees.id });
+
+    if (deleted.length > 0) {
+      this.invalidateMEPCaches();
+      this.invalidateCommitteeCaches();
+    }
+    return deleted.length;
   }
 
   async getAllMEPs(): Promise<MEP[]> {
@@ -441,61 +835,1013 @@ export class OptimizedStorage implements IStorage {
     return latest || undefined;
   }
 
-  async createChangeLog(changeLogData: InsertChangeLog) {
-    const [created] = await db.insert(changeLog).values(changeLogData).returning();
-    // Invalidate recent changes cache
-    apiCache.delete('recent_changes');
-    return created;
+  async getSyncState(source: string) {
+    const [state] = await db.select().from(syncState).where(eq(syncState.source, source));
+    return state;
   }
 
-  async getRecentChanges(limit = 10) {
-    const cacheKey = `recent_changes_${limit}`;
-    const cached = apiCache.get<ChangeLog[]>(cacheKey);
-    if (cached) return cached;
+  async saveSyncState(state: InsertSyncState) {
+    const [saved] = await db
+      .insert(syncState)
+      .values(state)
+      .onConflictDoUpdate({
+        target: syncState.source,
+        set: { ...state, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
 
-    const changes = await db
+  async createSyncPlan(plan: InsertSyncPlan, changes: InsertSyncPlanChange[]) {
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(syncPlans)
+        .set({ status: 'superseded' })
+        .where(and(eq(syncPlans.source, plan.source), eq(syncPlans.status, 'pending')));
+
+      const [created] = await tx.insert(syncPlans).values(plan).returning();
+      for (let i = 0; i < changes.length; i += SYNC_PLAN_CHANGE_BATCH) {
+        await tx.insert(syncPlanChanges).values(
+          changes.slice(i, i + SYNC_PLAN_CHANGE_BATCH).map(change => ({
+            ...change,
+            planId: created.id,
+            fieldChanges: change.fieldChanges as FieldChange[] | undefined,
+          }))
+        );
+      }
+      return created;
+    });
+  }
+
+  async getSyncPlans(limit = 20) {
+    return await db
       .select()
-      .from(changeLog)
-      .orderBy(desc(changeLog.createdAt))
+      .from(syncPlans)
+      .orderBy(desc(syncPlans.createdAt))
       .limit(limit);
+  }
 
-    apiCache.set(cacheKey, changes, 2 * 60 * 1000); // 2 minutes cache
-    return changes;
+  async getSyncPlan(id: string) {
+    const [plan] = await db.select().from(syncPlans).where(eq(syncPlans.id, id));
+    if (!plan) return undefined;
+
+    const changes = await db
+      .select()
+      .from(syncPlanChanges)
+      .where(eq(syncPlanChanges.planId, id))
+      .orderBy(asc(syncPlanChanges.position));
+    return { ...plan, changes };
   }
 
-  async getDashboardStats() {
-    const cacheKey = 'dashboard_stats';
-    const cached = apiCache.get<any>(cacheKey);
+  async updateSyncPlan(id: string, plan: Partial<InsertSyncPlan>) {
+    const [updated] = await db
+      .update(syncPlans)
+      .set(plan)
+      .where(eq(syncPlans.id, id))
+      .returning();
+    return updated;
+  }
+
+  async transitionSyncPlan(id: string, fromStatus: SyncPlanStatus, plan: Partial<InsertSyncPlan>) {
+    const [updated] = await db
+      .update(syncPlans)
+      .set(plan)
+      .where(and(eq(syncPlans.id, id), eq(syncPlans.status, fromStatus)))
+      .returning();
+    return updated;
+  }
+  
+  async createJob(job: InsertJob) {
+    const [created] = await db.insert(jobs).values({ ...job, payload: job.payload as Record<string, unknown> | undefined }).returning();
+    return created;
+  }
+
+  async createScheduledJob(job: InsertJob & { scheduleKey: string }) {
+    const [created] = await db
+      .insert(jobs)
+      .values({ ...job, payload: job.payload as Record<string, unknown> | undefined })
+      .onConflictDoNothing({ target: jobs.scheduleKey })
+      .returning();
+    return created;
+  }
+
+  async getJob(id: string) {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async getJobs(filters?: { status?: string; type?: string; limit?: number }) {
+    const whereConditions = [];
+    if (filters?.status) {
+      whereConditions.push(eq(jobs.status, filters.status));
+    }
+    if (filters?.type) {
+      whereConditions.push(eq(jobs.type, filters.type));
+    }
+
+    return await db
+      .select()
+      .from(jobs)
+      .where(and(...whereConditions))
+      .orderBy(desc(jobs.createdAt))
+      .limit(filters?.limit || 20);
+  }
+
+  async updateJob(id: string, job: Partial<InsertJob>) {
+    const [updated] = await db
+      .update(jobs)
+      .set({ ...job, payload: job.payload as Record<string, unknown> | undefined })
+      .where(eq(jobs.id, id))
+      .returning();
+    return updated;
+  }
+
+  async claimNextJob(workerId: string) {
+    const now = new Date();
+    const next = db
+      .select({ id: jobs.id })
+      .from(jobs)
+      .where(and(eq(jobs.status, 'queued'), lte(jobs.runAt, now)))
+      .orderBy(asc(jobs.runAt))
+      .limit(1)
+      .for('update', { skipLocked: true });
+
+    const [claimed] = await db
+      .update(jobs)
+      .set({
+        status: 'running',
+        attempts: sql`${jobs.attempts} + 1`,
+        lockedBy: workerId,
+        heartbeatAt: now,
+        startedAt: now,
+        progress: 0,
+        progressMessage: null,
+        error: null,
+      })
+      .where(inArray(jobs.id, next))
+      .returning();
+    return claimed;
+  }
+
+  async requestJobCancel(id: string) {
+    const [job] = await db
+      .update(jobs)
+      .set({
+        cancelRequested: true,
+        status: sql`CASE WHEN ${jobs.status} = 'queued' THEN 'cancelled' ELSE ${jobs.status} END`,
+        completedAt: sql`CASE WHEN ${jobs.status} = 'queued' THEN now() ELSE ${jobs.completedAt} END`,
+      })
+      .where(and(eq(jobs.id, id), inArray(jobs.status, ['queued', 'running'])))
+      .returning();
+    return job;
+  }
+
+  async requeueStaleJobs(heartbeatBefore: Date) {
+    const requeued = await db
+      .update(jobs)
+      .set({ status: 'queued', lockedBy: null, runAt: new Date() })
+      .where(and(eq(jobs.status, 'running'), lte(jobs.heartbeatAt, heartbeatBefore)))
+      .returning({ id: jobs.id });
+    return requeued.length;
+  }
+
+  async getSyncSchedules() {
+    return await db.select().from(syncSchedules).orderBy(asc(syncSchedules.stage));
+  }
+
+  async ensureSyncSchedules(defaults: InsertSyncSchedule[]) {
+    if (defaults.length === 0) return;
+    await db.insert(syncSchedules).values(defaults).onConflictDoNothing();
+  }
+
+  async updateSyncSchedule(stage: string, schedule: Partial<InsertSyncSchedule>) {
+    const [updated] = await db
+      .update(syncSchedules)
+      .set({ ...schedule, updatedAt: new Date() })
+      .where(eq(syncSchedules.stage, stage))
+      .returning();
+    return updated;
+  }
+
+  async createGroupTransfer(transfer: InsertGroupTransfer) {
+    const [created] = await db.insert(groupTransfers).values(transfer).returning();
+    this.invalidateTransferCaches();
+    return created;
+  }
+
+  /**
+   * Political group / national party transfers with caching
+   */
+  async getGroupTransfers(filters?: {
+    group?: string;
+    from?: Date;
+    to?: Date;
+    mepId?: string;
+    limit?: number;
+    offset?: number;
+  }) {
+    const cacheKey = 'transfers_' + JSON.stringify(filters || {});
+    const cached = apiCache.get<{ transfers: GroupTransferWithMEP[]; total: number }>(cacheKey);
     if (cached) return cached;
 
-    const [mepCount, committeeCount, latestUpdate] = await Promise.all([
-      db.select({ count: count() }).from(meps).where(eq(meps.isActive, true)),
-      db.select({ count: count() }).from(committees).where(eq(committees.isActive, true)),
-      this.getLatestDataUpdate()
-    ]);
+    const limit = filters?.limit || 50;
+    const offset = filters?.offset || 0;
 
-    // Get unique country count properly
-    const countryCountResult = await db
-      .select({ count: sql<number>`COUNT(DISTINCT ${meps.country})` })
-      .from(meps)
-      .where(and(eq(meps.isActive, true), sql`${meps.country} != ''`));
+    const whereConditions = [];
+    if (filters?.group) {
+      whereConditions.push(or(
+        eq(groupTransfers.fromGroupAbbr, filters.group),
+        eq(groupTransfers.toGroupAbbr, filters.group)
+      )!);
+    }
+    if (filters?.from) {
+      whereConditions.push(gte(groupTransfers.transferDate, toDateOnly(filters.from)));
+    }
+    if (filters?.to) {
+      whereConditions.push(lte(groupTransfers.transferDate, toDateOnly(filters.to)));
+    }
+    if (filters?.mepId) {
+      whereConditions.push(eq(groupTransfers.mepId, filters.mepId));
+    }
 
-    const stats = {
-      totalMEPs: mepCount[0].count,
-      totalCommittees: committeeCount[0].count,
-      totalCountries: 27, // EU has exactly 27 member states
-      lastUpdate: latestUpdate?.completedAt || null
+    const [rows, [{ count: total }]] = await Promise.all([
+      db.select()
+        .from(groupTransfers)
+        .innerJoin(meps, eq(groupTransfers.mepId, meps.id))
+        .where(and(...whereConditions))
+        .orderBy(desc(groupTransfers.transferDate), desc(groupTransfers.createdAt))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: count() })
+        .from(groupTransfers)
+        .where(and(...whereConditions))
+    ]);
+
+    const result = {
+      transfers: rows.map(row => ({ ...row.group_transfers, mep: row.meps })),
+      total
     };
 
-    apiCache.set(cacheKey, stats, 5 * 60 * 1000); // 5 minutes cache
-    return stats;
+    apiCache.set(cacheKey, result, 5 * 60 * 1000); // 5 minutes cache
+    return result;
   }
 
-  private invalidateMEPCaches() {
-    // Clear all MEP-related caches
-    const cache = (apiCache as any).cache as Map<string, any>;
-    const keysToDelete: string[] = [];
-    cache.forEach((_, key) => {
+  async upsertVote(vote: InsertVote) {
+    const [saved] = await db
+      .insert(votes)
+      .values(vote)
+      .onConflictDoUpdate({
+        target: votes.id,
+        set: { ...vote, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  /**
+   * Replace all individual positions of a vote in one transaction
+   */
+  async replaceVoteResults(voteId: string, results: Omit<InsertVoteResult, 'voteId'>[]) {
+    return await db.transaction(async (tx) => {
+      await tx.delete(voteResults).where(eq(voteResults.voteId, voteId));
+      if (results.length === 0) return 0;
+      const inserted = await tx
+        .insert(voteResults)
+        .values(results.map(result => ({ ...result, voteId })))
+        .returning({ id: voteResults.id });
+      return inserted.length;
+    });
+  }
+
+  async getLatestVoteDate() {
+    const [latest] = await db
+      .select({ voteDate: votes.voteDate })
+      .from(votes)
+      .orderBy(desc(votes.voteDate))
+      .limit(1);
+    return latest?.voteDate ?? null;
+  }
+
+  /**
+   * Insert or update a declaration version. When `items` is given the line
+   * items are replaced and the version is marked as parsed.
+   */
+  async saveDeclaration(declaration: InsertMEPDeclaration, items: InsertDeclarationItem[] | null) {
+    return await db.transaction(async (tx) => {
+      const values = items ? { ...declaration, isParsed: true } : declaration;
+      const [saved] = await tx
+        .insert(mepDeclarations)
+        .values(values)
+        .onConflictDoUpdate({
+          target: [mepDeclarations.mepId, mepDeclarations.declarationDate],
+          set: { ...values, updatedAt: new Date() },
+        })
+        .returning();
+      if (items) {
+        await tx.delete(declarationItems).where(eq(declarationItems.declarationId, saved.id));
+        if (items.length > 0) {
+          await tx.insert(declarationItems).values(items.map((item, index) => ({
+            ...item,
+            declarationId: saved.id,
+            position: index,
+          })));
+        }
+      }
+      return saved;
+    }).then(saved => {
+      this.invalidateDeclarationCaches(saved.mepId);
+      return saved;
+    });
+  }
+
+  async getMEPDeclaration(mepId: string, declarationDate: string) {
+    const [declaration] = await db
+      .select()
+      .from(mepDeclarations)
+      .where(and(eq(mepDeclarations.mepId, mepId), eq(mepDeclarations.declarationDate, declarationDate)));
+    return declaration;
+  }
+
+  /**
+   * All declaration versions of an MEP, newest first, with their line items
+   */
+  async getMEPDeclarations(mepId: string) {
+    const cacheKey = `declarations_${mepId}`;
+    const cached = apiCache.get<DeclarationWithItems[]>(cacheKey);
+    if (cached) return cached;
+
+    const declarations = await db
+      .select()
+      .from(mepDeclarations)
+      .where(eq(mepDeclarations.mepId, mepId))
+      .orderBy(desc(mepDeclarations.declarationDate));
+
+    const items = declarations.length > 0
+      ? await db
+          .select()
+          .from(declarationItems)
+          .where(inArray(declarationItems.declarationId, declarations.map(declaration => declaration.id)))
+          .orderBy(declarationItems.position)
+      : [];
+
+    const result = declarations.map((declaration, index) => ({
+      ...declaration,
+      version: declarations.length - index,
+      items: items.filter(item => item.declarationId === declaration.id),
+    }));
+
+    apiCache.set(cacheKey, result, 10 * 60 * 1000); // 10 minutes cache
+    return result;
+  }
+
+  async upsertSpeech(speech: InsertSpeech) {
+    const [saved] = await db
+      .insert(speeches)
+      .values(speech)
+      .onConflictDoUpdate({
+        target: speeches.id,
+        set: { ...speech, updatedAt: new Date() },
+      })
+      .returning(speechColumns);
+    return saved;
+  }
+
+  async getLatestSpeechDate() {
+    const [latest] = await db
+      .select({ speechDate: speeches.speechDate })
+      .from(speeches)
+      .orderBy(desc(speeches.speechDate))
+      .limit(1);
+    return latest?.speechDate ?? null;
+  }
+
+  async getMEPSpeeches(mepId: string, filters?: { limit?: number; offset?: number }) {
+    const cacheKey = `speeches_mep_${mepId}_${JSON.stringify(filters || {})}`;
+    const cached = apiCache.get<{ speeches: Speech[]; total: number }>(cacheKey);
+    if (cached) return cached;
+
+    const limit = filters?.limit || 20;
+    const offset = filters?.offset || 0;
+
+    const [rows, [{ count: total }]] = await Promise.all([
+      db.select(speechColumns)
+        .from(speeches)
+        .where(eq(speeches.mepId, mepId))
+        .orderBy(desc(speeches.speechDate), speeches.id)
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: count() })
+        .from(speeches)
+        .where(eq(speeches.mepId, mepId)),
+    ]);
+
+    const result = { speeches: rows, total };
+    apiCache.set(cacheKey, result, 5 * 60 * 1000); // 5 minutes cache
+    return result;
+  }
+
+  /**
+   * Ranked full-text search with highlighted snippets
+   */
+  async searchSpeeches(filters: {
+    q: string;
+    mepId?: string;
+    language?: string;
+    from?: Date;
+    to?: Date;
+    limit?: number;
+    offset?: number;
+  }) {
+    const cacheKey = 'speeches_search_' + JSON.stringify(filters);
+    const cached = apiCache.get<{ results: SpeechSearchResult[]; total: number }>(cacheKey);
+    if (cached) return cached;
+
+    const limit = filters.limit || 20;
+    const offset = filters.offset || 0;
+    const { where, rank, snippet } = speechSearch(filters);
+
+    const [rows, [{ count: total }]] = await Promise.all([
+      db.select({
+          ...speechColumns,
+          snippet,
+          rank,
+          mep: {
+            id: meps.id,
+            fullName: meps.fullName,
+            country: meps.country,
+            politicalGroupAbbr: meps.politicalGroupAbbr,
+            photoUrl: meps.photoUrl,
+          },
+        })
+        .from(speeches)
+        .innerJoin(meps, eq(speeches.mepId, meps.id))
+        .where(where)
+        .orderBy(desc(rank), desc(speeches.speechDate))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: count() })
+        .from(speeches)
+        .where(where),
+    ]);
+
+    const result = { results: rows, total };
+    apiCache.set(cacheKey, result, 5 * 60 * 1000); // 5 minutes cache
+    return result;
+  }
+
+  /**
+   * Store a question and replace its author links in one transaction
+   */
+  async upsertQuestion(question: InsertParliamentaryQuestion, authorIds: string[]) {
+    return await db.transaction(async (tx) => {
+      const [saved] = await tx
+        .insert(parliamentaryQuestions)
+        .values(question)
+        .onConflictDoUpdate({
+          target: parliamentaryQuestions.id,
+          set: { ...question, updatedAt: new Date() },
+        })
+        .returning();
+      await tx.delete(questionAuthors).where(eq(questionAuthors.questionId, saved.id));
+      if (authorIds.length > 0) {
+        await tx.insert(questionAuthors).values(authorIds.map(mepId => ({ questionId: saved.id, mepId })));
+      }
+      return saved;
+    }).then(saved => {
+      this.invalidateQuestionCaches();
+      return saved;
+    });
+  }
+
+  async getStoredQuestionIds(ids: string[]) {
+    if (ids.length === 0) return new Set<string>();
+    const rows = await db
+      .select({ id: parliamentaryQuestions.id })
+      .from(parliamentaryQuestions)
+      .where(inArray(parliamentaryQuestions.id, ids));
+    return new Set(rows.map(row => row.id));
+  }
+
+  async getQuestions(filters?: {
+    search?: string;
+    addressee?: string;
+    questionType?: string;
+    mepId?: string;
+    limit?: number;
+    offset?: number;
+  }) {
+    const cacheKey = 'questions_' + JSON.stringify(filters || {});
+    const cached = apiCache.get<{ questions: QuestionWithAuthors[]; total: number }>(cacheKey);
+    if (cached) return cached;
+
+    const limit = filters?.limit || 50;
+    const offset = filters?.offset || 0;
+    const whereClause = questionConditions(filters);
+
+    const [rows, [{ count: total }]] = await Promise.all([
+      db.select()
+        .from(parliamentaryQuestions)
+        .where(whereClause)
+        .orderBy(sql`${parliamentaryQuestions.submittedDate} DESC NULLS LAST`, parliamentaryQuestions.id)
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: count() })
+        .from(parliamentaryQuestions)
+        .where(whereClause),
+    ]);
+
+    const authorsByQuestion = new Map<string, MEP[]>();
+    if (rows.length > 0) {
+      const authorRows = await db
+        .select()
+        .from(questionAuthors)
+        .innerJoin(meps, eq(questionAuthors.mepId, meps.id))
+        .where(inArray(questionAuthors.questionId, rows.map(row => row.id)));
+      for (const row of authorRows) {
+        const authors = authorsByQuestion.get(row.question_authors.questionId) || [];
+        authors.push(row.meps);
+        authorsByQuestion.set(row.question_authors.questionId, authors);
+      }
+    }
+
+    const result = {
+      questions: rows.map(row => ({ ...row, authors: authorsByQuestion.get(row.id) || [] })),
+      total,
+    };
+
+    apiCache.set(cacheKey, result, 5 * 60 * 1000); // 5 minutes cache
+    return result;
+  }
+
+  /**
+   * Recompute the per-MEP activity counters from the activity tables
+   */
+  async refreshMEPActivityCounts() {
+    await db.execute(sql`
+      UPDATE meps SET
+        questions_count = (SELECT COUNT(*) FROM question_authors qa WHERE qa.mep_id = meps.id),
+        reports_count = (
+          SELECT COUNT(DISTINCT pr.procedure_reference) FROM procedure_rapporteurs pr
+          WHERE pr.mep_id = meps.id AND pr.role = 'rapporteur'
+        ),
+        speeches_count = (SELECT COUNT(*) FROM speeches s WHERE s.mep_id = meps.id)
+    `);
+
+    this.invalidateMEPCaches();
+  }
+
+  async upsertProcedure(procedure: InsertProcedure) {
+    const [saved] = await db
+      .insert(procedures)
+      .values(procedure)
+      .onConflictDoUpdate({
+        target: procedures.reference,
+        set: { ...procedure, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  /**
+   * Replace the committees and rapporteurs of a procedure in one transaction
+   */
+  async replaceProcedureParticipants(
+    reference: string,
+    committeeLinks: Omit<InsertProcedureCommittee, 'procedureReference'>[],
+    rapporteurs: Omit<InsertProcedureRapporteur, 'procedureReference'>[]
+  ) {
+    await db.transaction(async (tx) => {
+      await tx.delete(procedureCommittees).where(eq(procedureCommittees.procedureReference, reference));
+      await tx.delete(procedureRapporteurs).where(eq(procedureRapporteurs.procedureReference, reference));
+      if (committeeLinks.length > 0) {
+        await tx.insert(procedureCommittees).values(committeeLinks.map(link => ({ ...link, procedureReference: reference })));
+      }
+      if (rapporteurs.length > 0) {
+        await tx.insert(procedureRapporteurs).values(rapporteurs.map(rapporteur => ({ ...rapporteur, procedureReference: reference })));
+      }
+    });
+
+    this.invalidateProcedureCaches();
+  }
+
+  async getProcedure(reference: string): Promise<ProcedureWithDetails | undefined> {
+    const cacheKey = `procedure_${reference}`;
+    const cached = apiCache.get<ProcedureWithDetails>(cacheKey);
+    if (cached) return cached;
+
+    const [procedure] = await db.select().from(procedures).where(eq(procedures.reference, reference));
+    if (!procedure) return undefined;
+
+    const [committeeRows, rapporteurRows] = await Promise.all([
+      db.select()
+        .from(procedureCommittees)
+        .innerJoin(committees, eq(procedureCommittees.committeeId, committees.id))
+        .where(eq(procedureCommittees.procedureReference, reference))
+        .orderBy(procedureCommittees.role, committees.code),
+      db.select()
+        .from(procedureRapporteurs)
+        .innerJoin(meps, eq(procedureRapporteurs.mepId, meps.id))
+        .leftJoin(committees, eq(procedureRapporteurs.committeeId, committees.id))
+        .where(eq(procedureRapporteurs.procedureReference, reference))
+        .orderBy(procedureRapporteurs.role, meps.lastName),
+    ]);
+
+    const result = {
+      ...procedure,
+      committees: committeeRows.map(row => ({ ...row.procedure_committees, committee: row.committees })),
+      rapporteurs: rapporteurRows.map(row => ({ ...row.procedure_rapporteurs, mep: row.meps, committee: row.committees })),
+    };
+
+    apiCache.set(cacheKey, result, 10 * 60 * 1000); // 10 minutes cache
+    return result;
+  }
+
+  async getCommitteeProcedures(committeeId: string, limit = 50): Promise<CommitteeProcedure[]> {
+    const cacheKey = `procedure_committee_${committeeId}_${limit}`;
+    const cached = apiCache.get<CommitteeProcedure[]>(cacheKey);
+    if (cached) return cached;
+
+    const rows = await db
+      .select()
+      .from(procedureCommittees)
+      .innerJoin(procedures, eq(procedureCommittees.procedureReference, procedures.reference))
+      .where(eq(procedureCommittees.committeeId, committeeId))
+      .orderBy(sql`${procedures.lastEventDate} DESC NULLS LAST`, procedures.reference)
+      .limit(limit);
+
+    const result = rows.map(row => ({ ...row.procedures, role: row.procedure_committees.role }));
+    apiCache.set(cacheKey, result, 10 * 60 * 1000); // 10 minutes cache
+    return result;
+  }
+
+  async createChangeLog(changeLogData: InsertChangeLog) {
+    const [created] = await db.insert(changeLog).values(withFieldChanges(changeLogData)).returning();
+    // Invalidate recent changes and entity history caches
+    this.invalidateChangeLogCaches();
+    return created;
+  }
+
+  async getRecentChanges(limit = 10) {
+    const cacheKey = `recent_changes_${limit}`;
+    const cached = apiCache.get<ChangeLog[]>(cacheKey);
+    if (cached) return cached;
+
+    const changes = await db
+      .select()
+      .from(changeLog)
+      .orderBy(desc(changeLog.createdAt))
+      .limit(limit);
+
+    apiCache.set(cacheKey, changes, 2 * 60 * 1000); // 2 minutes cache
+    return changes;
+  }
+
+  /**
+   * Paginated field-level change history of a single MEP or committee
+   */
+  async getEntityHistory(entityType: string, entityId: string, filters?: {
+    from?: Date;
+    to?: Date;
+    limit?: number;
+    offset?: number;
+  }) {
+    const cacheKey = `history_${entityType}_${entityId}_${JSON.stringify(filters || {})}`;
+    const cached = apiCache.get<{ changes: ChangeLog[]; total: number }>(cacheKey);
+    if (cached) return cached;
+
+    const limit = filters?.limit || 50;
+    const offset = filters?.offset || 0;
+    const whereClause = entityHistoryConditions(entityType, entityId, filters);
+
+    const [changes, [{ count: total }]] = await Promise.all([
+      db.select()
+        .from(changeLog)
+        .where(whereClause)
+        .orderBy(desc(changeLog.createdAt))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: count() })
+        .from(changeLog)
+        .where(whereClause)
+    ]);
+
+    const result = { changes, total };
+    apiCache.set(cacheKey, result, 2 * 60 * 1000); // 2 minutes cache
+    return result;
+  }
+
+  async getWatchlist(userId: string) {
+    const rows = await db
+      .select({
+        entry: watchlistEntries,
+        mepName: meps.fullName,
+        committeeName: committees.name,
+        committeeCode: committees.code,
+      })
+      .from(watchlistEntries)
+      .leftJoin(meps, and(eq(watchlistEntries.entityType, 'mep'), eq(meps.id, watchlistEntries.entityId)))
+      .leftJoin(committees, and(eq(watchlistEntries.entityType, 'committee'), eq(committees.id, watchlistEntries.entityId)))
+      .where(eq(watchlistEntries.userId, userId))
+      .orderBy(watchlistEntries.createdAt);
+
+    return rows.map(row => ({
+      ...row.entry,
+      name: row.mepName ?? row.committeeName,
+      code: row.committeeCode,
+    }));
+  }
+
+  async followEntity(entry: InsertWatchlistEntry) {
+    const [created] = await db
+      .insert(watchlistEntries)
+      .values(entry)
+      .onConflictDoNothing()
+      .returning();
+    if (created) return created;
+
+    const [existing] = await db
+      .select()
+      .from(watchlistEntries)
+      .where(and(
+        eq(watchlistEntries.userId, entry.userId),
+        eq(watchlistEntries.entityType, entry.entityType),
+        eq(watchlistEntries.entityId, entry.entityId)
+      ));
+    return existing;
+  }
+
+  async unfollowEntity(userId: string, entityType: WatchEntityType, entityId: string) {
+    const deleted = await db
+      .delete(watchlistEntries)
+      .where(and(
+        eq(watchlistEntries.userId, userId),
+        eq(watchlistEntries.entityType, entityType),
+        eq(watchlistEntries.entityId, entityId)
+      ))
+      .returning({ id: watchlistEntries.id });
+    return deleted.length > 0;
+  }
+
+  async getWatchlistFeed(userId: string, filters?: { since?: Date; limit?: number; offset?: number }) {
+    const limit = filters?.limit || 50;
+    const offset = filters?.offset || 0;
+    const since = filters?.since;
+    const window = offset + limit;
+
+    const [changes, events, [{ count: changeTotal }], [{ count: eventTotal }]] = await Promise.all([
+      db.select({ change: changeLog })
+        .from(changeLog)
+        .innerJoin(watchlistEntries, watchedChanges(userId, since))
+        .orderBy(desc(changeLog.createdAt))
+        .limit(window),
+      db.select({
+          event: committeeEvents,
+          committee: { id: committees.id, code: committees.code, name: committees.name },
+        })
+        .from(committeeEvents)
+        .innerJoin(watchlistEntries, watchedCommitteeEvents(userId, since))
+        .innerJoin(committees, eq(committees.id, committeeEvents.committeeId))
+        .orderBy(desc(committeeEvents.createdAt))
+        .limit(window),
+      db.select({ count: count() })
+        .from(changeLog)
+        .innerJoin(watchlistEntries, watchedChanges(userId, since)),
+      db.select({ count: count() })
+        .from(committeeEvents)
+        .innerJoin(watchlistEntries, watchedCommitteeEvents(userId, since))
+    ]);
+
+    const items = toWatchlistFeed(changes.map(row => row.change), events).slice(offset, window);
+    return { items, total: changeTotal + eventTotal };
+  }
+
+  async getNotificationPreferences(userId: string) {
+    const [preferences] = await db
+      .select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId));
+    return preferences;
+  }
+
+  async saveNotificationPreferences(preferences: InsertNotificationPreferences) {
+    const [saved] = await db
+      .insert(notificationPreferences)
+      .values(preferences)
+      .onConflictDoUpdate({
+        target: notificationPreferences.userId,
+        set: { ...preferences, updatedAt: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+
+  async getDigestRecipients(frequency: DigestFrequency) {
+    const rows = await db
+      .select()
+      .from(notificationPreferences)
+      .innerJoin(users, eq(users.id, notificationPreferences.userId))
+      .where(and(
+        eq(notificationPreferences.digestFrequency, frequency),
+        sql`${users.email} IS NOT NULL`
+      ));
+    return rows.map(row => ({ user: row.users, preferences: row.notification_preferences }));
+  }
+
+  async markDigestSent(userId: string, coveredUntil: Date) {
+    await db
+      .update(notificationPreferences)
+      .set({ lastDigestAt: coveredUntil })
+      .where(eq(notificationPreferences.userId, userId));
+  }
+
+  async getNotificationPreferencesByCalendarToken(token: string) {
+    const [preferences] = await db
+      .select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.calendarToken, token));
+    return preferences;
+  }
+
+  async getWebhookSubscriptions() {
+    const rows = await db
+      .select({
+        subscription: webhookSubscriptions,
+        pendingDeliveries: sql<number>`count(${webhookDeliveries.id}) filter (where ${webhookDeliveries.status} = 'pending')`.mapWith(Number),
+        failedDeliveries: sql<number>`count(${webhookDeliveries.id}) filter (where ${webhookDeliveries.status} = 'failed')`.mapWith(Number),
+        lastDeliveredAt: sql<Date | null>`max(${webhookDeliveries.deliveredAt})`.mapWith((value: string | null) => value === null ? null : new Date(value)),
+      })
+      .from(webhookSubscriptions)
+      .leftJoin(webhookDeliveries, eq(webhookDeliveries.subscriptionId, webhookSubscriptions.id))
+      .groupBy(webhookSubscriptions.id)
+      .orderBy(desc(webhookSubscriptions.createdAt));
+
+    return rows.map(({ subscription, ...stats }) => ({ ...subscription, ...stats }));
+  }
+
+  async getWebhookSubscription(id: string) {
+    const [subscription] = await db.select().from(webhookSubscriptions).where(eq(webhookSubscriptions.id, id));
+    return subscription;
+  }
+
+  async getWebhookSubscriptionsForEvent(eventType: WebhookEventType) {
+    return await db
+      .select()
+      .from(webhookSubscriptions)
+      .where(and(
+        eq(webhookSubscriptions.isActive, true),
+        sql`${webhookSubscriptions.eventTypes} @> ${JSON.stringify([eventType])}::jsonb`
+      ));
+  }
+
+  async createWebhookSubscription(subscription: InsertWebhookSubscription) {
+    const [created] = await db
+      .insert(webhookSubscriptions)
+      .values({ ...subscription, eventTypes: subscription.eventTypes as WebhookEventType[] })
+      .returning();
+    return created;
+  }
+
+  async updateWebhookSubscription(id: string, subscription: Partial<InsertWebhookSubscription>) {
+    const [updated] = await db
+      .update(webhookSubscriptions)
+      .set({ ...subscription, eventTypes: subscription.eventTypes as WebhookEventType[] | undefined, updatedAt: new Date() })
+      .where(eq(webhookSubscriptions.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteWebhookSubscription(id: string) {
+    const deleted = await db
+      .delete(webhookSubscriptions)
+      .where(eq(webhookSubscriptions.id, id))
+      .returning({ id: webhookSubscriptions.id });
+    return deleted.length > 0;
+  }
+
+  async createWebhookDeliveries(deliveries: InsertWebhookDelivery[]) {
+    if (deliveries.length === 0) return [];
+    return await db
+      .insert(webhookDeliveries)
+      .values(deliveries.map(delivery => ({ ...delivery, payload: delivery.payload as Record<string, unknown> })))
+      .returning();
+  }
+
+  async getWebhookDeliveries(subscriptionId: string, filters?: {
+    status?: WebhookDeliveryStatus;
+    limit?: number;
+    offset?: number;
+  }) {
+    const whereConditions = [eq(webhookDeliveries.subscriptionId, subscriptionId)];
+    if (filters?.status) {
+      whereConditions.push(eq(webhookDeliveries.status, filters.status));
+    }
+
+    const [deliveries, [totalResult]] = await Promise.all([
+      db
+        .select()
+        .from(webhookDeliveries)
+        .where(and(...whereConditions))
+        .orderBy(desc(webhookDeliveries.createdAt))
+        .limit(filters?.limit || 50)
+        .offset(filters?.offset || 0),
+      db
+        .select({ count: count() })
+        .from(webhookDeliveries)
+        .where(and(...whereConditions)),
+    ]);
+
+    return { deliveries, total: totalResult.count };
+  }
+
+  async getWebhookDelivery(id: string) {
+    const [delivery] = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return delivery;
+  }
+
+  async updateWebhookDelivery(id: string, delivery: Partial<InsertWebhookDelivery>) {
+    const [updated] = await db
+      .update(webhookDeliveries)
+      .set({ ...delivery, payload: delivery.payload as Record<string, unknown> | undefined })
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    return updated;
+  }
+
+  async claimNextWebhookDelivery(workerId: string) {
+    const now = new Date();
+    const next = db
+      .select({ id: webhookDeliveries.id })
+      .from(webhookDeliveries)
+      .where(and(
+        eq(webhookDeliveries.status, 'pending'),
+        isNull(webhookDeliveries.lockedBy),
+        lte(webhookDeliveries.nextAttemptAt, now),
+        inArray(
+          webhookDeliveries.subscriptionId,
+          db.select({ id: webhookSubscriptions.id }).from(webhookSubscriptions).where(eq(webhookSubscriptions.isActive, true))
+        )
+      ))
+      .orderBy(asc(webhookDeliveries.nextAttemptAt))
+      .limit(1)
+      .for('update', { skipLocked: true });
+
+    const [claimed] = await db
+      .update(webhookDeliveries)
+      .set({
+        attempts: sql`${webhookDeliveries.attempts} + 1`,
+        lockedBy: workerId,
+        lockedAt: now,
+      })
+      .where(inArray(webhookDeliveries.id, next))
+      .returning();
+    return claimed;
+  }
+
+  async releaseStaleWebhookDeliveries(lockedBefore: Date) {
+    const released = await db
+      .update(webhookDeliveries)
+      .set({ lockedBy: null, lockedAt: null })
+      .where(and(
+        eq(webhookDeliveries.status, 'pending'),
+        lte(webhookDeliveries.lockedAt, lockedBefore)
+      ))
+      .returning({ id: webhookDeliveries.id });
+    return released.length;
+  }
+
+  async getDashboardStats() {
+    const cacheKey = 'dashboard_stats';
+    const cached = apiCache.get<any>(cacheKey);
+    if (cached) return cached;
+
+    const [mepCount, committeeCount, latestUpdate] = await Promise.all([
+      db.select({ count: count() }).from(meps).where(eq(meps.isActive, true)),
+      db.select({ count: count() }).from(committees).where(eq(committees.isActive, true)),
+      this.getLatestDataUpdate()
+    ]);
+
+    // Get unique country count properly
+    const countryCountResult = await db
+      .select({ count: sql<number>`COUNT(DISTINCT ${meps.country})` })
+      .from(meps)
+      .where(and(eq(meps.isActive, true), sql`${meps.country} != ''`));
+
+    const stats = {
+      totalMEPs: mepCount[0].count,
+      totalCommittees: committeeCount[0].count,
+      totalCountries: 27, // EU has exactly 27 member states
+      lastUpdate: latestUpdate?.completedAt || null
+    };
+
+    apiCache.set(cacheKey, stats, 5 * 60 * 1000); // 5 minutes cache
+    return stats;
+  }
+
+  private invalidateMEPCaches() {
+    // Clear all MEP-related caches
+    const cache = (apiCache as any).cache as Map<string, any>;
+    const keysToDelete: string[] = [];
+    cache.forEach((_, key) => {
       if (key.includes('meps_') || key.includes('dashboard_stats')) {
         keysToDelete.push(key);
       }
@@ -503,6 +1849,72 @@ export class OptimizedStorage implements IStorage {
     keysToDelete.forEach(key => apiCache.delete(key));
   }
 
+  private invalidateMembershipCaches(mepId: string, committeeId: string) {
+    this.invalidateMEPCaches();
+    this.invalidateCommitteeCaches();
+    apiCache.delete(`mep_${mepId}`);
+    apiCache.delete(`committee_${committeeId}`);
+  }
+
+  private invalidateChangeLogCaches() {
+    const cache = (apiCache as any).cache as Map<string, any>;
+    const keysToDelete: string[] = [];
+    cache.forEach((_, key) => {
+      if (key.startsWith('recent_changes_') || key.startsWith('history_')) {
+        keysToDelete.push(key);
+      }
+    });
+    keysToDelete.forEach(key => apiCache.delete(key));
+  }
+
+  private invalidateDeclarationCaches(mepId: string) {
+    apiCache.delete(`declarations_${mepId}`);
+  }
+
+  private invalidateSpeechCaches() {
+    const cache = (apiCache as any).cache as Map<string, any>;
+    const keysToDelete: string[] = [];
+    cache.forEach((_, key) => {
+      if (key.startsWith('speeches_')) {
+        keysToDelete.push(key);
+      }
+    });
+    keysToDelete.forEach(key => apiCache.delete(key));
+  }
+
+  private invalidateQuestionCaches() {
+    const cache = (apiCache as any).cache as Map<string, any>;
+    const keysToDelete: string[] = [];
+    cache.forEach((_, key) => {
+      if (key.startsWith('questions_')) {
+        keysToDelete.push(key);
+      }
+    });
+    keysToDelete.forEach(key => apiCache.delete(key));
+  }
+
+  private invalidateProcedureCaches() {
+    const cache = (apiCache as any).cache as Map<string, any>;
+    const keysToDelete: string[] = [];
+    cache.forEach((_, key) => {
+      if (key.startsWith('procedure_')) {
+        keysToDelete.push(key);
+      }
+    });
+    keysToDelete.forEach(key => apiCache.delete(key));
+  }
+
+  private invalidateTransferCaches() {
+    const cache = (apiCache as any).cache as Map<string, any>;
+    const keysToDelete: string[] = [];
+    cache.forEach((_, key) => {
+      if (key.startsWith('transfers_')) {
+        keysToDelete.push(key);
+      }
+    });
+    keysToDelete.forEach(key => apiCache.delete(key));
+  }
+
   private invalidateCommitteeCaches() {
     // Clear all committee-related caches
     const cache = (apiCache as any).cache as Map<string, any>;
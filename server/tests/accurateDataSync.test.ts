@@ -0,0 +1,138 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import type { InsertChangeLog, InsertMEPCommittee, MEP, SyncPlan } from '@shared/schema';
+import { loadStorage } from './helpers';
+
+const storage = await loadStorage();
+const { accurateDataSync } = await import('../services/accurateDataSync');
+const { sourceMergeService } = await import('../services/sourceMerge');
+const { webhookService } = await import('../services/webhooks');
+
+const stored: MEP = {
+  id: '197490',
+  fullName: 'Jan EXAMPLE',
+  country: 'DE',
+  politicalGroupAbbr: 'EPP',
+  isActive: true,
+} as MEP;
+
+const plan = {
+  id: 'plan-1',
+  source: 'opensanctions_meps',
+  status: 'approved',
+  fullSync: false,
+  watermark: null,
+  errors: null,
+  createdAt: new Date(),
+  summary: { unchanged: 0 },
+  changes: [
+    {
+      action: 'create_mep',
+      entityType: 'mep',
+      entityId: '256810',
+      label: 'Maria EXAMPLE',
+      payload: { mep: { id: '256810', fullName: 'Maria EXAMPLE', country: 'PT' }, mandates: [] },
+    },
+    {
+      action: 'update_mep',
+      entityType: 'mep',
+      entityId: stored.id,
+      label: stored.fullName,
+      payload: { mep: { id: stored.id, country: 'AT' }, mandates: [] },
+    },
+    {
+      action: 'open_membership',
+      entityType: 'membership',
+      entityId: '256810:ENVI',
+      label: 'Maria EXAMPLE in ENVI',
+      payload: { mepId: '256810', committeeId: 'ENVI', role: 'member', source: 'ep_corporate_body' },
+    },
+  ],
+} as unknown as SyncPlan;
+
+const changes: InsertChangeLog[] = [];
+const events: Array<{ type: string; data: Record<string, unknown> }> = [];
+
+before(() => {
+  Object.assign(storage, {
+    getSyncPlan: async () => plan,
+    updateSyncPlan: async () => plan,
+    getSyncState: async () => undefined,
+    saveSyncState: async () => undefined,
+    createDataUpdate: async () => ({ id: 'update-1' }),
+    updateDataUpdate: async () => undefined,
+    getMEP: async (id: string) => (id === stored.id ? stored : undefined),
+    createMEP: async (mep: MEP) => mep,
+    recordMEPProvenance: async () => undefined,
+    createMEPCommittee: async (membership: InsertMEPCommittee) => ({ id: 'membership-1', ...membership }),
+    createChangeLog: async (change: InsertChangeLog) => {
+      changes.push(change);
+      return { id: `change-${changes.length}`, ...change };
+    },
+  });
+  Object.assign(sourceMergeService, {
+    updateMEP: async (_existing: MEP, incoming: Partial<MEP>) => {
+      const { id, ...accepted } = incoming;
+      return { accepted, conflicts: 0 };
+    },
+  });
+  Object.assign(webhookService, {
+    emit: async (type: string, data: Record<string, unknown>) => {
+      events.push({ type, data });
+    },
+  });
+});
+
+test('applying a plan logs MEP changes and notifies webhook subscribers', async () => {
+  const result = await accurateDataSync.applySyncPlan(plan.id);
+
+  assert.deepEqual(result.errors, []);
+  assert.deepEqual(
+    changes.map(change => [change.changeType, change.entityId, change.newValues]),
+    [
+      ['created', '256810', { id: '256810', fullName: 'Maria EXAMPLE', country: 'PT' }],
+      ['updated', stored.id, { country: 'AT' }],
+    ]
+  );
+  assert.deepEqual(events.map(event => event.type), ['mep.created', 'mep.updated', 'membership.added']);
+  assert.equal((events[2].data.membership as InsertMEPCommittee).committeeId, 'ENVI');
+});
+
+test('only one of concurrent approvals moves a plan out of pending', async () => {
+  const status = new Map([['plan-2', 'pending']]);
+  Object.assign(storage, {
+    // Compare-and-set, as the conditional UPDATE does in the database
+    transitionSyncPlan: async (id: string, fromStatus: string, values: Partial<SyncPlan>) => {
+      await new Promise(resolve => setImmediate(resolve));
+      if (status.get(id) !== fromStatus) return undefined;
+      status.set(id, values.status!);
+      return { ...plan, id, ...values };
+    },
+  });
+
+  const approvals = await Promise.all([
+    accurateDataSync.approveSyncPlan('plan-2', 'admin-1'),
+    accurateDataSync.approveSyncPlan('plan-2', 'admin-2'),
+  ]);
+
+  assert.equal(approvals.filter(Boolean).length, 1);
+  assert.equal(await accurateDataSync.rejectSyncPlan('plan-2', 'admin-3'), undefined);
+  assert.equal(status.get('plan-2'), 'approved');
+});
+
+test('only an already open membership counts as applied when an insert hits a unique constraint', async () => {
+  const uniqueViolation = (constraint: string) =>
+    Object.assign(new Error(`duplicate key value violates unique constraint "${constraint}"`), { code: '23505', constraint });
+  Object.assign(storage, {
+    createMEP: async () => { throw uniqueViolation('meps_pkey'); },
+    createMEPCommittee: async () => { throw uniqueViolation('mep_committees_open_unique'); },
+  });
+
+  const result = await accurateDataSync.applySyncPlan(plan.id);
+
+  assert.equal(result.mepsCreated, 0);
+  assert.equal(result.membershipsCreated, 0);
+  assert.deepEqual(result.errors, [
+    'Failed to apply create_mep for Maria EXAMPLE: Error: duplicate key value violates unique constraint "meps_pkey"',
+  ]);
+});
@@ -0,0 +1,169 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import cron from 'node-cron';
+import type { CalendarEvent, ChangeLog, CommitteeEvent, GroupTransferWithMEP, SyncSchedule } from '@shared/schema';
+import type { MailMessage, MailTransport } from '../utils/mailTransport';
+import { importUnrefTimers, loadStorage } from './helpers';
+
+process.env.APP_BASE_URL = 'https://mepwatch.example.org';
+
+const storage = await loadStorage();
+const { DigestService } = await import('../services/digest');
+const { SchedulerService } = await importUnrefTimers(() => import('../services/scheduler'));
+const { jobQueueService } = await import('../services/jobQueue');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const until = new Date('2025-09-15T07:00:00Z');
+
+const reader = { id: 'user-1', email: 'reader@example.org', firstName: 'Ada' };
+const quiet = { id: 'user-2', email: 'quiet@example.org', firstName: null };
+
+/** Watchlist feed per user; `since` of every feed request is recorded */
+const feedRequests: Array<{ userId: string; since: Date }> = [];
+const marked: Array<{ userId: string; coveredUntil: Date }> = [];
+/** Group transfers recorded in the period, shared by all users */
+let transfers: GroupTransferWithMEP[] = [];
+/** Events of the committee the reader follows */
+const committee = { id: 'ENVI', code: 'ENVI', name: 'Committee on the Environment' };
+const events = [
+  { id: 'event-1', committeeId: 'ENVI', title: 'Vote on the draft report', startDate: new Date(until.getTime() + 2 * DAY_MS), isPublic: true },
+  { id: 'event-2', committeeId: 'ENVI', title: 'Coordinators meeting', startDate: new Date(until.getTime() + 3 * DAY_MS), isPublic: false },
+] as CommitteeEvent[];
+
+function fakeTransport() {
+  const sent: MailMessage[] = [];
+  const transport: MailTransport = { name: 'console', send: async message => { sent.push(message); } };
+  return { transport, sent };
+}
+
+before(() => {
+  const change = {
+    id: 'change-1',
+    entityType: 'mep',
+    entityId: '124831',
+    changeType: 'updated',
+    fieldChanges: [{ field: 'politicalGroup', oldValue: 'ALDE', newValue: 'Renew' }],
+    createdAt: new Date(until.getTime() - DAY_MS / 2),
+  } as unknown as ChangeLog;
+  transfers = [{
+    transferType: 'political_group',
+    fromGroupAbbr: 'ALDE',
+    toGroupAbbr: 'Renew',
+    createdAt: new Date(until.getTime() - DAY_MS / 4),
+    mep: { fullName: 'Sophie EXAMPLE' },
+  } as unknown as GroupTransferWithMEP];
+
+  Object.assign(storage, {
+    getWatchlist: async (userId: string) =>
+      userId === reader.id
+        ? [{ entityType: 'mep', entityId: '124831', name: 'Sophie EXAMPLE' }, { entityType: 'committee', entityId: 'ENVI', ...committee }]
+        : [],
+    getWatchlistFeed: async (userId: string, { since }: { since: Date }) => {
+      feedRequests.push({ userId, since });
+      return userId === reader.id
+        ? { items: [{ kind: 'change', occurredAt: change.createdAt, change }], total: 1 }
+        : { items: [], total: 0 };
+    },
+    getGroupTransfers: async () => ({ transfers }),
+    // Both queries return what the database would: all events, or the public ones of a calendar filter
+    getCommitteeEvents: async () => events,
+    getCalendarEvents: async (filter: { userId?: string; from: Date; to: Date }): Promise<CalendarEvent[]> =>
+      filter.userId === reader.id
+        ? events
+          .filter(event => event.isPublic && event.startDate >= filter.from && event.startDate <= filter.to)
+          .map(event => ({ event, committee }))
+        : [],
+    getDigestRecipients: async () => [
+      { user: reader, preferences: { userId: reader.id, lastDigestAt: new Date(until.getTime() - 3 * DAY_MS) } },
+      { user: quiet, preferences: { userId: quiet.id, lastDigestAt: null } },
+    ],
+    markDigestSent: async (userId: string, coveredUntil: Date) => {
+      marked.push({ userId, coveredUntil });
+    },
+  });
+});
+
+test('renders watchlist changes, group transfers and public meetings', async () => {
+  const service = new DigestService(fakeTransport().transport);
+  const digest = await service.buildDigest(reader, 'daily', new Date(until.getTime() - DAY_MS), until);
+  const message = service.renderDigest(digest);
+
+  assert.equal(message.to, reader.email);
+  assert.equal(message.subject, 'Daily MEP Watch digest: 1 watchlist updates, 1 transfers');
+  assert.match(message.text, /^Hello Ada,/);
+  assert.match(message.text, /- Sophie EXAMPLE: politicalGroup changed/);
+  assert.match(message.text, /- Sophie EXAMPLE moved from ALDE to Renew/);
+  assert.match(message.text, /ENVI: Vote on the draft report/);
+  assert.doesNotMatch(message.text, /Coordinators meeting/);
+  assert.match(message.text, /https:\/\/mepwatch\.example\.org\/my-changes/);
+});
+
+test('sends digests since the previous one and skips users with nothing to report', async () => {
+  const { transport, sent } = fakeTransport();
+  transfers = [];
+  feedRequests.length = 0;
+  marked.length = 0;
+
+  const result = await new DigestService(transport).sendDigests('weekly');
+
+  assert.deepEqual({ sent: result.sent, skipped: result.skipped, failed: result.failed }, { sent: 1, skipped: 1, failed: 0 });
+  assert.deepEqual(sent.map(message => message.to), [reader.email]);
+  assert.match(sent[0].subject, /^Weekly MEP Watch digest/);
+
+  // The first digest covers one period, later ones start where the previous ended
+  const [readerFeed, quietFeed] = feedRequests;
+  assert.equal(readerFeed.since.getTime(), until.getTime() - 3 * DAY_MS);
+  assert.equal(marked.length, 2);
+  const coveredUntil = marked[0].coveredUntil.getTime();
+  assert.equal(quietFeed.since.getTime(), coveredUntil - 7 * DAY_MS);
+  assert.ok(marked.every(entry => entry.coveredUntil.getTime() === coveredUntil));
+});
+
+test('keeps the period of users whose digest could not be sent', async () => {
+  marked.length = 0;
+  const transport: MailTransport = {
+    name: 'smtp',
+    send: async () => { throw new Error('mail server unavailable'); },
+  };
+
+  const result = await new DigestService(transport).sendDigests('daily');
+
+  assert.equal(result.failed, 1);
+  assert.match(result.errors[0], /user-1 failed: mail server unavailable/);
+  assert.deepEqual(marked.map(entry => entry.userId), [quiet.id]);
+});
+
+test('schedules digest stages as sendDigests jobs with their frequency', async () => {
+  const queued: Array<{ type: string; payload: unknown }> = [];
+  Object.assign(storage, {
+    ensureSyncSchedules: async () => undefined,
+    getSyncSchedules: async () => [
+      { stage: 'daily_digest', cronExpression: '0 7 * * *', timezone: 'UTC', enabled: true },
+      { stage: 'weekly_digest', cronExpression: '0 7 * * 1', timezone: 'UTC', enabled: true },
+    ] as SyncSchedule[],
+  });
+  Object.assign(jobQueueService, {
+    enqueueScheduled: async (type: string, _scheduleKey: string, options: { payload?: unknown }) => {
+      queued.push({ type, payload: options.payload });
+    },
+  });
+
+  const scheduler = new SchedulerService();
+  after(() => scheduler.stop());
+  await scheduler.start();
+
+  const status = await scheduler.getStatus();
+  const weekly = status.schedules.find(schedule => schedule.stage === 'weekly_digest');
+  assert.equal(weekly?.jobType, 'sendDigests');
+  assert.equal(weekly?.nextRun?.getUTCDay(), 1);
+  assert.equal(weekly?.nextRun?.getUTCHours(), 7);
+
+  const tasks = Array.from(cron.getTasks().values());
+  for (const name of ['sync:daily_digest', 'sync:weekly_digest']) {
+    await tasks.find(task => task.name === name)!.execute();
+  }
+  assert.deepEqual(queued, [
+    { type: 'sendDigests', payload: { frequency: 'daily' } },
+    { type: 'sendDigests', payload: { frequency: 'weekly' } },
+  ]);
+});
@@ -0,0 +1,172 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { EUParliamentAPI } from '../services/euParliamentApi';
+import { parseTermNumber, termNumberForDate, toISODate } from '../utils/parliamentaryTerms';
+import { loadFixture, loadStorage } from './helpers';
+
+type EUDecisionData = Parameters<EUParliamentAPI['transformVoteData']>[0];
+type EUMEPData = Parameters<EUParliamentAPI['transformMandateData']>[0];
+
+const api = new EUParliamentAPI();
+
+describe('transformVoteData', () => {
+  test('parses a roll-call decision with counts, references and positions', async () => {
+    const { '@graph': decisions } = await loadFixture<{ '@graph': EUDecisionData[] }>('ep-api/sitting-decisions.jsonld');
+    const transformed = api.transformVoteData(decisions[0], 'MTG-PL-2024-09-17', '2024-09-17');
+
+    assert.ok(transformed);
+    assert.deepEqual(transformed.vote, {
+      id: 'MTG-PL-2024-09-17-VOT-ITM-000123',
+      sittingId: 'MTG-PL-2024-09-17',
+      voteDate: '2024-09-17',
+      title: 'Continuation of macro-financial assistance to Ukraine - Provisional agreement',
+      documentReference: 'A10-0012/2024',
+      procedureReference: '2024/0129(COD)',
+      outcome: 'adopted',
+      forCount: 519,
+      againstCount: 57,
+      abstainCount: 28,
+      officialUrl: 'https://www.europarl.europa.eu/doceo/document/PV-10-2024-09-17-RCV_EN.html',
+    });
+    assert.deepEqual(transformed.positions, [
+      { personId: '197490', position: 'for' },
+      { personId: '124831', position: 'for' },
+      { personId: '96825', position: 'for' },
+      { personId: '256810', position: 'against' },
+      { personId: '197400', position: 'abstain' },
+    ]);
+  });
+
+  test('falls back to the sitting date and voter list lengths', async () => {
+    const { '@graph': decisions } = await loadFixture<{ '@graph': EUDecisionData[] }>('ep-api/sitting-decisions.jsonld');
+    const transformed = api.transformVoteData(decisions[1], 'MTG-PL-2024-09-17', '2024-09-17');
+
+    assert.ok(transformed);
+    assert.equal(transformed.vote.voteDate, '2024-09-17');
+    assert.equal(transformed.vote.outcome, 'rejected');
+    assert.equal(transformed.vote.forCount, 1);
+    assert.equal(transformed.vote.againstCount, 4);
+    assert.equal(transformed.vote.abstainCount, 0);
+    assert.equal(transformed.vote.documentReference, null);
+    // Only identifiers shaped like 2024/0129(COD) are procedure references
+    assert.equal(transformed.vote.procedureReference, null);
+  });
+
+  test('skips decisions without a roll-call', async () => {
+    const { '@graph': decisions } = await loadFixture<{ '@graph': EUDecisionData[] }>('ep-api/sitting-decisions.jsonld');
+    assert.equal(api.transformVoteData(decisions[2], 'MTG-PL-2024-09-17', '2024-09-17'), null);
+  });
+
+  test('skips decisions without any date', async () => {
+    const { '@graph': decisions } = await loadFixture<{ '@graph': EUDecisionData[] }>('ep-api/sitting-decisions.jsonld');
+    assert.equal(api.transformVoteData(decisions[1], 'MTG-PL-2024-09-17'), null);
+  });
+});
+
+describe('transformMandateData', () => {
+  test('turns every dated mandate into a history row', async () => {
+    const { '@graph': [mep] } = await loadFixture<{ '@graph': EUMEPData[] }>('ep-api/mep-mandates.jsonld');
+
+    assert.deepEqual(api.transformMandateData(mep), [
+      {
+        termNumber: 8,
+        startDate: '2014-07-01',
+        endDate: '2019-07-01',
+        country: 'NL',
+        politicalGroup: 'Group of the Alliance of Liberals and Democrats for Europe',
+        politicalGroupAbbr: 'ALDE',
+        nationalPoliticalGroup: 'Democraten 66',
+      },
+      {
+        termNumber: 9,
+        startDate: '2019-07-02',
+        endDate: '2024-07-15',
+        country: 'NL',
+        politicalGroup: 'Renew Europe Group',
+        politicalGroupAbbr: 'Renew',
+        nationalPoliticalGroup: 'Democraten 66',
+      },
+      {
+        // No term reference: derived from the start date
+        termNumber: 10,
+        startDate: '2024-07-16',
+        endDate: null,
+        country: 'NL',
+        politicalGroup: 'Renew Europe Group',
+        politicalGroupAbbr: 'Renew',
+        nationalPoliticalGroup: null,
+      },
+    ]);
+  });
+
+  test('maps three-letter country codes to two-letter codes', async () => {
+    const { '@graph': [, austrian, estonian] } = await loadFixture<{ '@graph': EUMEPData[] }>('ep-api/mep-mandates.jsonld');
+
+    assert.deepEqual(api.transformMandateData(austrian).map(mandate => mandate.country), ['AT']);
+    // Not ES, which is Spain
+    assert.equal(api.transformMandateData(estonian)[0].country, 'EE');
+  });
+
+  test('stores a repeated mandate once', async () => {
+    const { '@graph': [, , estonian] } = await loadFixture<{ '@graph': EUMEPData[] }>('ep-api/mep-mandates.jsonld');
+    await loadStorage();
+    const { mandateRows } = await import('../storage');
+
+    const mandates = api.transformMandateData(estonian);
+    assert.equal(mandates.length, 2);
+    assert.deepEqual(mandateRows('256810', mandates), [{ ...mandates[0], mepId: '256810' }]);
+  });
+
+  test('returns no rows for an MEP without mandates', () => {
+    assert.deepEqual(api.transformMandateData({ id: 'person/1' } as EUMEPData), []);
+  });
+});
+
+describe('fetchSittingDecisions', () => {
+  test('follows the next page links of a sitting', async () => {
+    const requested: string[] = [];
+    const paged = new EUParliamentAPI();
+    const next = 'https://data.europarl.europa.eu/api/v2/meetings/MTG-PL-2024-09-17/decisions?offset=1';
+    Object.assign(paged, {
+      client: {
+        fetch: async (url: string) => {
+          requested.push(url);
+          const page = url === next
+            ? { '@graph': [{ id: 'decision-2' }] }
+            : { '@graph': [{ id: 'decision-1' }], 'hydra:view': { 'hydra:next': next } };
+          return new Response(JSON.stringify(page));
+        },
+      },
+    });
+
+    const decisions = await paged.fetchSittingDecisions('MTG-PL-2024-09-17');
+
+    assert.deepEqual(decisions['@graph'].map(decision => decision.id), ['decision-1', 'decision-2']);
+    assert.equal(requested.length, 2);
+  });
+});
+
+describe('parliamentary terms', () => {
+  test('maps dates onto terms at their first day', () => {
+    assert.equal(termNumberForDate('1979-07-17'), 1);
+    assert.equal(termNumberForDate('2019-07-01'), 8);
+    assert.equal(termNumberForDate('2019-07-02'), 9);
+    assert.equal(termNumberForDate('2024-07-15'), 9);
+    assert.equal(termNumberForDate(new Date('2024-07-16T12:00:00Z')), 10);
+  });
+
+  test('parses term references', () => {
+    assert.equal(parseTermNumber('http://data.europarl.europa.eu/org/ep-9'), 9);
+    assert.equal(parseTermNumber('10'), 10);
+    assert.equal(parseTermNumber(7), 7);
+    assert.equal(parseTermNumber('ep-current'), null);
+    assert.equal(parseTermNumber(undefined), null);
+  });
+
+  test('normalises dates and rejects unparsable values', () => {
+    assert.equal(toISODate('2024-07-16'), '2024-07-16');
+    assert.equal(toISODate('not a date'), null);
+    assert.equal(toISODate(''), null);
+    assert.equal(toISODate(null), null);
+  });
+});
@@ -0,0 +1,53 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { CalendarEvent, Committee, CommitteeEvent } from '@shared/schema';
+import { loadStorage } from './helpers';
+
+process.env.APP_BASE_URL = 'https://mepwatch.example.org';
+
+const storage = await loadStorage();
+const { calendarEventConditions } = await import('../storage');
+const { feedService } = await import('../services/feeds');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const committee = { id: 'ENVI', code: 'ENVI', name: 'Committee on the Environment' } as Committee;
+
+function event(id: string, title: string, isPublic: boolean): CommitteeEvent {
+  return {
+    id,
+    committeeId: committee.id,
+    title,
+    eventType: 'meeting',
+    startDate: new Date(Date.now() + 7 * DAY_MS),
+    isPublic,
+  } as CommitteeEvent;
+}
+
+const events = [event('event-1', 'Vote on the draft report', true), event('event-2', 'Coordinators meeting', false)];
+
+before(() => {
+  Object.assign(storage, {
+    getCommitteeByCode: async (code: string) => (code === committee.code ? committee : undefined),
+    // Both queries return what the database would: all events, or the public ones of a calendar filter
+    getCommitteeEvents: async () => events,
+    getCalendarEvents: async (filter: { committeeId?: string }): Promise<CalendarEvent[]> =>
+      events
+        .filter(candidate => candidate.isPublic && candidate.committeeId === filter.committeeId)
+        .map(candidate => ({ event: candidate, committee })),
+  });
+});
+
+test('committee event feeds leave out non-public events', async () => {
+  const feed = await feedService.committeeEventsFeed('envi');
+
+  assert.deepEqual(feed?.entries.map(entry => entry.title), ['ENVI: Vote on the draft report']);
+});
+
+test('the calendar query only selects public events', () => {
+  const query = new PgDialect().sqlToQuery(calendarEventConditions({ committeeId: committee.id })!);
+
+  assert.match(query.sql, /"committee_events"\."is_public" = \$1/);
+  assert.equal(query.params[0], true);
+});
@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import net, { type AddressInfo } from 'net';
+import { createMailTransport, MailTransportError } from '../utils/mailTransport';
+
+/**
+ * Plain-text SMTP server that does not offer STARTTLS, recording the verbs it receives
+ */
+async function startServer() {
+  const verbs: string[] = [];
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let inData = false;
+    socket.write('220 test ESMTP\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      let end: number;
+      while ((end = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            socket.write('250 queued\r\n');
+          }
+          continue;
+        }
+        const verb = line.split(' ')[0].toUpperCase();
+        verbs.push(verb);
+        switch (verb) {
+          case 'EHLO':
+            socket.write('250-test\r\n250 AUTH PLAIN\r\n');
+            break;
+          case 'AUTH':
+            socket.write('235 authenticated\r\n');
+            break;
+          case 'DATA':
+            inData = true;
+            socket.write('354 go ahead\r\n');
+            break;
+          case 'QUIT':
+            socket.end('221 bye\r\n');
+            break;
+          default:
+            socket.write('250 ok\r\n');
+        }
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { port, verbs, close: () => new Promise<void>(resolve => server.close(() => resolve())) };
+}
+
+const message = { to: 'reader@example.org', subject: 'Digest', text: 'Hello' };
+
+test('refuses to send credentials when the server does not offer STARTTLS', async () => {
+  const server = await startServer();
+  try {
+    const transport = createMailTransport('smtp', {
+      from: 'MEP Watch <noreply@example.org>',
+      smtp: { host: '127.0.0.1', port: server.port, secure: false, user: 'mailer', pass: 'secret' },
+    });
+
+    await assert.rejects(transport.send(message), MailTransportError);
+    assert.deepEqual(server.verbs, ['EHLO']);
+  } finally {
+    await server.close();
+  }
+});
+
+test('sends credentials in plain text only when explicitly allowed', async () => {
+  const server = await startServer();
+  try {
+    const transport = createMailTransport('smtp', {
+      from: 'MEP Watch <noreply@example.org>',
+      smtp: { host: '127.0.0.1', port: server.port, secure: false, user: 'mailer', pass: 'secret', allowInsecureAuth: true },
+    });
+
+    await transport.send(message);
+    assert.deepEqual(server.verbs, ['EHLO', 'AUTH', 'MAIL', 'RCPT', 'DATA', 'QUIT']);
+  } finally {
+    await server.close();
+  }
+});
+
+test('delivers without authentication over plain text', async () => {
+  const server = await startServer();
+  try {
+    const transport = createMailTransport('smtp', {
+      from: 'MEP Watch <noreply@example.org>',
+      smtp: { host: '127.0.0.1', port: server.port, secure: false },
+    });
+
+    await transport.send(message);
+    assert.deepEqual(server.verbs, ['EHLO', 'MAIL', 'RCPT', 'DATA', 'QUIT']);
+  } finally {
+    await server.close();
+  }
+});
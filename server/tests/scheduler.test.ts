@@ -0,0 +1,79 @@
+import { test, before, afterEach, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import cron from 'node-cron';
+import type { InsertJob, SyncSchedule } from '@shared/schema';
+import { importUnrefTimers, loadStorage } from './helpers';
+
+const storage = await loadStorage();
+const { schedulerService, SchedulerService } = await importUnrefTimers(() => import('../services/scheduler'));
+const { jobQueueService } = await import('../services/jobQueue');
+
+const queued: Array<{ type: string; payload: unknown }> = [];
+
+before(() => {
+  Object.assign(jobQueueService, {
+    enqueue: async (type: string, options: { payload?: unknown }) => {
+      queued.push({ type, payload: options.payload });
+      return { id: `job-${queued.length}`, type };
+    },
+  });
+});
+
+afterEach(() => {
+  queued.length = 0;
+  delete process.env.SYNC_REQUIRE_APPROVAL;
+});
+
+test('manual syncs write directly when approval is not required', async () => {
+  const result = await schedulerService.triggerManualSync(true, 'admin-1');
+
+  assert.equal(result.planOnly, false);
+  assert.deepEqual(queued, [{ type: 'syncOpenSanctions', payload: { planOnly: false, full: true } }]);
+});
+
+test('manual syncs only generate a plan when approval is required', async () => {
+  process.env.SYNC_REQUIRE_APPROVAL = 'true';
+
+  const result = await schedulerService.triggerManualSync(true, 'admin-1');
+
+  assert.equal(result.planOnly, true);
+  assert.deepEqual(queued, [{ type: 'syncOpenSanctions', payload: { planOnly: true, full: true } }]);
+});
+
+test('instances firing the same schedule slot queue one job', async () => {
+  const keys = new Set<string>();
+  const created: InsertJob[] = [];
+  Object.assign(storage, {
+    ensureSyncSchedules: async () => undefined,
+    getSyncSchedules: async () => [
+      { stage: 'daily_digest', cronExpression: '0 7 * * *', timezone: 'UTC', enabled: true },
+    ] as SyncSchedule[],
+    // Insert unless the key exists, as the unique constraint does in the database
+    createScheduledJob: async (job: InsertJob & { scheduleKey: string }) => {
+      if (keys.has(job.scheduleKey)) return undefined;
+      keys.add(job.scheduleKey);
+      created.push(job);
+      return { id: `job-${created.length}`, ...job };
+    },
+  });
+
+  const instances = [new SchedulerService(), new SchedulerService()];
+  after(() => instances.forEach(instance => instance.stop()));
+  for (const instance of instances) await instance.start();
+
+  const tasks = Array.from(cron.getTasks().values()).filter(task => task.name === 'sync:daily_digest');
+  assert.equal(tasks.length, 2);
+  // The instances' ticks land at different moments of the same minute
+  mock.timers.enable({ apis: ['Date'], now: new Date('2025-09-15T07:00:00.120Z') });
+  try {
+    await tasks[0].execute();
+    mock.timers.tick(850);
+    await tasks[1].execute();
+  } finally {
+    mock.timers.reset();
+  }
+
+  assert.deepEqual(created.map(job => [job.type, job.scheduleKey, job.payload]), [
+    ['sendDigests', 'daily_digest@2025-09-15T07:00:00.000Z', { frequency: 'daily' }],
+  ]);
+});
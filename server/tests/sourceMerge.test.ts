@@ -0,0 +1,93 @@
+import { test, before, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import type { FieldConflict, InsertChangeLog, InsertGroupTransfer, InsertMEP, MEP } from '@shared/schema';
+import { loadStorage } from './helpers';
+
+const storage = await loadStorage();
+const { sourceMergeService, StaleConflictError } = await import('../services/sourceMerge');
+const { webhookService } = await import('../services/webhooks');
+
+const mep = {
+  id: '124831',
+  fullName: 'Sophie EXAMPLE',
+  politicalGroup: 'Renew Europe Group',
+  politicalGroupAbbr: 'Renew',
+  nationalPoliticalGroup: 'Volt Nederland',
+  isActive: true,
+} as MEP;
+
+function conflict(currentValue: string): FieldConflict {
+  return {
+    id: 'conflict-1',
+    mepId: mep.id,
+    field: 'politicalGroupAbbr',
+    currentValue,
+    currentSource: 'eu_parliament_api',
+    incomingValue: 'Greens/EFA',
+    incomingSource: 'opensanctions',
+    incomingSourceUrl: null,
+    fetchedAt: new Date('2025-09-01T00:00:00Z'),
+    status: 'open',
+  } as FieldConflict;
+}
+
+const updates: Array<Partial<InsertMEP>> = [];
+const transfers: InsertGroupTransfer[] = [];
+const changes: InsertChangeLog[] = [];
+const events: string[] = [];
+const resolutions: string[] = [];
+
+before(() => {
+  Object.assign(storage, {
+    getMEP: async () => mep,
+    updateMEP: async (_id: string, values: Partial<InsertMEP>) => {
+      updates.push(values);
+      return { ...mep, ...values };
+    },
+    recordMEPProvenance: async () => undefined,
+    createGroupTransfer: async (transfer: InsertGroupTransfer) => {
+      transfers.push(transfer);
+      return { id: 'transfer-1', ...transfer };
+    },
+    createChangeLog: async (change: InsertChangeLog) => {
+      changes.push(change);
+      return { id: `change-${changes.length}`, ...change };
+    },
+    updateFieldConflict: async (id: string, values: Partial<FieldConflict>) => {
+      resolutions.push(values.status!);
+      return { ...conflict('Renew'), id, ...values };
+    },
+  });
+  Object.assign(webhookService, {
+    emit: async (type: string) => {
+      events.push(type);
+    },
+  });
+});
+
+afterEach(() => {
+  updates.length = 0;
+  transfers.length = 0;
+  changes.length = 0;
+  events.length = 0;
+  resolutions.length = 0;
+});
+
+test('accepting a conflict records the transfer, the change and the webhook like a sync update', async () => {
+  const resolved = await sourceMergeService.resolveConflict(conflict('Renew'), 'accept', 'admin-1');
+
+  assert.equal(resolved.status, 'accepted');
+  assert.deepEqual(updates, [{ politicalGroupAbbr: 'Greens/EFA' }]);
+  assert.deepEqual(transfers.map(transfer => [transfer.fromGroupAbbr, transfer.toGroupAbbr]), [['Renew', 'Greens/EFA']]);
+  assert.deepEqual(changes.map(change => change.changeType), ['transferred', 'updated']);
+  assert.deepEqual(changes[1].newValues, { politicalGroupAbbr: 'Greens/EFA' });
+  assert.deepEqual(events, ['mep.updated', 'mep.updated']);
+});
+
+test('refuses to accept a conflict whose stored value changed since it was queued', async () => {
+  await assert.rejects(sourceMergeService.resolveConflict(conflict('EPP'), 'accept', 'admin-1'), StaleConflictError);
+
+  assert.deepEqual(updates, []);
+  assert.deepEqual(changes, []);
+  assert.deepEqual(resolutions, []);
+});
@@ -0,0 +1,77 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import type { CommitteeEvent, InsertCommitteeEvent } from '@shared/schema';
+import { loadStorage } from './helpers';
+
+const storage = await loadStorage();
+const { dataSyncService } = await import('../services/dataSync');
+const { euParliamentAPI } = await import('../services/euParliamentApi');
+
+const start = new Date('2025-09-15T07:30:00Z');
+
+/** Imported before external ids were stored */
+const legacy = {
+  id: 'event-1',
+  committeeId: 'ENVI',
+  title: 'Exchange of views with the Commissioner',
+  eventType: 'meeting',
+  description: '',
+  startDate: start,
+  endDate: null,
+  location: 'Brussels',
+  meetingType: 'ordinary',
+  agenda: null,
+  documentsUrl: null,
+  liveStreamUrl: null,
+  isPublic: true,
+  externalId: null,
+  sequence: 0,
+} as unknown as CommitteeEvent;
+
+const created: InsertCommitteeEvent[] = [];
+const updates: Array<{ id: string; event: Partial<InsertCommitteeEvent> }> = [];
+
+before(() => {
+  Object.assign(storage, {
+    getCommitteeEventByExternalId: async () => undefined,
+    getLegacyCommitteeEvent: async (committeeId: string, title: string, startDate: Date) =>
+      committeeId === legacy.committeeId && title === legacy.title && startDate.getTime() === start.getTime() ? legacy : undefined,
+    createCommitteeEvent: async (event: InsertCommitteeEvent) => {
+      created.push(event);
+      return event;
+    },
+    updateCommitteeEvent: async (id: string, event: Partial<InsertCommitteeEvent>) => {
+      updates.push({ id, event });
+      return event;
+    },
+  });
+  Object.assign(euParliamentAPI, {
+    fetchEvents: async () => ({
+      '@graph': [
+        {
+          id: 'https://data.europarl.europa.eu/eli/event/MTG-ENVI-2025-09-15',
+          'ep:organizer': [{ '@id': 'https://data.europarl.europa.eu/org/ENVI' }],
+          'dcterms:title': { en: legacy.title },
+          'schema:startDate': start.toISOString(),
+          'schema:location': 'Brussels',
+        },
+        {
+          id: 'https://data.europarl.europa.eu/eli/event/MTG-ENVI-2025-10-01',
+          'ep:organizer': [{ '@id': 'https://data.europarl.europa.eu/org/ENVI' }],
+          'dcterms:title': { en: 'Public hearing, date to be confirmed' },
+        },
+      ],
+    }),
+  });
+});
+
+test('adopts events stored without an id and skips events without a start date', async () => {
+  const result = await dataSyncService.syncEvents();
+
+  assert.deepEqual(result.errors, []);
+  assert.equal(result.created, 0);
+  assert.equal(result.updated, 0);
+  assert.deepEqual(created, []);
+  // Unchanged content keeps its SEQUENCE; only the id is backfilled
+  assert.deepEqual(updates, [{ id: legacy.id, event: { externalId: 'MTG-ENVI-2025-09-15' } }]);
+});
@@ -0,0 +1,90 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import type { InsertChangeLog, InsertGroupTransfer, InsertMEP, MEP } from '@shared/schema';
+import { FIXTURES_DIR, loadStorage } from './helpers';
+
+// The transport is chosen when it is first imported
+process.env.HTTP_TRANSPORT_MODE = 'replay';
+process.env.HTTP_FIXTURES_DIR = path.join(FIXTURES_DIR, 'http');
+
+const storage = await loadStorage();
+const { dataSyncService } = await import('../services/dataSync');
+const { webhookService } = await import('../services/webhooks');
+const { createHttpTransport, FixtureNotFoundError } = await import('../utils/httpTransport');
+
+const meps = new Map<string, MEP>();
+const mandates = new Map<string, unknown[]>();
+const changes: InsertChangeLog[] = [];
+const transfers: InsertGroupTransfer[] = [];
+
+before(() => {
+  meps.set('124831', {
+    id: '124831',
+    firstName: 'Sophie',
+    lastName: 'Example',
+    fullName: 'Sophie EXAMPLE',
+    country: 'NL',
+    politicalGroup: 'ALDE',
+    politicalGroupAbbr: 'ALDE',
+    nationalPoliticalGroup: 'Volt Nederland',
+    isActive: true,
+  } as MEP);
+
+  Object.assign(storage, {
+    getMEP: async (id: string) => meps.get(id),
+    createMEP: async (mep: InsertMEP) => {
+      meps.set(mep.id, mep as MEP);
+      return mep;
+    },
+    updateMEP: async (id: string, values: Partial<InsertMEP>) => {
+      const updated = { ...meps.get(id)!, ...values } as MEP;
+      meps.set(id, updated);
+      return updated;
+    },
+    replaceMEPMandates: async (mepId: string, rows: unknown[]) => {
+      mandates.set(mepId, rows);
+      return rows;
+    },
+    recordMEPProvenance: async () => {},
+    getMEPProvenance: async () => ({}),
+    getSourcePrecedenceRules: async () => [],
+    createGroupTransfer: async (transfer: InsertGroupTransfer) => {
+      transfers.push(transfer);
+      return { ...transfer, id: `transfer-${transfers.length}` };
+    },
+    createChangeLog: async (change: InsertChangeLog) => {
+      changes.push(change);
+      return { ...change, id: `change-${changes.length}` };
+    },
+  });
+  Object.assign(webhookService, { emit: async () => {}, emitChange: async () => {} });
+});
+
+test('syncs MEPs from recorded EU Parliament responses', async () => {
+  const result = await dataSyncService.syncMEPs();
+
+  assert.deepEqual(result, { created: 2, updated: 1, errors: [] });
+  assert.deepEqual(Array.from(meps.keys()).sort(), ['124831', '197490', '256810']);
+  assert.equal(meps.get('197490')?.fullName, 'Maria SAMPLE');
+  assert.equal(meps.get('124831')?.politicalGroupAbbr, 'Renew');
+  assert.equal(mandates.get('124831')?.length, 2);
+
+  assert.equal(transfers.length, 1);
+  assert.equal(transfers[0].fromGroupAbbr, 'ALDE');
+  assert.equal(transfers[0].toGroupAbbr, 'Renew');
+  assert.deepEqual(changes.map(change => `${change.entityId} ${change.changeType}`).sort(), [
+    '124831 transferred',
+    '124831 updated',
+    '197490 created',
+    '256810 created',
+  ]);
+});
+
+test('replay refuses requests that were never recorded', async () => {
+  const transport = createHttpTransport('replay', path.join(FIXTURES_DIR, 'missing'));
+  await assert.rejects(
+    transport.fetch('https://data.europarl.europa.eu/api/v2/meps/show-current'),
+    FixtureNotFoundError
+  );
+});
@@ -0,0 +1,81 @@
+import { test, before, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import type { MEP, MEPMandate, InsertVote, InsertVoteResult } from '@shared/schema';
+import { loadFixture, loadStorage } from './helpers';
+
+const storage = await loadStorage();
+const { dataSyncService } = await import('../services/dataSync');
+const { euParliamentAPI } = await import('../services/euParliamentApi');
+
+const roster = ['197490', '124831', '96825', '256810', '28229', '124936'].map(id => ({ id, politicalGroupAbbr: 'Renew' }) as MEP);
+
+function mandate(mepId: string, startDate: string, endDate: string | null, politicalGroupAbbr = 'Renew') {
+  return { mepId, termNumber: 10, startDate, endDate, politicalGroupAbbr } as MEPMandate;
+}
+
+const mandates = [
+  ...['197490', '124831', '96825', '256810', '28229'].map(id => mandate(id, '2024-07-16', null)),
+  // Left after the sitting, so no longer on the active roster
+  mandate('28808', '2024-07-16', '2024-09-30', 'EPP'),
+  // Took up a seat after the sitting
+  mandate('124936', '2024-10-01', null),
+];
+
+const votes: InsertVote[] = [];
+const results = new Map<string, Omit<InsertVoteResult, 'voteId'>[]>();
+const fetchedSittings: string[] = [];
+
+before(async () => {
+  const sittings = await loadFixture('ep-api/plenary-sittings-2024.jsonld');
+  const decisions = await loadFixture('ep-api/sitting-decisions.jsonld');
+
+  Object.assign(storage, {
+    getLatestVoteDate: async () => '2024-09-17',
+    getAllMEPs: async () => roster,
+    getMandatesHeldOn: async (day: string) =>
+      mandates.filter(held => held.startDate <= day && (held.endDate === null || held.endDate >= day)),
+    upsertVote: async (vote: InsertVote) => { votes.push(vote); return vote; },
+    replaceVoteResults: async (voteId: string, rows: Omit<InsertVoteResult, 'voteId'>[]) => {
+      results.set(voteId, rows);
+      return rows.length;
+    },
+  });
+  Object.assign(euParliamentAPI, {
+    fetchPlenarySittings: async (year: number) => (year === 2024 ? sittings : { '@graph': [] }),
+    fetchSittingDecisions: async (sittingId: string) => {
+      fetchedSittings.push(sittingId);
+      return decisions;
+    },
+  });
+});
+
+afterEach(() => {
+  votes.length = 0;
+  results.clear();
+  fetchedSittings.length = 0;
+});
+
+test('re-fetches sittings from the latest stored vote day', async () => {
+  const result = await dataSyncService.syncVotes();
+
+  assert.deepEqual(result.errors, []);
+  assert.deepEqual(fetchedSittings, ['MTG-PL-2024-09-17']);
+  // The show-of-hands decision is not a vote
+  assert.deepEqual(votes.map(vote => vote.id), ['MTG-PL-2024-09-17-VOT-ITM-000123', 'MTG-PL-2024-09-17-VOT-ITM-000124']);
+  assert.equal(result.updated, 2);
+  assert.equal(result.created, 0);
+});
+
+test('links positions to MEPs and records MEPs holding a mandate on the vote day as absent', async () => {
+  await dataSyncService.syncVotes();
+
+  assert.deepEqual(results.get('MTG-PL-2024-09-17-VOT-ITM-000123'), [
+    { mepId: '197490', position: 'for', politicalGroupAbbr: 'Renew' },
+    { mepId: '124831', position: 'for', politicalGroupAbbr: 'Renew' },
+    { mepId: '96825', position: 'for', politicalGroupAbbr: 'Renew' },
+    { mepId: '256810', position: 'against', politicalGroupAbbr: 'Renew' },
+    // 197400 abstained but is not a known MEP, so no row is stored for them
+    { mepId: '28229', position: 'absent', politicalGroupAbbr: 'Renew' },
+    { mepId: '28808', position: 'absent', politicalGroupAbbr: 'EPP' },
+  ]);
+});
@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { HttpTransport } from '../utils/httpTransport';
+import { UpstreamClient, UpstreamError } from '../utils/upstreamClient';
+
+/** Live-mode transport answering from a handler, recording the conditional headers sent */
+function fakeTransport(handler: (url: string) => Response) {
+  const conditional: Array<string | null> = [];
+  const transport: HttpTransport = {
+    mode: 'live',
+    fetch: async (url, init) => {
+      conditional.push((init?.headers as Record<string, string>)['If-None-Match'] ?? null);
+      return handler(url);
+    },
+  };
+  return { transport, conditional };
+}
+
+test('revalidates cached responses and serves them on 304', async () => {
+  let calls = 0;
+  const { transport, conditional } = fakeTransport(() =>
+    calls++ === 0
+      ? new Response('{"ok":true}', { headers: { etag: '"v1"', 'content-type': 'application/json' } })
+      : new Response(null, { status: 304 })
+  );
+  const client = new UpstreamClient(transport);
+
+  await client.fetch('https://example.org/resource');
+  const revalidated = await client.fetch('https://example.org/resource');
+
+  assert.deepEqual(conditional, [null, '"v1"']);
+  assert.deepEqual(await revalidated.json(), { ok: true });
+});
+
+test('does not cache bodies too large to keep in memory', async () => {
+  const large = 'x'.repeat(5 * 1024 * 1024);
+  const { transport, conditional } = fakeTransport(() => new Response(large, { headers: { etag: '"big"' } }));
+  const client = new UpstreamClient(transport);
+
+  await client.fetch('https://example.org/bulk');
+  await client.fetch('https://example.org/bulk');
+
+  assert.deepEqual(conditional, [null, null]);
+});
+
+test('releases the body of a failed response', async () => {
+  let cancelled = false;
+  const { transport } = fakeTransport(() => new Response(
+    new ReadableStream({ cancel: () => { cancelled = true; } }),
+    { status: 404, statusText: 'Not Found' }
+  ));
+  const client = new UpstreamClient(transport);
+
+  await assert.rejects(client.fetch('https://example.org/missing'), UpstreamError);
+  assert.equal(cancelled, true);
+});
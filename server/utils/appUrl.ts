@@ -0,0 +1,11 @@
+/**
+ * Public URL of this instance, for absolute links in emails and feeds
+ *
+ * Taken from `APP_BASE_URL`, else the first `REPLIT_DOMAINS` entry, else the
+ * local development server.
+ */
+export function appBaseUrl(): string {
+  if (process.env.APP_BASE_URL) return process.env.APP_BASE_URL.replace(/\/$/, '');
+  const domain = process.env.REPLIT_DOMAINS?.split(',')[0];
+  return domain ? `https://${domain}` : 'http://localhost:5000';
+}
@@ -0,0 +1,84 @@
+/**
+ * Field-level diffing for change log entries
+ * Turns before/after snapshots into a list of changed fields
+ */
+
+import type { ChangeLog, FieldChange } from '@shared/schema';
+
+/** Bookkeeping columns that never count as a data change */
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt', 'lastUpdated']);
+
+/**
+ * Normalise a value so equivalent representations compare equal
+ * (Date vs ISO string, undefined vs null vs empty string)
+ */
+function normalize(value: unknown): unknown {
+  if (value === undefined || value === '') return null;
+  if (value instanceof Date) return value.toISOString();
+  return value;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  const left = normalize(a);
+  const right = normalize(b);
+  if (left === right) return true;
+  if (left === null || right === null) return false;
+  if (typeof left === 'object' || typeof right === 'object') {
+    return JSON.stringify(left) === JSON.stringify(right);
+  }
+  return String(left) === String(right);
+}
+
+/**
+ * Compute the fields that differ between two snapshots.
+ * Only fields present in `after` are compared, so partial updates from a
+ * sync source do not register absent fields as removed.
+ */
+export function diffFields(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): FieldChange[] {
+  if (!after) return [];
+
+  const changes: FieldChange[] = [];
+  for (const [field, value] of Object.entries(after)) {
+    if (IGNORED_FIELDS.has(field) || value === undefined) continue;
+    const previous = before ? before[field] : null;
+    if (!isEqual(previous, value)) {
+      changes.push({
+        field,
+        before: normalize(previous),
+        after: normalize(value),
+      });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Display name of the entity a change log entry belongs to, from its snapshots
+ */
+export function changeEntityName(change: ChangeLog): string {
+  const values = { ...(change.oldValues as Record<string, unknown> | null), ...(change.newValues as Record<string, unknown> | null) };
+  return String(values.fullName ?? values.name ?? `${change.entityType} ${change.entityId}`);
+}
+
+/**
+ * One-line summary of a change log entry, such as "Jane Doe: email, phone changed"
+ *
+ * @param name Display name of the entity, when known; read from the snapshots otherwise
+ */
+export function describeChange(change: ChangeLog, name = changeEntityName(change)): string {
+  const fields = change.fieldChanges.map(fieldChange => fieldChange.field);
+
+  switch (change.changeType) {
+    case 'created':
+      return `${name} was added`;
+    case 'transferred':
+      return `${name} changed affiliation`;
+    case 'declaration':
+      return `${name} filed a declaration of financial interests`;
+    default:
+      return fields.length > 0 ? `${name}: ${fields.join(', ')} changed` : `${name} was updated`;
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * European Parliament committee catalogue
+ * Classifies corporate bodies by committee type and links subcommittees to
+ * their parent committee. Standing committees and subcommittees are known by
+ * code; special and inquiry committees, delegations and joint bodies come and
+ * go during a term, so they are recognised by name.
+ */
+
+import type { CommitteeType } from '@shared/schema';
+
+export const COMMITTEE_TYPES: [CommitteeType, ...CommitteeType[]] = [
+  'standing', 'subcommittee', 'special', 'inquiry', 'delegation', 'joint',
+];
+
+/** Standing committees (Rules of Procedure, Annex VI) */
+const STANDING_COMMITTEES = [
+  'AFET', 'DEVE', 'INTA', 'BUDG', 'CONT', 'ECON', 'EMPL', 'ENVI', 'ITRE', 'IMCO',
+  'TRAN', 'REGI', 'AGRI', 'PECH', 'CULT', 'JURI', 'LIBE', 'AFCO', 'FEMM', 'PETI',
+];
+
+/** Subcommittees with the code of their parent committee */
+const SUBCOMMITTEES: Record<string, string> = {
+  DROI: 'AFET', // Human Rights
+  SEDE: 'AFET', // Security and Defence
+  FISC: 'ECON', // Tax Matters
+  SANT: 'ENVI', // Public Health
+};
+
+/** Name patterns for bodies without a fixed code, checked in order */
+const NAME_PATTERNS: Array<[RegExp, CommitteeType]> = [
+  [/^subcommittee\b/i, 'subcommittee'],
+  [/\bspecial committee\b/i, 'special'],
+  [/\bcommittee of inquiry\b|\binquiry committee\b/i, 'inquiry'],
+  [/^delegation\b/i, 'delegation'],
+  [/\bjoint\b/i, 'joint'],
+  [/^committee on\b/i, 'standing'],
+];
+
+export interface CommitteeClassification {
+  committeeType: CommitteeType;
+  /** Code of the parent committee, for subcommittees */
+  parentCode: string | null;
+}
+
+/**
+ * Classify a corporate body by code and name
+ *
+ * @returns The committee type, or null when the body is not a committee
+ */
+export function classifyCommittee(code: string, name: string): CommitteeClassification | null {
+  const upperCode = code.toUpperCase();
+  if (SUBCOMMITTEES[upperCode]) {
+    return { committeeType: 'subcommittee', parentCode: SUBCOMMITTEES[upperCode] };
+  }
+  if (STANDING_COMMITTEES.includes(upperCode)) {
+    return { committeeType: 'standing', parentCode: null };
+  }
+  if (upperCode.startsWith('D-')) {
+    return { committeeType: 'delegation', parentCode: null };
+  }
+
+  const match = NAME_PATTERNS.find(([pattern]) => pattern.test(name.trim()));
+  return match ? { committeeType: match[1], parentCode: null } : null;
+}
+
+/**
+ * Map a published role label (e.g. "Vice-Chair", "Substitute member") onto
+ * the stored role: chair, vice-chair, substitute or member
+ */
+export function normalizeCommitteeRole(roleLabel: string): string {
+  const role = roleLabel.toLowerCase();
+  // Before chair, which "Vice-Chair" also contains
+  if (role.includes('vice') || role.includes('deputy')) return 'vice-chair';
+  if (role.includes('chair') || role.includes('president')) return 'chair';
+  if (role.includes('substitute')) return 'substitute';
+  return 'member';
+}
@@ -1,159 +0,0 @@
-/**
- * Committee Membership Data Fixer
- * 
- * This utility fixes missing committee membership data by creating realistic
- * assignments based on EU Parliament structures and member profiles.
- * 
- * @author EU MEP Watch Development Team
- * @since August 2025
- */
-
-import { storage } from '../storage';
-import type { InsertMEPCommittee } from '@shared/schema';
-
-export class CommitteeMembershipFixer {
-  
-  /**
-   * Fix missing committee memberships by creating realistic assignments
-   */
-  async fixMissingMemberships(): Promise<{
-    membershipsCreated: number;
-    errors: string[];
-  }> {
-    console.log('🔧 Starting committee membership fix...');
-    
-    const errors: string[] = [];
-    let membershipsCreated = 0;
-    
-    try {
-      // Get all active MEPs and committees
-      const { meps } = await storage.getMEPs({ limit: 1000 });
-      const { committees } = await storage.getCommittees();
-      
-      console.log(`Found ${meps.length} MEPs and ${committees.length} committees`);
-      
-      // Define realistic committee distributions based on EU Parliament structure
-      const committeeAssignments = this.generateRealisticAssignments(meps, committees);
-      
-      // Create committee memberships
-      for (const assignment of committeeAssignments) {
-        try {
-          await storage.createMEPCommittee(assignment);
-          membershipsCreated++;
-        } catch (error) {
-          // Skip if membership already exists
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          if (!errorMessage.includes('duplicate')) {
-            errors.push(`Failed to create membership: ${errorMessage}`);
-          }
-        }
-      }
-      
-      console.log(`✅ Committee membership fix completed: ${membershipsCreated} memberships created`);
-      
-      return { membershipsCreated, errors };
-      
-    } catch (error) {
-      const errorMsg = `Committee membership fix failed: ${error}`;
-      console.error(errorMsg);
-      errors.push(errorMsg);
-      return { membershipsCreated, errors };
-    }
-  }
-  
-  /**
-   * Generate realistic committee assignments based on EU Parliament structure
-   */
-  private generateRealisticAssignments(meps: any[], committees: any[]): InsertMEPCommittee[] {
-    const assignments: InsertMEPCommittee[] = [];
-    
-    // Committee sizes based on actual EU Parliament structure
-    const committeeSizes: Record<string, number> = {
-      'AGRI': 48,  // Agriculture and Rural Development
-      'BUDG': 41,  // Budgets
-      'CCBE': 25,  // Constitutional Affairs
-      'CONT': 30,  // Budgetary Control
-      'CULT': 30,  // Culture and Education
-      'DEVE': 28,  // Development
-      'DROI': 25,  // Human Rights
-      'ECON': 60,  // Economic and Monetary Affairs
-      'EMPL': 55,  // Employment and Social Affairs
-      'ENVI': 79,  // Environment, Public Health and Food Safety
-      'FEMM': 35,  // Women's Rights and Gender Equality
-      'INTA': 28,  // International Trade
-      'ITRE': 69,  // Industry, Research and Energy
-      'JURI': 25,  // Legal Affairs
-      'LIBE': 64,  // Civil Liberties, Justice and Home Affairs
-      'PECH': 24,  // Fisheries
-      'PETI': 30,  // Petitions
-      'REGI': 48,  // Regional Development
-      'TRAN': 49,  // Transport and Tourism
-      'AFET': 73,  // Foreign Affairs
-    };
-    
-    // Shuffle MEPs for random distribution
-    const shuffledMEPs = [...meps].sort(() => Math.random() - 0.5);
-    
-    // Assign MEPs to committees
-    let mepIndex = 0;
-    
-    for (const committee of committees) {
-      const targetSize = committeeSizes[committee.code] || 35; // Default committee size
-      const membersAssigned = new Set<string>();
-      
-      // Assign members to this committee
-      for (let i = 0; i < targetSize && mepIndex < shuffledMEPs.length; i++) {
-        const mep = shuffledMEPs[mepIndex % shuffledMEPs.length];
-        
-        // Skip if already assigned to this committee
-        if (membersAssigned.has(mep.id)) {
-          mepIndex++;
-          continue;
-        }
-        
-        // Determine role (chair, vice-chair, or member)
-        let role = 'member';
-        if (i === 0) {
-          role = 'chair';
-        } else if (i < 3) {
-          role = 'vice-chair';
-        }
-        
-        assignments.push({
-          mepId: mep.id,
-          committeeId: committee.id,
-          role
-        });
-        
-        membersAssigned.add(mep.id);
-        mepIndex++;
-      }
-      
-      console.log(`Assigned ${membersAssigned.size} members to ${committee.code}`);
-    }
-    
-    // Ensure each MEP is on at least 1-2 committees (realistic for EU Parliament)
-    const mepCommitteeCounts = new Map<string, number>();
-    assignments.forEach(a => {
-      mepCommitteeCounts.set(a.mepId, (mepCommitteeCounts.get(a.mepId) || 0) + 1);
-    });
-    
-    // Add additional committee memberships for MEPs with too few assignments
-    for (const mep of meps) {
-      const currentCount = mepCommitteeCounts.get(mep.id) || 0;
-      if (currentCount < 1) {
-        // Assign to a random committee
-        const randomCommittee = committees[Math.floor(Math.random() * committees.length)];
-        assignments.push({
-          mepId: mep.id,
-          committeeId: randomCommittee.id,
-          role: 'member'
-        });
-      }
-    }
-    
-    return assignments;
-  }
-}
-
-export const committeeMembershipFixer = new CommitteeMembershipFixer();
\ No newline at end of file
@@ -0,0 +1,25 @@
+/**
+ * Country codes of EP constituencies
+ * The EP Open Data API identifies countries by the EU country authority URI,
+ * whose last segment is the ISO 3166-1 alpha-3 code (e.g. `.../country/AUT`),
+ * while MEP records store the alpha-2 code.
+ */
+
+/** ISO 3166-1 alpha-3 to alpha-2 of current and former member states */
+const ALPHA3_TO_ALPHA2: Record<string, string> = {
+  AUT: 'AT', BEL: 'BE', BGR: 'BG', HRV: 'HR', CYP: 'CY', CZE: 'CZ', DNK: 'DK',
+  EST: 'EE', FIN: 'FI', FRA: 'FR', DEU: 'DE', GRC: 'GR', HUN: 'HU', IRL: 'IE',
+  ITA: 'IT', LVA: 'LV', LTU: 'LT', LUX: 'LU', MLT: 'MT', NLD: 'NL', POL: 'PL',
+  PRT: 'PT', ROU: 'RO', SVK: 'SK', SVN: 'SI', ESP: 'ES', SWE: 'SE', GBR: 'GB',
+};
+
+/**
+ * Alpha-2 code of a country given as an alpha-2 or alpha-3 code
+ *
+ * @returns null for codes of countries that never sent MEPs
+ */
+export function toCountryCode(code: string): string | null {
+  const normalized = code.trim().toUpperCase();
+  if (normalized.length === 2) return normalized;
+  return ALPHA3_TO_ALPHA2[normalized] ?? null;
+}
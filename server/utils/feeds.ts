@@ -0,0 +1,142 @@
+/**
+ * Atom 1.0 and RSS 2.0 rendering
+ *
+ * Feeds are described once as a `Feed` and rendered in either format. The
+ * output only depends on the feed content, so a hash of it serves as a strong
+ * ETag for conditional GET.
+ *
+ * Conditional requests are evaluated here rather than with `req.fresh`, which
+ * treats every request carrying `Cache-Control: no-cache` as stale; some
+ * clients add that header to all conditional requests.
+ */
+
+import { createHash } from 'crypto';
+
+export type FeedFormat = 'atom' | 'rss';
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  atom: 'application/atom+xml; charset=utf-8',
+  rss: 'application/rss+xml; charset=utf-8',
+};
+
+export interface FeedEntry {
+  /** Permanent, unique identifier (an IRI), used as Atom id and RSS guid */
+  id: string;
+  title: string;
+  link: string;
+  updated: Date;
+  /** Plain-text summary */
+  summary: string;
+  /** Optional plain-text lines listed below the summary, e.g. changed fields */
+  details?: string[];
+  categories?: string[];
+}
+
+export interface Feed {
+  id: string;
+  title: string;
+  subtitle: string;
+  /** HTML page the feed belongs to */
+  link: string;
+  /** URL of the feed itself, without the format extension */
+  selfLink: string;
+  updated: Date;
+  entries: FeedEntry[];
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+/** Summary and details as an escaped HTML fragment */
+function entryHtml(entry: FeedEntry): string {
+  const summary = `<p>${escapeXml(entry.summary)}</p>`;
+  if (!entry.details || entry.details.length === 0) return summary;
+  return `${summary}<ul>${entry.details.map(line => `<li>${escapeXml(line)}</li>`).join('')}</ul>`;
+}
+
+export function renderAtom(feed: Feed): string {
+  const entries = feed.entries.map(entry => [
+    '  <entry>',
+    `    <id>${escapeXml(entry.id)}</id>`,
+    `    <title>${escapeXml(entry.title)}</title>`,
+    `    <link rel="alternate" type="text/html" href="${escapeXml(entry.link)}"/>`,
+    `    <updated>${entry.updated.toISOString()}</updated>`,
+    ...(entry.categories ?? []).map(category => `    <category term="${escapeXml(category)}"/>`),
+    `    <summary>${escapeXml(entry.summary)}</summary>`,
+    `    <content type="html">${escapeXml(entryHtml(entry))}</content>`,
+    '  </entry>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(feed.id)}</id>`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <subtitle>${escapeXml(feed.subtitle)}</subtitle>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(feed.link)}"/>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(`${feed.selfLink}.atom`)}"/>`,
+    `  <updated>${feed.updated.toISOString()}</updated>`,
+    '  <author><name>MEP Watch</name></author>',
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+export function renderRss(feed: Feed): string {
+  const items = feed.entries.map(entry => [
+    '    <item>',
+    `      <title>${escapeXml(entry.title)}</title>`,
+    `      <link>${escapeXml(entry.link)}</link>`,
+    `      <guid isPermaLink="false">${escapeXml(entry.id)}</guid>`,
+    `      <pubDate>${entry.updated.toUTCString()}</pubDate>`,
+    ...(entry.categories ?? []).map(category => `      <category>${escapeXml(category)}</category>`),
+    `      <description>${escapeXml(entryHtml(entry))}</description>`,
+    '    </item>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.link)}</link>`,
+    `    <description>${escapeXml(feed.subtitle)}</description>`,
+    `    <atom:link rel="self" type="application/rss+xml" href="${escapeXml(`${feed.selfLink}.rss`)}"/>`,
+    `    <lastBuildDate>${feed.updated.toUTCString()}</lastBuildDate>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
+
+export function renderFeed(feed: Feed, format: FeedFormat): string {
+  return format === 'atom' ? renderAtom(feed) : renderRss(feed);
+}
+
+/** Strong ETag of a rendered feed */
+export function feedETag(body: string): string {
+  return `"${createHash('sha256').update(body).digest('base64url').slice(0, 27)}"`;
+}
+
+/**
+ * Whether the client's `If-None-Match` already names this version
+ *
+ * Feeds are validated by ETag only: a committee's upcoming events change when
+ * past events drop out, without any entry getting newer.
+ */
+export function isNotModified(ifNoneMatch: string | undefined, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  return ifNoneMatch.split(',').some(tag => {
+    const candidate = tag.trim().replace(/^W\//, '');
+    return candidate === '*' || candidate === etag;
+  });
+}
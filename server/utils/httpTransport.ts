@@ -0,0 +1,158 @@
+/**
+ * HTTP transport for external data sources
+ *
+ * The EU Parliament, OpenSanctions and official XML clients fetch through a
+ * transport instead of calling `fetch` directly, so the sync pipeline can run
+ * without network access:
+ * - `live` (default): requests go to the upstream API
+ * - `record`: requests go upstream and every response is saved as a fixture
+ * - `replay`: responses are served from fixtures; nothing leaves the machine
+ *
+ * The mode comes from `HTTP_TRANSPORT_MODE` and fixtures live under
+ * `HTTP_FIXTURES_DIR` (default `fixtures/http`), one JSON file per request,
+ * grouped by host and named after a hash of the method and URL.
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { logger } from './logger';
+
+export type TransportMode = 'live' | 'record' | 'replay';
+
+export interface HttpTransport {
+  readonly mode: TransportMode;
+  fetch(url: string, init?: RequestInit): Promise<Response>;
+}
+
+/** A stored response, as written by record mode */
+interface Fixture {
+  method: string;
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  recordedAt: string;
+}
+
+/** Raised in replay mode when no fixture was recorded for a request */
+export class FixtureNotFoundError extends Error {
+  constructor(public readonly url: string, public readonly fixturePath: string) {
+    super(`No recorded fixture for ${url} (expected ${fixturePath}); record it with HTTP_TRANSPORT_MODE=record`);
+    this.name = 'FixtureNotFoundError';
+  }
+}
+
+/** Response headers worth replaying; the rest describe the original connection */
+const RECORDED_HEADERS = ['content-type', 'etag', 'last-modified'];
+
+function fixturePath(fixturesDir: string, method: string, url: string): string {
+  const hash = createHash('sha1').update(`${method} ${url}`).digest('hex').slice(0, 16);
+  return path.join(fixturesDir, new URL(url).hostname, `${hash}.json`);
+}
+
+function toResponse(fixture: Fixture): Response {
+  return new Response(fixture.body, {
+    status: fixture.status,
+    statusText: fixture.statusText,
+    headers: fixture.headers,
+  });
+}
+
+class LiveTransport implements HttpTransport {
+  readonly mode: TransportMode = 'live';
+
+  fetch(url: string, init?: RequestInit): Promise<Response> {
+    return fetch(url, init);
+  }
+}
+
+class RecordingTransport implements HttpTransport {
+  readonly mode: TransportMode = 'record';
+
+  constructor(private fixturesDir: string) {}
+
+  async fetch(url: string, init?: RequestInit): Promise<Response> {
+    const method = init?.method ?? 'GET';
+    const response = await fetch(url, init);
+
+    const headers: Record<string, string> = {};
+    for (const name of RECORDED_HEADERS) {
+      const value = response.headers.get(name);
+      if (value !== null) headers[name] = value;
+    }
+    const fixture: Fixture = {
+      method,
+      url,
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      body: await response.text(),
+      recordedAt: new Date().toISOString(),
+    };
+
+    const file = fixturePath(this.fixturesDir, method, url);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, JSON.stringify(fixture, null, 2));
+    logger.debug(`Recorded ${method} ${url}`, 'HttpTransport', { file });
+
+    // The body has been read, so hand back a copy built from the fixture
+    return toResponse(fixture);
+  }
+}
+
+class ReplayTransport implements HttpTransport {
+  readonly mode: TransportMode = 'replay';
+
+  constructor(private fixturesDir: string) {}
+
+  async fetch(url: string, init?: RequestInit): Promise<Response> {
+    const method = init?.method ?? 'GET';
+    const file = fixturePath(this.fixturesDir, method, url);
+
+    let fixture: Fixture;
+    try {
+      fixture = JSON.parse(await readFile(file, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new FixtureNotFoundError(url, file);
+      }
+      throw error;
+    }
+    return toResponse(fixture);
+  }
+}
+
+/**
+ * Create a transport for the given mode
+ *
+ * @param fixturesDir Directory fixtures are recorded to and replayed from
+ */
+export function createHttpTransport(mode: TransportMode, fixturesDir: string): HttpTransport {
+  switch (mode) {
+    case 'record':
+      return new RecordingTransport(fixturesDir);
+    case 'replay':
+      return new ReplayTransport(fixturesDir);
+    default:
+      return new LiveTransport();
+  }
+}
+
+function configuredMode(): TransportMode {
+  const mode = process.env.HTTP_TRANSPORT_MODE;
+  if (!mode || mode === 'live') return 'live';
+  if (mode === 'record' || mode === 'replay') return mode;
+  logger.warn(`Unknown HTTP_TRANSPORT_MODE "${mode}", using live requests`, 'HttpTransport');
+  return 'live';
+}
+
+const fixturesDir = process.env.HTTP_FIXTURES_DIR || path.resolve('fixtures', 'http');
+
+/** Transport shared by the external data source clients */
+export const httpTransport = createHttpTransport(configuredMode(), fixturesDir);
+
+if (httpTransport.mode !== 'live') {
+  logger.info(`HTTP transport in ${httpTransport.mode} mode`, 'HttpTransport', { fixturesDir });
+}
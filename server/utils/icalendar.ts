@@ -0,0 +1,119 @@
+/**
+ * iCalendar (RFC 5545) rendering
+ *
+ * Calendars are published with METHOD:PUBLISH. Clients match events by UID
+ * and keep the copy with the highest SEQUENCE, so a UID must never change for
+ * the same event and SEQUENCE must grow whenever its content does.
+ *
+ * DTSTAMP is the event's last modification rather than the render time, which
+ * keeps the output, and with it the ETag, stable between requests.
+ */
+
+export const CALENDAR_CONTENT_TYPE = 'text/calendar; charset=utf-8';
+
+/** Longest content line in octets, excluding the line break */
+const MAX_LINE_OCTETS = 75;
+
+export interface CalendarEntry {
+  /** Globally unique, permanent identifier of the event */
+  uid: string;
+  /** Revision number, incremented on every change */
+  sequence: number;
+  start: Date;
+  end: Date | null;
+  summary: string;
+  /** Plain-text description, may contain line breaks */
+  description: string;
+  location: string | null;
+  url: string | null;
+  categories: string[];
+  created: Date;
+  lastModified: Date;
+}
+
+export interface Calendar {
+  name: string;
+  description: string;
+  entries: CalendarEntry[];
+}
+
+/** Escape a TEXT value */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n')
+    // Control characters other than tab are not allowed in content lines
+    .replace(/[\u0000-\u0008\u000a-\u001f\u007f]/g, '');
+}
+
+/** UTC DATE-TIME, e.g. 20250915T073000Z */
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/** Split a content line into 75-octet chunks without breaking characters */
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = '';
+  let octets = 0;
+  const characters = Array.from(line);
+  for (let i = 0; i < characters.length; i++) {
+    const size = Buffer.byteLength(characters[i]);
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      octets = 0;
+    }
+    chunk += characters[i];
+    octets += size;
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+}
+
+function renderEntry(entry: CalendarEntry): string[] {
+  return [
+    'BEGIN:VEVENT',
+    `UID:${entry.uid}`,
+    `SEQUENCE:${entry.sequence}`,
+    `DTSTAMP:${formatDateTime(entry.lastModified)}`,
+    `CREATED:${formatDateTime(entry.created)}`,
+    `LAST-MODIFIED:${formatDateTime(entry.lastModified)}`,
+    `DTSTART:${formatDateTime(entry.start)}`,
+    ...(entry.end && entry.end > entry.start ? [`DTEND:${formatDateTime(entry.end)}`] : []),
+    `SUMMARY:${escapeText(entry.summary)}`,
+    ...(entry.description ? [`DESCRIPTION:${escapeText(entry.description)}`] : []),
+    ...(entry.location ? [`LOCATION:${escapeText(entry.location)}`] : []),
+    ...(entry.url ? [`URL:${entry.url}`] : []),
+    ...(entry.categories.length > 0 ? [`CATEGORIES:${entry.categories.map(escapeText).join(',')}`] : []),
+    'STATUS:CONFIRMED',
+    'END:VEVENT',
+  ];
+}
+
+export function renderICalendar(calendar: Calendar): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//MEP Watch//Committee Events//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+    `X-WR-CALDESC:${escapeText(calendar.description)}`,
+    // Suggested polling interval for subscribed calendars
+    'REFRESH-INTERVAL;VALUE=DURATION:PT6H',
+    'X-PUBLISHED-TTL:PT6H',
+    ...calendar.entries.flatMap(renderEntry),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/** The same URL with the webcal scheme, which opens the subscribe dialog of calendar apps */
+export function toWebcalUrl(url: string): string {
+  return url.replace(/^https?:\/\//, 'webcal://');
+}
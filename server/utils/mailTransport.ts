@@ -0,0 +1,332 @@
+/**
+ * Mail transport for outgoing notifications
+ *
+ * Digest emails are handed to a transport instead of talking to a mail server
+ * directly, so they can be built and inspected without one:
+ * - `smtp`: delivers through an SMTP server (STARTTLS when offered, or implicit TLS)
+ * - `file`: writes every message as an `.eml` file to `MAIL_FILES_DIR`
+ * - `console` (default): prints every message to the log
+ *
+ * The transport comes from `MAIL_TRANSPORT`; SMTP is configured with
+ * `SMTP_HOST`, `SMTP_PORT`, `SMTP_SECURE`, `SMTP_USER` and `SMTP_PASS`, and
+ * the sender address with `MAIL_FROM`. Credentials are only sent over TLS;
+ * `SMTP_ALLOW_INSECURE_AUTH=true` permits them in plain text, e.g. for a relay
+ * on localhost.
+ */
+
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import net, { type Socket } from 'net';
+import { hostname } from 'os';
+import path from 'path';
+import tls from 'tls';
+import { logger } from './logger';
+
+export type MailTransportName = 'smtp' | 'file' | 'console';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  readonly name: MailTransportName;
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** Connect with TLS from the start (port 465) instead of upgrading with STARTTLS */
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  /** Send credentials even when the server does not offer STARTTLS */
+  allowInsecureAuth?: boolean;
+  timeoutMs?: number;
+}
+
+/** Raised when the mail server refuses a command or the connection fails */
+export class MailTransportError extends Error {
+  constructor(message: string, public readonly code?: number) {
+    super(message);
+    this.name = 'MailTransportError';
+  }
+}
+
+const DEFAULT_SMTP_TIMEOUT_MS = 30000;
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+function base64Body(content: string): string {
+  return Buffer.from(content).toString('base64').replace(/.{76}/g, '$&\r\n');
+}
+
+/** Bare address of a `Name <address>` mailbox */
+export function mailboxAddress(mailbox: string): string {
+  return mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim();
+}
+
+/**
+ * Format a message as RFC 5322 text with a plain-text part and, when given, an HTML part
+ */
+export function formatMessage(message: MailMessage, from: string, date = new Date()): string {
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${mailboxAddress(from).split('@')[1] ?? hostname()}>`,
+    'MIME-Version: 1.0',
+  ];
+  const textPart = ['Content-Type: text/plain; charset=utf-8', 'Content-Transfer-Encoding: base64', '', base64Body(message.text)];
+
+  if (!message.html) {
+    return [...headers, ...textPart].join('\r\n');
+  }
+
+  const boundary = `=_${randomUUID()}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    ...textPart,
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+/**
+ * One SMTP session: reads multi-line replies and checks their codes
+ */
+class SmtpConnection {
+  private buffer = '';
+  private failure: Error | null = null;
+  private wake: (() => void) | null = null;
+
+  constructor(private socket: Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: Socket) {
+    socket.on('data', (chunk: Buffer) => {
+      this.buffer += chunk.toString('utf8');
+      this.wake?.();
+    });
+    socket.on('error', (error) => {
+      this.failure = error;
+      this.wake?.();
+    });
+    socket.on('close', () => {
+      this.failure ??= new MailTransportError('SMTP connection closed');
+      this.wake?.();
+    });
+  }
+
+  /** Take one complete reply off the buffer, or null while it is still arriving */
+  private takeReply(): { code: number; lines: string[] } | null {
+    const lines: string[] = [];
+    let offset = 0;
+    for (;;) {
+      const end = this.buffer.indexOf('\r\n', offset);
+      if (end === -1) return null;
+      const line = this.buffer.slice(offset, end);
+      lines.push(line.slice(4));
+      offset = end + 2;
+      if (line[3] !== '-') {
+        this.buffer = this.buffer.slice(offset);
+        return { code: parseInt(line.slice(0, 3), 10), lines };
+      }
+    }
+  }
+
+  /**
+   * Wait for the next reply and fail unless its code is one of `expected`
+   *
+   * @param verb Command the reply belongs to, for error messages
+   */
+  async expect(expected: number[], verb: string) {
+    for (;;) {
+      const reply = this.takeReply();
+      if (reply) {
+        if (!expected.includes(reply.code)) {
+          throw new MailTransportError(`SMTP ${verb} rejected: ${reply.code} ${reply.lines.join(' ')}`, reply.code);
+        }
+        return reply;
+      }
+      if (this.failure) throw this.failure;
+      await new Promise<void>(resolve => { this.wake = resolve; });
+      this.wake = null;
+    }
+  }
+
+  /** Send a command; only its verb appears in errors, so credentials never reach the log */
+  command(line: string, expected: number[]) {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, line.split(' ')[0]);
+  }
+
+  write(data: string) {
+    this.socket.write(data);
+  }
+
+  async upgrade(host: string, timeoutMs: number) {
+    this.socket.removeAllListeners();
+    const secure = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secure.once('secureConnect', resolve);
+      secure.once('error', reject);
+    });
+    secure.setTimeout(timeoutMs, () => secure.destroy(new MailTransportError('SMTP connection timed out')));
+    this.socket = secure;
+    this.attach(secure);
+  }
+
+  close() {
+    this.socket.end();
+  }
+}
+
+class SmtpTransport implements MailTransport {
+  readonly name: MailTransportName = 'smtp';
+
+  constructor(private options: SmtpOptions, private from: string) {}
+
+  private connect(): Promise<Socket> {
+    const { host, port, secure } = this.options;
+    const timeoutMs = this.options.timeoutMs ?? DEFAULT_SMTP_TIMEOUT_MS;
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve(socket))
+        : net.connect({ host, port }, () => resolve(socket));
+      socket.setTimeout(timeoutMs, () => socket.destroy(new MailTransportError('SMTP connection timed out')));
+      socket.once('error', reject);
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const { host, secure, user, pass, allowInsecureAuth } = this.options;
+    const connection = new SmtpConnection(await this.connect());
+
+    try {
+      await connection.expect([220], 'greeting');
+      const ehlo = await connection.command(`EHLO ${hostname()}`, [250]);
+
+      let encrypted = secure;
+      if (!secure && ehlo.lines.some(line => /^STARTTLS\b/i.test(line))) {
+        await connection.command('STARTTLS', [220]);
+        await connection.upgrade(host, this.options.timeoutMs ?? DEFAULT_SMTP_TIMEOUT_MS);
+        await connection.command(`EHLO ${hostname()}`, [250]);
+        encrypted = true;
+      }
+      if (user) {
+        if (!encrypted && !allowInsecureAuth) {
+          throw new MailTransportError(`SMTP server ${host} does not offer STARTTLS, refusing to send credentials in plain text`);
+        }
+        const credentials = Buffer.from(`\0${user}\0${pass ?? ''}`).toString('base64');
+        await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await connection.command(`MAIL FROM:<${mailboxAddress(this.from)}>`, [250]);
+      await connection.command(`RCPT TO:<${mailboxAddress(message.to)}>`, [250, 251]);
+      await connection.command('DATA', [354]);
+      // Dot-stuff lines starting with "." so they are not read as the end of data
+      connection.write(`${formatMessage(message, this.from).replace(/^\./gm, '..')}\r\n.\r\n`);
+      await connection.expect([250], 'DATA');
+      await connection.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      connection.close();
+    }
+  }
+}
+
+class FileTransport implements MailTransport {
+  readonly name: MailTransportName = 'file';
+
+  constructor(private dir: string, private from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const recipient = mailboxAddress(message.to).replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const file = path.join(this.dir, `${stamp}-${recipient}.eml`);
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(file, formatMessage(message, this.from));
+    logger.debug(`Wrote mail to ${message.to}`, 'MailTransport', { file });
+  }
+}
+
+class ConsoleTransport implements MailTransport {
+  readonly name: MailTransportName = 'console';
+
+  async send(message: MailMessage): Promise<void> {
+    logger.info(`Mail to ${message.to}: ${message.subject}`, 'MailTransport');
+    console.log(message.text);
+  }
+}
+
+/**
+ * Create a transport
+ *
+ * @param dir Directory the file transport writes to
+ */
+export function createMailTransport(name: MailTransportName, options: {
+  from: string;
+  smtp?: SmtpOptions;
+  dir?: string;
+}): MailTransport {
+  switch (name) {
+    case 'smtp':
+      if (!options.smtp) {
+        throw new Error('SMTP transport requires SMTP_HOST');
+      }
+      return new SmtpTransport(options.smtp, options.from);
+    case 'file':
+      return new FileTransport(options.dir ?? path.resolve('mail-outbox'), options.from);
+    default:
+      return new ConsoleTransport();
+  }
+}
+
+function configuredTransport(): MailTransportName {
+  const name = process.env.MAIL_TRANSPORT;
+  if (!name || name === 'console') return 'console';
+  if (name === 'smtp' && !process.env.SMTP_HOST) {
+    logger.warn('MAIL_TRANSPORT is smtp but SMTP_HOST is not set, printing mail to the console', 'MailTransport');
+    return 'console';
+  }
+  if (name === 'smtp' || name === 'file') return name;
+  logger.warn(`Unknown MAIL_TRANSPORT "${name}", printing mail to the console`, 'MailTransport');
+  return 'console';
+}
+
+function configuredSmtp(): SmtpOptions | undefined {
+  if (!process.env.SMTP_HOST) return undefined;
+  const port = parseInt(process.env.SMTP_PORT || '587', 10);
+  return {
+    host: process.env.SMTP_HOST,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    user: process.env.SMTP_USER,
+    pass: process.env.SMTP_PASS,
+    allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE_AUTH === 'true',
+  };
+}
+
+/** Sender of outgoing mail */
+export const mailFrom = process.env.MAIL_FROM || 'MEP Watch <noreply@localhost>';
+
+/** Transport shared by notification senders */
+export const mailTransport = createMailTransport(configuredTransport(), {
+  from: mailFrom,
+  smtp: configuredSmtp(),
+  dir: process.env.MAIL_FILES_DIR,
+});
@@ -0,0 +1,53 @@
+/**
+ * European Parliament legislative term helpers
+ * Maps mandate dates and term URIs onto parliamentary term numbers
+ */
+
+/** Start dates of each parliamentary term since the first direct elections */
+const TERM_START_DATES: Array<{ term: number; startDate: string }> = [
+  { term: 1, startDate: '1979-07-17' },
+  { term: 2, startDate: '1984-07-24' },
+  { term: 3, startDate: '1989-07-25' },
+  { term: 4, startDate: '1994-07-19' },
+  { term: 5, startDate: '1999-07-20' },
+  { term: 6, startDate: '2004-07-20' },
+  { term: 7, startDate: '2009-07-14' },
+  { term: 8, startDate: '2014-07-01' },
+  { term: 9, startDate: '2019-07-02' },
+  { term: 10, startDate: '2024-07-16' },
+];
+
+/**
+ * Determine the parliamentary term a date falls into
+ */
+export function termNumberForDate(date: string | Date): number {
+  const isoDate = typeof date === 'string' ? date.slice(0, 10) : date.toISOString().slice(0, 10);
+  let term = TERM_START_DATES[0].term;
+  for (const entry of TERM_START_DATES) {
+    if (isoDate >= entry.startDate) {
+      term = entry.term;
+    }
+  }
+  return term;
+}
+
+/**
+ * Parse a term number from an EP term reference such as
+ * "http://data.europarl.europa.eu/org/ep-9" or "9"
+ */
+export function parseTermNumber(term: string | number | undefined | null): number | null {
+  if (term === undefined || term === null) return null;
+  if (typeof term === 'number') return term;
+  const match = term.match(/(\d+)\s*$/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Normalise a date-like value to YYYY-MM-DD, or null when it cannot be parsed
+ */
+export function toISODate(value: string | undefined | null): string | null {
+  if (!value) return null;
+  const parsed = new Date(value);
+  if (isNaN(parsed.getTime())) return null;
+  return parsed.toISOString().slice(0, 10);
+}
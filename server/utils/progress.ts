@@ -0,0 +1,34 @@
+/**
+ * Progress reporting and cancellation for long-running tasks
+ * Lets sync, cleanup and quality tasks report how far they are and stop early
+ * without knowing whether they run inside a queued job
+ */
+
+/** Receives completion as a fraction between 0 and 1 */
+export type ProgressReporter = (fraction: number, message?: string) => void;
+
+export interface TaskControl {
+  onProgress?: ProgressReporter;
+  /** Aborted when the task should stop at its next checkpoint */
+  signal?: AbortSignal;
+}
+
+/**
+ * Control for a sub-task whose progress covers the range `from`..`to` of the parent
+ */
+export function subTask(control: TaskControl | undefined, from: number, to: number): TaskControl | undefined {
+  if (!control) return undefined;
+  const { onProgress, signal } = control;
+  return {
+    signal,
+    onProgress: onProgress && ((fraction, message) => onProgress(from + (to - from) * fraction, message)),
+  };
+}
+
+/**
+ * Report progress through a list of items; true when the task should stop
+ */
+export function checkpoint(control: TaskControl | undefined, done: number, total: number, message?: string): boolean {
+  control?.onProgress?.(total > 0 ? done / total : 1, message);
+  return control?.signal?.aborted === true;
+}
@@ -0,0 +1,409 @@
+/**
+ * Shared client for upstream data sources (EU Parliament, OpenSanctions)
+ *
+ * Wraps the HTTP transport with the safeguards every external request needs:
+ * - Per-host rate budgets: requests wait for the next window once a host's
+ *   budget is spent
+ * - Request timeouts covering the whole download
+ * - Exponential backoff on 429, 5xx and network errors, honouring `Retry-After`
+ * - A circuit breaker per host: after repeated failures requests fail fast
+ *   until a cooldown has passed, then a single trial request decides whether
+ *   the circuit closes again
+ * - ETag / Last-Modified caching: unchanged resources are revalidated with a
+ *   conditional request and served from memory on 304. The cache is capped by
+ *   size, and bodies too large to keep are simply fetched again
+ *
+ * Conditional requests are only sent in live mode, so recorded fixtures
+ * always hold full bodies and replayed runs don't spend rate budgets.
+ */
+
+import { httpTransport, type HttpTransport } from './httpTransport';
+import { logger } from './logger';
+
+interface RateBudget {
+  maxRequests: number;
+  windowMs: number;
+}
+
+/** Conservative budgets per host; the EU Parliament API allows 500 requests per 5 minutes */
+const HOST_BUDGETS: Record<string, RateBudget> = {
+  'data.europarl.europa.eu': { maxRequests: 450, windowMs: 5 * 60 * 1000 },
+  'data.opensanctions.org': { maxRequests: 60, windowMs: 60 * 1000 },
+};
+const DEFAULT_BUDGET: RateBudget = { maxRequests: 120, windowMs: 60 * 1000 };
+
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+const DEFAULT_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 2 * 60 * 1000;
+
+/** Consecutive failed attempts that open a host's circuit */
+const FAILURE_THRESHOLD = 5;
+const CIRCUIT_COOLDOWN_MS = 60 * 1000;
+
+/** Total size of the bodies kept for revalidation; least recently used are dropped beyond this */
+const MAX_CACHE_BYTES = 32 * 1024 * 1024;
+/** Larger bodies are not cached, so one bulk download cannot evict everything else */
+const MAX_CACHED_BODY_BYTES = 4 * 1024 * 1024;
+
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 504];
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface UpstreamRequestOptions {
+  headers?: Record<string, string>;
+  /** Abort the request (including its body) after this long */
+  timeoutMs?: number;
+  /** Retries after the first attempt for retryable failures */
+  retries?: number;
+}
+
+/** Per-host state shown on the monitoring page */
+export interface UpstreamHostStatus {
+  host: string;
+  circuit: CircuitState;
+  consecutiveFailures: number;
+  /** When an open circuit lets the next trial request through */
+  retryAt: Date | null;
+  lastError: string | null;
+  lastFailureAt: Date | null;
+  requests: number;
+  retries: number;
+  notModified: number;
+  budget: RateBudget & { used: number; resetAt: Date };
+}
+
+interface HostState {
+  circuit: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  trialInFlight: boolean;
+  lastError: string | null;
+  lastFailureAt: Date | null;
+  requests: number;
+  retries: number;
+  notModified: number;
+  windowUsed: number;
+  windowResetAt: number;
+}
+
+interface CachedResponse {
+  etag: string | null;
+  lastModified: string | null;
+  status: number;
+  statusText: string;
+  contentType: string | null;
+  body: string;
+  /** Size of the body in bytes, counted towards MAX_CACHE_BYTES */
+  size: number;
+}
+
+/** An upstream request failed after retries, or was refused by the server */
+export class UpstreamError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'UpstreamError';
+  }
+}
+
+/** The host's circuit is open, so the request was not sent */
+export class CircuitOpenError extends UpstreamError {
+  constructor(public readonly host: string, public readonly retryAt: Date) {
+    super(`${host} is unavailable (circuit open until ${retryAt.toISOString()})`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/** Internal marker for failures worth another attempt */
+class RetryableFailure {
+  constructor(public readonly error: UpstreamError, public readonly retryAfter: string | null) {}
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Delay before the next attempt: the server's `Retry-After` (seconds or HTTP
+ * date) when given, otherwise exponential backoff with jitter
+ */
+function retryDelay(attempt: number, retryAfter: string | null): number {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const delay = Number.isFinite(seconds) ? seconds * 1000 : new Date(retryAfter).getTime() - Date.now();
+    if (Number.isFinite(delay) && delay >= 0) {
+      return Math.min(delay, MAX_RETRY_DELAY_MS);
+    }
+  }
+  const backoff = BASE_RETRY_DELAY_MS * Math.pow(2, attempt);
+  return Math.min(backoff + Math.random() * BASE_RETRY_DELAY_MS, MAX_RETRY_DELAY_MS);
+}
+
+export class UpstreamClient {
+  private hosts = new Map<string, HostState>();
+  private cache = new Map<string, CachedResponse>();
+  private cacheBytes = 0;
+
+  constructor(private transport: HttpTransport = httpTransport) {}
+
+  /**
+   * Fetch an upstream resource
+   *
+   * Resolves with a 2xx response (a 304 is answered from the cache); throws
+   * an UpstreamError for any other outcome.
+   */
+  async fetch(url: string, options: UpstreamRequestOptions = {}): Promise<Response> {
+    const host = new URL(url).hostname;
+    const state = this.hostState(host);
+    const retries = options.retries ?? DEFAULT_RETRIES;
+
+    for (let attempt = 0; ; attempt++) {
+      this.enterCircuit(host, state);
+      await this.spendBudget(host, state);
+
+      let retryAfter: string | null = null;
+      let failure: UpstreamError;
+      try {
+        const response = await this.attempt(url, state, options);
+        this.recordSuccess(host, state);
+        return response;
+      } catch (error) {
+        if (!(error instanceof RetryableFailure)) {
+          // A non-retryable answer (e.g. 404) means the host itself is fine
+          this.recordSuccess(host, state);
+          throw error;
+        }
+        failure = error.error;
+        retryAfter = error.retryAfter;
+      }
+
+      this.recordFailure(host, state, failure);
+      if (attempt >= retries || state.circuit === 'open') {
+        throw failure;
+      }
+
+      const delay = retryDelay(attempt, retryAfter);
+      state.retries++;
+      logger.warn(`${failure.message}; retrying in ${Math.ceil(delay / 1000)}s`, 'UpstreamClient', { url, attempt: attempt + 1 });
+      await sleep(delay);
+    }
+  }
+
+  /**
+   * Circuit breaker and rate budget state per host
+   */
+  getStatus(): UpstreamHostStatus[] {
+    return Array.from(this.hosts.keys()).map(host => {
+      const state = this.hosts.get(host)!;
+      const budget = HOST_BUDGETS[host] ?? DEFAULT_BUDGET;
+      return {
+        host,
+        circuit: state.circuit,
+        consecutiveFailures: state.consecutiveFailures,
+        retryAt: state.circuit === 'open' && state.openedAt !== null
+          ? new Date(state.openedAt + CIRCUIT_COOLDOWN_MS)
+          : null,
+        lastError: state.lastError,
+        lastFailureAt: state.lastFailureAt,
+        requests: state.requests,
+        retries: state.retries,
+        notModified: state.notModified,
+        budget: { ...budget, used: state.windowUsed, resetAt: new Date(state.windowResetAt) },
+      };
+    });
+  }
+
+  private hostState(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = {
+        circuit: 'closed',
+        consecutiveFailures: 0,
+        openedAt: null,
+        trialInFlight: false,
+        lastError: null,
+        lastFailureAt: null,
+        requests: 0,
+        retries: 0,
+        notModified: 0,
+        windowUsed: 0,
+        windowResetAt: Date.now() + (HOST_BUDGETS[host] ?? DEFAULT_BUDGET).windowMs,
+      };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  /**
+   * Refuse the request while the circuit is open; once the cooldown has
+   * passed, let a single trial request through
+   */
+  private enterCircuit(host: string, state: HostState) {
+    if (state.circuit === 'closed') return;
+
+    const retryAt = (state.openedAt ?? 0) + CIRCUIT_COOLDOWN_MS;
+    if (state.circuit === 'open' && Date.now() >= retryAt) {
+      state.circuit = 'half_open';
+      logger.info(`Circuit for ${host} half-open, sending trial request`, 'UpstreamClient');
+    }
+    if (state.circuit === 'open' || state.trialInFlight) {
+      throw new CircuitOpenError(host, new Date(retryAt));
+    }
+    state.trialInFlight = true;
+  }
+
+  private async spendBudget(host: string, state: HostState) {
+    // Replayed fixtures never reach the host
+    if (this.transport.mode === 'replay') return;
+
+    const budget = HOST_BUDGETS[host] ?? DEFAULT_BUDGET;
+    if (Date.now() > state.windowResetAt) {
+      state.windowUsed = 0;
+      state.windowResetAt = Date.now() + budget.windowMs;
+    }
+    if (state.windowUsed >= budget.maxRequests) {
+      const waitTime = state.windowResetAt - Date.now();
+      logger.info(`Rate budget for ${host} spent, waiting ${Math.ceil(waitTime / 1000)}s`, 'UpstreamClient');
+      await sleep(waitTime + 1000);
+      state.windowUsed = 0;
+      state.windowResetAt = Date.now() + budget.windowMs;
+    }
+    state.windowUsed++;
+  }
+
+  /**
+   * Send one request and read its body within the timeout
+   */
+  private async attempt(url: string, state: HostState, options: UpstreamRequestOptions): Promise<Response> {
+    const cached = this.cache.get(url);
+    const headers: Record<string, string> = { ...options.headers };
+    if (cached && this.transport.mode === 'live') {
+      if (cached.etag) headers['If-None-Match'] = cached.etag;
+      if (cached.lastModified) headers['If-Modified-Since'] = cached.lastModified;
+    }
+
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    state.requests++;
+
+    try {
+      const response = await this.transport.fetch(url, { headers, signal: controller.signal });
+
+      if (response.status === 304 && cached) {
+        state.notModified++;
+        await this.discardBody(response);
+        this.remember(url, cached);
+        return this.toResponse(cached);
+      }
+
+      if (!response.ok) {
+        // Release the connection before the error is retried or reported
+        await this.discardBody(response);
+        const error = new UpstreamError(
+          `${new URL(url).hostname} request failed: ${response.status} ${response.statusText}`,
+          response.status
+        );
+        if (RETRYABLE_STATUSES.includes(response.status)) {
+          throw new RetryableFailure(error, response.headers.get('retry-after'));
+        }
+        throw error;
+      }
+
+      const body = await response.text();
+      const entry: CachedResponse = {
+        etag: response.headers.get('etag'),
+        lastModified: response.headers.get('last-modified'),
+        status: response.status,
+        statusText: response.statusText,
+        contentType: response.headers.get('content-type'),
+        body,
+        size: Buffer.byteLength(body),
+      };
+      if ((entry.etag || entry.lastModified) && entry.size <= MAX_CACHED_BODY_BYTES) {
+        this.remember(url, entry);
+      } else {
+        this.forget(url);
+      }
+      return this.toResponse(entry);
+    } catch (error) {
+      if (error instanceof UpstreamError || error instanceof RetryableFailure) {
+        throw error;
+      }
+      const host = new URL(url).hostname;
+      const message = controller.signal.aborted
+        ? `${host} request timed out after ${timeoutMs / 1000}s`
+        : `${host} request failed: ${error instanceof Error ? error.message : String(error)}`;
+      throw new RetryableFailure(new UpstreamError(message), null);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Cache a response as the most recently used, evicting the least recently
+   * used ones beyond MAX_CACHE_BYTES
+   */
+  private remember(url: string, entry: CachedResponse) {
+    this.forget(url);
+    this.cache.set(url, entry);
+    this.cacheBytes += entry.size;
+    while (this.cacheBytes > MAX_CACHE_BYTES) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest === undefined) break;
+      this.forget(oldest);
+    }
+  }
+
+  private forget(url: string) {
+    const entry = this.cache.get(url);
+    if (entry) {
+      this.cacheBytes -= entry.size;
+      this.cache.delete(url);
+    }
+  }
+
+  /** Cancel an unread body so its connection is released */
+  private async discardBody(response: Response) {
+    try {
+      await response.body?.cancel();
+    } catch {
+      // The body is unusable either way
+    }
+  }
+
+  private toResponse(entry: CachedResponse): Response {
+    return new Response(entry.body, {
+      status: entry.status,
+      statusText: entry.statusText,
+      headers: entry.contentType ? { 'content-type': entry.contentType } : undefined,
+    });
+  }
+
+  private recordSuccess(host: string, state: HostState) {
+    if (state.circuit !== 'closed') {
+      logger.info(`Circuit for ${host} closed`, 'UpstreamClient');
+    }
+    state.circuit = 'closed';
+    state.consecutiveFailures = 0;
+    state.openedAt = null;
+    state.trialInFlight = false;
+  }
+
+  private recordFailure(host: string, state: HostState, error: UpstreamError) {
+    state.consecutiveFailures++;
+    state.lastError = error.message;
+    state.lastFailureAt = new Date();
+
+    const trialFailed = state.circuit === 'half_open';
+    state.trialInFlight = false;
+    if (trialFailed || (state.circuit === 'closed' && state.consecutiveFailures >= FAILURE_THRESHOLD)) {
+      state.circuit = 'open';
+      state.openedAt = Date.now();
+      logger.error(`Circuit for ${host} opened after ${state.consecutiveFailures} consecutive failures`, 'UpstreamClient', {
+        lastError: error.message,
+      });
+    }
+  }
+}
+
+/** Client shared by the external data source integrations */
+export const upstreamClient = new UpstreamClient();
@@ -4,13 +4,23 @@
  * This file defines the complete database schema using Drizzle ORM with PostgreSQL.
  * The schema supports comprehensive tracking of EU Parliament data including:
  * - MEP profiles and membership information
+ * - Per-field provenance of MEP profile values (source, fetch time, URL)
+ * - Per-field source precedence rules and a review queue for source conflicts
  * - Committee structures and compositions  
  * - Parliamentary events and activities
- * - Data synchronization tracking and change logs
+ * - Plenary roll-call votes and individual MEP positions
+ * - Legislative procedures (OEIL) with committees and rapporteurs
+ * - Parliamentary questions and per-MEP activity counters
+ * - Verbatim plenary speeches (CRE) with full-text search
+ * - Declarations of financial interests with parsed line items per version
+ * - Data synchronization tracking, per-source sync watermarks and change logs
+ * - Dry-run sync plans listing pending writes for admin approval
+ * - Persistent background job queue with progress, retries and cancellation
+ * - Admin-editable cron schedules for each sync stage
  * 
  * Schema Design Principles:
  * - Normalized relational structure with proper foreign key constraints
- * - Many-to-many relationship between MEPs and Committees with role tracking
+ * - Time-bounded MEP-Committee memberships with role history
  * - Comprehensive audit trails for data changes and updates
  * - Official EU Parliament URL integration for data verification
  * - Optimized for both read performance and data integrity
@@ -20,7 +30,7 @@
  */
 
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, jsonb, boolean, primaryKey, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, date, jsonb, boolean, index, unique, uniqueIndex, customType, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -56,11 +66,104 @@ export const meps = pgTable("meps", {
   birthPlace: text("birth_place"),
   termStartDate: text("term_start_date"),
   officialUrl: text("official_url"), // EU Parliament profile URL
+  // Parliamentary activity counters, recomputed after each sync
+  questionsCount: integer("questions_count").default(0),
+  reportsCount: integer("reports_count").default(0),
+  speechesCount: integer("speeches_count").default(0),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
   updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`),
 });
 
+/**
+ * MEP Mandates Table - Full parliamentary mandate history per MEP
+ * 
+ * One row per mandate as published in the EU Parliament `ep:hasMandate` data:
+ * - Parliamentary term number (9 = 2019-2024, 10 = 2024-2029, ...)
+ * - Start and end date of the mandate (end date is null while it is ongoing)
+ * - Country, political group and national party held during that mandate
+ * 
+ * Allows reconstructing when an MEP entered, left or returned to Parliament
+ * instead of relying on the single `termStartDate` / `isActive` pair.
+ */
+export const mepMandates = pgTable("mep_mandates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  mepId: varchar("mep_id").notNull().references(() => meps.id, { onDelete: "cascade" }),
+  termNumber: integer("term_number").notNull(),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date"),
+  country: varchar("country", { length: 2 }),
+  politicalGroup: text("political_group"),
+  politicalGroupAbbr: varchar("political_group_abbr", { length: 10 }),
+  nationalPoliticalGroup: text("national_political_group"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  mepTermStartUnique: unique("mep_mandates_mep_term_start_unique").on(table.mepId, table.termNumber, table.startDate),
+  mepIdx: index("idx_mep_mandates_mep").on(table.mepId),
+}));
+
+/**
+ * MEP Field Provenance - Which source last wrote each MEP profile field
+ * 
+ * One row per MEP and field, replaced whenever a writer sets the field:
+ * - `source` is 'eu_parliament_api', 'opensanctions', 'seat_count_adjustment',
+ *   'data_cleanup' or 'fix_script'
+ * - `sourceUrl` points at the upstream record the value was taken from
+ * - `fetchedAt` is when the upstream data was retrieved
+ */
+export const mepFieldProvenance = pgTable("mep_field_provenance", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  mepId: varchar("mep_id").notNull().references(() => meps.id, { onDelete: "cascade" }),
+  field: varchar("field", { length: 50 }).notNull(),
+  source: varchar("source", { length: 30 }).notNull(),
+  sourceUrl: text("source_url"),
+  fetchedAt: timestamp("fetched_at").notNull(),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  mepFieldUnique: unique("mep_field_provenance_unique").on(table.mepId, table.field),
+}));
+
+/**
+ * Source Precedence Rules - Admin overrides of per-field source priority
+ * 
+ * Rules built into the merge layer apply unless a row exists for the field.
+ * `field` is an MEP column name, or '*' for the rule used by other fields.
+ */
+export const sourcePrecedenceRules = pgTable("source_precedence_rules", {
+  field: varchar("field", { length: 50 }).primaryKey(),
+  sources: jsonb("sources").$type<string[]>().notNull(), // Highest priority first
+  reviewConflicts: boolean("review_conflicts").notNull().default(false), // Queue values rejected by priority for review
+  updatedBy: varchar("updated_by"),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
+/**
+ * Field Conflicts - Review queue for values the merge layer could not settle
+ * 
+ * A conflict is queued when a source disagrees with the stored value and
+ * neither source outranks the other, or when the field's rule asks for
+ * review of rejected values. `status` is 'open', 'accepted' (incoming value
+ * written) or 'dismissed' (stored value kept; the same value is not queued again).
+ */
+export const fieldConflicts = pgTable("field_conflicts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  mepId: varchar("mep_id").notNull().references(() => meps.id, { onDelete: "cascade" }),
+  field: varchar("field", { length: 50 }).notNull(),
+  currentValue: jsonb("current_value"),
+  currentSource: varchar("current_source", { length: 30 }),
+  incomingValue: jsonb("incoming_value"),
+  incomingSource: varchar("incoming_source", { length: 30 }).notNull(),
+  incomingSourceUrl: text("incoming_source_url"),
+  fetchedAt: timestamp("fetched_at").notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("open"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+  resolvedBy: varchar("resolved_by"),
+  resolvedAt: timestamp("resolved_at"),
+}, (table) => ({
+  statusIdx: index("idx_field_conflicts_status").on(table.status, table.createdAt),
+  mepFieldIdx: index("idx_field_conflicts_mep_field").on(table.mepId, table.field),
+}));
+
 /**
  * Committees Table - EU Parliament committee information
  * 
@@ -69,12 +172,16 @@ export const meps = pgTable("meps", {
  * - Committee names in multiple languages
  * - Leadership information (chairperson, coordinators)
  * - Official EU Parliament committee page links
+ * - Type (standing, subcommittee, special, inquiry, delegation, joint), with
+ *   subcommittees linked to their parent committee
  */
 export const committees = pgTable("committees", {
   id: varchar("id").primaryKey(),
   code: varchar("code", { length: 10 }).notNull().unique(),
   name: text("name").notNull(),
   nameNational: text("name_national"),
+  committeeType: varchar("committee_type", { length: 20 }).notNull().default('standing'), // see CommitteeType
+  parentCommitteeId: varchar("parent_committee_id").references((): AnyPgColumn => committees.id, { onDelete: "set null" }),
   chairpersonName: text("chairperson_name"),
   chairpersonId: varchar("chairperson_id"),
   coordinatorName: text("coordinator_name"),
@@ -86,20 +193,51 @@ export const committees = pgTable("committees", {
 });
 
 /**
- * MEP-Committee Relationships - Many-to-many junction table
+ * MEP-Committee Relationships - Time-bounded membership periods
  * 
- * Manages committee memberships with:
- * - Role tracking (member, chair, vice-chair, etc.)
- * - Membership timestamps for audit trails
+ * Each row is one continuous membership period of an MEP in a committee:
+ * - Start and end date (end date is null while the membership is ongoing)
+ * - Current role (member, chair, vice-chair, etc.), with full history in `mep_committee_roles`
+ * - Leaving and rejoining a committee produces separate periods
+ * - At most one open period per MEP and committee
+ * - Source of the membership: the EP corporate-body membership data, or the
+ *   MEP's profile page as a fallback; rows of unknown origin are `unverified`
+ *   and purged by the membership sync
  * - Cascade deletion for data integrity
  */
 export const mepCommittees = pgTable("mep_committees", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   mepId: varchar("mep_id").notNull().references(() => meps.id, { onDelete: "cascade" }),
   committeeId: varchar("committee_id").notNull().references(() => committees.id, { onDelete: "cascade" }),
   role: text("role"),
+  startDate: date("start_date").notNull().default(sql`CURRENT_DATE`),
+  endDate: date("end_date"),
+  source: varchar("source", { length: 30 }).notNull().default('unverified'), // see MembershipSource
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
 }, (table) => ({
-  pk: primaryKey({ columns: [table.mepId, table.committeeId] }),
+  openMembershipUnique: uniqueIndex("mep_committees_open_unique")
+    .on(table.mepId, table.committeeId)
+    .where(sql`${table.endDate} IS NULL`),
+  mepIdx: index("idx_mep_committees_mep").on(table.mepId),
+  committeeIdx: index("idx_mep_committees_committee").on(table.committeeId),
+}));
+
+/**
+ * MEP-Committee Role History - Roles held within a membership period
+ * 
+ * Records promotions and demotions (e.g. member → vice-chair → chair) with
+ * the dates each role was held, so a committee's leadership can be rebuilt
+ * for any past day.
+ */
+export const mepCommitteeRoles = pgTable("mep_committee_roles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  membershipId: varchar("membership_id").notNull().references(() => mepCommittees.id, { onDelete: "cascade" }),
+  role: text("role").notNull(),
+  startDate: date("start_date").notNull().default(sql`CURRENT_DATE`),
+  endDate: date("end_date"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  membershipIdx: index("idx_mep_committee_roles_membership").on(table.membershipId),
 }));
 
 export const dataUpdates = pgTable("data_updates", {
@@ -111,9 +249,121 @@ export const dataUpdates = pgTable("data_updates", {
   recordsProcessed: integer("records_processed").default(0),
   recordsCreated: integer("records_created").default(0),
   recordsUpdated: integer("records_updated").default(0),
+  recordsSkipped: integer("records_skipped").default(0), // Unchanged since the source watermark
   errors: jsonb("errors"),
 });
 
+/**
+ * Sync State - Per-source watermark for incremental synchronization
+ * 
+ * `watermark` is the newest upstream modification timestamp already applied;
+ * records not modified after it are skipped on the next incremental run.
+ */
+export const syncState = pgTable("sync_state", {
+  source: varchar("source", { length: 50 }).primaryKey(), // e.g. 'opensanctions_meps'
+  watermark: timestamp("watermark"),
+  lastRunAt: timestamp("last_run_at"),
+  lastFullSyncAt: timestamp("last_full_sync_at"),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
+/**
+ * Sync Plans - Dry-run results awaiting admin review
+ * 
+ * A dry run computes every write a sync would make against a snapshot of the
+ * stored data and records it here instead of touching the database:
+ * - `status` moves from 'pending' to 'approved' while it is written, then
+ *   'applied' or 'failed'; or to 'rejected', or 'superseded' when a newer
+ *   plan for the source is generated
+ * - `summary` counts the planned changes per action
+ * - `watermark` is the sync watermark to store once the plan is applied
+ */
+export const syncPlans = pgTable("sync_plans", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  source: varchar("source", { length: 50 }).notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // 'pending', 'approved', 'applied', 'failed', 'rejected', 'superseded'
+  fullSync: boolean("full_sync").notNull().default(false),
+  summary: jsonb("summary").$type<SyncPlanSummary>().notNull(),
+  watermark: timestamp("watermark"),
+  errors: jsonb("errors"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+  reviewedBy: varchar("reviewed_by"),
+  reviewedAt: timestamp("reviewed_at"),
+  appliedAt: timestamp("applied_at"),
+}, (table) => ({
+  statusIdx: index("idx_sync_plans_status").on(table.status, table.createdAt),
+}));
+
+/**
+ * Sync Plan Changes - Individual writes of a sync plan, in application order
+ * 
+ * `payload` holds the data written on approval; `fieldChanges` lists the
+ * differences to the stored record for review.
+ */
+export const syncPlanChanges = pgTable("sync_plan_changes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  planId: varchar("plan_id").notNull().references(() => syncPlans.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  action: varchar("action", { length: 30 }).notNull(), // see SyncPlanAction
+  entityType: varchar("entity_type", { length: 20 }).notNull(), // 'mep', 'committee', 'membership'
+  entityId: varchar("entity_id").notNull(),
+  label: text("label").notNull(), // Readable name of the affected record
+  payload: jsonb("payload"),
+  fieldChanges: jsonb("field_changes").$type<FieldChange[]>().notNull().default(sql`'[]'::jsonb`),
+}, (table) => ({
+  planIdx: index("idx_sync_plan_changes_plan").on(table.planId, table.position),
+}));
+
+/**
+ * Jobs - Persistent queue for sync, cleanup and quality jobs
+ * 
+ * Workers claim queued jobs whose `runAt` has passed. A failed job is queued
+ * again with exponential backoff until `maxAttempts` is reached. `progress`
+ * (0-100) and `progressMessage` are updated while the job runs, and setting
+ * `cancelRequested` stops a running job at its next progress checkpoint.
+ */
+export const jobs = pgTable("jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: varchar("type", { length: 30 }).notNull(), // see JobType
+  status: varchar("status", { length: 20 }).notNull().default("queued"), // 'queued', 'running', 'completed', 'failed', 'cancelled'
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull().default(sql`'{}'::jsonb`),
+  progress: integer("progress").notNull().default(0),
+  progressMessage: text("progress_message"),
+  result: jsonb("result"),
+  error: text("error"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAt: timestamp("run_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+  cancelRequested: boolean("cancel_requested").notNull().default(false),
+  lockedBy: varchar("locked_by"), // Worker that claimed the job
+  heartbeatAt: timestamp("heartbeat_at"),
+  createdBy: varchar("created_by"), // User id, or null for scheduled jobs
+  scheduleKey: varchar("schedule_key"), // Stage and cron slot of a scheduled job, so each slot is queued once
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+}, (table) => ({
+  queueIdx: index("idx_jobs_queue").on(table.status, table.runAt),
+  createdIdx: index("idx_jobs_created").on(table.createdAt),
+  scheduleKeyUnique: unique("jobs_schedule_key_unique").on(table.scheduleKey),
+}));
+
+/**
+ * Sync Schedules - Cron expression per scheduled stage (syncs, reports and
+ * email digests), editable by admins
+ * 
+ * Each enabled stage enqueues its background job whenever its expression
+ * fires. Missing stages are seeded with defaults on startup.
+ */
+export const syncSchedules = pgTable("sync_schedules", {
+  stage: varchar("stage", { length: 30 }).primaryKey(), // see SyncScheduleStage
+  cronExpression: varchar("cron_expression", { length: 100 }).notNull(),
+  timezone: varchar("timezone", { length: 50 }).notNull().default("UTC"),
+  enabled: boolean("enabled").notNull().default(true),
+  updatedBy: varchar("updated_by"),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
 export const changeLog = pgTable("change_log", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   entityType: varchar("entity_type", { length: 20 }).notNull(),
@@ -121,9 +371,242 @@ export const changeLog = pgTable("change_log", {
   changeType: varchar("change_type", { length: 20 }).notNull(),
   oldValues: jsonb("old_values"),
   newValues: jsonb("new_values"),
+  fieldChanges: jsonb("field_changes").$type<FieldChange[]>().notNull().default(sql`'[]'::jsonb`), // Changed fields with before/after values
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  entityIdx: index("change_log_entity_idx").on(table.entityType, table.entityId, table.createdAt),
+}));
+
+/**
+ * Political Group Transfers - Structured record of affiliation changes
+ * 
+ * Written by the sync pipeline whenever an MEP's European political group
+ * or national party differs from the stored value:
+ * - `transferType` is 'political_group' or 'national_party'
+ * - From/to values for both the group (name and abbreviation) and national party
+ * - `transferDate` is the day the change was detected (or published upstream)
+ * - `source` identifies the sync that observed the change
+ */
+export const groupTransfers = pgTable("group_transfers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  mepId: varchar("mep_id").notNull().references(() => meps.id, { onDelete: "cascade" }),
+  transferType: varchar("transfer_type", { length: 20 }).notNull(), // 'political_group', 'national_party'
+  fromGroup: text("from_group"),
+  fromGroupAbbr: varchar("from_group_abbr", { length: 10 }),
+  toGroup: text("to_group"),
+  toGroupAbbr: varchar("to_group_abbr", { length: 10 }),
+  fromNationalParty: text("from_national_party"),
+  toNationalParty: text("to_national_party"),
+  transferDate: date("transfer_date").notNull(),
+  source: varchar("source", { length: 30 }).notNull(), // 'eu_parliament_api', 'opensanctions'
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  mepIdx: index("idx_group_transfers_mep").on(table.mepId),
+  dateIdx: index("idx_group_transfers_date").on(table.transferDate),
+}));
+
+/**
+ * Plenary Votes - Roll-call votes held in plenary sittings
+ * 
+ * Each row is one roll-call decision from the EP Open Data API. Totals are the
+ * official counts; individual positions are stored in `vote_result`.
+ */
+export const votes = pgTable("vote", {
+  id: varchar("id").primaryKey(), // EP decision/activity identifier
+  sittingId: varchar("sitting_id").notNull(), // Plenary sitting, e.g. MTG-PL-2024-01-15
+  voteDate: date("vote_date").notNull(),
+  title: text("title").notNull(),
+  documentReference: varchar("document_reference", { length: 50 }), // e.g. A9-0123/2024
+  procedureReference: varchar("procedure_reference", { length: 30 }), // e.g. 2023/0123(COD)
+  outcome: varchar("outcome", { length: 20 }), // 'adopted', 'rejected'
+  forCount: integer("for_count").default(0),
+  againstCount: integer("against_count").default(0),
+  abstainCount: integer("abstain_count").default(0),
+  officialUrl: text("official_url"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  dateIdx: index("idx_vote_date").on(table.voteDate),
+  sittingIdx: index("idx_vote_sitting").on(table.sittingId),
+}));
+
+/**
+ * Vote Results - Individual MEP position in a roll-call vote
+ * The political group is captured at vote time so group analytics survive later transfers.
+ */
+export const voteResults = pgTable("vote_result", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  voteId: varchar("vote_id").notNull().references(() => votes.id, { onDelete: "cascade" }),
+  mepId: varchar("mep_id").notNull().references(() => meps.id, { onDelete: "cascade" }),
+  position: varchar("position", { length: 10 }).notNull(), // 'for', 'against', 'abstain', 'absent'
+  politicalGroupAbbr: varchar("political_group_abbr", { length: 10 }),
+}, (table) => ({
+  voteMepUnique: unique("vote_result_vote_mep_unique").on(table.voteId, table.mepId),
+  mepIdx: index("idx_vote_result_mep").on(table.mepId),
+}));
+
+/**
+ * Parliamentary Questions - Written, oral and priority questions to EU institutions
+ * 
+ * Authors are linked to MEPs through `question_authors` since questions are
+ * frequently tabled by several MEPs jointly.
+ */
+export const parliamentaryQuestions = pgTable("parliamentary_questions", {
+  id: varchar("id").primaryKey(), // EP document identifier, e.g. E-10-2024-001234
+  reference: varchar("reference", { length: 30 }), // Public reference, e.g. E-001234/2024
+  questionType: varchar("question_type", { length: 10 }).notNull(), // 'written', 'oral', 'priority'
+  title: text("title").notNull(),
+  content: text("content"),
+  addressee: varchar("addressee", { length: 30 }), // 'Commission', 'Council', 'VP/HR'
+  submittedDate: date("submitted_date"),
+  answerDate: date("answer_date"),
+  officialUrl: text("official_url"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  submittedIdx: index("idx_questions_submitted").on(table.submittedDate),
+  addresseeIdx: index("idx_questions_addressee").on(table.addressee),
+}));
+
+export const questionAuthors = pgTable("question_authors", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  questionId: varchar("question_id").notNull().references(() => parliamentaryQuestions.id, { onDelete: "cascade" }),
+  mepId: varchar("mep_id").notNull().references(() => meps.id, { onDelete: "cascade" }),
+}, (table) => ({
+  questionMepUnique: unique("question_authors_question_mep_unique").on(table.questionId, table.mepId),
+  mepIdx: index("idx_question_authors_mep").on(table.mepId),
+}));
+
+/**
+ * MEP Declarations - Declarations of private interests (DPI), one row per version
+ * 
+ * Versions are ordered by declaration date. The official PDF rarely carries
+ * structured data, so a version stays unparsed (`isParsed = false`) until its
+ * line items are supplied, e.g. through an admin XML upload.
+ */
+export const mepDeclarations = pgTable("mep_declarations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  mepId: varchar("mep_id").notNull().references(() => meps.id, { onDelete: "cascade" }),
+  declarationDate: date("declaration_date").notNull(),
+  source: varchar("source", { length: 30 }).notNull(), // 'eu_parliament_api', 'admin_upload'
+  documentUrl: text("document_url"), // Official PDF on europarl.europa.eu
+  documentFormat: varchar("document_format", { length: 10 }), // 'pdf', 'xml' for uploaded files
+  storedFile: text("stored_file"), // Uploaded file, relative to the declarations upload directory
+  contentHash: varchar("content_hash", { length: 64 }), // SHA-256 of the uploaded file
+  isParsed: boolean("is_parsed").default(false).notNull(),
+  uploadedBy: varchar("uploaded_by"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  mepDateUnique: unique("mep_declarations_mep_date_unique").on(table.mepId, table.declarationDate),
+}));
+
+export const declarationItems = pgTable("declaration_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  declarationId: varchar("declaration_id").notNull().references(() => mepDeclarations.id, { onDelete: "cascade" }),
+  category: varchar("category", { length: 20 }).notNull(), // 'outside_activity', 'holding', 'other'
+  section: varchar("section", { length: 2 }), // DPI form section, A-H
+  description: text("description").notNull(),
+  incomeBand: varchar("income_band", { length: 20 }), // DPI income category, e.g. '2' (EUR 1 001-5 000/month)
+  position: integer("position").default(0).notNull(),
+}, (table) => ({
+  declarationIdx: index("idx_declaration_items_declaration").on(table.declarationId),
+}));
+
+/**
+ * PostgreSQL full-text search document, only ever written by the database
+ */
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
 });
 
+/**
+ * Plenary Speeches - Verbatim contributions from the Compte Rendu In Extenso (CRE)
+ * 
+ * Speeches are multilingual, so the search vector uses the language-neutral
+ * `simple` configuration and is generated by the database from title and text.
+ */
+export const speeches = pgTable("speeches", {
+  id: varchar("id").primaryKey(), // EP speech identifier
+  mepId: varchar("mep_id").notNull().references(() => meps.id, { onDelete: "cascade" }),
+  sittingId: varchar("sitting_id"),
+  speechDate: date("speech_date").notNull(),
+  debateTitle: text("debate_title"),
+  language: varchar("language", { length: 5 }), // Original language, e.g. 'EN', 'DE'
+  text: text("text").notNull(),
+  officialUrl: text("official_url"),
+  searchVector: tsvector("search_vector").generatedAlwaysAs(
+    sql`to_tsvector('simple', coalesce(debate_title, '') || ' ' || text)`
+  ),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  mepDateIdx: index("idx_speeches_mep_date").on(table.mepId, table.speechDate),
+  searchIdx: index("idx_speeches_search").using("gin", table.searchVector),
+}));
+
+/**
+ * Legislative Procedures - OEIL procedure files
+ * 
+ * Identified by the official procedure reference, e.g. 2023/0123(COD).
+ * Committees and rapporteurs are linked through `procedure_committees`
+ * and `procedure_rapporteurs`.
+ */
+export const procedures = pgTable("procedures", {
+  reference: varchar("reference", { length: 30 }).primaryKey(), // e.g. 2023/0123(COD)
+  title: text("title").notNull(),
+  procedureType: varchar("procedure_type", { length: 10 }), // 'COD', 'INI', 'NLE', 'BUD', ...
+  stage: text("stage"), // Latest known stage, e.g. 'Awaiting committee decision'
+  startDate: date("start_date"),
+  lastEventDate: date("last_event_date"),
+  officialUrl: text("official_url"), // OEIL procedure file URL
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  lastEventIdx: index("idx_procedures_last_event").on(table.lastEventDate),
+}));
+
+/**
+ * Procedure Committees - Lead and opinion committees of a procedure
+ */
+export const procedureCommittees = pgTable("procedure_committees", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  procedureReference: varchar("procedure_reference", { length: 30 }).notNull().references(() => procedures.reference, { onDelete: "cascade" }),
+  committeeId: varchar("committee_id").notNull().references(() => committees.id, { onDelete: "cascade" }),
+  role: varchar("role", { length: 10 }).notNull(), // 'lead', 'opinion'
+}, (table) => ({
+  procedureCommitteeUnique: unique("procedure_committees_unique").on(table.procedureReference, table.committeeId),
+  committeeIdx: index("idx_procedure_committees_committee").on(table.committeeId),
+}));
+
+/**
+ * Procedure Rapporteurs - Rapporteurs and shadow rapporteurs linked to MEPs
+ */
+export const procedureRapporteurs = pgTable("procedure_rapporteurs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  procedureReference: varchar("procedure_reference", { length: 30 }).notNull().references(() => procedures.reference, { onDelete: "cascade" }),
+  mepId: varchar("mep_id").notNull().references(() => meps.id, { onDelete: "cascade" }),
+  committeeId: varchar("committee_id").references(() => committees.id, { onDelete: "set null" }),
+  role: varchar("role", { length: 20 }).notNull(), // 'rapporteur', 'shadow_rapporteur'
+  politicalGroupAbbr: varchar("political_group_abbr", { length: 10 }),
+  appointedDate: date("appointed_date"),
+}, (table) => ({
+  procedureIdx: index("idx_procedure_rapporteurs_procedure").on(table.procedureReference),
+  mepIdx: index("idx_procedure_rapporteurs_mep").on(table.mepId),
+}));
+
+/**
+ * Committee Events - Meetings and hearings imported from the EP events feed
+ * 
+ * - `externalId` is the EP event id; the events sync updates the row with the
+ *   same id instead of inserting a duplicate. Rows imported before the id was
+ *   stored are matched on committee, title and start, and get it backfilled
+ * - `sequence` counts revisions of the date, place or content, and is
+ *   published as the iCalendar SEQUENCE so calendar clients replace the
+ *   entry they already have
+ */
 export const committeeEvents = pgTable("committee_events", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   committeeId: varchar("committee_id").notNull().references(() => committees.id, { onDelete: "cascade" }),
@@ -139,18 +622,211 @@ export const committeeEvents = pgTable("committee_events", {
   liveStreamUrl: text("live_stream_url"),
   officialUrl: text("official_url"), // EU Parliament event URL
   isPublic: boolean("is_public").default(true),
+  externalId: varchar("external_id", { length: 100 }).unique(),
+  sequence: integer("sequence").notNull().default(0),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
+/**
+ * Watchlist Entries - MEPs and committees followed by a user
+ * 
+ * Each row is one followed entity:
+ * - `entityType` is 'mep' or 'committee', matching `change_log.entity_type`
+ * - `entityId` is the MEP or committee id
+ * 
+ * The "My changes" feed joins these rows against the change log and, for
+ * committees, against newly added committee events.
+ */
+export const watchlistEntries = pgTable("watchlist_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  entityType: varchar("entity_type", { length: 20 }).notNull(), // see WatchEntityType
+  entityId: varchar("entity_id").notNull(),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  userEntityUnique: unique("watchlist_entries_user_entity_unique").on(table.userId, table.entityType, table.entityId),
+}));
+
+/**
+ * Notification Preferences - Email digest and calendar settings per user
+ * 
+ * - `digestFrequency` is 'off', 'daily' or 'weekly'
+ * - `lastDigestAt` marks the end of the period covered by the last digest,
+ *   so the next one starts where it left off
+ * - `calendarToken` is the secret in the user's watchlist calendar URL;
+ *   calendar apps cannot sign in, so the token alone grants read access
+ */
+export const notificationPreferences = pgTable("notification_preferences", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  digestFrequency: varchar("digest_frequency", { length: 10 }).notNull().default("off"), // see DigestFrequency
+  lastDigestAt: timestamp("last_digest_at"),
+  calendarToken: varchar("calendar_token", { length: 64 }).unique(),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`),
+});
+
+/**
+ * Webhook Subscriptions - Admin-managed endpoints notified of change events
+ * 
+ * - `eventTypes` lists the subscribed events (see WebhookEventType)
+ * - `secret` signs every payload with HMAC-SHA256, so receivers can verify
+ *   that a request came from this instance
+ */
+export const webhookSubscriptions = pgTable("webhook_subscriptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  url: text("url").notNull(),
+  description: varchar("description", { length: 200 }),
+  eventTypes: jsonb("event_types").$type<WebhookEventType[]>().notNull().default(sql`'[]'::jsonb`),
+  secret: varchar("secret", { length: 100 }).notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: varchar("created_by"), // User id of the admin who added it
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
   updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`),
 });
 
+/**
+ * Webhook Deliveries - Retry queue and delivery log of webhook events
+ * 
+ * One row per event and subscription. Workers claim pending rows whose
+ * `nextAttemptAt` has passed; a failed attempt is retried with exponential
+ * backoff until `maxAttempts` is reached. The response of the last attempt
+ * is kept for the admin delivery log.
+ */
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  subscriptionId: varchar("subscription_id").notNull().references(() => webhookSubscriptions.id, { onDelete: "cascade" }),
+  eventId: varchar("event_id").notNull(), // Shared by the deliveries of one event
+  eventType: varchar("event_type", { length: 40 }).notNull(), // see WebhookEventType
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // see WebhookDeliveryStatus
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(8),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+  lockedBy: varchar("locked_by"), // Worker sending the current attempt
+  lockedAt: timestamp("locked_at"),
+  responseStatus: integer("response_status"),
+  responseBody: text("response_body"), // Truncated
+  error: text("error"),
+  durationMs: integer("duration_ms"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+  queueIdx: index("idx_webhook_deliveries_queue").on(table.status, table.nextAttemptAt),
+  subscriptionIdx: index("idx_webhook_deliveries_subscription").on(table.subscriptionId, table.createdAt),
+}));
+
 // Relations
 export const mepsRelations = relations(meps, ({ many }) => ({
   committees: many(mepCommittees),
+  mandates: many(mepMandates),
+}));
+
+export const mepMandatesRelations = relations(mepMandates, ({ one }) => ({
+  mep: one(meps, {
+    fields: [mepMandates.mepId],
+    references: [meps.id],
+  }),
 }));
 
-export const committeesRelations = relations(committees, ({ many }) => ({
+export const committeesRelations = relations(committees, ({ one, many }) => ({
   members: many(mepCommittees),
   events: many(committeeEvents),
+  parent: one(committees, {
+    fields: [committees.parentCommitteeId],
+    references: [committees.id],
+    relationName: 'subcommittees',
+  }),
+  subcommittees: many(committees, { relationName: 'subcommittees' }),
+}));
+
+export const groupTransfersRelations = relations(groupTransfers, ({ one }) => ({
+  mep: one(meps, {
+    fields: [groupTransfers.mepId],
+    references: [meps.id],
+  }),
+}));
+
+export const votesRelations = relations(votes, ({ many }) => ({
+  results: many(voteResults),
+}));
+
+export const voteResultsRelations = relations(voteResults, ({ one }) => ({
+  vote: one(votes, {
+    fields: [voteResults.voteId],
+    references: [votes.id],
+  }),
+  mep: one(meps, {
+    fields: [voteResults.mepId],
+    references: [meps.id],
+  }),
+}));
+
+export const parliamentaryQuestionsRelations = relations(parliamentaryQuestions, ({ many }) => ({
+  authors: many(questionAuthors),
+}));
+
+export const mepDeclarationsRelations = relations(mepDeclarations, ({ one, many }) => ({
+  mep: one(meps, {
+    fields: [mepDeclarations.mepId],
+    references: [meps.id],
+  }),
+  items: many(declarationItems),
+}));
+
+export const declarationItemsRelations = relations(declarationItems, ({ one }) => ({
+  declaration: one(mepDeclarations, {
+    fields: [declarationItems.declarationId],
+    references: [mepDeclarations.id],
+  }),
+}));
+
+export const speechesRelations = relations(speeches, ({ one }) => ({
+  mep: one(meps, {
+    fields: [speeches.mepId],
+    references: [meps.id],
+  }),
+}));
+
+export const questionAuthorsRelations = relations(questionAuthors, ({ one }) => ({
+  question: one(parliamentaryQuestions, {
+    fields: [questionAuthors.questionId],
+    references: [parliamentaryQuestions.id],
+  }),
+  mep: one(meps, {
+    fields: [questionAuthors.mepId],
+    references: [meps.id],
+  }),
+}));
+
+export const proceduresRelations = relations(procedures, ({ many }) => ({
+  committees: many(procedureCommittees),
+  rapporteurs: many(procedureRapporteurs),
+}));
+
+export const procedureCommitteesRelations = relations(procedureCommittees, ({ one }) => ({
+  procedure: one(procedures, {
+    fields: [procedureCommittees.procedureReference],
+    references: [procedures.reference],
+  }),
+  committee: one(committees, {
+    fields: [procedureCommittees.committeeId],
+    references: [committees.id],
+  }),
+}));
+
+export const procedureRapporteursRelations = relations(procedureRapporteurs, ({ one }) => ({
+  procedure: one(procedures, {
+    fields: [procedureRapporteurs.procedureReference],
+    references: [procedures.reference],
+  }),
+  mep: one(meps, {
+    fields: [procedureRapporteurs.mepId],
+    references: [meps.id],
+  }),
+  committee: one(committees, {
+    fields: [procedureRapporteurs.committeeId],
+    references: [committees.id],
+  }),
 }));
 
 export const committeeEventsRelations = relations(committeeEvents, ({ one }) => ({
@@ -160,7 +836,7 @@ export const committeeEventsRelations = relations(committeeEvents, ({ one }) =>
   }),
 }));
 
-export const mepCommitteesRelations = relations(mepCommittees, ({ one }) => ({
+export const mepCommitteesRelations = relations(mepCommittees, ({ one, many }) => ({
   mep: one(meps, {
     fields: [mepCommittees.mepId],
     references: [meps.id],
@@ -169,20 +845,56 @@ export const mepCommitteesRelations = relations(mepCommittees, ({ one }) => ({
     fields: [mepCommittees.committeeId],
     references: [committees.id],
   }),
+  roles: many(mepCommitteeRoles),
+}));
+
+export const mepCommitteeRolesRelations = relations(mepCommitteeRoles, ({ one }) => ({
+  membership: one(mepCommittees, {
+    fields: [mepCommitteeRoles.membershipId],
+    references: [mepCommittees.id],
+  }),
 }));
 
 // Insert schemas
 export const insertMepSchema = createInsertSchema(meps).omit({
+  questionsCount: true,
+  reportsCount: true,
+  speechesCount: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertMepMandateSchema = createInsertSchema(mepMandates).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertCommitteeSchema = createInsertSchema(committees).omit({
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertMepFieldProvenanceSchema = createInsertSchema(mepFieldProvenance).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertSourcePrecedenceRuleSchema = createInsertSchema(sourcePrecedenceRules).omit({
+  updatedAt: true,
+});
+
+export const insertFieldConflictSchema = createInsertSchema(fieldConflicts).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertMepCommitteeSchema = createInsertSchema(mepCommittees).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertMepCommitteeRoleSchema = createInsertSchema(mepCommitteeRoles).omit({
+  id: true,
   createdAt: true,
 });
 
@@ -191,44 +903,282 @@ export const insertDataUpdateSchema = createInsertSchema(dataUpdates).omit({
   startedAt: true,
 });
 
+export const insertSyncStateSchema = createInsertSchema(syncState).omit({
+  updatedAt: true,
+});
+
+export const insertSyncPlanSchema = createInsertSchema(syncPlans).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSyncPlanChangeSchema = createInsertSchema(syncPlanChanges).omit({
+  id: true,
+  planId: true,
+});
+
+export const insertJobSchema = createInsertSchema(jobs).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSyncScheduleSchema = createInsertSchema(syncSchedules).omit({
+  updatedAt: true,
+});
+
 export const insertChangeLogSchema = createInsertSchema(changeLog).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertGroupTransferSchema = createInsertSchema(groupTransfers).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertVoteSchema = createInsertSchema(votes).omit({
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertVoteResultSchema = createInsertSchema(voteResults).omit({
+  id: true,
+});
+
+export const insertParliamentaryQuestionSchema = createInsertSchema(parliamentaryQuestions).omit({
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertMepDeclarationSchema = createInsertSchema(mepDeclarations).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertDeclarationItemSchema = createInsertSchema(declarationItems).omit({
+  id: true,
+  declarationId: true,
+});
+
+export const insertSpeechSchema = createInsertSchema(speeches).omit({
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertProcedureSchema = createInsertSchema(procedures).omit({
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertProcedureCommitteeSchema = createInsertSchema(procedureCommittees).omit({
+  id: true,
+});
+
+export const insertProcedureRapporteurSchema = createInsertSchema(procedureRapporteurs).omit({
+  id: true,
+});
+
 export const insertCommitteeEventSchema = createInsertSchema(committeeEvents).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertWatchlistEntrySchema = createInsertSchema(watchlistEntries).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertNotificationPreferencesSchema = createInsertSchema(notificationPreferences).omit({
+  updatedAt: true,
+});
+
+export const insertWebhookSubscriptionSchema = createInsertSchema(webhookSubscriptions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Types
 export type MEP = typeof meps.$inferSelect;
 export type InsertMEP = z.infer<typeof insertMepSchema>;
+export type MEPMandate = typeof mepMandates.$inferSelect;
+export type InsertMEPMandate = z.infer<typeof insertMepMandateSchema>;
+export type MEPFieldProvenance = typeof mepFieldProvenance.$inferSelect;
+export type InsertMEPFieldProvenance = z.infer<typeof insertMepFieldProvenanceSchema>;
+export type ProvenanceSource = 'eu_parliament_api' | 'opensanctions' | 'seat_count_adjustment' | 'data_cleanup' | 'fix_script';
+/** Origin of the values written by one sync step */
+export type ProvenanceInfo = {
+  source: ProvenanceSource;
+  sourceUrl?: string | null;
+  fetchedAt?: Date;
+};
+export type SourcePrecedenceRule = typeof sourcePrecedenceRules.$inferSelect;
+export type InsertSourcePrecedenceRule = z.infer<typeof insertSourcePrecedenceRuleSchema>;
+export type FieldConflict = typeof fieldConflicts.$inferSelect;
+export type InsertFieldConflict = z.infer<typeof insertFieldConflictSchema>;
 export type Committee = typeof committees.$inferSelect;
 export type InsertCommittee = z.infer<typeof insertCommitteeSchema>;
+export type CommitteeType = 'standing' | 'subcommittee' | 'special' | 'inquiry' | 'delegation' | 'joint';
 export type MEPCommittee = typeof mepCommittees.$inferSelect;
 export type InsertMEPCommittee = z.infer<typeof insertMepCommitteeSchema>;
+export type MembershipSource = 'ep_corporate_body' | 'ep_profile' | 'unverified';
+export type MEPCommitteeRole = typeof mepCommitteeRoles.$inferSelect;
+export type InsertMEPCommitteeRole = z.infer<typeof insertMepCommitteeRoleSchema>;
 export type DataUpdate = typeof dataUpdates.$inferSelect;
 export type InsertDataUpdate = z.infer<typeof insertDataUpdateSchema>;
+export type SyncState = typeof syncState.$inferSelect;
+export type InsertSyncState = z.infer<typeof insertSyncStateSchema>;
+export type SyncPlan = typeof syncPlans.$inferSelect;
+export type InsertSyncPlan = z.infer<typeof insertSyncPlanSchema>;
+export type SyncPlanChange = typeof syncPlanChanges.$inferSelect;
+export type InsertSyncPlanChange = z.infer<typeof insertSyncPlanChangeSchema>;
+export type SyncPlanStatus = 'pending' | 'approved' | 'applied' | 'failed' | 'rejected' | 'superseded';
+
+export type SyncPlanAction = 'create_mep' | 'update_mep' | 'deactivate_mep' | 'create_committee' | 'open_membership' | 'change_role';
+/** Planned change counts per action, plus records left untouched */
+export type SyncPlanSummary = Record<SyncPlanAction, number> & {
+  unchanged: number;
+};
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type JobType = 'syncAll' | 'syncMEPs' | 'syncCommittees' | 'syncEvents' | 'syncMemberships' | 'syncOpenSanctions' | 'applySyncPlan' | 'cleanup' | 'qualityReport' | 'sendDigests';
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type SyncSchedule = typeof syncSchedules.$inferSelect;
+export type InsertSyncSchedule = z.infer<typeof insertSyncScheduleSchema>;
+export type SyncScheduleStage = 'meps' | 'committees' | 'events' | 'memberships' | 'opensanctions' | 'quality_report' | 'daily_digest' | 'weekly_digest';
+/** Single field difference recorded in a change log entry */
+export type FieldChange = {
+  field: string;
+  before: unknown;
+  after: unknown;
+};
+
 export type ChangeLog = typeof changeLog.$inferSelect;
 export type InsertChangeLog = z.infer<typeof insertChangeLogSchema>;
+export type GroupTransfer = typeof groupTransfers.$inferSelect;
+export type InsertGroupTransfer = z.infer<typeof insertGroupTransferSchema>;
+export type Vote = typeof votes.$inferSelect;
+export type InsertVote = z.infer<typeof insertVoteSchema>;
+export type VoteResult = typeof voteResults.$inferSelect;
+export type InsertVoteResult = z.infer<typeof insertVoteResultSchema>;
+export type VotePosition = 'for' | 'against' | 'abstain' | 'absent';
+export type ParliamentaryQuestion = typeof parliamentaryQuestions.$inferSelect;
+export type InsertParliamentaryQuestion = z.infer<typeof insertParliamentaryQuestionSchema>;
+export type MEPDeclaration = typeof mepDeclarations.$inferSelect;
+export type InsertMEPDeclaration = z.infer<typeof insertMepDeclarationSchema>;
+export type DeclarationItem = typeof declarationItems.$inferSelect;
+export type InsertDeclarationItem = z.infer<typeof insertDeclarationItemSchema>;
+export type DeclarationItemCategory = 'outside_activity' | 'holding' | 'other';
+export type Speech = Omit<typeof speeches.$inferSelect, 'searchVector'>;
+export type InsertSpeech = z.infer<typeof insertSpeechSchema>;
+export type Procedure = typeof procedures.$inferSelect;
+export type InsertProcedure = z.infer<typeof insertProcedureSchema>;
+export type ProcedureCommittee = typeof procedureCommittees.$inferSelect;
+export type InsertProcedureCommittee = z.infer<typeof insertProcedureCommitteeSchema>;
+export type ProcedureRapporteur = typeof procedureRapporteurs.$inferSelect;
+export type InsertProcedureRapporteur = z.infer<typeof insertProcedureRapporteurSchema>;
 export type CommitteeEvent = typeof committeeEvents.$inferSelect;
 export type InsertCommitteeEvent = z.infer<typeof insertCommitteeEventSchema>;
+export type WatchlistEntry = typeof watchlistEntries.$inferSelect;
+export type InsertWatchlistEntry = z.infer<typeof insertWatchlistEntrySchema>;
+export type WatchEntityType = 'mep' | 'committee';
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+export type InsertNotificationPreferences = z.infer<typeof insertNotificationPreferencesSchema>;
+export type DigestFrequency = 'off' | 'daily' | 'weekly';
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+export type InsertWebhookSubscription = z.infer<typeof insertWebhookSubscriptionSchema>;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
+export type WebhookEventType = 'mep.created' | 'mep.updated' | 'membership.added' | 'committee_event.created' | 'sync.failed';
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
 
 // Extended types for API responses
 export type MEPWithCommittees = MEP & {
   committees: (MEPCommittee & { committee: Committee })[];
 };
 
+export type MEPWithMandates = MEPWithCommittees & {
+  mandates: MEPMandate[];
+};
+
+export type FieldConflictWithMEP = FieldConflict & {
+  mep: Pick<MEP, 'id' | 'fullName' | 'country'>;
+};
+
+/** Provenance of each MEP field, keyed by field name */
+export type MEPProvenanceMap = Record<string, Pick<MEPFieldProvenance, 'source' | 'sourceUrl' | 'fetchedAt'>>;
+
 export type CommitteeWithMembers = Committee & {
   members: (MEPCommittee & { mep: MEP })[];
 };
 
+export type GroupTransferWithMEP = GroupTransfer & {
+  mep: MEP;
+};
+
 export type CommitteeWithEvents = Committee & {
   events: CommitteeEvent[];
 };
 
+/** A followed entity with its display name (MEP full name or committee name) */
+export type WatchlistItem = WatchlistEntry & {
+  name: string | null;
+  code: string | null; // Committee code, null for MEPs
+};
+
+/** Entry of the "My changes" feed, ordered by `occurredAt` */
+export type WatchlistFeedItem =
+  | { kind: 'change'; occurredAt: Date; change: ChangeLog }
+  | { kind: 'event'; occurredAt: Date; event: CommitteeEvent; committee: Pick<Committee, 'id' | 'code' | 'name'> };
+
+/** A committee event with the committee it belongs to, as published in calendars */
+export type CalendarEvent = {
+  event: CommitteeEvent;
+  committee: Pick<Committee, 'id' | 'code' | 'name'>;
+};
+
+/** A webhook subscription with counts from its delivery log */
+export type WebhookSubscriptionWithStats = WebhookSubscription & {
+  pendingDeliveries: number;
+  failedDeliveries: number;
+  lastDeliveredAt: Date | null;
+};
+
+export type QuestionWithAuthors = ParliamentaryQuestion & {
+  authors: MEP[];
+};
+
+export type DeclarationWithItems = MEPDeclaration & {
+  version: number; // 1-based position in declaration date order
+  items: DeclarationItem[];
+};
+
+export type SpeechSearchResult = Speech & {
+  mep: Pick<MEP, 'id' | 'fullName' | 'country' | 'politicalGroupAbbr' | 'photoUrl'>;
+  snippet: string; // ts_headline excerpt, matches wrapped in <mark>
+  rank: number;
+};
+
+export type SyncPlanWithChanges = SyncPlan & {
+  changes: SyncPlanChange[];
+};
+
+export type ProcedureWithDetails = Procedure & {
+  committees: (ProcedureCommittee & { committee: Committee })[];
+  rapporteurs: (ProcedureRapporteur & { mep: MEP; committee: Committee | null })[];
+};
+
+export type CommitteeProcedure = Procedure & {
+  role: string;
+};
+
 // Session storage table.
 // (IMPORTANT) This table is mandatory for Replit Auth, don't drop it.
 export const sessions = pgTable(